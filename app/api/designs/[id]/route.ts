@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { DesignStore } from '@/services/designStore';
+import { validateDesignInput } from '@/utils/designValidation';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const design = await DesignStore.get(params.id);
+    if (!design) {
+      return NextResponse.json(
+        { success: false, error: 'Design not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, design });
+  } catch (error) {
+    console.error('Design Load Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+
+    // Only the fields sent are updated
+    const validationError = validateDesignInput(body, false);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const design = await DesignStore.update(params.id, {
+      ...(body.name !== undefined ? { name: body.name.trim() } : {}),
+      ...(body.formData !== undefined ? { formData: body.formData } : {}),
+      ...(body.layout !== undefined ? { layout: body.layout } : {}),
+      ...(body.tourWaypoints !== undefined ? { tourWaypoints: body.tourWaypoints } : {})
+    });
+
+    if (!design) {
+      return NextResponse.json(
+        { success: false, error: 'Design not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, design });
+  } catch (error) {
+    console.error('Design Update Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const deleted = await DesignStore.remove(params.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Design not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Design Delete Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { DesignStore } from '@/services/designStore';
+import { validateDesignInput } from '@/utils/designValidation';
+
+export async function GET() {
+  try {
+    const designs = await DesignStore.list();
+    return NextResponse.json({ success: true, designs });
+  } catch (error) {
+    console.error('Design List Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Validate design structure
+    const validationError = validateDesignInput(body, true);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const design = await DesignStore.create({
+      name: body.name.trim(),
+      formData: body.formData,
+      layout: body.layout,
+      tourWaypoints: body.tourWaypoints
+    });
+
+    return NextResponse.json({ success: true, design }, { status: 201 });
+  } catch (error) {
+    console.error('Design Save Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
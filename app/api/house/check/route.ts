@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { BuildingCode } from '@/services/buildingCode';
+import { validateLayout } from '@/utils/layoutValidation';
+import { HouseLayout, BuildingCodeLimits } from '@/types/house';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Validate layout structure
+    const layoutError = validateLayout(body && body.layout);
+    if (layoutError) {
+      return NextResponse.json(
+        { success: false, error: layoutError },
+        { status: 400 }
+      );
+    }
+
+    const layout: HouseLayout = body.layout;
+    const limits: Partial<BuildingCodeLimits> | undefined = body.limits;
+
+    const limitsError = limits === undefined ? null : BuildingCode.validateLimits(limits);
+    if (limitsError) {
+      return NextResponse.json(
+        { success: false, error: limitsError },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      report: BuildingCode.check(layout, limits),
+      limits: { ...BuildingCode.DEFAULT_LIMITS, ...limits }
+    });
+  } catch (error) {
+    console.error('Building Code Check Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { CostEstimator } from '@/services/costEstimator';
+import { RateStore } from '@/services/rateStore';
+import { validateLayout } from '@/utils/layoutValidation';
+import { HouseLayout } from '@/types/house';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Validate layout structure
+    const layoutError = validateLayout(body && body.layout);
+    if (layoutError) {
+      return NextResponse.json(
+        { success: false, error: layoutError },
+        { status: 400 }
+      );
+    }
+
+    const layout: HouseLayout = body.layout;
+    const format: string = body.format || 'json';
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be "json" or "csv"' },
+        { status: 400 }
+      );
+    }
+
+    const ratesError = body.rates === undefined ? null : CostEstimator.validateRates(body.rates);
+    if (ratesError) {
+      return NextResponse.json(
+        { success: false, error: ratesError },
+        { status: 400 }
+      );
+    }
+
+    // Rates sent with the request apply to this estimate only, over the saved ones
+    const saved = await RateStore.get();
+    const rates = body.rates
+      ? CostEstimator.mergeRates({ currency: body.rates.currency ?? saved.currency, rates: { ...saved.rates, ...body.rates.rates } })
+      : saved;
+    const estimate = CostEstimator.estimate(layout, rates);
+
+    if (format === 'csv') {
+      return new NextResponse(CostEstimator.toCsv(estimate), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="bill-of-quantities.csv"'
+        }
+      });
+    }
+
+    return NextResponse.json({ success: true, estimate, rates });
+  } catch (error) {
+    console.error('Cost Estimate Error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { buildHouseScene } from '@/utils/houseScene';
+import { encodeGLB } from '@/utils/glbWriter';
+import { validateLayout } from '@/utils/layoutValidation';
+import { HouseLayout } from '@/types/house';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Validate layout structure
+    const layoutError = validateLayout(body && body.layout);
+    if (layoutError) {
+      return NextResponse.json(
+        { success: false, error: layoutError },
+        { status: 400 }
+      );
+    }
+
+    const layout: HouseLayout = body.layout;
+
+    // Build the scene headlessly and encode it as binary glTF
+    const glb = encodeGLB(buildHouseScene(layout));
+
+    return new NextResponse(glb, {
+      status: 200,
+      headers: {
+        'Content-Type': 'model/gltf-binary',
+        'Content-Disposition': 'attachment; filename="house-design.glb"'
+      }
+    });
+  } catch (error) {
+    console.error('GLB Export Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
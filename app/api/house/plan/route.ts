@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { buildFloorPlanSheet, buildFloorPlanSheets, renderFloorPlanSvg } from '@/utils/floorPlan';
+import { renderPlanPdf } from '@/utils/pdfWriter';
+import { validateLayout } from '@/utils/layoutValidation';
+import { HouseLayout } from '@/types/house';
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Validate layout structure
+    const layoutError = validateLayout(body && body.layout);
+    if (layoutError) {
+      return NextResponse.json(
+        { success: false, error: layoutError },
+        { status: 400 }
+      );
+    }
+
+    const layout: HouseLayout = body.layout;
+    const format: string = body.format || 'pdf';
+    const floor: number | undefined = body.floor;
+
+    if (format !== 'svg' && format !== 'pdf') {
+      return NextResponse.json(
+        { success: false, error: 'Format must be "svg" or "pdf"' },
+        { status: 400 }
+      );
+    }
+
+    if (floor !== undefined && (!Number.isInteger(floor) || floor < 0 || floor >= layout.floors)) {
+      return NextResponse.json(
+        { success: false, error: `Floor must be between 0 and ${layout.floors - 1}` },
+        { status: 400 }
+      );
+    }
+
+    // An SVG holds a single sheet, so it defaults to the ground floor
+    if (format === 'svg') {
+      const svg = renderFloorPlanSvg(buildFloorPlanSheet(layout, floor ?? 0));
+      return new NextResponse(svg, {
+        status: 200,
+        headers: {
+          'Content-Type': 'image/svg+xml',
+          'Content-Disposition': `attachment; filename="floor-plan-${(floor ?? 0) + 1}.svg"`
+        }
+      });
+    }
+
+    const sheets = floor === undefined ? buildFloorPlanSheets(layout) : [buildFloorPlanSheet(layout, floor)];
+
+    return new NextResponse(renderPlanPdf(sheets), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'attachment; filename="floor-plan.pdf"'
+      }
+    });
+  } catch (error) {
+    console.error('Floor Plan Export Error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,14 @@
 import { NextResponse } from 'next/server';
 import { HouseGenerator } from '@/services/houseGenerator';
-import { HouseFormData } from '@/types/house';
+import { LayoutError } from '@/services/layoutEngine';
+import { BuildingCode } from '@/services/buildingCode';
+import { RoofGenerator } from '@/services/roofGenerator';
+import { HouseFormData, HouseGenerationResponse } from '@/types/house';
+import { isValidSeed, randomSeed } from '@/utils/random';
+import { parsePlotSize, validatePlotSize } from '@/utils/units';
+import { validateSite } from '@/utils/plot';
+
+const MAX_VARIANTS = 6;
 
 export async function GET() {
   return NextResponse.json({ message: 'House API is working' });
@@ -19,13 +27,41 @@ export async function POST(request: Request) {
       bathrooms: parseInt(body.bathrooms) || 1,
       kitchens: parseInt(body.kitchens) || 1,
       locationType: body.locationType || 'city',
-      extraNotes: body.extraNotes || ''
+      extraNotes: body.extraNotes || '',
+      plotShape: body.plotShape,
+      plotBoundary: body.plotBoundary,
+      setbacks: body.setbacks,
+      roof: body.roof
     };
 
     // Validate form data
-    if (!formData.plotSize.trim()) {
+    const plotSizeError = validatePlotSize(String(formData.plotSize));
+    if (plotSizeError) {
       return NextResponse.json(
-        { success: false, error: 'Plot size is required' },
+        { success: false, error: plotSizeError },
+        { status: 400 }
+      );
+    }
+
+    if (formData.setbacks !== undefined && (!formData.setbacks || typeof formData.setbacks !== 'object')) {
+      return NextResponse.json(
+        { success: false, error: 'Setbacks must be an object with front, rear and side distances in meters' },
+        { status: 400 }
+      );
+    }
+
+    const siteError = validateSite(formData);
+    if (siteError) {
+      return NextResponse.json(
+        { success: false, error: siteError },
+        { status: 400 }
+      );
+    }
+
+    const roofError = formData.roof === undefined ? null : RoofGenerator.validateSpec(formData.roof);
+    if (roofError) {
+      return NextResponse.json(
+        { success: false, error: roofError },
         { status: 400 }
       );
     }
@@ -51,8 +87,43 @@ export async function POST(request: Request) {
       );
     }
 
+    if (body.seed !== undefined && !isValidSeed(body.seed)) {
+      return NextResponse.json(
+        { success: false, error: 'Seed must be a whole number from 0 to 4294967295' },
+        { status: 400 }
+      );
+    }
+
+    const variantCount = body.variants === undefined ? 1 : body.variants;
+    if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > MAX_VARIANTS) {
+      return NextResponse.json(
+        { success: false, error: `Variants must be between 1 and ${MAX_VARIANTS}` },
+        { status: 400 }
+      );
+    }
+
+    const seed: number = body.seed === undefined ? randomSeed() : body.seed;
+    const { displayUnit } = parsePlotSize(formData.plotSize);
+
+    if (variantCount > 1) {
+      // Several distinct layouts for side-by-side comparison; the first is the seed's own
+      const variants = HouseGenerator.generateVariants(formData, variantCount, seed);
+      const response: HouseGenerationResponse = {
+        success: true,
+        layout: variants[0].layout,
+        tourWaypoints: variants[0].tourWaypoints,
+        seed: variants[0].seed,
+        variants,
+        notes: variants[0].notes,
+        adjacency: variants[0].adjacency,
+        codeReport: BuildingCode.check(variants[0].layout),
+        displayUnit
+      };
+      return NextResponse.json(response, { status: 200 });
+    }
+
     // Generate house layout using the HouseGenerator service
-    const houseLayout = HouseGenerator.generateHouse(formData);
+    const houseLayout = HouseGenerator.generateHouse(formData, seed);
     
     // Generate tour waypoints
     const tourWaypoints = HouseGenerator.generateTourWaypoints(
@@ -64,14 +135,27 @@ export async function POST(request: Request) {
       }
     );
 
-    const response = {
+    const response: HouseGenerationResponse = {
       success: true,
       layout: houseLayout,
-      tourWaypoints: tourWaypoints
+      tourWaypoints: tourWaypoints,
+      seed,
+      notes: HouseGenerator.reportNotes(formData, houseLayout),
+      adjacency: HouseGenerator.scoreAdjacency(formData, houseLayout),
+      codeReport: BuildingCode.check(houseLayout),
+      displayUnit
     };
 
     return NextResponse.json(response, { status: 200 });
   } catch (error) {
+    // Rooms the plot cannot hold are a problem with the request, not the server
+    if (error instanceof LayoutError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
     console.error('API Error:', error);
     return NextResponse.json(
       { 
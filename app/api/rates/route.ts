@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { CostEstimator } from '@/services/costEstimator';
+import { RateStore } from '@/services/rateStore';
+
+export async function GET() {
+  try {
+    const rates = await RateStore.get();
+    return NextResponse.json({ success: true, rates });
+  } catch (error) {
+    console.error('Rate Table Load Error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const body = await request.json();
+
+    // Validate rate table structure
+    const validationError = CostEstimator.validateRates(body);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const rates = await RateStore.update({ currency: body.currency, rates: body.rates });
+    return NextResponse.json({ success: true, rates });
+  } catch (error) {
+    console.error('Rate Table Save Error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    const rates = await RateStore.reset();
+    return NextResponse.json({ success: true, rates });
+  } catch (error) {
+    console.error('Rate Table Reset Error:', error);
+    return NextResponse.json(
+      { 
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
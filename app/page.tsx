@@ -1,14 +1,31 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import HouseDesignForm from '@/components/HouseDesignForm';
 import House3DViewer from '@/components/House3DViewer';
+import FloorPlanView from '@/components/FloorPlanView';
+import DesignGallery from '@/components/DesignGallery';
+import VariantComparison from '@/components/VariantComparison';
+import NotesSummary from '@/components/NotesSummary';
+import AdjacencyScores from '@/components/AdjacencyScores';
+import BuildingCodeReport from '@/components/BuildingCodeReport';
+import CostEstimatePanel from '@/components/CostEstimatePanel';
+import DesignHistoryPanel from '@/components/DesignHistoryPanel';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { LoadingOverlay, FullPageLoading } from '@/components/LoadingComponents';
-import { HouseFormData, HouseLayout, TourWaypoint } from '@/types/house';
+import { HouseFormData, HouseLayout, TourWaypoint, SavedDesign, DesignInput, HouseVariant, NotesReport, AdjacencyReport, LengthUnit, CodeIssue } from '@/types/house';
+import { ViewerContext, CAPTURE_RESOLUTIONS, captureView, exportSceneAsGLB, exportFloorPlanPDF, downloadBlob } from '@/utils/exporters';
+import { loadDesign, createDesign, updateDesign } from '@/utils/designApi';
+import { buildStoredShareUrl, buildEmbeddedShareUrl, parseShareLocation } from '@/utils/shareLinks';
+import { validatePlotSize, preferredUnit } from '@/utils/units';
+import { BuildingCode } from '@/services/buildingCode';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { DesignHistory, DesignVersion, DesignChange, createHistory, recordChange, undoChange, redoChange, canUndo, canRedo, takeSnapshot, deleteSnapshot, listVersions, compareLayouts } from '@/utils/designHistory';
 import { Home, RotateCcw, Download, Share2, AlertCircle } from 'lucide-react';
 
+const VARIANT_COUNT = 4; // Layouts shown side by side by "Compare Variants"
+
 /**
  * Main Page Component
  * AI House Designer - Complete house design application
@@ -19,18 +36,155 @@ export default function HomePage() {
   const [tourWaypoints, setTourWaypoints] = useState<TourWaypoint[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [showForm, setShowForm] = useState(true);
+  const [formData, setFormData] = useState<HouseFormData | null>(null);
+  const [savedDesign, setSavedDesign] = useState<{ id: string; name: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [sharedDesign, setSharedDesign] = useState<{ name: string } | null>(null); // Set while viewing someone's shared link
+  const [galleryVersion, setGalleryVersion] = useState(0);
+  const [seed, setSeed] = useState<number | null>(null); // Seed of the generated layout; unknown for saved and shared designs
+  const [variants, setVariants] = useState<HouseVariant[] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [notesReport, setNotesReport] = useState<NotesReport | null>(null); // Only known right after generating
+  const [adjacency, setAdjacency] = useState<AdjacencyReport | null>(null); // Room arrangement scores of a generated layout
+  const [displayUnit, setDisplayUnit] = useState<LengthUnit>('m'); // Follows the units the plot size was entered in
+  const [selectedIssue, setSelectedIssue] = useState<number | null>(null); // Building code issue whose rooms are highlighted
+  const [history, setHistory] = useState<DesignHistory>(createHistory);
+  const [comparing, setComparing] = useState<{ from: string; to: string } | null>(null); // Version keys shown against each other in the viewer
+
+  // The design as it stands, to record in the history before it changes
+  const currentVersion = useMemo<DesignVersion | null>(() => (
+    houseLayout && formData
+      ? { layout: houseLayout, tourWaypoints, formData, seed, notes: notesReport, adjacency }
+      : null
+  ), [houseLayout, tourWaypoints, formData, seed, notesReport, adjacency]);
+
+  // Versions picked for comparison; the viewer shows the second with the rooms that differ from the first marked
+  const comparison = useMemo(() => {
+    if (!comparing) {
+      return null;
+    }
+    const versions = listVersions(history);
+    const from = versions.find(v => v.key === comparing.from);
+    const to = versions.find(v => v.key === comparing.to);
+    return from && to ? { from, to, changes: compareLayouts(from.version.layout, to.version.layout) } : null;
+  }, [comparing, history]);
+
+  // Checked here rather than taken from the API so saved and shared designs get a report too
+  const codeReport = useMemo(() => (houseLayout ? BuildingCode.check(houseLayout) : null), [houseLayout]);
+
+  // Rooms of the picked issue, or of every issue with violations winning over warnings
+  const highlights = useMemo(() => {
+    const rooms: Record<string, CodeIssue['severity']> = {};
+    const issues = codeReport ? codeReport.issues : [];
+    (selectedIssue !== null && issues[selectedIssue] ? [issues[selectedIssue]] : issues).forEach(issue => {
+      issue.roomIds.forEach(id => {
+        if (rooms[id] !== 'violation') {
+          rooms[id] = issue.severity;
+        }
+      });
+    });
+    return rooms;
+  }, [codeReport, selectedIssue]);
+
+  useEffect(() => {
+    setSelectedIssue(null);
+  }, [houseLayout]);
+  const viewerRef = useRef<ViewerContext | null>(null);
+
+  const handleSceneReady = useCallback((context: ViewerContext) => {
+    viewerRef.current = context;
+  }, []);
+
+  /**
+   * Show one version of the design
+   */
+  const showVersion = useCallback((version: DesignVersion) => {
+    setHouseLayout(version.layout);
+    setTourWaypoints(version.tourWaypoints);
+    setFormData(version.formData);
+    setSeed(version.seed);
+    setNotesReport(version.notes);
+    setAdjacency(version.adjacency);
+  }, []);
+
+  /**
+   * Show a changed version of the design and record the change, so it can be undone
+   */
+  const commitVersion = useCallback((kind: DesignChange, label: string, version: DesignVersion) => {
+    setHistory(prev => recordChange(prev, kind, label, currentVersion, version));
+    showVersion(version);
+    setHasUnsavedChanges(true);
+  }, [currentVersion, showVersion]);
+
+  const handleUndo = useCallback(() => {
+    const step = undoChange(history);
+    if (step) {
+      setHistory(step.history);
+      showVersion(step.version);
+      setHasUnsavedChanges(true);
+    }
+  }, [history, showVersion]);
+
+  const handleRedo = useCallback(() => {
+    const step = redoChange(history);
+    if (step) {
+      setHistory(step.history);
+      showVersion(step.version);
+      setHasUnsavedChanges(true);
+    }
+  }, [history, showVersion]);
+
+  // Undo and redo from the keyboard while a design of one's own is shown
+  useEffect(() => {
+    if (showForm || sharedDesign || comparing) {
+      return;
+    }
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA' || !(event.ctrlKey || event.metaKey)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        event.preventDefault();
+        if (key === 'y' || event.shiftKey) {
+          handleRedo();
+        } else {
+          handleUndo();
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [showForm, sharedDesign, comparing, handleUndo, handleRedo]);
+
+  const handleSnapshot = (name: string) => {
+    if (currentVersion) {
+      setHistory(prev => takeSnapshot(prev, name, currentVersion));
+    }
+  };
+
+  const handleRestoreSnapshot = (id: number) => {
+    const snapshot = history.snapshots.find(s => s.id === id);
+    if (snapshot) {
+      commitVersion('restore', `Restored "${snapshot.name}"`, snapshot.version);
+    }
+  };
 
   /**
-   * Handle form submission and generate house
+   * Handle form submission and generate house. Without a seed the server
+   * picks a fresh one, so every submission gives a new layout.
    */
-  const handleFormSubmit = async (formData: HouseFormData) => {
+  const handleFormSubmit = async (formData: HouseFormData, seed?: number) => {
     setIsLoading(true);
     setError(null);
 
     try {
       // Client-side validation
-      if (!formData.plotSize?.trim()) {
-        throw new Error('Plot size is required');
+      const plotSizeError = validatePlotSize(formData.plotSize || '');
+      if (plotSizeError) {
+        throw new Error(plotSizeError);
       }
 
       if (formData.bedrooms < 1 || formData.bedrooms > 10) {
@@ -50,7 +204,7 @@ export default function HomePage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, seed }),
       });
 
       // Check if response is ok first
@@ -100,8 +254,24 @@ export default function HomePage() {
         throw new Error('Invalid house layout structure');
       }
 
-      setHouseLayout(data.layout);
-      setTourWaypoints(data.tourWaypoints || []);
+      const version: DesignVersion = {
+        layout: data.layout,
+        tourWaypoints: data.tourWaypoints || [],
+        formData,
+        seed: data.seed ?? null,
+        notes: data.notes || null,
+        adjacency: data.adjacency || null
+      };
+      if (currentVersion) {
+        const sameInputs = JSON.stringify(formData) === JSON.stringify(currentVersion.formData);
+        commitVersion('regenerate', sameInputs ? 'Regenerated the layout' : 'Regenerated with new inputs', version);
+      } else {
+        setHistory(recordChange(createHistory(), 'generate', 'Generated the layout', null, version));
+        showVersion(version);
+      }
+      setDisplayUnit(data.displayUnit || preferredUnit(formData.plotSize));
+      setVariants(null);
+      setHasUnsavedChanges(true);
       setShowForm(false);
       
     } catch (err) {
@@ -129,14 +299,227 @@ export default function HomePage() {
     }
   };
 
+  /**
+   * Generate a new layout from the same form data with a fresh seed. A saved
+   * design stays selected, so saving afterwards updates it.
+   */
+  const handleRegenerate = () => {
+    if (formData) {
+      handleFormSubmit(formData);
+    }
+  };
+
+  /**
+   * Generate several layouts for the same form data to compare side by side
+   */
+  const handleCompareVariants = async () => {
+    if (!formData) {
+      return;
+    }
+
+    setIsComparing(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/house', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...formData, variants: VARIANT_COUNT }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || `Server error (${response.status})`);
+      }
+      setVariants(data.variants);
+    } catch (err) {
+      console.error('Variant generation error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate variants');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  /**
+   * Continue with one of the compared variants
+   */
+  const handleSelectVariant = (variant: HouseVariant) => {
+    if (!formData) {
+      return;
+    }
+    commitVersion('variant', `Picked the variant with seed ${variant.seed}`, {
+      layout: variant.layout,
+      tourWaypoints: variant.tourWaypoints,
+      formData,
+      seed: variant.seed,
+      notes: variant.notes,
+      adjacency: variant.adjacency
+    });
+  };
+
+  /**
+   * Keep furniture and room edits made in the viewer, so saving and exports include them.
+   * Rooms may have moved, so the tour and any room scores follow them.
+   */
+  const handleLayoutEdit = useCallback((layout: HouseLayout, description: string) => {
+    if (!currentVersion) {
+      return;
+    }
+    const { formData, notes, adjacency } = currentVersion;
+    commitVersion('edit', description, {
+      layout,
+      tourWaypoints: HouseGenerator.generateTourWaypoints(layout.rooms, layout),
+      formData,
+      seed: currentVersion.seed,
+      notes: notes && HouseGenerator.reportNotes(formData, layout),
+      adjacency: adjacency && HouseGenerator.scoreAdjacency(formData, layout)
+    });
+  }, [currentVersion, commitVersion]);
+
+  /**
+   * Show a saved design and remember it in the URL, so a refresh reopens it
+   */
+  const openDesign = useCallback((design: SavedDesign) => {
+    const version: DesignVersion = { layout: design.layout, tourWaypoints: design.tourWaypoints, formData: design.formData, seed: null, notes: null, adjacency: null };
+    showVersion(version);
+    setHistory(recordChange(createHistory(), 'open', `Opened "${design.name}"`, null, version));
+    setComparing(null);
+    setDisplayUnit(preferredUnit(design.formData.plotSize));
+    setVariants(null);
+    setSavedDesign({ id: design.id, name: design.name });
+    setSharedDesign(null);
+    setHasUnsavedChanges(false);
+    setError(null);
+    setShowForm(false);
+    window.history.replaceState(null, '', `?design=${encodeURIComponent(design.id)}`);
+  }, [showVersion]);
+
+  /**
+   * Show a design from a share link, read-only until it is forked
+   */
+  const openSharedDesign = useCallback((design: DesignInput) => {
+    const version: DesignVersion = { layout: design.layout, tourWaypoints: design.tourWaypoints, formData: design.formData, seed: null, notes: null, adjacency: null };
+    showVersion(version);
+    setHistory(recordChange(createHistory(), 'open', `Opened shared design "${design.name}"`, null, version));
+    setComparing(null);
+    setDisplayUnit(preferredUnit(design.formData.plotSize));
+    setVariants(null);
+    setSavedDesign(null);
+    setSharedDesign({ name: design.name });
+    setHasUnsavedChanges(false);
+    setError(null);
+    setShowForm(false);
+  }, [showVersion]);
+
+  // Open a share link, or reopen the design named in the URL after a refresh
+  useEffect(() => {
+    const fail = (err: unknown) => {
+      console.error('Design load error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the design');
+      window.history.replaceState(null, '', window.location.pathname);
+    };
+
+    const open = async () => {
+      const link = await parseShareLocation(window.location);
+      if (link?.kind === 'embedded') {
+        openSharedDesign(link.design);
+        return;
+      }
+
+      const storedId = link ? link.id : new URLSearchParams(window.location.search).get('design');
+      if (storedId) {
+        const design = await loadDesign(storedId);
+        if (link) {
+          openSharedDesign(design);
+        } else {
+          openDesign(design);
+        }
+      }
+    };
+
+    setIsLoading(true);
+    open()
+      .catch(fail)
+      .finally(() => setIsLoading(false));
+  }, [openDesign, openSharedDesign]);
+
+  /**
+   * Turn the shared design being viewed into an editable design of one's own
+   */
+  const handleFork = async () => {
+    if (!sharedDesign || !houseLayout || !formData) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      openDesign(await createDesign({ name: `${sharedDesign.name} (copy)`, formData, layout: houseLayout, tourWaypoints }));
+      setGalleryVersion(version => version + 1);
+    } catch (err) {
+      // Still allow editing locally; the copy can be saved later
+      console.error('Fork error:', err);
+      setSharedDesign(null);
+      setHasUnsavedChanges(true);
+      window.history.replaceState(null, '', window.location.pathname);
+      alert('The copy could not be saved yet, but you can edit it and press "Save Design" later');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Save the current design to the design store, updating it if it was saved before
+   */
+  const handleSaveDesign = async () => {
+    if (!houseLayout || !formData) {
+      return;
+    }
+
+    let name = savedDesign?.name;
+    if (!savedDesign) {
+      name = window.prompt('Name this design', suggestDesignName(formData, houseLayout))?.trim();
+      if (!name) {
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      const design = savedDesign
+        ? await updateDesign(savedDesign.id, { formData, layout: houseLayout, tourWaypoints })
+        : await createDesign({ name: name!, formData, layout: houseLayout, tourWaypoints });
+
+      setSavedDesign({ id: design.id, name: design.name });
+      setHasUnsavedChanges(false);
+      setGalleryVersion(version => version + 1);
+      window.history.replaceState(null, '', `?design=${encodeURIComponent(design.id)}`);
+      alert(`Saved "${design.name}"`);
+    } catch (err) {
+      console.error('Design save error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save the design');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   /**
    * Reset to form view
    */
   const handleReset = () => {
     setHouseLayout(null);
     setTourWaypoints([]);
+    setFormData(null);
+    setSeed(null);
+    setNotesReport(null);
+    setAdjacency(null);
+    setHistory(createHistory());
+    setComparing(null);
+    setDisplayUnit('m');
+    setVariants(null);
+    setSavedDesign(null);
+    setSharedDesign(null);
+    setHasUnsavedChanges(false);
     setError(null);
     setShowForm(true);
+    window.history.replaceState(null, '', window.location.pathname);
   };
 
   /**
@@ -148,27 +531,91 @@ export default function HomePage() {
   };
 
   /**
-   * Download house design (placeholder)
+   * Download the floor plans of every floor as a PDF
    */
   const handleDownload = () => {
-    // In a real app, this would generate and download a file
-    alert('Download feature would save the house design as a 3D model file');
+    if (!houseLayout) {
+      return;
+    }
+
+    try {
+      downloadBlob(exportFloorPlanPDF(houseLayout), `floor-plan-${Date.now()}.pdf`);
+    } catch (err) {
+      console.error('Floor plan export error:', err);
+      alert('Failed to export the floor plan');
+    }
+  };
+
+  /**
+   * Download the rendered house as a GLB model
+   */
+  const handleExportModel = async () => {
+    if (!viewerRef.current) {
+      alert('The 3D view is not ready yet');
+      return;
+    }
+
+    try {
+      const blob = await exportSceneAsGLB(viewerRef.current.scene);
+      downloadBlob(blob, `house-design-${Date.now()}.glb`);
+    } catch (err) {
+      console.error('GLB export error:', err);
+      alert('Failed to export the 3D model');
+    }
+  };
+
+  /**
+   * Save the current 3D view as a Full HD PNG without room labels
+   */
+  const handleExportImage = async () => {
+    const context = viewerRef.current;
+    if (!context) {
+      alert('The 3D view is not ready yet');
+      return;
+    }
+
+    try {
+      const { width, height } = CAPTURE_RESOLUTIONS[1];
+      const blob = await captureView(context, context.camera, { width, height, hideOverlays: true, transparent: false });
+      downloadBlob(blob, `house-design-${Date.now()}.png`);
+    } catch (err) {
+      console.error('Image export error:', err);
+      alert('Failed to export the image');
+    }
   };
 
   /**
-   * Share house design (placeholder)
+   * Share a link that reopens this exact design. Saved, unchanged designs are
+   * linked by id; anything else travels compressed inside the link itself.
    */
-  const handleShare = () => {
-    // In a real app, this would share the design
+  const handleShare = async () => {
+    if (!houseLayout || !formData) {
+      return;
+    }
+
+    const base = `${window.location.origin}${window.location.pathname}`;
+    const url = sharedDesign
+      ? window.location.href
+      : savedDesign && !hasUnsavedChanges
+        ? buildStoredShareUrl(base, savedDesign.id)
+        : await buildEmbeddedShareUrl(base, {
+            name: savedDesign?.name || suggestDesignName(formData, houseLayout),
+            formData,
+            layout: houseLayout,
+            tourWaypoints
+          });
+
     if (navigator.share) {
       navigator.share({
         title: 'My AI House Design',
         text: 'Check out my custom house design created with AI House Designer!',
-        url: window.location.href,
+        url,
+      }).catch(() => {
+        // Cancelled by the user
       });
     } else {
       // Fallback: copy to clipboard
-      navigator.clipboard.writeText(window.location.href);
+      await navigator.clipboard.writeText(url);
       alert('Link copied to clipboard!');
     }
   };
@@ -233,8 +680,18 @@ export default function HomePage() {
                 exit={{ opacity: 0, x: 50 }}
                 transition={{ duration: 0.3 }}
               >
+                {/* Changing the inputs of a design keeps its history; back leaves it as it was */}
+                {houseLayout && (
+                  <button
+                    onClick={() => setShowForm(false)}
+                    className="mb-4 text-sm font-medium text-primary-600 hover:text-primary-800"
+                  >
+                    ← Back to the design
+                  </button>
+                )}
+
                 <LoadingOverlay isLoading={isLoading} text="Generating your house design...">
-                  <HouseDesignForm onSubmit={handleFormSubmit} isLoading={isLoading} />
+                  <HouseDesignForm onSubmit={handleFormSubmit} isLoading={isLoading} initialData={houseLayout ? formData : null} />
                 </LoadingOverlay>
                 
                 {/* Error Display */}
@@ -256,6 +713,11 @@ export default function HomePage() {
                     </div>
                   </motion.div>
                 )}
+
+                {/* Saved Designs */}
+                <div className="mt-6">
+                  <DesignGallery onOpen={openDesign} refreshKey={galleryVersion} />
+                </div>
               </motion.div>
             ) : (
               <motion.div
@@ -266,36 +728,141 @@ export default function HomePage() {
                 transition={{ duration: 0.3 }}
                 className="space-y-6"
               >
+                {/* Shared Design Notice */}
+                {sharedDesign && (
+                  <div className="p-4 bg-purple-50 border border-purple-200 rounded-lg flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="text-purple-700 font-medium">
+                        Viewing shared design &quot;{sharedDesign.name}&quot; (read-only)
+                      </p>
+                      <p className="text-purple-600 text-sm mt-1">
+                        Fork it to get an editable copy in My Designs.
+                      </p>
+                    </div>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={handleFork}
+                      disabled={isSaving}
+                      className="px-4 py-2 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-lg disabled:opacity-50"
+                    >
+                      {isSaving ? 'Forking...' : '🍴 Fork to Edit'}
+                    </motion.button>
+                  </div>
+                )}
+
                 {/* Success Message */}
-                <motion.div
-                  initial={{ opacity: 0, y: -20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  className="p-4 bg-green-50 border border-green-200 rounded-lg"
-                >
-                  <div className="flex items-center gap-2">
-                    <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                    <p className="text-green-700 font-medium">
-                      House design generated successfully!
+                {!sharedDesign && (
+                  <motion.div
+                    initial={{ opacity: 0, y: -20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="p-4 bg-green-50 border border-green-200 rounded-lg"
+                  >
+                    <div className="flex items-center gap-2">
+                      <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                      <p className="text-green-700 font-medium">
+                        {savedDesign ? `Viewing saved design "${savedDesign.name}"` : 'House design generated successfully!'}
+                      </p>
+                    </div>
+                    <p className="text-green-600 text-sm mt-1">
+                      Use the controls below to explore your 3D house design.
+                      {seed !== null && ` Layout seed: ${seed}.`}
                     </p>
+                  </motion.div>
+                )}
+
+                {/* What Became of the Extra Notes, and How Well the Rooms Are Arranged */}
+                {!sharedDesign && (notesReport || adjacency) && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {notesReport && <NotesSummary report={notesReport} />}
+                    {adjacency && <AdjacencyScores report={adjacency} />}
                   </div>
-                  <p className="text-green-600 text-sm mt-1">
-                    Use the controls below to explore your 3D house design.
-                  </p>
-                </motion.div>
+                )}
+
+                {/* Building Code and Livability Checks */}
+                {codeReport && (
+                  <BuildingCodeReport report={codeReport} selectedIssue={selectedIssue} onSelectIssue={setSelectedIssue} />
+                )}
+
+                {/* Regeneration Error */}
+                {error && (
+                  <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-red-500 mt-0.5 flex-shrink-0" />
+                    <p className="text-red-600 text-sm">{error}</p>
+                  </div>
+                )}
+
+                {/* Version Comparison Notice */}
+                {comparison && (
+                  <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="text-amber-800 font-medium">
+                        Comparing {comparison.from.label} with {comparison.to.label}
+                      </p>
+                      <p className="text-amber-700 text-sm mt-1">
+                        {comparison.changes.added.length} added (green), {comparison.changes.changed.length} changed (amber), {comparison.changes.removed.length} removed (red outline)
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setComparing(null)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-amber-600 hover:bg-amber-700 rounded-lg"
+                    >
+                      Stop Comparing
+                    </button>
+                  </div>
+                )}
 
                 {/* 3D Viewer with larger container */}
                 <ErrorBoundary fallback={Viewer3DErrorFallback}>
                   <div className="bg-white rounded-xl shadow-2xl overflow-hidden border">
                     <div className="h-[85vh] min-h-[700px] w-full">
                       <House3DViewer
-                        houseLayout={houseLayout!}
-                        tourWaypoints={tourWaypoints}
+                        houseLayout={comparison ? comparison.to.version.layout : houseLayout!}
+                        tourWaypoints={comparison ? comparison.to.version.tourWaypoints : tourWaypoints}
                         onTourComplete={handleTourComplete}
+                        onSceneReady={handleSceneReady}
+                        readOnly={!!sharedDesign || !!comparison}
+                        displayUnit={displayUnit}
+                        highlights={comparison ? {} : highlights}
+                        onLayoutChange={handleLayoutEdit}
+                        history={{ canUndo: canUndo(history), canRedo: canRedo(history), onUndo: handleUndo, onRedo: handleRedo }}
+                        comparison={comparison ? comparison.changes : undefined}
                       />
                     </div>
                   </div>
                 </ErrorBoundary>
 
+                {/* Change History, Snapshots and Comparison */}
+                {!sharedDesign && (
+                  <DesignHistoryPanel
+                    history={history}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onSnapshot={handleSnapshot}
+                    onRestoreSnapshot={handleRestoreSnapshot}
+                    onDeleteSnapshot={(id) => setHistory(prev => deleteSnapshot(prev, id))}
+                    comparing={comparison ? comparing : null}
+                    onCompare={(from, to) => setComparing({ from, to })}
+                    onStopComparing={() => setComparing(null)}
+                  />
+                )}
+
+                {/* 2D Floor Plan */}
+                <FloorPlanView houseLayout={houseLayout!} />
+
+                {/* Cost Estimate and Bill of Quantities */}
+                <CostEstimatePanel houseLayout={houseLayout!} />
+
+                {/* Layout Variants */}
+                {variants && (
+                  <VariantComparison
+                    variants={variants}
+                    currentSeed={seed}
+                    onSelect={handleSelectVariant}
+                    onClose={() => setVariants(null)}
+                  />
+                )}
+
                 {/* Action Buttons Panel */}
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
@@ -307,25 +874,59 @@ export default function HomePage() {
                     🚀 House Actions
                   </h3>
                   
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={() => setShowForm(true)}
+                      disabled={isLoading || !formData || !!sharedDesign}
+                      className="flex flex-col items-center gap-2 p-4 bg-sky-50 hover:bg-sky-100 rounded-lg border border-sky-200 transition-colors disabled:opacity-50"
+                    >
+                      ✏️
+                      <span className="text-sm font-medium text-sky-700">Edit Inputs</span>
+                    </motion.button>
+
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
-                      onClick={() => window.location.reload()}
-                      className="flex flex-col items-center gap-2 p-4 bg-blue-50 hover:bg-blue-100 rounded-lg border border-blue-200 transition-colors"
+                      onClick={handleRegenerate}
+                      disabled={isLoading || !formData || !!sharedDesign}
+                      className="flex flex-col items-center gap-2 p-4 bg-blue-50 hover:bg-blue-100 rounded-lg border border-blue-200 transition-colors disabled:opacity-50"
                     >
                       🔄
-                      <span className="text-sm font-medium text-blue-700">Regenerate</span>
+                      <span className="text-sm font-medium text-blue-700">{isLoading ? 'Regenerating...' : 'Regenerate'}</span>
+                    </motion.button>
+
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={handleCompareVariants}
+                      disabled={isComparing || !formData || !!sharedDesign}
+                      className="flex flex-col items-center gap-2 p-4 bg-indigo-50 hover:bg-indigo-100 rounded-lg border border-indigo-200 transition-colors disabled:opacity-50"
+                    >
+                      🔀
+                      <span className="text-sm font-medium text-indigo-700">{isComparing ? 'Generating...' : 'Compare Variants'}</span>
                     </motion.button>
                     
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
-                      onClick={handleDownload}
-                      className="flex flex-col items-center gap-2 p-4 bg-green-50 hover:bg-green-100 rounded-lg border border-green-200 transition-colors"
+                      onClick={handleSaveDesign}
+                      disabled={isSaving || !!sharedDesign}
+                      className="flex flex-col items-center gap-2 p-4 bg-green-50 hover:bg-green-100 rounded-lg border border-green-200 transition-colors disabled:opacity-50"
                     >
                       💾
-                      <span className="text-sm font-medium text-green-700">Save Design</span>
+                      <span className="text-sm font-medium text-green-700">{isSaving ? 'Saving...' : 'Save Design'}</span>
+                    </motion.button>
+                    
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      onClick={handleExportModel}
+                      className="flex flex-col items-center gap-2 p-4 bg-teal-50 hover:bg-teal-100 rounded-lg border border-teal-200 transition-colors"
+                    >
+                      🧊
+                      <span className="text-sm font-medium text-teal-700">3D Model</span>
                     </motion.button>
                     
                     <motion.button
@@ -341,15 +942,7 @@ export default function HomePage() {
                     <motion.button
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
-                      onClick={() => {
-                        const canvas = document.querySelector('canvas');
-                        if (canvas) {
-                          const link = document.createElement('a');
-                          link.download = `house-design-${Date.now()}.png`;
-                          link.href = canvas.toDataURL();
-                          link.click();
-                        }
-                      }}
+                      onClick={handleExportImage}
                       className="flex flex-col items-center gap-2 p-4 bg-orange-50 hover:bg-orange-100 rounded-lg border border-orange-200 transition-colors"
                     >
                       📷
@@ -428,6 +1021,13 @@ export default function HomePage() {
 );
 }
 
+/**
+ * Default name for a design, e.g. "3-Bedroom Modern House"
+ */
+function suggestDesignName(formData: HouseFormData, layout: HouseLayout): string {
+  return `${formData.bedrooms}-Bedroom ${layout.style === 'modern' ? 'Modern' : 'Traditional'} House`;
+}
+
 /**
  * 3D Viewer Error Fallback Component
  */
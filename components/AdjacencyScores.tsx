@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { AdjacencyReport } from '@/types/house';
+
+interface AdjacencyScoresProps {
+  report: AdjacencyReport;
+}
+
+/**
+ * Adjacency Scores Component
+ * Overall layout score and how well each room adjacency rule is met
+ */
+export default function AdjacencyScores({ report }: AdjacencyScoresProps) {
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <p className="font-medium text-gray-800 text-sm">🧩 Room Arrangement</p>
+        <span className="text-sm font-semibold text-primary-700">{Math.round(report.score * 100)}%</span>
+      </div>
+
+      <div className="space-y-2">
+        {report.rules.map(rule => (
+          <div key={rule.rule}>
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>{rule.label}</span>
+              <span>{Math.round(rule.score * 100)}%</span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${rule.score >= 1 ? 'bg-green-500' : rule.score > 0 ? 'bg-amber-400' : 'bg-red-400'}`}
+                style={{ width: `${Math.max(rule.score * 100, 2)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { CodeReport } from '@/types/house';
+
+interface BuildingCodeReportProps {
+  report: CodeReport;
+  selectedIssue: number | null;
+  onSelectIssue: (index: number | null) => void;
+}
+
+/**
+ * Building Code Report Component
+ * Violations and warnings from the building code checks. Picking one
+ * highlights only its rooms in the viewer; otherwise all flagged rooms are.
+ */
+export default function BuildingCodeReport({ report, selectedIssue, onSelectIssue }: BuildingCodeReportProps) {
+  const violations = report.issues.filter(issue => issue.severity === 'violation').length;
+  const warnings = report.issues.length - violations;
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <p className="font-medium text-gray-800 text-sm">📐 Building Code</p>
+        <span className={`text-sm font-semibold ${report.passed ? 'text-green-700' : 'text-red-700'}`}>
+          {report.passed ? 'Passes' : `${violations} violation${violations === 1 ? '' : 's'}`}
+          {warnings > 0 && <span className="text-amber-700">{` · ${warnings} warning${warnings === 1 ? '' : 's'}`}</span>}
+        </span>
+      </div>
+
+      {report.issues.length === 0 ? (
+        <p className="flex items-start gap-2 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          Meets every check: {report.checked.join(', ').toLowerCase()}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {report.issues.map((issue, index) => {
+            const Icon = issue.severity === 'violation' ? XCircle : AlertTriangle;
+            const isSelected = selectedIssue === index;
+            return (
+              <button
+                key={index}
+                onClick={() => onSelectIssue(isSelected ? null : index)}
+                disabled={issue.roomIds.length === 0}
+                className={`w-full flex items-start gap-2 px-2 py-1 rounded text-left text-sm ${
+                  issue.severity === 'violation' ? 'text-red-700' : 'text-amber-700'
+                } ${isSelected ? 'bg-gray-100 font-medium' : 'hover:bg-gray-50'} disabled:cursor-default disabled:hover:bg-transparent`}
+              >
+                <Icon className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {issue.message}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileSpreadsheet, Settings, RotateCcw } from 'lucide-react';
+import { HouseLayout, RateTable, BillItem } from '@/types/house';
+import { CostEstimator } from '@/services/costEstimator';
+import { loadRates, saveRates, resetRates } from '@/utils/costApi';
+import { downloadBlob } from '@/utils/exporters';
+
+interface CostEstimatePanelProps {
+  houseLayout: HouseLayout;
+}
+
+const SECTIONS: BillItem['section'][] = ['Structure', 'Walls', 'Floors', 'Roof', 'Doors and windows', 'Furniture'];
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Cost Estimate Panel Component
+ * Bill of quantities for the layout priced from the saved rate table,
+ * with the rates editable in place and the bill exportable as CSV
+ */
+export default function CostEstimatePanel({ houseLayout }: CostEstimatePanelProps) {
+  const [rates, setRates] = useState<RateTable>(CostEstimator.DEFAULT_RATES);
+  const [draft, setDraft] = useState<{ currency: string; rates: Record<string, string> } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadRates()
+      .then(setRates)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load rates'));
+  }, []);
+
+  const estimate = useMemo(() => CostEstimator.estimate(houseLayout, rates), [houseLayout, rates]);
+
+  const startEditing = () => {
+    const values: Record<string, string> = {};
+    Object.keys(rates.rates).forEach(code => {
+      values[code] = String(rates.rates[code].rate);
+    });
+    setDraft({ currency: rates.currency, rates: values });
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    const changes: Record<string, { rate: number }> = {};
+    for (const code of Object.keys(draft.rates)) {
+      const rate = Number(draft.rates[code]);
+      if (draft.rates[code].trim() === '' || !isFinite(rate) || rate < 0) {
+        setError(`Rate for ${rates.rates[code].label.toLowerCase()} must be a number of at least 0`);
+        return;
+      }
+      changes[code] = { rate };
+    }
+
+    setIsSaving(true);
+    try {
+      setRates(await saveRates({ currency: draft.currency.trim(), rates: changes }));
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rates');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      setRates(await resetRates());
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset rates');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([CostEstimator.toCsv(estimate)], { type: 'text/csv' }), `bill-of-quantities-${Date.now()}.csv`);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          💰 Cost Estimate
+          <span className="text-primary-700">{formatMoney(estimate.total, estimate.currency)}</span>
+        </h3>
+
+        <div className="flex items-center gap-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => (draft ? setDraft(null) : startEditing())}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+            {draft ? 'Close Rates' : 'Edit Rates'}
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleExport}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            CSV
+          </motion.button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {/* Rate Table */}
+      {draft && (
+        <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Currency
+              <input
+                value={draft.currency}
+                onChange={e => setDraft({ ...draft, currency: e.target.value })}
+                maxLength={8}
+                className="w-20 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={handleReset}
+                disabled={isSaving}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Defaults
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="px-3 py-1.5 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Rates'}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+            {Object.keys(rates.rates).map(code => (
+              <label key={code} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+                <span>{rates.rates[code].label}</span>
+                <span className="flex items-center gap-1 text-gray-500 whitespace-nowrap">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft.rates[code]}
+                    onChange={e => setDraft({ ...draft, rates: { ...draft.rates, [code]: e.target.value } })}
+                    className="w-24 px-2 py-1 text-right text-gray-800 border border-gray-300 rounded"
+                  />
+                  / {rates.rates[code].unit}
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Bill of Quantities */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 font-medium">Item</th>
+              <th className="py-2 font-medium text-right">Quantity</th>
+              <th className="py-2 font-medium text-right">Rate</th>
+              <th className="py-2 font-medium text-right">Amount</th>
+            </tr>
+          </thead>
+          {SECTIONS.map(section => {
+            const items = estimate.items.filter(item => item.section === section);
+            if (items.length === 0) {
+              return null;
+            }
+            return (
+              <tbody key={section}>
+                <tr>
+                  <td colSpan={3} className="pt-3 pb-1 font-medium text-gray-800">{section}</td>
+                  <td className="pt-3 pb-1 font-medium text-gray-800 text-right">
+                    {formatMoney(items.reduce((sum, item) => sum + item.amount, 0), estimate.currency)}
+                  </td>
+                </tr>
+                {items.map((item, index) => (
+                  <tr key={`${item.code}-${index}`} className="text-gray-600">
+                    <td className="py-0.5 pl-3">{item.description}</td>
+                    <td className="py-0.5 text-right whitespace-nowrap">{item.quantity} {item.unit}</td>
+                    <td className="py-0.5 text-right whitespace-nowrap">{formatMoney(item.rate, estimate.currency)}</td>
+                    <td className="py-0.5 text-right whitespace-nowrap">{formatMoney(item.amount, estimate.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            );
+          })}
+          <tfoot>
+            <tr className="border-t font-bold text-gray-800">
+              <td colSpan={3} className="pt-3">Total</td>
+              <td className="pt-3 text-right whitespace-nowrap">{formatMoney(estimate.total, estimate.currency)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { FolderOpen, Pencil, Trash2, RefreshCw } from 'lucide-react';
+import { SavedDesign, SavedDesignSummary } from '@/types/house';
+import { listDesigns, loadDesign, updateDesign, deleteDesign } from '@/utils/designApi';
+import { LoadingSpinner } from '@/components/LoadingComponents';
+
+interface DesignGalleryProps {
+  onOpen: (design: SavedDesign) => void;
+  refreshKey?: number; // Change to reload the list, e.g. after saving
+}
+
+/**
+ * Design Gallery Component
+ * Lists saved designs with options to open, rename and delete them
+ */
+export default function DesignGallery({ onOpen, refreshKey }: DesignGalleryProps) {
+  const [designs, setDesigns] = useState<SavedDesignSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setDesigns(await listDesigns());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load saved designs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  /**
+   * Run an action on one design, reporting failures inline
+   */
+  const withDesign = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleOpen = (id: string) => withDesign(id, async () => {
+    onOpen(await loadDesign(id));
+  });
+
+  const handleRename = (design: SavedDesignSummary) => {
+    const name = window.prompt('Rename design', design.name);
+    if (!name || !name.trim() || name.trim() === design.name) {
+      return;
+    }
+
+    withDesign(design.id, async () => {
+      const updated = await updateDesign(design.id, { name: name.trim() });
+      setDesigns(prev => prev.map(d => (d.id === design.id ? { ...d, name: updated.name, updatedAt: updated.updatedAt } : d)));
+    });
+  };
+
+  const handleDelete = (design: SavedDesignSummary) => {
+    if (!window.confirm(`Delete "${design.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    withDesign(design.id, async () => {
+      await deleteDesign(design.id);
+      setDesigns(prev => prev.filter(d => d.id !== design.id));
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          📁 My Designs
+        </h3>
+        <button
+          onClick={refresh}
+          className="p-2 text-gray-500 hover:text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600">{error}</p>
+      )}
+
+      {isLoading ? (
+        <LoadingSpinner size="sm" text="Loading designs..." />
+      ) : designs.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No saved designs yet. Generate a house and press &quot;Save Design&quot; to keep it here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {designs.map(design => (
+            <motion.div
+              key={design.id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-2"
+            >
+              <div className="font-semibold text-gray-800 truncate" title={design.name}>{design.name}</div>
+              <div className="text-xs text-gray-600 space-y-0.5">
+                <div>
+                  {design.formData.plotSize} plot • {design.floors === 1 ? 'Single' : 'Double'} story • <span className="capitalize">{design.style}</span>
+                </div>
+                <div>
+                  {design.formData.bedrooms} bed • {design.formData.bathrooms} bath • {design.roomCount} rooms
+                </div>
+                <div className="text-gray-400">Updated {new Date(design.updatedAt).toLocaleString()}</div>
+              </div>
+              <div className="flex items-center gap-2 pt-1">
+                <button
+                  onClick={() => handleOpen(design.id)}
+                  disabled={busyId === design.id}
+                  className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-white bg-primary-600 hover:bg-primary-700 rounded disabled:opacity-50"
+                >
+                  <FolderOpen className="w-3.5 h-3.5" />
+                  Open
+                </button>
+                <button
+                  onClick={() => handleRename(design)}
+                  disabled={busyId === design.id}
+                  className="p-1.5 text-gray-500 hover:text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                  title="Rename"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(design)}
+                  disabled={busyId === design.id}
+                  className="p-1.5 text-red-500 hover:text-red-700 rounded hover:bg-red-50 disabled:opacity-50"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
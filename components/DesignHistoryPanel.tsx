@@ -0,0 +1,198 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Undo2, Redo2, Camera, GitCompare, Trash2 } from 'lucide-react';
+import { DesignHistory, listVersions, canUndo, canRedo } from '@/utils/designHistory';
+
+interface DesignHistoryPanelProps {
+  history: DesignHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSnapshot: (name: string) => void;
+  onRestoreSnapshot: (id: number) => void;
+  onDeleteSnapshot: (id: number) => void;
+  comparing: { from: string; to: string } | null; // Version keys being compared in the viewer
+  onCompare: (from: string, to: string) => void;
+  onStopComparing: () => void;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Design History Panel Component
+ * Every change made to the design with undo and redo, named snapshots, and
+ * a picker for two versions to compare in the viewer
+ */
+export default function DesignHistoryPanel({
+  history,
+  onUndo,
+  onRedo,
+  onSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot,
+  comparing,
+  onCompare,
+  onStopComparing
+}: DesignHistoryPanelProps) {
+  const [snapshotName, setSnapshotName] = useState('');
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+
+  const versions = listVersions(history);
+  const current = history.done.length ? `change:${history.done[history.done.length - 1].id}` : '';
+  // Until picked, compare the version before the current one with the current one
+  const from = versions.some(v => v.key === compareFrom) ? compareFrom : (versions.find(v => v.key !== current) || { key: '' }).key;
+  const to = versions.some(v => v.key === compareTo) ? compareTo : current;
+
+  const handleSnapshot = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = snapshotName.trim();
+    if (name) {
+      onSnapshot(name);
+      setSnapshotName('');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          🕘 History
+          <span className="text-sm font-normal text-gray-500">
+            {history.done.length} {history.done.length === 1 ? 'change' : 'changes'}
+          </span>
+        </h3>
+
+        <div className="flex items-center gap-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={onUndo}
+            disabled={!canUndo(history) || !!comparing}
+            title="Undo (Ctrl+Z)"
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </motion.button>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={onRedo}
+            disabled={!canRedo(history) || !!comparing}
+            title="Redo (Ctrl+Shift+Z)"
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Redo2 className="w-4 h-4" />
+            Redo
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Changes, newest first; undone ones can still be redone */}
+        <ol className="max-h-64 overflow-y-auto space-y-1 text-sm">
+          {history.undone.slice().reverse().map(command => (
+            <li key={command.id} className="flex justify-between gap-3 text-gray-400 line-through">
+              <span>{command.label}</span>
+              <span className="whitespace-nowrap">{formatTime(command.createdAt)}</span>
+            </li>
+          ))}
+          {history.done.slice().reverse().map((command, i) => (
+            <li key={command.id} className={`flex justify-between gap-3 ${i === 0 ? 'font-medium text-gray-800' : 'text-gray-600'}`}>
+              <span>{i === 0 && '▸ '}{command.label}</span>
+              <span className="whitespace-nowrap text-gray-400">{formatTime(command.createdAt)}</span>
+            </li>
+          ))}
+        </ol>
+
+        <div className="space-y-4">
+          {/* Named Snapshots */}
+          <div>
+            <form onSubmit={handleSnapshot} className="flex gap-2">
+              <input
+                value={snapshotName}
+                onChange={e => setSnapshotName(e.target.value)}
+                placeholder="Snapshot name"
+                maxLength={60}
+                className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+              <button
+                type="submit"
+                disabled={!snapshotName.trim()}
+                className="flex items-center gap-1 px-3 py-1 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded disabled:opacity-50"
+              >
+                <Camera className="w-4 h-4" />
+                Snapshot
+              </button>
+            </form>
+            {history.snapshots.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm">
+                {history.snapshots.map(snapshot => (
+                  <li key={snapshot.id} className="flex items-center justify-between gap-2 text-gray-700">
+                    <span>📌 {snapshot.name} <span className="text-gray-400">{formatTime(snapshot.createdAt)}</span></span>
+                    <span className="flex items-center gap-2">
+                      <button
+                        onClick={() => onRestoreSnapshot(snapshot.id)}
+                        disabled={!!comparing}
+                        className="text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => onDeleteSnapshot(snapshot.id)}
+                        title="Delete snapshot"
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Compare Two Versions */}
+          <div className="pt-3 border-t border-gray-200 space-y-2">
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={from}
+                onChange={e => setCompareFrom(e.target.value)}
+                disabled={!!comparing}
+                className="min-w-0 text-sm border border-gray-300 rounded px-2 py-1 text-gray-700"
+              >
+                {versions.map(version => (
+                  <option key={version.key} value={version.key}>{version.label}</option>
+                ))}
+              </select>
+              <select
+                value={to}
+                onChange={e => setCompareTo(e.target.value)}
+                disabled={!!comparing}
+                className="min-w-0 text-sm border border-gray-300 rounded px-2 py-1 text-gray-700"
+              >
+                {versions.map(version => (
+                  <option key={version.key} value={version.key}>{version.label}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={() => (comparing ? onStopComparing() : onCompare(from, to))}
+              disabled={!comparing && (versions.length < 2 || from === to)}
+              className={`w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 ${
+                comparing ? 'text-white bg-amber-600 hover:bg-amber-700' : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <GitCompare className="w-4 h-4" />
+              {comparing ? 'Stop Comparing' : 'Compare in Viewer'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
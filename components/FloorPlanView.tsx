@@ -0,0 +1,79 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FileImage, FileText } from 'lucide-react';
+import { HouseLayout } from '@/types/house';
+import { buildFloorPlanSheet, renderFloorPlanSvg } from '@/utils/floorPlan';
+import { exportFloorPlanSVG, exportFloorPlanPDF, downloadBlob } from '@/utils/exporters';
+
+interface FloorPlanViewProps {
+  houseLayout: HouseLayout;
+}
+
+/**
+ * Floor Plan View Component
+ * Top-down 2D plan of each floor with walls, doors, windows,
+ * furniture footprints and dimensions, exportable as SVG or PDF
+ */
+export default function FloorPlanView({ houseLayout }: FloorPlanViewProps) {
+  const [floor, setFloor] = useState(0);
+  const currentFloor = Math.min(floor, houseLayout.floors - 1);
+
+  const svg = useMemo(
+    () => renderFloorPlanSvg(buildFloorPlanSheet(houseLayout, currentFloor)),
+    [houseLayout, currentFloor]
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          📐 2D Floor Plan
+        </h3>
+
+        <div className="flex items-center gap-2">
+          {houseLayout.floors > 1 && Array.from({ length: houseLayout.floors }, (_, i) => (
+            <button
+              key={i}
+              onClick={() => setFloor(i)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+                i === currentFloor
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {i === 0 ? 'Ground Floor' : `Floor ${i + 1}`}
+            </button>
+          ))}
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => downloadBlob(exportFloorPlanSVG(houseLayout, currentFloor), `floor-plan-${currentFloor + 1}.svg`)}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <FileImage className="w-4 h-4" />
+            SVG
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => downloadBlob(exportFloorPlanPDF(houseLayout), `floor-plan-${Date.now()}.pdf`)}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+            PDF
+          </motion.button>
+        </div>
+      </div>
+
+      {/* The SVG is generated locally from the layout, never from user markup */}
+      <div
+        className="w-full overflow-auto bg-gray-50 rounded-lg border [&>svg]:w-full [&>svg]:h-auto [&>svg]:max-h-[80vh]"
+        dangerouslySetInnerHTML={{ __html: svg }}
+      />
+    </div>
+  );
+}
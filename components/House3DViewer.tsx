@@ -1,28 +1,386 @@
 'use client';
 
-import React, { useRef, useState, useEffect } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Text, Box, Cylinder, Environment, useTexture } from '@react-three/drei';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { Canvas, useFrame, useThree, ThreeEvent } from '@react-three/fiber';
+import { OrbitControls, PointerLockControls, PerspectiveCamera, Text, Box, Cylinder, Environment, useTexture } from '@react-three/drei';
 import * as THREE from 'three';
-import { HouseLayout, Room, Furniture, TourWaypoint } from '@/types/house';
+import { HouseLayout, Room, Furniture, TourWaypoint, Opening, WallSegment, WallSide, LengthUnit, CodeIssue, RoomFinish, FinishMaterial } from '@/types/house';
+import { getWallOpenings, getWallPieces, getWallStart } from '@/utils/openings';
+import { MaterialPreset, FLOOR_FINISHES, WALL_FINISHES, MaterialPresets, getStyleMaterials, getMaterialName, getRoomFinish, getWallFaces, getFurnitureMaterial, getSurfaceMaterial } from '@/utils/materials';
+import { formatLength, formatArea } from '@/utils/units';
+import { siteBounds, boundarySegments } from '@/utils/plot';
+import { getStairGeometry } from '@/utils/stairs';
+import { createWorldBoxGeometry, createSurfaceGeometry } from '@/utils/textures';
+import { FURNITURE_CATALOG, CATEGORY_NAMES, FurnitureCategory, MeshPart, getCatalogEntry, getFurnitureParts } from '@/utils/furnitureCatalog';
+import { FurnitureSelection, FurnitureEdit, findFurniture, moveFurniture, rotateFurniture, removeFurniture, addFromCatalog } from '@/utils/furnitureEditing';
+import { RoomEditor, RoomEdit } from '@/services/roomEditor';
+import { RoofGenerator } from '@/services/roofGenerator';
+import { LayoutComparison } from '@/utils/designHistory';
+import { EYE_HEIGHT, WALK_SPEED, RUN_SPEED, buildCollider, floorElevation, findSpot, moveWalker } from '@/utils/walkthrough';
+import { buildFloorPlanSheet, renderFloorPlanSvg, planPoint } from '@/utils/floorPlan';
+import { ViewerContext, CaptureOptions, CAPTURE_RESOLUTIONS, captureView, exportPresentationPack, downloadBlob } from '@/utils/exporters';
 import { motion } from 'framer-motion';
 
 interface House3DViewerProps {
   houseLayout: HouseLayout;
   tourWaypoints: TourWaypoint[];
   onTourComplete?: () => void;
+  onSceneReady?: (context: ViewerContext) => void;
+  readOnly?: boolean; // Shared designs are shown without editing tools
+  displayUnit?: LengthUnit; // Unit the house details start out in
+  highlights?: Record<string, CodeIssue['severity']>; // Rooms to mark for building code issues, by room id
+  onLayoutChange?: (layout: HouseLayout, description: string) => void; // Receives furniture and room edits; without it nothing can be edited
+  history?: HistoryControls; // Undo and redo of the design's history, shown while editing
+  comparison?: LayoutComparison; // Rooms to mark as added, changed or removed against an earlier version
+}
+
+interface HistoryControls {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// Where an item being dragged would land, in house coordinates
+interface FurniturePreview {
+  selection: FurnitureSelection;
+  x: number;
+  z: number;
+  error: string | null;
+}
+
+// Furniture editing state handed down to the rooms
+interface FurnitureEditor {
+  selection: FurnitureSelection | null;
+  preview: FurniturePreview | null;
+  onGrab: (selection: FurnitureSelection, event: ThreeEvent<PointerEvent>) => void;
+}
+
+// Where a room wall being dragged would land, as an x for east and west sides or a z for north and south
+interface WallPreview {
+  roomId: string;
+  side: WallSide;
+  coord: number;
+  error: string | null;
+}
+
+// Colours of rooms in a comparison with an earlier version
+const COMPARISON_COLORS = { added: '#22C55E', changed: '#F59E0B', removed: '#EF4444' };
+
+// How much of the house is drawn over the rooms
+type ViewMode = 'exterior' | 'roof-off' | 'dollhouse' | 'x-ray';
+
+interface ViewSettings {
+  mode: ViewMode;
+  cutHeight: number; // Height the walls of the top visible floor are cut down to in the dollhouse view
+  fadeWalls: boolean; // Fade outside walls while the camera is beyond them, without the roof
+}
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'exterior', label: 'Exterior' },
+  { value: 'roof-off', label: 'Roof Off' },
+  { value: 'dollhouse', label: 'Dollhouse' },
+  { value: 'x-ray', label: 'X-Ray' }
+];
+
+const FADED_OPACITY = 0.12;
+const XRAY_OPACITY = 0.25;
+
+// Walking keys, as steps ahead and to the right
+const WALK_KEYS: Record<string, [number, number]> = {
+  KeyW: [1, 0], ArrowUp: [1, 0],
+  KeyS: [-1, 0], ArrowDown: [-1, 0],
+  KeyA: [0, -1], ArrowLeft: [0, -1],
+  KeyD: [0, 1], ArrowRight: [0, 1]
+};
+
+// Room editing state handed down to the rooms
+interface RoomSelector {
+  selectedRoomId: string | null;
+  preview: WallPreview | null;
+  onSelect: (roomId: string, event: ThreeEvent<MouseEvent>) => void;
+  onGrabWall: (roomId: string, side: WallSide, event: ThreeEvent<PointerEvent>) => void;
 }
 
 /**
  * Main 3D House Viewer Component
  * Renders the complete house with rooms, furniture, and interactive controls
  */
-export default function House3DViewer({ houseLayout, tourWaypoints, onTourComplete }: House3DViewerProps) {
+export default function House3DViewer({ houseLayout, tourWaypoints, onTourComplete, onSceneReady, readOnly = false, displayUnit = 'm', highlights = {}, onLayoutChange, history, comparison }: House3DViewerProps) {
   const [isAutoTour, setIsAutoTour] = useState(false);
   const [currentTourIndex, setCurrentTourIndex] = useState(0);
   const [tourProgress, setTourProgress] = useState(0);
+  const [hiddenFloors, setHiddenFloors] = useState<number[]>([]);
+  const [view, setView] = useState<ViewSettings>({ mode: 'exterior', cutHeight: 1.2, fadeWalls: true });
+  const [showCapture, setShowCapture] = useState(false);
+  const [captureResolution, setCaptureResolution] = useState(1);
+  const [hideLabels, setHideLabels] = useState(true);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [unit, setUnit] = useState<LengthUnit>(displayUnit);
+  const [editMode, setEditMode] = useState<'furniture' | 'rooms' | null>(null);
+  const [selection, setSelection] = useState<FurnitureSelection | null>(null);
+  const [drag, setDrag] = useState<{ selection: FurnitureSelection; offset: { x: number; z: number }; elevation: number } | null>(null);
+  const [preview, setPreview] = useState<FurniturePreview | null>(null);
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const [wallDrag, setWallDrag] = useState<{ roomId: string; side: WallSide; elevation: number } | null>(null);
+  const [wallPreview, setWallPreview] = useState<WallPreview | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [addRoomId, setAddRoomId] = useState('');
+  const [catalogId, setCatalogId] = useState(FURNITURE_CATALOG[0].id);
+  const [walkFloor, setWalkFloor] = useState<number | null>(null);
+  const [lookLocked, setLookLocked] = useState(false);
+  const minimapMarkerRef = useRef<SVGGElement>(null);
+  const viewerRef = useRef<ViewerContext | null>(null);
+  const previewRef = useRef<FurniturePreview | null>(null);
+  const wallPreviewRef = useRef<WallPreview | null>(null);
+  const canEdit = !readOnly && !!onLayoutChange;
+
+  const handleSceneReady = useCallback((context: ViewerContext) => {
+    viewerRef.current = context;
+    onSceneReady?.(context);
+  }, [onSceneReady]);
+
+  // A design opened in other units starts out in them
+  useEffect(() => {
+    setUnit(displayUnit);
+  }, [displayUnit]);
+
+  // Keep only the selections still in the layout, whether it changed by an edit, an undo or a new design
+  useEffect(() => {
+    setSelection(current => (current && findFurniture(houseLayout, current) ? current : null));
+    setSelectedRoomId(current => (houseLayout.rooms.some(room => room.id === current) ? current : null));
+    setEditError(null);
+    setWalkFloor(current => (current === null ? null : Math.min(current, houseLayout.floors - 1)));
+  }, [houseLayout]);
+
+  /**
+   * Hand an edited layout to the page, which records it in the design's history
+   */
+  const applyEdit = useCallback((edit: FurnitureEdit, description: string) => {
+    if ('error' in edit) {
+      setEditError(edit.error);
+      return;
+    }
+    onLayoutChange?.(edit.layout, description);
+    setSelection(edit.selection);
+    setEditError(null);
+  }, [onLayoutChange]);
+
+  const applyRoomEdit = useCallback((edit: RoomEdit, description: string) => {
+    if ('error' in edit) {
+      setEditError(edit.error);
+      return;
+    }
+    onLayoutChange?.(edit.layout, description);
+    setSelectedRoomId(edit.selection);
+    setEditError(null);
+  }, [onLayoutChange]);
+
+  const handleRotate = useCallback((direction: 1 | -1) => {
+    const found = selection ? findFurniture(houseLayout, selection) : null;
+    if (selection && found) {
+      applyEdit(rotateFurniture(houseLayout, selection, direction), `Rotated ${found.item.name.toLowerCase()}`);
+    }
+  }, [selection, houseLayout, applyEdit]);
+
+  const handleRemove = useCallback(() => {
+    const found = selection ? findFurniture(houseLayout, selection) : null;
+    if (selection && found) {
+      applyEdit(removeFurniture(houseLayout, selection), `Removed ${found.item.name.toLowerCase()} from ${found.room.name}`);
+    }
+  }, [selection, houseLayout, applyEdit]);
+
+  /**
+   * Pick up an item; it follows the pointer across its floor until released
+   */
+  const handleGrab = useCallback((picked: FurnitureSelection, event: ThreeEvent<PointerEvent>) => {
+    const found = findFurniture(houseLayout, picked);
+    if (!found) {
+      return;
+    }
+    event.stopPropagation();
+    setSelection(picked);
+    setEditError(null);
+    setDrag({
+      selection: picked,
+      offset: {
+        x: found.room.position.x + found.item.position.x - event.point.x,
+        z: found.room.position.z + found.item.position.z - event.point.z
+      },
+      elevation: found.room.position.y
+    });
+  }, [houseLayout]);
+
+  const handleSelectRoom = useCallback((roomId: string, event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    setSelectedRoomId(roomId);
+    setEditError(null);
+  }, []);
+
+  /**
+   * Pick up the wall on one side of the selected room; it follows the pointer until released
+   */
+  const handleGrabWall = useCallback((roomId: string, side: WallSide, event: ThreeEvent<PointerEvent>) => {
+    const room = houseLayout.rooms.find(r => r.id === roomId);
+    if (!room) {
+      return;
+    }
+    event.stopPropagation();
+    setEditError(null);
+    setWallDrag({ roomId, side, elevation: room.position.y });
+  }, [houseLayout]);
+
+  const handleWallDragMove = useCallback((point: THREE.Vector3) => {
+    const room = wallDrag ? houseLayout.rooms.find(r => r.id === wallDrag.roomId) : undefined;
+    if (!wallDrag || !room) {
+      return;
+    }
+    const coord = Math.round((wallDrag.side === 'east' || wallDrag.side === 'west' ? point.x : point.z) * 10) / 10;
+    // Dragging back to where the wall started is not an error, it just leaves the room as it was
+    const unmoved = Math.abs(coord - RoomEditor.edgeCoord(room, wallDrag.side)) < 1e-6;
+    const edit = unmoved ? null : RoomEditor.resize(houseLayout, room.id, wallDrag.side, coord);
+    const next: WallPreview = { roomId: room.id, side: wallDrag.side, coord, error: edit && 'error' in edit ? edit.error : null };
+    wallPreviewRef.current = unmoved ? null : next;
+    setWallPreview(next);
+  }, [wallDrag, houseLayout]);
+
+  const handleDragMove = useCallback((point: THREE.Vector3) => {
+    if (wallDrag) {
+      handleWallDragMove(point);
+      return;
+    }
+    if (!drag) {
+      return;
+    }
+    const target = { x: point.x + drag.offset.x, z: point.z + drag.offset.z };
+    const edit = moveFurniture(houseLayout, drag.selection, target);
+    let next: FurniturePreview = { selection: drag.selection, ...target, error: 'error' in edit ? edit.error : null };
+    if (!('error' in edit) && edit.selection) {
+      // Show the item where it will snap to, not under the pointer
+      const moved = findFurniture(edit.layout, edit.selection)!;
+      next = { ...next, x: moved.room.position.x + moved.item.position.x, z: moved.room.position.z + moved.item.position.z };
+    }
+    previewRef.current = next;
+    setPreview(next);
+  }, [drag, wallDrag, houseLayout, handleWallDragMove]);
+
+  // Drop the item where the pointer is released, even outside the canvas
+  useEffect(() => {
+    if (!drag) {
+      return;
+    }
+    const handleRelease = () => {
+      const dropped = previewRef.current;
+      if (dropped) {
+        if (dropped.error) {
+          setEditError(dropped.error);
+        } else {
+          const { item } = findFurniture(houseLayout, dropped.selection)!;
+          applyEdit(moveFurniture(houseLayout, dropped.selection, dropped), `Moved ${item.name.toLowerCase()}`);
+        }
+      }
+      previewRef.current = null;
+      setPreview(null);
+      setDrag(null);
+    };
+    window.addEventListener('pointerup', handleRelease);
+    return () => window.removeEventListener('pointerup', handleRelease);
+  }, [drag, houseLayout, applyEdit]);
+
+  // Drop a dragged wall the same way, resizing every room along it
+  useEffect(() => {
+    if (!wallDrag) {
+      return;
+    }
+    const handleRelease = () => {
+      const dropped = wallPreviewRef.current;
+      if (dropped) {
+        if (dropped.error) {
+          setEditError(dropped.error);
+        } else {
+          const room = houseLayout.rooms.find(r => r.id === dropped.roomId)!;
+          applyRoomEdit(RoomEditor.resize(houseLayout, room.id, dropped.side, dropped.coord), `Resized ${room.name}`);
+        }
+      }
+      wallPreviewRef.current = null;
+      setWallPreview(null);
+      setWallDrag(null);
+    };
+    window.addEventListener('pointerup', handleRelease);
+    return () => window.removeEventListener('pointerup', handleRelease);
+  }, [wallDrag, houseLayout, applyRoomEdit]);
+
+  // Keyboard shortcuts while editing
+  useEffect(() => {
+    if (!editMode) {
+      return;
+    }
+    const handleKey = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') {
+        return;
+      }
+      // Undo and redo are handled by the page, which owns the history
+      const key = event.key.toLowerCase();
+      if (event.ctrlKey || event.metaKey) {
+        return;
+      }
+      if (editMode === 'furniture' && key === 'r') {
+        handleRotate(event.shiftKey ? -1 : 1);
+      } else if (editMode === 'furniture' && selection && (key === 'delete' || key === 'backspace')) {
+        event.preventDefault();
+        handleRemove();
+      } else if (key === 'escape') {
+        setSelection(null);
+        setSelectedRoomId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [editMode, selection, handleRotate, handleRemove]);
+
+  const toggleEditing = (mode: 'furniture' | 'rooms') => {
+    document.body.style.cursor = '';
+    setEditMode(editMode === mode ? null : mode);
+    setSelection(null);
+    setSelectedRoomId(null);
+    setEditError(null);
+  };
+
+  const furnishableRooms = houseLayout.rooms.filter(room => room.type !== 'staircase' && !hiddenFloors.includes(room.floor));
+  const addRoom = furnishableRooms.find(room => room.id === addRoomId) || furnishableRooms[0];
+  const catalogEntry = getCatalogEntry(catalogId) || FURNITURE_CATALOG[0];
+  const selected = selection ? findFurniture(houseLayout, selection) : null;
+  const selectedRoom = houseLayout.rooms.find(room => room.id === selectedRoomId) || null;
+
+  const historyButtons = history && (
+    <div className="flex gap-1">
+      <button
+        onClick={history.onUndo}
+        disabled={!history.canUndo}
+        title="Undo (Ctrl+Z)"
+        className="px-2 py-0.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-40"
+      >
+        ↶ Undo
+      </button>
+      <button
+        onClick={history.onRedo}
+        disabled={!history.canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+        className="px-2 py-0.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-40"
+      >
+        ↷ Redo
+      </button>
+    </div>
+  );
+
+  const toggleFloor = (floor: number) => {
+    setHiddenFloors(prev => prev.includes(floor) ? prev.filter(f => f !== floor) : [...prev, floor]);
+  };
 
   const handleAutoTour = () => {
+    setWalkFloor(null);
     setIsAutoTour(true);
     setCurrentTourIndex(0);
     setTourProgress(0);
@@ -34,10 +392,63 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
     setTourProgress(0);
   };
 
+  /**
+   * Step into the house on the ground floor, or back out to the orbiting view
+   */
+  const toggleWalkthrough = () => {
+    handleStopTour();
+    document.body.style.cursor = '';
+    setEditMode(null);
+    setSelection(null);
+    setSelectedRoomId(null);
+    setEditError(null);
+    setLookLocked(false);
+    setWalkFloor(walkFloor === null ? 0 : null);
+  };
+
+  /**
+   * Capture the current view, or the fixed presentation angles as a zip
+   */
+  const handleCapture = async (pack: boolean) => {
+    const context = viewerRef.current;
+    if (!context) {
+      return;
+    }
+
+    const resolution = CAPTURE_RESOLUTIONS[captureResolution];
+    const options: CaptureOptions = {
+      width: resolution.width,
+      height: resolution.height,
+      hideOverlays: hideLabels,
+      transparent: transparentBackground
+    };
+
+    setIsCapturing(true);
+    try {
+      if (pack) {
+        downloadBlob(await exportPresentationPack(context, houseLayout, options), `house-presentation-${Date.now()}.zip`);
+      } else {
+        downloadBlob(await captureView(context, context.camera, options), `house-design-${Date.now()}.png`);
+      }
+    } catch (error) {
+      console.error('Capture error:', error);
+      alert('Failed to capture the image');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
   return (
     <div className="relative w-full h-full min-h-[600px] bg-gradient-to-b from-blue-50 to-indigo-100 rounded-xl overflow-hidden">
       {/* 3D Canvas */}
-      <Canvas shadows className="w-full h-full">
+      <Canvas
+        shadows
+        className="w-full h-full"
+        onPointerMissed={() => {
+          setSelection(null);
+          setSelectedRoomId(null);
+        }}
+      >
         <PerspectiveCamera makeDefault position={[10, 10, 10]} />
         
         {/* Enhanced HDR Environment Lighting */}
@@ -73,20 +484,53 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
         />
         
         {/* House Structure */}
-        <HouseStructure houseLayout={houseLayout} />
+        <HouseStructure
+          houseLayout={houseLayout}
+          hiddenFloors={walkFloor === null ? hiddenFloors : []}
+          view={walkFloor === null ? view : { ...view, mode: 'exterior' }}
+          highlights={highlights}
+          editor={editMode === 'furniture' ? { selection, preview, onGrab: handleGrab } : undefined}
+          roomSelector={editMode === 'rooms' ? { selectedRoomId, preview: wallPreview, onSelect: handleSelectRoom, onGrabWall: handleGrabWall } : undefined}
+          comparison={comparison}
+        />
+
+        {/* Catches the pointer across the floor while furniture or a wall is dragged */}
+        {(drag || wallDrag) && (
+          <mesh
+            rotation={[-Math.PI / 2, 0, 0]}
+            position={[houseLayout.width / 2, (drag || wallDrag)!.elevation, houseLayout.length / 2]}
+            onPointerMove={(event) => handleDragMove(event.point)}
+          >
+            <planeGeometry args={[houseLayout.width + 100, houseLayout.length + 100]} />
+            <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+          </mesh>
+        )}
         
         {/* Ground Plane */}
-        <GroundPlane width={houseLayout.width} length={houseLayout.length} />
+        <GroundPlane houseLayout={houseLayout} />
         
         {/* Camera Controls */}
-        <OrbitControls
-          enablePan={true}
-          enableZoom={true}
-          enableRotate={true}
-          maxPolarAngle={Math.PI / 2}
-          minDistance={5}
-          maxDistance={50}
-        />
+        {walkFloor === null ? (
+          <OrbitControls
+            enabled={!drag && !wallDrag}
+            enablePan={true}
+            enableZoom={true}
+            enableRotate={true}
+            maxPolarAngle={Math.PI / 2}
+            minDistance={5}
+            maxDistance={50}
+          />
+        ) : (
+          <WalkthroughCamera
+            houseLayout={houseLayout}
+            floor={walkFloor}
+            marker={minimapMarkerRef}
+            onLockChange={setLookLocked}
+          />
+        )}
+        
+        {/* Hand the renderer and scene out for captures and exports */}
+        <SceneBridge onSceneReady={handleSceneReady} />
         
         {/* Auto Tour Camera */}
         {isAutoTour && (
@@ -104,6 +548,20 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
         )}
       </Canvas>
 
+      {/* Clicking into the walkthrough captures the mouse for looking round */}
+      {walkFloor !== null && (
+        <div
+          id="walkthrough-look"
+          className={`absolute inset-0 flex items-center justify-center cursor-pointer ${lookLocked ? 'pointer-events-none' : ''}`}
+        >
+          {!lookLocked && (
+            <div className="px-4 py-2 rounded-lg bg-black/60 text-white text-sm font-medium">
+              Click to look around
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Enhanced Controls Overlay */}
       <div className="absolute top-4 left-4 space-y-3">
         <motion.button
@@ -118,6 +576,41 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
         >
           {isAutoTour ? '⏹️ Stop Tour' : '🎥 Auto Tour'}
         </motion.button>
+
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={toggleWalkthrough}
+          className={`block px-4 py-2 rounded-lg font-semibold text-white transition-all duration-200 shadow-lg ${
+            walkFloor === null ? 'bg-teal-600 hover:bg-teal-700' : 'bg-red-600 hover:bg-red-700'
+          }`}
+        >
+          {walkFloor === null ? '🚶 Walk Through' : '⏹️ Exit Walkthrough'}
+        </motion.button>
+
+        {walkFloor !== null && (
+          <div className="bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border space-y-2 w-56">
+            <div className="text-xs font-semibold text-gray-700">Walkthrough</div>
+            {houseLayout.floors > 1 && (
+              <div className="grid grid-cols-2 gap-1">
+                {Array.from({ length: houseLayout.floors }, (_, floor) => (
+                  <button
+                    key={floor}
+                    onClick={() => setWalkFloor(floor)}
+                    className={`px-2 py-1 text-sm rounded border ${
+                      walkFloor === floor ? 'bg-primary-600 border-primary-600 text-white' : 'text-gray-700 border-gray-300 hover:bg-gray-100'
+                    }`}
+                  >
+                    {floor === 0 ? 'Ground Floor' : `Floor ${floor + 1}`}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="text-xs text-gray-500">
+              WASD or arrow keys to walk, Shift to hurry, mouse to look. Esc frees the mouse.
+            </div>
+          </div>
+        )}
         
         <motion.button
           whileHover={{ scale: 1.05 }}
@@ -137,15 +630,279 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={() => {
-            // Take screenshot functionality
-            alert('Screenshot feature coming soon!');
-          }}
+          onClick={() => setShowCapture(!showCapture)}
           className="block px-4 py-2 rounded-lg font-semibold text-white bg-green-600 hover:bg-green-700 transition-all duration-200 shadow-lg"
         >
           📷 Screenshot
         </motion.button>
+
+        {showCapture && (
+          <div className="bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border space-y-2 w-56">
+            <div className="text-xs font-semibold text-gray-700">Screenshot</div>
+            <select
+              value={captureResolution}
+              onChange={(e) => setCaptureResolution(Number(e.target.value))}
+              className="w-full text-sm border border-gray-300 rounded px-2 py-1 text-gray-700"
+            >
+              {CAPTURE_RESOLUTIONS.map((resolution, i) => (
+                <option key={resolution.label} value={i}>{resolution.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={hideLabels} onChange={() => setHideLabels(!hideLabels)} />
+              Hide room labels
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input type="checkbox" checked={transparentBackground} onChange={() => setTransparentBackground(!transparentBackground)} />
+              Transparent background
+            </label>
+            <button
+              onClick={() => handleCapture(false)}
+              disabled={isCapturing}
+              className="w-full px-3 py-1.5 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded disabled:opacity-50"
+            >
+              {isCapturing ? 'Rendering...' : 'Save PNG'}
+            </button>
+            <button
+              onClick={() => handleCapture(true)}
+              disabled={isCapturing}
+              className="w-full px-3 py-1.5 text-sm font-medium text-green-700 bg-green-50 hover:bg-green-100 border border-green-200 rounded disabled:opacity-50"
+            >
+              Presentation Pack (.zip)
+            </button>
+          </div>
+        )}
+
+        {walkFloor === null && houseLayout.floors > 1 && (
+          <div className="bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border space-y-2">
+            <div className="text-xs font-semibold text-gray-700">Floors</div>
+            {Array.from({ length: houseLayout.floors }, (_, floor) => (
+              <label key={floor} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!hiddenFloors.includes(floor)}
+                  onChange={() => toggleFloor(floor)}
+                />
+                {floor === 0 ? 'Ground Floor' : `Floor ${floor + 1}`}
+              </label>
+            ))}
+          </div>
+        )}
         
+        {walkFloor === null && (
+          <div className="bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border space-y-2 w-56">
+            <div className="text-xs font-semibold text-gray-700">View</div>
+            <div className="grid grid-cols-2 gap-1">
+              {VIEW_MODES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setView({ ...view, mode: option.value })}
+                  className={`px-2 py-1 text-sm rounded border ${
+                    view.mode === option.value ? 'bg-primary-600 border-primary-600 text-white' : 'text-gray-700 border-gray-300 hover:bg-gray-100'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {view.mode === 'dollhouse' && (
+              <label className="block text-sm text-gray-700">
+                Walls cut at {formatLength(view.cutHeight, unit)}
+                <input
+                  type="range"
+                  min={0.3}
+                  max={2.7}
+                  step={0.1}
+                  value={view.cutHeight}
+                  onChange={(e) => setView({ ...view, cutHeight: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+            )}
+            {(view.mode === 'roof-off' || view.mode === 'dollhouse') && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={view.fadeWalls} onChange={() => setView({ ...view, fadeWalls: !view.fadeWalls })} />
+                Fade walls facing the camera
+              </label>
+            )}
+          </div>
+        )}
+
+        {canEdit && walkFloor === null && (['furniture', 'rooms'] as const).map(mode => (
+          (editMode === null || editMode === mode) && (
+            <motion.button
+              key={mode}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => toggleEditing(mode)}
+              className={`block px-4 py-2 rounded-lg font-semibold text-white transition-all duration-200 shadow-lg ${
+                editMode === mode ? 'bg-amber-600 hover:bg-amber-700' : 'bg-indigo-600 hover:bg-indigo-700'
+              }`}
+            >
+              {editMode === mode ? '✅ Done Editing' : mode === 'furniture' ? '🪑 Edit Furniture' : '📐 Edit Rooms'}
+            </motion.button>
+          )
+        ))}
+
+        {canEdit && editMode === 'furniture' && (
+          <div className="bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border space-y-2 w-64">
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-semibold text-gray-700">Furniture</div>
+              {historyButtons}
+            </div>
+
+            {selected ? (
+              <div className="space-y-1">
+                <div className="text-sm text-gray-800">
+                  <span className="font-medium">{selected.item.name}</span>
+                  <span className="text-gray-500"> in {selected.room.name}</span>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => handleRotate(-1)}
+                    className="flex-1 px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+                  >
+                    ⟲ Rotate
+                  </button>
+                  <button
+                    onClick={() => handleRotate(1)}
+                    className="flex-1 px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+                  >
+                    ⟳ Rotate
+                  </button>
+                  <button
+                    onClick={handleRemove}
+                    className="flex-1 px-2 py-1 text-sm text-red-700 border border-red-200 rounded hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">Click an item to select it, then drag to move it</div>
+            )}
+
+            {addRoom && (
+              <div className="pt-2 border-t border-gray-200 space-y-1">
+                <select
+                  value={catalogId}
+                  onChange={(e) => setCatalogId(e.target.value)}
+                  className="w-full text-sm border border-gray-300 rounded px-2 py-1 text-gray-700"
+                >
+                  {(Object.keys(CATEGORY_NAMES) as FurnitureCategory[]).map(category => (
+                    <optgroup key={category} label={CATEGORY_NAMES[category]}>
+                      {FURNITURE_CATALOG.filter(entry => entry.category === category).map(entry => (
+                        <option key={entry.id} value={entry.id}>{entry.name}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <div className="flex gap-1">
+                  <select
+                    value={addRoom.id}
+                    onChange={(e) => setAddRoomId(e.target.value)}
+                    className="flex-1 min-w-0 text-sm border border-gray-300 rounded px-2 py-1 text-gray-700"
+                  >
+                    {furnishableRooms.map(room => (
+                      <option key={room.id} value={room.id}>{room.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => applyEdit(
+                      addFromCatalog(houseLayout, addRoom.id, catalogEntry),
+                      `Added ${catalogEntry.name.toLowerCase()} to ${addRoom.name}`
+                    )}
+                    className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {editError && <div className="text-xs text-red-600">{editError}</div>}
+            <div className="text-xs text-gray-400">R rotates • Del deletes • Esc deselects</div>
+          </div>
+        )}
+
+        {canEdit && editMode === 'rooms' && (
+          <div className="bg-white/95 backdrop-blur-sm rounded-lg p-3 shadow-lg border space-y-2 w-64">
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-semibold text-gray-700">Rooms</div>
+              {historyButtons}
+            </div>
+
+            {selectedRoom ? (
+              <div className="space-y-2">
+                <div className="text-sm text-gray-800">
+                  <span className="font-medium">{selectedRoom.name}</span>
+                  <span className="text-gray-500"> {formatLength(selectedRoom.dimensions.width, unit)} × {formatLength(selectedRoom.dimensions.length, unit)}</span>
+                </div>
+                {selectedRoom.type === 'staircase' ? (
+                  <div className="text-xs text-gray-500">The staircase stays put so it lines up with the floor above</div>
+                ) : (
+                  <>
+                    <select
+                      value={selectedRoom.type}
+                      onChange={(e) => applyRoomEdit(RoomEditor.retype(houseLayout, selectedRoom.id, e.target.value as Room['type']), `Changed ${selectedRoom.name} to a ${e.target.value}`)}
+                      className="w-full text-sm border border-gray-300 rounded px-2 py-1 text-gray-700 capitalize"
+                    >
+                      {RoomEditor.ROOM_TYPES.map(type => (
+                        <option key={type} value={type}>{type}</option>
+                      ))}
+                    </select>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => applyRoomEdit(RoomEditor.split(houseLayout, selectedRoom.id, 'east-west'), `Split ${selectedRoom.name} west to east`)}
+                        className="flex-1 px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+                      >
+                        Split ↔
+                      </button>
+                      <button
+                        onClick={() => applyRoomEdit(RoomEditor.split(houseLayout, selectedRoom.id, 'north-south'), `Split ${selectedRoom.name} south to north`)}
+                        className="flex-1 px-2 py-1 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-100"
+                      >
+                        Split ↕
+                      </button>
+                    </div>
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const other = houseLayout.rooms.find(room => room.id === e.target.value);
+                        applyRoomEdit(RoomEditor.merge(houseLayout, selectedRoom.id, e.target.value), `Merged ${other ? other.name : 'a room'} into ${selectedRoom.name}`);
+                      }}
+                      disabled={RoomEditor.neighbours(houseLayout, selectedRoom).length === 0}
+                      className="w-full text-sm border border-gray-300 rounded px-2 py-1 text-gray-700 disabled:opacity-40"
+                    >
+                      <option value="" disabled>Merge with…</option>
+                      {RoomEditor.neighbours(houseLayout, selectedRoom).map(room => (
+                        <option key={room.id} value={room.id}>{room.name}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                {(['floor', 'walls'] as (keyof RoomFinish)[]).map(surface => (
+                  <FinishPalette
+                    key={surface}
+                    label={surface === 'floor' ? 'Floor' : 'Walls'}
+                    options={surface === 'floor' ? FLOOR_FINISHES : WALL_FINISHES}
+                    value={getRoomFinish(selectedRoom, houseLayout.style)[surface]}
+                    onChange={(material) => applyRoomEdit(
+                      RoomEditor.refinish(houseLayout, selectedRoom.id, surface, material),
+                      `Changed the ${surface} of ${selectedRoom.name} to ${MaterialPresets[material].description.toLowerCase()}`
+                    )}
+                  />
+                ))}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500">Click a room to select it, then drag the handles on its inside walls to resize it</div>
+            )}
+
+            {editError && <div className="text-xs text-red-600">{editError}</div>}
+            <div className="text-xs text-gray-400">Walls snap to 10 cm • Esc deselects</div>
+          </div>
+        )}
+
         {isAutoTour && (
           <div className="bg-white/95 backdrop-blur-sm rounded-lg p-4 shadow-lg border">
             <div className="text-sm font-medium text-gray-700 mb-2">
@@ -164,11 +921,30 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
         )}
       </div>
 
+      {readOnly && (
+        <div className="absolute top-4 right-4 px-3 py-1.5 rounded-lg bg-white/95 backdrop-blur-sm shadow-lg border text-sm font-medium text-gray-700">
+          👁️ View only
+        </div>
+      )}
+
       {/* Enhanced House Info Panel */}
       <div className="absolute bottom-4 right-4 bg-white/95 backdrop-blur-sm rounded-xl p-5 max-w-sm shadow-xl border">
-        <h3 className="font-bold text-gray-800 mb-3 flex items-center gap-2">
-          🏠 House Details
-        </h3>
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <h3 className="font-bold text-gray-800 flex items-center gap-2">
+            🏠 House Details
+          </h3>
+          <div className="flex rounded-lg border border-gray-200 overflow-hidden text-xs">
+            {(['m', 'ft'] as LengthUnit[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setUnit(option)}
+                className={`px-2 py-0.5 ${unit === option ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
         <div className="space-y-2 text-sm">
           <div className="flex justify-between">
             <span className="text-gray-600">Style:</span>
@@ -184,11 +960,11 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
           </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Dimensions:</span>
-            <span className="font-medium text-gray-800">{houseLayout.width.toFixed(1)}m × {houseLayout.length.toFixed(1)}m</span>
+            <span className="font-medium text-gray-800">{formatLength(houseLayout.width, unit)} × {formatLength(houseLayout.length, unit)}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-gray-600">Floor Area:</span>
-            <span className="font-medium text-gray-800">{(houseLayout.width * houseLayout.length).toFixed(0)} m²</span>
+            <span className="font-medium text-gray-800">{formatArea(houseLayout.width * houseLayout.length, unit)}</span>
           </div>
         </div>
         
@@ -215,17 +991,35 @@ export default function House3DViewer({ houseLayout, tourWaypoints, onTourComple
           </div>
         </div>
       </div>
+
+      {walkFloor !== null && (
+        <WalkthroughMinimap houseLayout={houseLayout} floor={walkFloor} marker={minimapMarkerRef} />
+      )}
     </div>
   );
 }
 
 /**
  * House Structure Component
- * Renders the main house structure with walls and roof
+ * Renders the main house structure with walls and roof, as much of it as
+ * the view mode shows
  */
-function HouseStructure({ houseLayout }: { houseLayout: HouseLayout }) {
+function HouseStructure({ houseLayout, hiddenFloors, view, highlights, editor, roomSelector, comparison }: {
+  houseLayout: HouseLayout;
+  hiddenFloors: number[];
+  view: ViewSettings;
+  highlights: Record<string, CodeIssue['severity']>;
+  editor?: FurnitureEditor;
+  roomSelector?: RoomSelector;
+  comparison?: LayoutComparison;
+}) {
+  const selectedRoom = roomSelector ? houseLayout.rooms.find((room) => room.id === roomSelector.selectedRoomId) : undefined;
+  const topFloor = Math.max(-1, ...Array.from({ length: houseLayout.floors }, (_, floor) => floor).filter((floor) => !hiddenFloors.includes(floor)));
+  // The dollhouse view cuts down the walls of the top floor on show
+  const cutHeight = (floor: number) => (view.mode === 'dollhouse' && floor === topFloor ? view.cutHeight : undefined);
+
   return (
-    <group>
+    <group name="house">
       {/* Enhanced Foundation with PBR materials */}
       <Box
         position={[houseLayout.width / 2, -0.1, houseLayout.length / 2]}
@@ -240,170 +1034,619 @@ function HouseStructure({ houseLayout }: { houseLayout: HouseLayout }) {
         />
       </Box>
 
-      {/* Realistic House Walls with brick/concrete texture */}
-      <Box
-        position={[houseLayout.width / 2, houseLayout.height / 2, houseLayout.length / 2]}
-        args={[houseLayout.width, houseLayout.height, houseLayout.length]}
-        castShadow
-        receiveShadow
-      >
-        <meshStandardMaterial 
-          color={houseLayout.style === 'modern' ? '#E8E8E8' : '#D2B48C'} 
-          roughness={0.8}
-          metalness={0.0}
-        />
-      </Box>
+      {/* The roof stays on over the top floor unless the view opens the house up */}
+      {(view.mode === 'exterior' || view.mode === 'x-ray') && !hiddenFloors.includes(houseLayout.floors - 1) && (
+        <HouseRoof houseLayout={houseLayout} opacity={view.mode === 'x-ray' ? XRAY_OPACITY : undefined} />
+      )}
 
-      {/* Realistic Roof with shingle texture */}
-      <Box
-        position={[houseLayout.width / 2, houseLayout.height + 0.5, houseLayout.length / 2]}
-        args={[houseLayout.width + 0.6, 1.2, houseLayout.length + 0.6]}
-        castShadow
-        receiveShadow
-      >
-        <meshStandardMaterial 
-          color={houseLayout.style === 'modern' ? '#2F4F4F' : '#8B4513'} 
-          roughness={0.95}
-          metalness={0.05}
-        />
-      </Box>
+      {/* Doors and windows on the exterior walls */}
+      {houseLayout.openings
+        .filter((opening) => !opening.connectsTo)
+        .map((opening) => {
+          const room = houseLayout.rooms.find((r) => r.id === opening.roomId);
+          return room && !hiddenFloors.includes(room.floor) ? (
+            <ExteriorOpening
+              key={opening.id}
+              opening={opening}
+              room={room}
+              houseLayout={houseLayout}
+              view={view}
+              cutHeight={cutHeight(room.floor)}
+            />
+          ) : null;
+        })}
 
-      {/* Architectural Details */}
-      {/* Entry Door */}
-      <Box
-        position={[houseLayout.width / 2, 1, -0.05]}
-        args={[1.2, 2.2, 0.1]}
-        castShadow
-      >
-        <meshStandardMaterial 
-          color={houseLayout.style === 'modern' ? '#8B4513' : '#654321'} 
-          roughness={0.7}
-          metalness={0.1}
-        />
-      </Box>
+      {/* Render rooms on the visible floors, each at its own elevation */}
+      {houseLayout.rooms
+        .filter((room) => !hiddenFloors.includes(room.floor))
+        .map((room) => (
+          <RoomComponent
+            key={room.id}
+            room={room}
+            style={houseLayout.style}
+            highlight={highlights[room.id]}
+            change={comparison?.added.includes(room.id) ? 'added' : comparison?.changed.includes(room.id) ? 'changed' : undefined}
+            editor={editor}
+            roomSelector={roomSelector}
+          />
+        ))}
 
-      {/* Entry Steps */}
-      <Box
-        position={[houseLayout.width / 2, -0.4, -1.5]}
-        args={[2.5, 0.2, 1.2]}
-        receiveShadow
-      >
-        <meshStandardMaterial 
-          color="#696969" 
-          roughness={0.8}
-          metalness={0.1}
-        />
-      </Box>
+      {/* Rooms of the earlier version that are gone, as outlines */}
+      {comparison?.removed
+        .filter((room) => !hiddenFloors.includes(room.floor))
+        .map((room) => (
+          <RemovedRoom key={room.id} room={room} />
+        ))}
 
-      {/* Front Windows */}
-      <Box
-        position={[houseLayout.width * 0.25, houseLayout.height * 0.6, -0.02]}
-        args={[1.5, 1.2, 0.05]}
-      >
-        <meshStandardMaterial 
-          color="#87CEEB" 
-          transparent
-          opacity={0.3}
-          roughness={0.1}
-          metalness={0.1}
-        />
-      </Box>
+      {/* Drag handles on the inside walls of the room being edited */}
+      {roomSelector && selectedRoom && !hiddenFloors.includes(selectedRoom.floor) &&
+        RoomEditor.movableSides(houseLayout, selectedRoom).map((side) => {
+          const preview = roomSelector.preview && roomSelector.preview.roomId === selectedRoom.id && roomSelector.preview.side === side
+            ? roomSelector.preview
+            : null;
+          return (
+            <WallHandle
+              key={side}
+              room={selectedRoom}
+              side={side}
+              coord={preview ? preview.coord : RoomEditor.edgeCoord(selectedRoom, side)}
+              blocked={!!preview?.error}
+              onGrab={(event) => roomSelector.onGrabWall(selectedRoom.id, side, event)}
+            />
+          );
+        })}
 
-      <Box
-        position={[houseLayout.width * 0.75, houseLayout.height * 0.6, -0.02]}
-        args={[1.5, 1.2, 0.05]}
-      >
-        <meshStandardMaterial 
-          color="#87CEEB" 
-          transparent
-          opacity={0.3}
-          roughness={0.1}
-          metalness={0.1}
-        />
-      </Box>
+      {/* Walls come from the shared wall graph so each one is drawn once */}
+      {houseLayout.walls
+        .filter((wall) => !hiddenFloors.includes(wall.floor))
+        .map((wall) => (
+          <WallComponent key={wall.id} wall={wall} houseLayout={houseLayout} view={view} cutHeight={cutHeight(wall.floor)} />
+        ))}
+    </group>
+  );
+}
 
-      {/* Render all rooms */}
-      {houseLayout.rooms.map((room) => (
-        <RoomComponent key={room.id} room={room} style={houseLayout.style} />
-      ))}
+/**
+ * Exterior Opening Component
+ * Renders a door leaf or window pane on the outside face of the house,
+ * fading along with the wall it is in
+ */
+function ExteriorOpening({ opening, room, houseLayout, view, cutHeight }: {
+  opening: Opening;
+  room: Room;
+  houseLayout: HouseLayout;
+  view: ViewSettings;
+  cutHeight?: number; // Height the wall is cut down to, leaving out anything above it
+}) {
+  const along = getWallStart(room, opening.wall) + opening.offset;
+  const isDoor = opening.type === 'door';
+  const depth = isDoor ? 0.1 : 0.05;
+  const outside = 0.05;
+  const top = Math.min(opening.sillHeight + opening.height, cutHeight === undefined ? Infinity : cutHeight);
+  const height = top - opening.sillHeight;
+  const y = room.position.y + opening.sillHeight + height / 2;
+  const wall = houseLayout.walls.find((w) => w.id === opening.wallId);
+  const material = useMemo(() => (isDoor
+    ? new THREE.MeshStandardMaterial({ color: houseLayout.style === 'modern' ? '#8B4513' : '#654321', roughness: 0.7, metalness: 0.1 })
+    : new THREE.MeshStandardMaterial({ color: '#87CEEB', transparent: true, opacity: 0.3, roughness: 0.1, metalness: 0.1 })
+  ), [isDoor, houseLayout.style]);
+  useEffect(() => () => material.dispose(), [material]);
+  useWallFade(useMemo(() => [material], [material]), wall, view);
+
+  const position: [number, number, number] =
+    opening.wall === 'south' ? [along, y, -outside] :
+    opening.wall === 'north' ? [along, y, houseLayout.length + outside] :
+    opening.wall === 'west' ? [-outside, y, along] :
+    [houseLayout.width + outside, y, along];
+  const args: [number, number, number] = opening.wall === 'south' || opening.wall === 'north'
+    ? [opening.width, height, depth]
+    : [depth, height, opening.width];
+
+  return (
+    <group name={opening.id}>
+      {height > 0.001 && <Box position={position} args={args} material={material} castShadow={isDoor} />}
+
+      {/* Entry steps outside the front door; garages open straight onto the driveway */}
+      {isDoor && opening.wall === 'south' && room.floor === 0 && room.type !== 'garage' && (
+        <Box
+          position={[along, -0.4, -1.5]}
+          args={[opening.width + 1.3, 0.2, 1.2]}
+          receiveShadow
+        >
+          <meshStandardMaterial
+            color="#696969"
+            roughness={0.8}
+            metalness={0.1}
+          />
+        </Box>
+      )}
     </group>
   );
 }
 
+/**
+ * Finish Palette Component
+ * Swatches of the finishes a room surface can be given
+ */
+function FinishPalette({ label, options, value, onChange }: {
+  label: string;
+  options: FinishMaterial[];
+  value: FinishMaterial;
+  onChange: (material: FinishMaterial) => void;
+}) {
+  return (
+    <div>
+      <div className="text-xs text-gray-500 mb-1">{label}: {MaterialPresets[value].description}</div>
+      <div className="flex gap-1">
+        {options.map(material => (
+          <button
+            key={material}
+            onClick={() => material !== value && onChange(material)}
+            title={MaterialPresets[material].description}
+            className={`w-7 h-7 rounded border-2 ${material === value ? 'border-indigo-600' : 'border-gray-200 hover:border-gray-400'}`}
+            style={{ backgroundColor: MaterialPresets[material].color }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Room Component
- * Renders individual rooms with furniture
+ * Renders individual rooms with furniture, tinted when they have building code issues
  */
-function RoomComponent({ room, style }: { room: Room; style: 'modern' | 'traditional' }) {
-  const roomColor = getRoomColor(room.type, style);
+function RoomComponent({ room, style, highlight, change, editor, roomSelector }: {
+  room: Room;
+  style: 'modern' | 'traditional';
+  highlight?: CodeIssue['severity'];
+  change?: 'added' | 'changed';
+  editor?: FurnitureEditor;
+  roomSelector?: RoomSelector;
+}) {
+  const finish = getRoomFinish(room, style);
+  const { width, length } = room.dimensions;
+  const isSelected = !!roomSelector && roomSelector.selectedRoomId === room.id;
   
   return (
-    <group position={[room.position.x, room.position.y, room.position.z]}>
-      {/* Room Floor */}
-      <Box
-        position={[room.dimensions.width / 2, 0.01, room.dimensions.length / 2]}
-        args={[room.dimensions.width, 0.02, room.dimensions.length]}
-      >
-        <meshStandardMaterial color={roomColor.floor} />
-      </Box>
-
-      {/* Room Walls */}
-      <Box
-        position={[room.dimensions.width / 2, room.dimensions.height / 2, 0]}
-        args={[room.dimensions.width, room.dimensions.height, 0.1]}
-      >
-        <meshStandardMaterial color={roomColor.walls} />
-      </Box>
+    <group
+      name={room.id}
+      userData={{ name: room.name, type: room.type, floor: room.floor }}
+      position={[room.position.x, room.position.y, room.position.z]}
+    >
+      {/* Room Floor (left open above the stairs so the stairwell stays clear) */}
+      {!(room.type === 'staircase' && room.floor > 0) && (
+        <SurfaceBox
+          position={[width / 2, 0.01, length / 2]}
+          origin={[room.position.x, room.position.y, room.position.z]}
+          size={[width, 0.02, length]}
+          material={getSurfaceMaterial(finish.floor)}
+          onClick={roomSelector ? (event) => roomSelector.onSelect(room.id, event) : undefined}
+          receiveShadow
+        />
+      )}
 
-      <Box
-        position={[0, room.dimensions.height / 2, room.dimensions.length / 2]}
-        args={[0.1, room.dimensions.height, room.dimensions.length]}
-      >
-        <meshStandardMaterial color={roomColor.walls} />
-      </Box>
+      {/* Comparison highlight over the floor */}
+      {change && (
+        <Box
+          userData={{ overlay: true }}
+          position={[width / 2, 0.04, length / 2]}
+          args={[width - 0.1, 0.02, length - 0.1]}
+        >
+          <meshStandardMaterial
+            color={COMPARISON_COLORS[change]}
+            emissive={COMPARISON_COLORS[change]}
+            emissiveIntensity={0.4}
+            transparent
+            opacity={0.6}
+          />
+        </Box>
+      )}
 
-      <Box
-        position={[room.dimensions.width, room.dimensions.height / 2, room.dimensions.length / 2]}
-        args={[0.1, room.dimensions.height, room.dimensions.length]}
-      >
-        <meshStandardMaterial color={roomColor.walls} />
-      </Box>
+      {/* Selection outline while rooms are edited */}
+      {isSelected && (
+        <Box
+          userData={{ overlay: true }}
+          position={[width / 2, 0.05, length / 2]}
+          args={[width - 0.1, 0.02, length - 0.1]}
+        >
+          <meshStandardMaterial color="#6366F1" emissive="#6366F1" emissiveIntensity={0.4} transparent opacity={0.35} />
+        </Box>
+      )}
 
-      <Box
-        position={[room.dimensions.width / 2, room.dimensions.height / 2, room.dimensions.length]}
-        args={[room.dimensions.width, room.dimensions.height, 0.1]}
-      >
-        <meshStandardMaterial color={roomColor.walls} />
-      </Box>
+      {/* Building code highlight over the floor */}
+      {highlight && (
+        <Box
+          userData={{ overlay: true }}
+          position={[width / 2, 0.04, length / 2]}
+          args={[width - 0.1, 0.02, length - 0.1]}
+        >
+          <meshStandardMaterial
+            color={highlight === 'violation' ? '#EF4444' : '#F59E0B'}
+            emissive={highlight === 'violation' ? '#EF4444' : '#F59E0B'}
+            emissiveIntensity={0.4}
+            transparent
+            opacity={0.6}
+          />
+        </Box>
+      )}
 
       {/* Room Label */}
       <Text
+        userData={{ overlay: true }}
         position={[room.dimensions.width / 2, room.dimensions.height + 0.5, room.dimensions.length / 2]}
         fontSize={0.5}
-        color="#374151"
+        color={highlight === 'violation' ? '#B91C1C' : highlight === 'warning' ? '#B45309' : '#374151'}
         anchorX="center"
         anchorY="middle"
       >
         {room.name}
       </Text>
 
+      {/* Stairs rise from the lower staircase room to the one above it */}
+      {room.type === 'staircase' && room.floor === 0 && (
+        <StaircaseSteps
+          width={room.dimensions.width}
+          length={room.dimensions.length}
+          height={room.dimensions.height}
+          origin={[room.position.x, room.position.y, room.position.z]}
+          material={getSurfaceMaterial(finish.floor)}
+        />
+      )}
+
       {/* Render furniture */}
-      {room.furniture.map((item) => (
-        <FurnitureComponent key={item.id} furniture={item} style={style} />
+      {room.furniture.map((item) => {
+        const selection = { roomId: room.id, furnitureId: item.id };
+        const isSelected = !!editor?.selection && editor.selection.roomId === room.id && editor.selection.furnitureId === item.id;
+        const preview = isSelected && editor?.preview ? editor.preview : null;
+        return (
+          <FurnitureComponent
+            key={item.id}
+            furniture={preview ? { ...item, position: { ...item.position, x: preview.x - room.position.x, z: preview.z - room.position.z } } : item}
+            style={style}
+            state={preview?.error ? 'blocked' : isSelected ? 'selected' : undefined}
+            onGrab={editor ? (event) => editor.onGrab(selection, event) : undefined}
+          />
+        );
+      })}
+    </group>
+  );
+}
+
+/**
+ * Removed Room Component
+ * Ghost of a room from the earlier version of a comparison that the shown version no longer has
+ */
+function RemovedRoom({ room }: { room: Room }) {
+  const { width, length, height } = room.dimensions;
+  const outline = useMemo(() => new THREE.BoxGeometry(width, height, length), [width, height, length]);
+
+  return (
+    <group name={`removed-${room.id}`} position={[room.position.x, room.position.y, room.position.z]}>
+      <Box userData={{ overlay: true }} position={[width / 2, height / 2, length / 2]} args={[width - 0.05, height, length - 0.05]}>
+        <meshStandardMaterial color={COMPARISON_COLORS.removed} transparent opacity={0.15} depthWrite={false} />
+      </Box>
+      <lineSegments userData={{ overlay: true }} position={[width / 2, height / 2, length / 2]}>
+        <edgesGeometry args={[outline]} />
+        <lineBasicMaterial color={COMPARISON_COLORS.removed} />
+      </lineSegments>
+      <Text
+        userData={{ overlay: true }}
+        position={[width / 2, height + 0.5, length / 2]}
+        fontSize={0.4}
+        color="#B91C1C"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {`${room.name} (removed)`}
+      </Text>
+    </group>
+  );
+}
+
+/**
+ * Wall Handle Component
+ * Grip on one side of the room being edited, drawn where the wall will land while dragged
+ */
+function WallHandle({ room, side, coord, blocked, onGrab }: {
+  room: Room;
+  side: WallSide;
+  coord: number;
+  blocked: boolean;
+  onGrab: (event: ThreeEvent<PointerEvent>) => void;
+}) {
+  const alongX = side === 'east' || side === 'west';
+  const { width, length } = room.dimensions;
+  const position: [number, number, number] = alongX
+    ? [coord, room.position.y + 0.3, room.position.z + length / 2]
+    : [room.position.x + width / 2, room.position.y + 0.3, coord];
+  const args: [number, number, number] = alongX ? [0.3, 0.6, length * 0.6] : [width * 0.6, 0.6, 0.3];
+  const color = blocked ? '#EF4444' : '#6366F1';
+
+  return (
+    <Box
+      userData={{ overlay: true }}
+      position={position}
+      args={args}
+      onPointerDown={onGrab}
+      onPointerOver={(event) => {
+        event.stopPropagation();
+        document.body.style.cursor = alongX ? 'ew-resize' : 'ns-resize';
+      }}
+      onPointerOut={() => {
+        document.body.style.cursor = '';
+      }}
+    >
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.5} transparent opacity={0.8} />
+    </Box>
+  );
+}
+
+/**
+ * Wall Component
+ * Renders one wall segment as solid pieces around its openings
+ */
+function WallComponent({ wall, houseLayout, view, cutHeight }: {
+  wall: WallSegment;
+  houseLayout: HouseLayout;
+  view: ViewSettings;
+  cutHeight?: number; // Height the wall is cut down to in the dollhouse view
+}) {
+  const axis = Math.abs(wall.end.z - wall.start.z) < 1e-6 ? 'x' : 'z';
+  const room = houseLayout.rooms.find((r) => r.id === (wall.rooms[0] || wall.rooms[1]));
+  const elevation = room ? room.position.y : 0;
+  const openings = getWallOpenings(wall, houseLayout);
+  const top = cutHeight === undefined ? wall.height : Math.min(wall.height, cutHeight);
+  // Outside walls get their own copies of the materials, so one can fade without the rest
+  const faces = useMemo(() => {
+    const shared = getWallFaces(wall, houseLayout).map(name => getSurfaceMaterial(name));
+    return wall.exterior ? shared.map(material => material.clone()) : shared;
+  }, [wall, houseLayout]);
+  const glass = useMemo(() => new THREE.MeshStandardMaterial({ color: '#87CEEB', transparent: true, opacity: 0.3, roughness: 0.1, metalness: 0.1 }), []);
+  useEffect(() => () => {
+    if (wall.exterior) {
+      faces.forEach(material => material.dispose());
+    }
+  }, [faces, wall.exterior]);
+  useEffect(() => () => glass.dispose(), [glass]);
+  useWallFade(useMemo(() => faces.concat(glass), [faces, glass]), wall, view);
+
+  // Box faces run +x, -x, +y, -y, +z, -z; the wall's two sides face across its axis
+  const materials = axis === 'x'
+    ? [faces[0], faces[0], faces[0], faces[0], faces[1], faces[0]]
+    : [faces[1], faces[0], faces[0], faces[0], faces[0], faces[0]];
+
+  const placeAt = (along: number, y: number): [number, number, number] =>
+    axis === 'x' ? [wall.start.x + along, elevation + y, wall.start.z] : [wall.start.x, elevation + y, wall.start.z + along];
+
+  return (
+    <group name={wall.id}>
+      {getWallPieces(wall, openings).filter((piece) => piece.bottom < top).map((piece, i) => {
+        const size = piece.to - piece.from;
+        const height = Math.min(piece.top, top) - piece.bottom;
+        return (
+          <SurfaceBox
+            key={i}
+            position={placeAt((piece.from + piece.to) / 2, piece.bottom + height / 2)}
+            size={axis === 'x' ? [size, height, wall.thickness] : [wall.thickness, height, size]}
+            material={materials}
+            castShadow
+            receiveShadow
+          />
+        );
+      })}
+
+      {/* Glass in the window openings */}
+      {openings
+        .filter(({ opening }) => opening.type === 'window' && opening.sillHeight < top)
+        .map(({ opening, start, end }) => {
+          const height = Math.min(opening.sillHeight + opening.height, top) - opening.sillHeight;
+          return (
+            <Box
+              key={opening.id}
+              position={placeAt((start + end) / 2, opening.sillHeight + height / 2)}
+              args={axis === 'x' ? [opening.width, height, 0.02] : [0.02, height, opening.width]}
+              material={glass}
+            />
+          );
+        })}
+    </group>
+  );
+}
+
+/**
+ * Fade the materials of an outside wall while the camera is beyond it, with
+ * the roof off or in the dollhouse view, and keep them see-through in the
+ * x-ray view. Opacity eases towards where it is heading every frame, so
+ * walls do not blink as the camera swings past them.
+ */
+function useWallFade(materials: THREE.Material[], wall: WallSegment | undefined, view: ViewSettings) {
+  const fade = useRef(1);
+  const base = useMemo(() => materials.map(material => material.opacity), [materials]);
+  const applied = useRef<number | null>(null);
+
+  useFrame(({ camera }, delta) => {
+    let target = 1;
+    if (wall && wall.exterior) {
+      const alongX = Math.abs(wall.end.z - wall.start.z) < 1e-6;
+      const beyond = (alongX ? camera.position.z - wall.start.z : camera.position.x - wall.start.x) * (wall.rooms[0] ? 1 : -1) > 0;
+      if (view.mode === 'x-ray') {
+        target = XRAY_OPACITY;
+      } else if (view.fadeWalls && (view.mode === 'roof-off' || view.mode === 'dollhouse') && beyond) {
+        target = FADED_OPACITY;
+      }
+    }
+
+    fade.current += (target - fade.current) * Math.min(1, delta * 6);
+    if (Math.abs(target - fade.current) < 0.005) {
+      fade.current = target;
+    }
+    if (applied.current === fade.current) {
+      return;
+    }
+    applied.current = fade.current;
+
+    materials.forEach((material, i) => {
+      const transparent = base[i] < 1 || fade.current < 1;
+      if (material.transparent !== transparent) {
+        material.transparent = transparent;
+        material.needsUpdate = true;
+      }
+      material.opacity = base[i] * fade.current;
+      material.depthWrite = fade.current === 1;
+    });
+  });
+
+  // Fresh materials start from scratch
+  useEffect(() => {
+    applied.current = null;
+  }, [materials]);
+}
+
+/**
+ * Staircase Steps Component
+ * Renders a dog-leg staircase: one flight up the left half, a landing at
+ * the back, and a second flight down the right half to the floor above
+ */
+function StaircaseSteps({ width, length, height, origin, material }: {
+  width: number;
+  length: number;
+  height: number;
+  origin: [number, number, number];
+  material: THREE.Material;
+}) {
+  const { stepsPerFlight, riser, tread, flightWidth, landingDepth } = getStairGeometry({ width, length, height });
+
+  return (
+    <group name="stairs">
+      {Array.from({ length: stepsPerFlight }, (_, i) => (
+        <SurfaceBox
+          key={`lower-${i}`}
+          position={[flightWidth / 2, (riser * (i + 1)) / 2, tread * (i + 0.5)]}
+          size={[flightWidth, riser * (i + 1), tread]}
+          origin={origin}
+          material={material}
+          castShadow
+          receiveShadow
+        />
       ))}
+
+      {/* Half landing */}
+      <SurfaceBox
+        position={[width / 2, height / 2 - 0.05, length - landingDepth / 2]}
+        size={[width, 0.1, landingDepth]}
+        origin={origin}
+        material={material}
+        castShadow
+        receiveShadow
+      />
+
+      {Array.from({ length: stepsPerFlight }, (_, i) => (
+        <SurfaceBox
+          key={`upper-${i}`}
+          position={[flightWidth * 1.5, height / 2 + riser * (i + 0.5), length - landingDepth - tread * (i + 0.5)]}
+          size={[flightWidth, riser, tread]}
+          origin={origin}
+          material={material}
+          castShadow
+          receiveShadow
+        />
+      ))}
+    </group>
+  );
+}
+
+/**
+ * Surface Box Component
+ * Box whose UVs are in meters from where it sits in the house, so the
+ * pattern of its material keeps its real size however big the box is
+ */
+function SurfaceBox({ size, position, origin = [0, 0, 0], material, onClick, castShadow, receiveShadow }: {
+  size: [number, number, number];
+  position: [number, number, number];
+  origin?: [number, number, number]; // Position in the house of the group the box is in
+  material: THREE.Material | THREE.Material[];
+  onClick?: (event: ThreeEvent<MouseEvent>) => void;
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+}) {
+  const [width, height, length] = size;
+  const [x, y, z] = [origin[0] + position[0], origin[1] + position[1], origin[2] + position[2]];
+  const geometry = useMemo(() => createWorldBoxGeometry([width, height, length], [x, y, z]), [width, height, length, x, y, z]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh
+      geometry={geometry}
+      material={material}
+      position={position}
+      onClick={onClick}
+      castShadow={castShadow}
+      receiveShadow={receiveShadow}
+    />
+  );
+}
+
+/**
+ * House Roof Component
+ * Renders the generated roof over the top floor, with its gables or
+ * parapets in the style's exterior finish
+ */
+function HouseRoof({ houseLayout, opacity }: { houseLayout: HouseLayout; opacity?: number }) {
+  const plan = useMemo(() => RoofGenerator.build(houseLayout), [houseLayout]);
+  const roofing = useMemo(() => createSurfaceGeometry(plan.roofing), [plan]);
+  const walls = useMemo(() => createSurfaceGeometry(plan.walls), [plan]);
+  useEffect(() => () => {
+    roofing.dispose();
+    walls.dispose();
+  }, [roofing, walls]);
+
+  // See-through copies of the materials for the x-ray view
+  const materials = useMemo(() => {
+    const shared = [getSurfaceMaterial(plan.spec.material), getSurfaceMaterial(getMaterialName(getStyleMaterials(houseLayout.style).walls))];
+    return opacity === undefined ? shared : shared.map(material => {
+      const copy = material.clone();
+      copy.transparent = true;
+      copy.opacity = opacity;
+      copy.depthWrite = false;
+      return copy;
+    });
+  }, [plan, houseLayout.style, opacity]);
+  useEffect(() => () => {
+    if (opacity !== undefined) {
+      materials.forEach(material => material.dispose());
+    }
+  }, [materials, opacity]);
+
+  return (
+    <group name="roof">
+      <mesh geometry={roofing} material={materials[0]} castShadow receiveShadow />
+      {plan.walls.length > 0 && <mesh geometry={walls} material={materials[1]} castShadow receiveShadow />}
     </group>
   );
 }
 
 /**
  * Furniture Component
- * Renders individual furniture items
+ * Renders individual furniture items from their catalog models, which can
+ * be picked up while editing
  */
-function FurnitureComponent({ furniture, style }: { furniture: Furniture; style: 'modern' | 'traditional' }) {
-  const furnitureColor = getFurnitureColor(furniture.type, style);
+function FurnitureComponent({ furniture, style, state, onGrab }: {
+  furniture: Furniture;
+  style: 'modern' | 'traditional';
+  state?: 'selected' | 'blocked'; // Blocked while dragged somewhere it cannot go
+  onGrab?: (event: ThreeEvent<PointerEvent>) => void;
+}) {
+  const parts = useMemo(() => getFurnitureParts(furniture), [furniture]);
+  const emphasis = state === 'blocked' ? '#EF4444' : state === 'selected' ? '#3B82F6' : undefined;
   
   return (
     <group
+      name={furniture.id}
+      userData={{ name: furniture.name, type: furniture.type }}
+      onPointerDown={onGrab}
+      onPointerOver={onGrab ? (event) => { event.stopPropagation(); document.body.style.cursor = 'grab'; } : undefined}
+      onPointerOut={onGrab ? () => { document.body.style.cursor = ''; } : undefined}
       position={[
         furniture.position.x,
         furniture.position.y,
@@ -411,55 +1654,114 @@ function FurnitureComponent({ furniture, style }: { furniture: Furniture; style:
       ]}
       rotation={[0, furniture.rotation, 0]}
     >
-      <Box
-        args={[
-          furniture.dimensions.width,
-          furniture.dimensions.height,
-          furniture.dimensions.length
-        ]}
-      >
-        <meshStandardMaterial color={furnitureColor} />
-      </Box>
+      {parts.map((part, i) => (
+        <FurniturePart key={i} part={part} preset={getFurnitureMaterial(part.finish, furniture.type, style)} emphasis={emphasis} />
+      ))}
     </group>
   );
 }
 
+// One box or cylinder of a furniture model
+function FurniturePart({ part, preset, emphasis }: { part: MeshPart; preset: MaterialPreset; emphasis?: string }) {
+  const [width, height, length] = part.size;
+  const material = (
+    <meshStandardMaterial
+      color={preset.color}
+      roughness={preset.roughness}
+      metalness={preset.metalness}
+      emissive={emphasis || '#000000'}
+      emissiveIntensity={emphasis ? 0.5 : 0}
+      transparent={part.finish === 'glass'}
+      opacity={part.finish === 'glass' ? 0.5 : 1}
+    />
+  );
+
+  if (part.shape === 'cylinder') {
+    return (
+      <Cylinder
+        position={part.position}
+        rotation={part.axis === 'z' ? [Math.PI / 2, 0, 0] : [0, 0, 0]}
+        args={[width / 2, width / 2, height, 16]}
+        castShadow
+      >
+        {material}
+      </Cylinder>
+    );
+  }
+
+  return (
+    <Box position={part.position} args={[width, height, length]} castShadow receiveShadow>
+      {material}
+    </Box>
+  );
+}
+
 /**
  * Ground Plane Component
- * Renders the ground surface
+ * The plot inside its kerb, the land around it, a path round the house and trees
  */
-function GroundPlane({ width, length }: { width: number; length: number }) {
+function GroundPlane({ houseLayout }: { houseLayout: HouseLayout }) {
+  const { width, length, plot } = houseLayout;
+  const bounds = siteBounds(houseLayout);
+  const lawn = useMemo(
+    () => plot ? new THREE.Shape(plot.boundary.map(point => new THREE.Vector2(point.x, -point.z))) : null,
+    [plot]
+  );
+
   return (
-    <>
-      {/* Main grass ground with realistic texture */}
-      <Box
-        position={[width / 2, -0.5, length / 2]}
-        args={[width + 20, 1, length + 20]}
-        receiveShadow
-      >
-        <meshStandardMaterial 
-          color="#228B22" 
-          roughness={0.95}
-          metalness={0.0}
+    <group name="ground">
+      {/* Land around the plot, or the lawn itself for designs without a plot outline */}
+      {plot ? (
+        <Box
+          position={[(bounds.minX + bounds.maxX) / 2, -0.5, (bounds.minZ + bounds.maxZ) / 2]}
+          args={[bounds.maxX - bounds.minX + 20, 1, bounds.maxZ - bounds.minZ + 20]}
+          receiveShadow
+        >
+          <meshStandardMaterial color="#6B8E23" roughness={0.95} metalness={0.0} />
+        </Box>
+      ) : (
+        <SurfaceBox
+          position={[(bounds.minX + bounds.maxX) / 2, -0.5, (bounds.minZ + bounds.maxZ) / 2]}
+          size={[bounds.maxX - bounds.minX + 20, 1, bounds.maxZ - bounds.minZ + 20]}
+          material={getSurfaceMaterial('GRASS')}
+          receiveShadow
         />
-      </Box>
+      )}
+
+      {/* Plot lawn within its true boundary */}
+      {plot && lawn && (
+        <group name="plot">
+          {/* Shape UVs are its outline's coordinates, already in meters */}
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]} material={getSurfaceMaterial('GRASS')} receiveShadow>
+            <shapeGeometry args={[lawn]} />
+          </mesh>
+
+          {boundarySegments(plot.boundary).map((segment, index) => (
+            <Box
+              key={index}
+              position={[segment.center.x, 0.06, segment.center.z]}
+              rotation={[0, segment.angle, 0]}
+              args={[segment.length, 0.12, 0.15]}
+              receiveShadow
+              castShadow
+            >
+              <meshStandardMaterial color="#A9A9A9" roughness={0.8} metalness={0.0} />
+            </Box>
+          ))}
+        </group>
+      )}
       
       {/* Concrete pathway around house */}
-      <Box
+      <SurfaceBox
         position={[width / 2, -0.48, length / 2]}
-        args={[width + 2, 0.05, length + 2]}
+        size={[width + 2, 0.05, length + 2]}
+        material={getSurfaceMaterial('CONCRETE_PATH')}
         receiveShadow
-      >
-        <meshStandardMaterial 
-          color="#C0C0C0" 
-          roughness={0.7}
-          metalness={0.0}
-        />
-      </Box>
+      />
       
       {/* Decorative Trees */}
       <Cylinder
-        position={[width + 5, 1, length / 4]}
+        position={[bounds.maxX + 5, 1, length / 4]}
         args={[0.5, 0.5, 2]}
         receiveShadow
         castShadow
@@ -472,7 +1774,7 @@ function GroundPlane({ width, length }: { width: number; length: number }) {
       </Cylinder>
       
       <Cylinder
-        position={[width + 5, 3, length / 4]}
+        position={[bounds.maxX + 5, 3, length / 4]}
         args={[2, 2, 2]}
         receiveShadow
         castShadow
@@ -486,7 +1788,7 @@ function GroundPlane({ width, length }: { width: number; length: number }) {
       
       {/* Second Tree */}
       <Cylinder
-        position={[-3, 1, length * 0.7]}
+        position={[bounds.minX - 3, 1, length * 0.7]}
         args={[0.4, 0.4, 1.8]}
         receiveShadow
         castShadow
@@ -499,7 +1801,7 @@ function GroundPlane({ width, length }: { width: number; length: number }) {
       </Cylinder>
       
       <Cylinder
-        position={[-3, 2.8, length * 0.7]}
+        position={[bounds.minX - 3, 2.8, length * 0.7]}
         args={[1.8, 1.8, 1.8]}
         receiveShadow
         castShadow
@@ -510,10 +1812,24 @@ function GroundPlane({ width, length }: { width: number; length: number }) {
           metalness={0.0}
         />
       </Cylinder>
-    </>
+    </group>
   );
 }
 
+/**
+ * Scene Bridge Component
+ * Passes the live renderer, scene and camera out of the Canvas once it is mounted
+ */
+function SceneBridge({ onSceneReady }: { onSceneReady: (context: ViewerContext) => void }) {
+  const { gl, scene, camera } = useThree();
+
+  useEffect(() => {
+    onSceneReady({ gl, scene, camera });
+  }, [gl, scene, camera, onSceneReady]);
+
+  return null;
+}
+
 /**
  * Auto Tour Camera Component
  * Handles automatic camera movement through the house
@@ -571,50 +1887,133 @@ function AutoTourCamera({
 }
 
 /**
- * Utility Functions
+ * First-person camera for walking round one floor at eye height. Walls and
+ * furniture stop the walker, doors let it through, and the mouse looks round
+ * once the pointer is locked. The camera goes back where it was on leaving.
  */
-function getRoomColor(roomType: string, style: 'modern' | 'traditional') {
-  const colors = {
-    modern: {
-      living: { floor: '#E5E7EB', walls: '#F9FAFB' },
-      bedroom: { floor: '#F3F4F6', walls: '#FFFFFF' },
-      kitchen: { floor: '#FEF3C7', walls: '#FEFCE8' },
-      bathroom: { floor: '#DBEAFE', walls: '#EFF6FF' },
-      dining: { floor: '#E5E7EB', walls: '#F9FAFB' },
-      hallway: { floor: '#F3F4F6', walls: '#FFFFFF' }
-    },
-    traditional: {
-      living: { floor: '#8B7355', walls: '#F5DEB3' },
-      bedroom: { floor: '#DEB887', walls: '#F5F5DC' },
-      kitchen: { floor: '#CD853F', walls: '#F0E68C' },
-      bathroom: { floor: '#B8860B', walls: '#F0F8FF' },
-      dining: { floor: '#8B7355', walls: '#F5DEB3' },
-      hallway: { floor: '#DEB887', walls: '#F5F5DC' }
+function WalkthroughCamera({ houseLayout, floor, marker, onLockChange }: {
+  houseLayout: HouseLayout;
+  floor: number;
+  marker: React.RefObject<SVGGElement>;
+  onLockChange: (locked: boolean) => void;
+}) {
+  const { camera } = useThree();
+  const walker = useRef<{ x: number; z: number } | null>(null);
+  const keys = useRef(new Set<string>());
+  const collider = useMemo(() => buildCollider(houseLayout, floor), [houseLayout, floor]);
+  const elevation = floorElevation(houseLayout, floor);
+  const forward = useMemo(() => new THREE.Vector3(), []);
+  const handleLock = useCallback(() => onLockChange(true), [onLockChange]);
+  const handleUnlock = useCallback(() => onLockChange(false), [onLockChange]);
+
+  useEffect(() => {
+    const position = camera.position.clone();
+    const quaternion = camera.quaternion.clone();
+    return () => {
+      camera.position.copy(position);
+      camera.quaternion.copy(quaternion);
+    };
+  }, [camera]);
+
+  // Stand somewhere free on the floor, staying put when the spot is still clear
+  useEffect(() => {
+    const entering = !walker.current;
+    const spot = findSpot(houseLayout, floor, collider, walker.current || undefined);
+    walker.current = spot;
+    camera.position.set(spot.x, elevation + EYE_HEIGHT, spot.z);
+    if (entering) {
+      camera.lookAt(spot.x, elevation + EYE_HEIGHT, spot.z + 1);
     }
-  };
-  
-  return colors[style][roomType as keyof typeof colors.modern] || colors[style].living;
-}
+    return () => collider.geometry.dispose();
+  }, [camera, collider, houseLayout, floor, elevation]);
+
+  useEffect(() => {
+    const handleDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') {
+        return;
+      }
+      if (WALK_KEYS[event.code]) {
+        event.preventDefault();
+      }
+      keys.current.add(event.code);
+    };
+    const handleUp = (event: KeyboardEvent) => keys.current.delete(event.code);
+    const handleBlur = () => keys.current.clear();
+    window.addEventListener('keydown', handleDown);
+    window.addEventListener('keyup', handleUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleDown);
+      window.removeEventListener('keyup', handleUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
 
-function getFurnitureColor(furnitureType: string, style: 'modern' | 'traditional') {
-  const colors = {
-    modern: {
-      bed: '#2C3E50',
-      sofa: '#34495E',
-      table: '#95A5A6',
-      chair: '#7F8C8D',
-      cabinet: '#BDC3C7',
-      appliance: '#ECF0F1'
-    },
-    traditional: {
-      bed: '#8B4513',
-      sofa: '#A0522D',
-      table: '#CD853F',
-      chair: '#DEB887',
-      cabinet: '#D2B48C',
-      appliance: '#F5DEB3'
+  useFrame((_, delta) => {
+    if (!walker.current) {
+      return;
     }
-  };
-  
-  return colors[style][furnitureType as keyof typeof colors.modern] || colors[style].cabinet;
+
+    let ahead = 0;
+    let across = 0;
+    keys.current.forEach(code => {
+      const [a, b] = WALK_KEYS[code] || [0, 0];
+      ahead += a;
+      across += b;
+    });
+
+    // Walk level with the floor whichever way the camera tilts
+    camera.getWorldDirection(forward).setY(0);
+    if (forward.lengthSq() < 1e-6) {
+      forward.set(0, 0, 1);
+    }
+    forward.normalize();
+
+    if (ahead || across) {
+      const running = keys.current.has('ShiftLeft') || keys.current.has('ShiftRight');
+      const scale = (running ? RUN_SPEED : WALK_SPEED) * Math.min(delta, 0.1) / Math.hypot(ahead, across);
+      // Right of the way the camera faces is (-z, x)
+      walker.current = moveWalker(collider, houseLayout, elevation, walker.current, {
+        x: (forward.x * ahead - forward.z * across) * scale,
+        z: (forward.z * ahead + forward.x * across) * scale
+      });
+    }
+    camera.position.set(walker.current.x, elevation + EYE_HEIGHT, walker.current.z);
+
+    // The plan is drawn with x and z both reversed
+    if (marker.current) {
+      const [x, y] = planPoint(houseLayout, walker.current.x, walker.current.z);
+      const angle = Math.atan2(-forward.z, -forward.x) * 180 / Math.PI;
+      marker.current.setAttribute('transform', `translate(${x.toFixed(3)} ${y.toFixed(3)}) rotate(${angle.toFixed(1)})`);
+    }
+  });
+
+  return <PointerLockControls selector="#walkthrough-look" onLock={handleLock} onUnlock={handleUnlock} />;
+}
+
+/**
+ * Floor plan of the floor being walked, with the walker marked on it
+ */
+function WalkthroughMinimap({ houseLayout, floor, marker }: {
+  houseLayout: HouseLayout;
+  floor: number;
+  marker: React.RefObject<SVGGElement>;
+}) {
+  const sheet = useMemo(() => buildFloorPlanSheet(houseLayout, floor), [houseLayout, floor]);
+  const image = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderFloorPlanSvg(sheet))}`, [sheet]);
+
+  return (
+    <div className="absolute bottom-4 left-4 w-72 bg-white/95 backdrop-blur-sm rounded-lg p-2 shadow-lg border pointer-events-none">
+      <div className="relative">
+        <img src={image} alt={sheet.title} className="block w-full h-auto" />
+        <svg viewBox={`0 0 ${sheet.width} ${sheet.height}`} className="absolute inset-0 w-full h-full">
+          <g ref={marker}>
+            <polygon points="1.1,0 0.1,-0.55 0.1,0.55" fill="#EF4444" />
+            <circle r={0.45} fill="#EF4444" stroke="#FFFFFF" strokeWidth={0.12} />
+          </g>
+        </svg>
+      </div>
+    </div>
+  );
 }
@@ -2,27 +2,33 @@
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { HouseFormData, FormErrors } from '@/types/house';
-import { Home, Bed, Bath, ChefHat, MapPin, FileText } from 'lucide-react';
+import { HouseFormData, FormErrors, PlotShape, Setbacks, RoofSpec, RoofType, RoofMaterial } from '@/types/house';
+import { Home, Bed, Bath, ChefHat, MapPin, FileText, LandPlot, Ruler, Triangle } from 'lucide-react';
+import { validatePlotSize } from '@/utils/units';
+import { validateSite, PLOT_SHAPES, DEFAULT_SETBACKS } from '@/utils/plot';
+import { RoofGenerator, ROOF_TYPES, ROOF_MATERIALS } from '@/services/roofGenerator';
 
 interface HouseDesignFormProps {
   onSubmit: (formData: HouseFormData) => void;
   isLoading: boolean;
+  initialData?: HouseFormData | null; // Inputs of the design being changed, if any
 }
 
 /**
  * House Design Form Component
  * Collects user specifications for house design
  */
-export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignFormProps) {
-  const [formData, setFormData] = useState<HouseFormData>({
+export default function HouseDesignForm({ onSubmit, isLoading, initialData }: HouseDesignFormProps) {
+  const [formData, setFormData] = useState<HouseFormData>(initialData || {
     plotSize: '',
     houseType: 'single',
     bedrooms: 2,
     bathrooms: 1,
     kitchens: 1,
     locationType: 'city',
-    extraNotes: ''
+    extraNotes: '',
+    plotShape: 'rectangle',
+    setbacks: {}
   });
 
   const [errors, setErrors] = useState<FormErrors>({});
@@ -34,12 +40,14 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
     const newErrors: FormErrors = {};
 
     // Validate plot size
-    if (!formData.plotSize.trim()) {
-      newErrors.plotSize = 'Plot size is required';
+    const plotSizeError = validatePlotSize(formData.plotSize);
+    if (plotSizeError) {
+      newErrors.plotSize = plotSizeError;
     } else {
-      const plotSize = formData.plotSize.toLowerCase().replace(/\s/g, '');
-      if (!plotSize.match(/^\d+x\d+$|^\d+$/)) {
-        newErrors.plotSize = 'Please enter plot size as "width x length" or single dimension';
+      // Shape and setbacks only make sense once the plot size does
+      const siteError = validateSite(formData);
+      if (siteError) {
+        newErrors.setbacks = siteError;
       }
     }
 
@@ -56,6 +64,11 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
       newErrors.kitchens = 'Kitchens must be between 1 and 3';
     }
 
+    const roofError = formData.roof ? RoofGenerator.validateSpec(formData.roof) : null;
+    if (roofError) {
+      newErrors.roof = roofError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -83,6 +96,60 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
     }
   };
 
+  /**
+   * Handle setback changes; an emptied field goes back to the default
+   */
+  const handleSetbackChange = (kind: keyof Setbacks, value: string) => {
+    setFormData(prev => {
+      const setbacks = { ...prev.setbacks };
+      if (value.trim() === '' || isNaN(parseFloat(value))) {
+        delete setbacks[kind];
+      } else {
+        setbacks[kind] = parseFloat(value);
+      }
+      return { ...prev, setbacks };
+    });
+
+    if (errors.setbacks) {
+      setErrors(prev => ({ ...prev, setbacks: undefined }));
+    }
+  };
+
+  /**
+   * Handle roof changes; picking a type starts from the style's default roof,
+   * and the empty choice goes back to it
+   */
+  const handleRoofChange = (field: keyof RoofSpec, value: string) => {
+    setFormData(prev => {
+      if (field === 'type' && value === '') {
+        return { ...prev, roof: undefined };
+      }
+
+      const style = prev.locationType === 'city' ? 'modern' : 'traditional';
+      const roof: RoofSpec = { ...(prev.roof || RoofGenerator.defaultSpec(style, prev.houseType === 'single' ? 1 : 2)) };
+      if (field === 'type') {
+        roof.type = value as RoofType;
+        // Flat roofs have no pitch or overhang
+        if (roof.type === 'flat') {
+          roof.pitch = 0;
+          roof.overhang = 0;
+        } else if (roof.pitch === 0) {
+          roof.pitch = 25;
+          roof.overhang = 0.5;
+        }
+      } else if (field === 'material') {
+        roof.material = value as RoofMaterial;
+      } else if (field === 'pitch' || field === 'overhang') {
+        roof[field] = parseFloat(value) || 0;
+      }
+      return { ...prev, roof };
+    });
+
+    if (errors.roof) {
+      setErrors(prev => ({ ...prev, roof: undefined }));
+    }
+  };
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -110,7 +177,7 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
             type="text"
             value={formData.plotSize}
             onChange={(e) => handleInputChange('plotSize', e.target.value)}
-            placeholder="e.g., 20x30 or 25 (in meters)"
+            placeholder="e.g. 20x30, 30x60 ft, 10m x 15m, 2400 sq ft or 5 marla"
             className={`form-input ${errors.plotSize ? 'border-red-500' : ''}`}
             disabled={isLoading}
           />
@@ -118,7 +185,7 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
             <p className="text-red-500 text-sm">{errors.plotSize}</p>
           )}
           <p className="text-xs text-gray-500">
-            Enter dimensions as "width x length" or single dimension for square plots
+            Meters unless a unit is given; a single length is a square plot and an area becomes a 2:3 plot
           </p>
         </div>
 
@@ -246,6 +313,122 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
           </div>
         </div>
 
+        {/* Plot Shape and Setbacks */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <LandPlot className="w-4 h-4" />
+              Plot Shape
+            </label>
+            <select
+              value={formData.plotShape}
+              onChange={(e) => handleInputChange('plotShape', e.target.value as PlotShape)}
+              className="form-select"
+              disabled={isLoading}
+            >
+              {PLOT_SHAPES.map(shape => (
+                <option key={shape.value} value={shape.value}>{shape.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+              <Ruler className="w-4 h-4" />
+              Setbacks (m)
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {(['front', 'rear', 'side'] as (keyof Setbacks)[]).map(kind => (
+                <input
+                  key={kind}
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={formData.setbacks?.[kind] ?? ''}
+                  onChange={(e) => handleSetbackChange(kind, e.target.value)}
+                  placeholder={`${kind} ${DEFAULT_SETBACKS[formData.locationType][kind]}`}
+                  aria-label={`${kind} setback in meters`}
+                  className={`form-input ${errors.setbacks ? 'border-red-500' : ''}`}
+                  disabled={isLoading}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+        {errors.setbacks && (
+          <p className="text-red-500 text-sm -mt-4">{errors.setbacks}</p>
+        )}
+        <p className="text-xs text-gray-500 -mt-4">
+          Leave a setback empty to use the usual one for a {formData.locationType} plot
+        </p>
+
+        {/* Roof */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+            <Triangle className="w-4 h-4" />
+            Roof
+          </label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <select
+              value={formData.roof?.type ?? ''}
+              onChange={(e) => handleRoofChange('type', e.target.value)}
+              aria-label="Roof type"
+              className="form-select"
+              disabled={isLoading}
+            >
+              <option value="">Usual for the style</option>
+              {ROOF_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+            {formData.roof && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  max={RoofGenerator.MAX_PITCH}
+                  step={1}
+                  value={formData.roof.pitch}
+                  onChange={(e) => handleRoofChange('pitch', e.target.value)}
+                  aria-label="Roof pitch in degrees"
+                  title="Pitch (degrees)"
+                  className={`form-input ${errors.roof ? 'border-red-500' : ''}`}
+                  disabled={isLoading || formData.roof.type === 'flat'}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={RoofGenerator.MAX_OVERHANG}
+                  step={0.1}
+                  value={formData.roof.overhang}
+                  onChange={(e) => handleRoofChange('overhang', e.target.value)}
+                  aria-label="Roof overhang in meters"
+                  title="Overhang (m)"
+                  className={`form-input ${errors.roof ? 'border-red-500' : ''}`}
+                  disabled={isLoading || formData.roof.type === 'flat'}
+                />
+                <select
+                  value={formData.roof.material}
+                  onChange={(e) => handleRoofChange('material', e.target.value)}
+                  aria-label="Roofing material"
+                  className="form-select"
+                  disabled={isLoading}
+                >
+                  {ROOF_MATERIALS.map(material => (
+                    <option key={material.value} value={material.value}>{material.label}</option>
+                  ))}
+                </select>
+              </>
+            )}
+          </div>
+          {errors.roof && (
+            <p className="text-red-500 text-sm">{errors.roof}</p>
+          )}
+          {formData.roof && formData.roof.type !== 'flat' && (
+            <p className="text-xs text-gray-500">Pitch in degrees and overhang in meters</p>
+          )}
+        </div>
+
         {/* Extra Notes */}
         <div className="space-y-2">
           <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
@@ -255,7 +438,7 @@ export default function HouseDesignForm({ onSubmit, isLoading }: HouseDesignForm
           <textarea
             value={formData.extraNotes}
             onChange={(e) => handleInputChange('extraNotes', e.target.value)}
-            placeholder="Any additional requirements or preferences..."
+            placeholder="e.g. master bedroom with attached bath, open kitchen, garage for two cars, prayer room, bedrooms facing east"
             rows={3}
             className="form-input resize-none"
             disabled={isLoading}
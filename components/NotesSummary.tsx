@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle, AlertTriangle, HelpCircle } from 'lucide-react';
+import { NotesReport } from '@/types/house';
+
+interface NotesSummaryProps {
+  report: NotesReport;
+}
+
+/**
+ * Notes Summary Component
+ * Shows which requests from the extra notes made it into the layout,
+ * which could not, and which were not understood
+ */
+export default function NotesSummary({ report }: NotesSummaryProps) {
+  const { applied, notApplied, notUnderstood } = report;
+  if (applied.length + notApplied.length + notUnderstood.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg space-y-2">
+      <p className="font-medium text-gray-800 text-sm">📝 From your notes</p>
+
+      {applied.map(text => (
+        <p key={text} className="flex items-start gap-2 text-sm text-green-700">
+          <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {text}
+        </p>
+      ))}
+
+      {notApplied.map(text => (
+        <p key={text} className="flex items-start gap-2 text-sm text-amber-700">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {text}
+        </p>
+      ))}
+
+      {notUnderstood.length > 0 && (
+        <p className="flex items-start gap-2 text-sm text-gray-500">
+          <HelpCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          Not understood: {notUnderstood.map(text => `"${text}"`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { HouseVariant } from '@/types/house';
+import { buildFloorPlanSheet, renderFloorPlanSvg } from '@/utils/floorPlan';
+
+interface VariantComparisonProps {
+  variants: HouseVariant[];
+  currentSeed: number | null;
+  onSelect: (variant: HouseVariant) => void;
+  onClose: () => void;
+}
+
+/**
+ * Variant Comparison Component
+ * Ground floor plans of several generated layouts side by side,
+ * so one can be picked to continue with
+ */
+export default function VariantComparison({ variants, currentSeed, onSelect, onClose }: VariantComparisonProps) {
+  const plans = useMemo(
+    () => variants.map(variant => renderFloorPlanSvg(buildFloorPlanSheet(variant.layout, 0), 16)),
+    [variants]
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg p-6 border">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          🔀 Compare Variants
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg"
+          aria-label="Close variants"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {variants.map((variant, index) => {
+          const isCurrent = variant.seed === currentSeed;
+          const groundRooms = variant.layout.rooms.filter(room => room.floor === 0).length;
+
+          return (
+            <div
+              key={variant.seed}
+              className={`flex flex-col rounded-lg border p-3 ${isCurrent ? 'border-primary-500 bg-primary-50' : 'border-gray-200'}`}
+            >
+              <div
+                className="h-48 flex items-center justify-center overflow-hidden bg-white rounded [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:w-auto [&>svg]:h-auto"
+                dangerouslySetInnerHTML={{ __html: plans[index] }}
+              />
+
+              <div className="mt-3 text-sm text-gray-700">
+                <p className="font-medium">Variant {index + 1}</p>
+                <p className="text-xs text-gray-500">
+                  {variant.layout.rooms.length} rooms · {groundRooms} on ground floor · seed {variant.seed}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Arrangement score {Math.round(variant.adjacency.score * 100)}%
+                </p>
+              </div>
+
+              <motion.button
+                whileHover={{ scale: 1.03 }}
+                whileTap={{ scale: 0.97 }}
+                onClick={() => onSelect(variant)}
+                disabled={isCurrent}
+                className="mt-3 px-3 py-1.5 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-lg disabled:opacity-50"
+              >
+                {isCurrent ? 'Current' : 'Use this'}
+              </motion.button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
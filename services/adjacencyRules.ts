@@ -0,0 +1,136 @@
+import { HouseLayout, Room, LayoutConstraint, AdjacencyReport, AdjacencyScore } from '@/types/house';
+import { LayoutEngine } from '@/services/layoutEngine';
+
+/**
+ * Adjacency Rules
+ * Preferences about which rooms should (or should not) share a wall, each
+ * scored from 0 (not met) to 1 (fully met) so that candidate layouts can be
+ * compared and the result explained to the user
+ */
+
+interface AdjacencyRule {
+  id: string;
+  label: string;
+  weight: number; // Importance relative to the other rules
+  // Score for a layout, or null when the rule does not apply to this house
+  evaluate: (layout: HouseLayout, constraints: LayoutConstraint[]) => number | null;
+}
+
+export class AdjacencyRules {
+  private static readonly MIN_SHARED_WALL = 1; // Rooms count as next to each other from this much common wall, in meters
+
+  private static readonly RULES: AdjacencyRule[] = [
+    {
+      id: 'living-entrance',
+      label: 'Living room at the entrance',
+      weight: 3,
+      evaluate: layout => {
+        const living = layout.rooms.filter(room => room.type === 'living');
+        if (living.length === 0) {
+          return null;
+        }
+        return layout.openings.some(opening =>
+          opening.type === 'door' && !opening.connectsTo && living.some(room => room.id === opening.roomId)) ? 1 : 0;
+      }
+    },
+    {
+      id: 'ensuite-master',
+      label: 'En-suite bathroom inside the master bedroom',
+      weight: 3,
+      evaluate: (layout, constraints) => {
+        if (!constraints.some(constraint => constraint.kind === 'ensuite')) {
+          return null;
+        }
+        // An en-suite is a bathroom whose only door leads into a bedroom it adjoins
+        const doorsOf = (room: Room) => layout.openings.filter(opening =>
+          opening.type === 'door' && (opening.roomId === room.id || opening.connectsTo === room.id));
+        return layout.rooms.some(room => {
+          if (room.type !== 'bathroom') {
+            return false;
+          }
+          const doors = doorsOf(room);
+          const other = doors.length === 1 ? (doors[0].roomId === room.id ? doors[0].connectsTo : doors[0].roomId) : undefined;
+          const bedroom = layout.rooms.find(candidate => candidate.id === other && candidate.type === 'bedroom');
+          return !!bedroom && AdjacencyRules.adjoins(room, bedroom);
+        }) ? 1 : 0;
+      }
+    },
+    {
+      id: 'kitchen-dining',
+      label: 'Kitchen next to the dining room',
+      weight: 2,
+      evaluate: layout => {
+        const dining = layout.rooms.filter(room => room.type === 'dining');
+        return dining.length === 0
+          ? null
+          : AdjacencyRules.share(layout, 'kitchen', kitchen => dining.some(room => AdjacencyRules.adjoins(kitchen, room)));
+      }
+    },
+    {
+      id: 'bathroom-bedroom',
+      label: 'Bathrooms next to bedrooms',
+      weight: 2,
+      evaluate: layout => {
+        // Only bathrooms on a floor with bedrooms can be next to one
+        const bedrooms = layout.rooms.filter(room => room.type === 'bedroom');
+        const floors = bedrooms.map(room => room.floor);
+        const bathrooms = layout.rooms.filter(room => room.type === 'bathroom' && floors.indexOf(room.floor) >= 0);
+        if (bathrooms.length === 0) {
+          return null;
+        }
+        return bathrooms.filter(bathroom => bedrooms.some(bedroom => AdjacencyRules.adjoins(bathroom, bedroom))).length / bathrooms.length;
+      }
+    },
+    {
+      id: 'bathroom-kitchen',
+      label: 'Bathrooms away from the kitchen',
+      weight: 1,
+      evaluate: layout => {
+        const kitchens = layout.rooms.filter(room => room.type === 'kitchen');
+        return AdjacencyRules.share(layout, 'bathroom', bathroom => !kitchens.some(kitchen => AdjacencyRules.adjoins(bathroom, kitchen)));
+      }
+    }
+  ];
+
+  /**
+   * Score a layout against every rule that applies to it. The overall score
+   * is the weighted mean of the rule scores.
+   */
+  static evaluate(layout: HouseLayout, constraints: LayoutConstraint[]): AdjacencyReport {
+    const rules: AdjacencyScore[] = [];
+
+    this.RULES.forEach(rule => {
+      const score = rule.evaluate(layout, constraints);
+      if (score !== null) {
+        rules.push({ rule: rule.id, label: rule.label, score, weight: rule.weight });
+      }
+    });
+
+    const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0);
+    const score = totalWeight > 0 ? rules.reduce((sum, rule) => sum + rule.score * rule.weight, 0) / totalWeight : 1;
+
+    return { score, rules };
+  }
+
+  /**
+   * Whether two rooms on the same floor share enough wall to be neighbours
+   */
+  static adjoins(a: Room, b: Room): boolean {
+    if (a.floor !== b.floor) {
+      return false;
+    }
+    const edge = LayoutEngine.sharedEdge(
+      { x: a.position.x, z: a.position.z, width: a.dimensions.width, length: a.dimensions.length },
+      { x: b.position.x, z: b.position.z, width: b.dimensions.width, length: b.dimensions.length }
+    );
+    return !!edge && edge.end - edge.start >= this.MIN_SHARED_WALL;
+  }
+
+  /**
+   * Fraction of the rooms of a type that pass a test, or null if there are none
+   */
+  private static share(layout: HouseLayout, type: Room['type'], test: (room: Room) => boolean): number | null {
+    const rooms = layout.rooms.filter(room => room.type === type);
+    return rooms.length === 0 ? null : rooms.filter(test).length / rooms.length;
+  }
+}
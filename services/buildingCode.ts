@@ -0,0 +1,285 @@
+import { HouseLayout, Room, BuildingCodeLimits, CodeIssue, CodeReport } from '@/types/house';
+import { getStairGeometry } from '@/utils/stairs';
+import { plotArea } from '@/utils/plot';
+
+/**
+ * Building Code
+ * Checks a layout against building-code minimums and livability rules of
+ * thumb. Breaking a minimum is a violation; anything that is allowed but
+ * unpleasant to live with is a warning. The limits are configurable.
+ */
+
+type Finding = Omit<CodeIssue, 'rule'>;
+
+interface CodeRule {
+  id: string;
+  label: string;
+  // Problems found in a layout, or null when the rule does not apply to this house
+  check: (layout: HouseLayout, limits: BuildingCodeLimits) => Finding[] | null;
+}
+
+// Rooms people spend their day in, which need daylight
+export const LIVING_SPACES: Room['type'][] = ['bedroom', 'living', 'dining', 'kitchen', 'study'];
+
+export class BuildingCode {
+  static readonly DEFAULT_LIMITS: BuildingCodeLimits = {
+    minBedroomArea: 7,
+    recommendedBedroomArea: 9,
+    minBedroomWidth: 2.4,
+    minCeilingHeight: 2.4,
+    maxStairRiser: 0.19,
+    minStairTread: 0.25,
+    minStairWidth: 0.9,
+    minLandingDepth: 0.9,
+    minWindowRatio: 0.08,
+    maxCoverage: 0.8
+  };
+
+  private static readonly RULES: CodeRule[] = [
+    {
+      id: 'bedroom-size',
+      label: 'Bedroom size',
+      check: (layout, limits) => {
+        const bedrooms = layout.rooms.filter(room => room.type === 'bedroom');
+        if (bedrooms.length === 0) {
+          return null;
+        }
+
+        const findings: Finding[] = [];
+        bedrooms.forEach(room => {
+          const area = room.dimensions.width * room.dimensions.length;
+          const width = Math.min(room.dimensions.width, room.dimensions.length);
+          if (area < limits.minBedroomArea) {
+            findings.push(BuildingCode.finding('violation', `${room.name} is ${BuildingCode.roundDown(area)} m², below the ${limits.minBedroomArea} m² minimum`, room));
+          } else if (area < limits.recommendedBedroomArea) {
+            findings.push(BuildingCode.finding('warning', `${room.name} is ${area.toFixed(1)} m², which is cramped for a bedroom`, room));
+          }
+          if (width < limits.minBedroomWidth) {
+            findings.push(BuildingCode.finding('violation', `${room.name} is ${BuildingCode.roundDown(width)} m wide, below the ${limits.minBedroomWidth} m minimum`, room));
+          }
+        });
+        return findings;
+      }
+    },
+    {
+      id: 'bathroom-ventilation',
+      label: 'Bathroom ventilation',
+      check: layout => {
+        const bathrooms = layout.rooms.filter(room => room.type === 'bathroom');
+        if (bathrooms.length === 0) {
+          return null;
+        }
+
+        return bathrooms
+          .filter(room => !layout.openings.some(opening => opening.type === 'window' && opening.roomId === room.id))
+          .map(room => BuildingCode.finding('warning', BuildingCode.hasOutsideWall(layout, room)
+            ? `${room.name} has no window, so it needs an extractor fan`
+            : `${room.name} has no outside wall for a window, so it needs an extractor fan`, room));
+      }
+    },
+    {
+      id: 'ceiling-height',
+      label: 'Ceiling height',
+      check: (layout, limits) => {
+        const rooms = layout.rooms.filter(room => room.type !== 'garage' && room.type !== 'staircase');
+        if (rooms.length === 0) {
+          return null;
+        }
+        const low = rooms.filter(room => room.dimensions.height < limits.minCeilingHeight);
+        return low.length === 0 ? [] : [{
+          severity: 'violation',
+          message: `${BuildingCode.list(low)} ${low.length === 1 ? 'has a ceiling' : 'have ceilings'} lower than the ${limits.minCeilingHeight} m minimum`,
+          roomIds: low.map(room => room.id)
+        }];
+      }
+    },
+    {
+      id: 'stairs',
+      label: 'Stair rise and run',
+      check: (layout, limits) => {
+        // Stairs climb from each staircase room to the one stacked above it
+        const flights = layout.rooms.filter(room => room.type === 'staircase' && room.floor < layout.floors - 1);
+        if (flights.length === 0) {
+          return null;
+        }
+
+        const findings: Finding[] = [];
+        flights.forEach(room => {
+          const stairs = getStairGeometry(room.dimensions);
+          if (stairs.riser > limits.maxStairRiser + 1e-9) {
+            findings.push(BuildingCode.finding('violation', `Steps rise ${BuildingCode.centimeters(stairs.riser)}, above the ${BuildingCode.centimeters(limits.maxStairRiser)} maximum`, room));
+          }
+          if (stairs.tread < limits.minStairTread - 1e-9) {
+            findings.push(BuildingCode.finding('violation', `Steps are ${BuildingCode.centimeters(stairs.tread)} deep, below the ${BuildingCode.centimeters(limits.minStairTread)} minimum`, room));
+          }
+          if (stairs.flightWidth < limits.minStairWidth - 1e-9) {
+            findings.push(BuildingCode.finding('violation', `Flights are ${stairs.flightWidth.toFixed(2)} m wide, below the ${limits.minStairWidth} m minimum`, room));
+          }
+          if (stairs.landingDepth < limits.minLandingDepth - 1e-9) {
+            findings.push(BuildingCode.finding('violation', `The landing is ${stairs.landingDepth.toFixed(2)} m deep, below the ${limits.minLandingDepth} m minimum`, room));
+          }
+        });
+        return findings;
+      }
+    },
+    {
+      id: 'daylight',
+      label: 'Window-to-floor ratio',
+      check: (layout, limits) => {
+        const rooms = layout.rooms.filter(room => LIVING_SPACES.indexOf(room.type) >= 0);
+        if (rooms.length === 0) {
+          return null;
+        }
+
+        const findings: Finding[] = [];
+        rooms.forEach(room => {
+          const glazing = layout.openings
+            .filter(opening => opening.type === 'window' && opening.roomId === room.id)
+            .reduce((sum, opening) => sum + opening.width * opening.height, 0);
+          const ratio = glazing / (room.dimensions.width * room.dimensions.length);
+          if (ratio < limits.minWindowRatio) {
+            findings.push(BuildingCode.finding('violation', glazing === 0
+              ? `${room.name} has no windows`
+              : `${room.name} has windows of ${(ratio * 100).toFixed(1)}% of its floor area, below the ${+(limits.minWindowRatio * 100).toFixed(1)}% minimum`, room));
+          }
+        });
+        return findings;
+      }
+    },
+    {
+      id: 'egress',
+      label: 'Escape route from bedrooms',
+      check: layout => {
+        const bedrooms = layout.rooms.filter(room => room.type === 'bedroom');
+        if (bedrooms.length === 0) {
+          return null;
+        }
+
+        const reachable = BuildingCode.roomsWithExit(layout);
+        return bedrooms
+          .filter(room => !reachable.has(room.id))
+          .map(room => BuildingCode.finding('violation', `${room.name} has no route through doors to an outside door`, room));
+      }
+    },
+    {
+      id: 'coverage',
+      label: 'Plot coverage',
+      check: (layout, limits) => {
+        if (!layout.plot) {
+          return null;
+        }
+
+        const coverage = (layout.width * layout.length) / plotArea(layout.plot.boundary);
+        return coverage <= limits.maxCoverage ? [] : [{
+          severity: 'violation',
+          message: `The house covers ${(coverage * 100).toFixed(1)}% of the plot, above the ${+(limits.maxCoverage * 100).toFixed(1)}% maximum`,
+          roomIds: []
+        }];
+      }
+    }
+  ];
+
+  /**
+   * Check a layout against every rule that applies to it, using the default
+   * limits for any not given
+   */
+  static check(layout: HouseLayout, limits: Partial<BuildingCodeLimits> = {}): CodeReport {
+    const resolved = { ...this.DEFAULT_LIMITS, ...limits };
+    const issues: CodeIssue[] = [];
+    const checked: string[] = [];
+
+    this.RULES.forEach(rule => {
+      const findings = rule.check(layout, resolved);
+      if (findings === null) {
+        return;
+      }
+      checked.push(rule.label);
+      findings.forEach(finding => issues.push({ rule: rule.id, ...finding }));
+    });
+
+    // Violations first, keeping each rule's own order
+    issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'violation' ? -1 : 1));
+
+    return { passed: !issues.some(issue => issue.severity === 'violation'), issues, checked };
+  }
+
+  /**
+   * Check limits sent by a client, returning the problem or null if they are fine
+   */
+  static validateLimits(limits: unknown): string | null {
+    if (!limits || typeof limits !== 'object' || Array.isArray(limits)) {
+      return 'Limits must be an object';
+    }
+
+    for (const key of Object.keys(limits)) {
+      const value = (limits as Record<string, unknown>)[key];
+      if (!(key in this.DEFAULT_LIMITS)) {
+        return `Unknown building code limit "${key}"`;
+      }
+      if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+        return `Limit "${key}" must be a positive number`;
+      }
+    }
+    return null;
+  }
+
+  private static finding(severity: CodeIssue['severity'], message: string, room: Room): Finding {
+    return { severity, message, roomIds: [room.id] };
+  }
+
+  // Room names as a readable list, e.g. "Kitchen, Bedroom 1 and Bathroom 2"
+  private static list(rooms: Room[]): string {
+    const names = rooms.map(room => room.name);
+    return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  }
+
+  // A measurement that falls short of a limit, rounded down so it never prints as the limit itself
+  private static roundDown(value: number): string {
+    return (Math.floor(value * 100) / 100).toFixed(2);
+  }
+
+  private static centimeters(meters: number): string {
+    return `${(meters * 100).toFixed(1)} cm`;
+  }
+
+  private static hasOutsideWall(layout: HouseLayout, room: Room): boolean {
+    return layout.walls.some(wall => wall.exterior && wall.floor === room.floor && wall.rooms.indexOf(room.id) >= 0);
+  }
+
+  /**
+   * Rooms from which doors lead to an outside door, with stacked staircase
+   * rooms joining the floors
+   */
+  private static roomsWithExit(layout: HouseLayout): Set<string> {
+    const neighbours: Record<string, string[]> = {};
+    const connect = (a: string, b: string) => {
+      (neighbours[a] = neighbours[a] || []).push(b);
+      (neighbours[b] = neighbours[b] || []).push(a);
+    };
+
+    layout.openings.forEach(opening => {
+      if (opening.type === 'door' && opening.connectsTo) {
+        connect(opening.roomId, opening.connectsTo);
+      }
+    });
+    const staircases = layout.rooms.filter(room => room.type === 'staircase');
+    staircases.forEach(lower => staircases
+      .filter(upper => upper.floor === lower.floor + 1)
+      .forEach(upper => connect(lower.id, upper.id)));
+
+    // Walk back from the rooms with outside doors
+    const reached = new Set<string>();
+    const queue = layout.openings
+      .filter(opening => opening.type === 'door' && !opening.connectsTo)
+      .map(opening => opening.roomId);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (reached.has(id)) {
+        continue;
+      }
+      reached.add(id);
+      (neighbours[id] || []).forEach(next => queue.push(next));
+    }
+    return reached;
+  }
+}
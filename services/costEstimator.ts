@@ -0,0 +1,248 @@
+import { HouseLayout, Furniture, RateTable, CostRate, LayoutQuantities, BillItem, CostEstimate } from '@/types/house';
+import { MaterialPresets, MaterialName, getStyleMaterials, getRoomFinish, getMaterialName } from '@/utils/materials';
+import { RoofGenerator } from '@/services/roofGenerator';
+
+/**
+ * Cost Estimator
+ * Measures a layout (walls, floors per material, roof, doors, windows and
+ * furniture) and prices the quantities from a rate table as a bill of
+ * quantities
+ */
+export class CostEstimator {
+  private static readonly MAX_CURRENCY_LENGTH = 8;
+
+  static readonly DEFAULT_RATES: RateTable = {
+    currency: 'USD',
+    rates: {
+      'foundation': { label: 'Foundation and ground floor slab', unit: 'm²', rate: 95 },
+      'floor-slab': { label: 'Upper floor slab', unit: 'm²', rate: 80 },
+      'staircase': { label: 'Staircase flight with landing', unit: 'each', rate: 2400 },
+      'exterior-wall:MODERN_CONCRETE': { label: `Exterior walls, ${MaterialPresets.MODERN_CONCRETE.description.toLowerCase()}`, unit: 'm²', rate: 70 },
+      'exterior-wall:TRADITIONAL_BRICK': { label: `Exterior walls, ${MaterialPresets.TRADITIONAL_BRICK.description.toLowerCase()}`, unit: 'm²', rate: 60 },
+      'interior-wall': { label: 'Interior partition walls', unit: 'm²', rate: 35 },
+      'floor:HARDWOOD_FLOOR': { label: MaterialPresets.HARDWOOD_FLOOR.description, unit: 'm²', rate: 55 },
+      'floor:CERAMIC_TILE': { label: MaterialPresets.CERAMIC_TILE.description, unit: 'm²', rate: 40 },
+      'floor:CARPET': { label: MaterialPresets.CARPET.description, unit: 'm²', rate: 25 },
+      'floor:STONE_TILE': { label: MaterialPresets.STONE_TILE.description, unit: 'm²', rate: 65 },
+      'floor:MODERN_CONCRETE': { label: 'Polished concrete floor', unit: 'm²', rate: 20 },
+      'roof:METAL_ROOFING': { label: MaterialPresets.METAL_ROOFING.description, unit: 'm²', rate: 45 },
+      'roof:CLAY_TILES': { label: MaterialPresets.CLAY_TILES.description, unit: 'm²', rate: 60 },
+      'door-interior': { label: 'Interior doors', unit: 'each', rate: 250 },
+      'door-exterior': { label: 'Exterior doors', unit: 'each', rate: 900 },
+      'door-garage': { label: 'Garage doors', unit: 'each', rate: 1800 },
+      'window': { label: 'Windows', unit: 'm²', rate: 300 },
+      'furniture:bed': { label: 'Beds', unit: 'each', rate: 600 },
+      'furniture:sofa': { label: 'Sofas', unit: 'each', rate: 800 },
+      'furniture:table': { label: 'Tables', unit: 'each', rate: 300 },
+      'furniture:chair': { label: 'Chairs', unit: 'each', rate: 90 },
+      'furniture:cabinet': { label: 'Cabinets and wardrobes', unit: 'each', rate: 400 },
+      'furniture:appliance': { label: 'Appliances and fixtures', unit: 'each', rate: 700 }
+    }
+  };
+
+  /**
+   * Measure everything in a layout that is priced
+   */
+  static measure(layout: HouseLayout): LayoutQuantities {
+    const footprint = layout.width * layout.length;
+    const openingArea: Record<string, number> = {};
+    layout.openings.forEach(opening => {
+      openingArea[opening.wallId] = (openingArea[opening.wallId] || 0) + opening.width * opening.height;
+    });
+
+    let exteriorWallArea = 0;
+    let interiorWallArea = 0;
+    layout.walls.forEach(wall => {
+      const area = Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z) * wall.height - (openingArea[wall.id] || 0);
+      if (wall.exterior) {
+        exteriorWallArea += Math.max(0, area);
+      } else {
+        interiorWallArea += Math.max(0, area);
+      }
+    });
+
+    // Stairwells above the ground floor are open, so they have no floor to finish
+    const floorAreas: Record<string, number> = {};
+    layout.rooms
+      .filter(room => !(room.type === 'staircase' && room.floor > 0))
+      .forEach(room => {
+        const material = getRoomFinish(room, layout.style).floor;
+        floorAreas[material] = (floorAreas[material] || 0) + room.dimensions.width * room.dimensions.length;
+      });
+
+    const doors = { interior: 0, exterior: 0, garage: 0 };
+    const windows = { count: 0, area: 0 };
+    layout.openings.forEach(opening => {
+      if (opening.type === 'window') {
+        windows.count++;
+        windows.area += opening.width * opening.height;
+      } else if (opening.connectsTo) {
+        doors.interior++;
+      } else if (layout.rooms.some(room => room.id === opening.roomId && room.type === 'garage')) {
+        doors.garage++;
+      } else {
+        doors.exterior++;
+      }
+    });
+
+    const furniture: Record<string, number> = {};
+    layout.rooms.forEach(room => room.furniture.forEach(item => {
+      furniture[item.type] = (furniture[item.type] || 0) + 1;
+    }));
+
+    return {
+      footprint,
+      upperFloorArea: footprint * Math.max(0, layout.floors - 1),
+      exteriorWallArea,
+      interiorWallArea,
+      floorAreas,
+      roofArea: RoofGenerator.roofArea(RoofGenerator.footprint(layout), RoofGenerator.getSpec(layout)),
+      doors,
+      windows,
+      staircases: layout.rooms.filter(room => room.type === 'staircase' && room.floor < layout.floors - 1).length,
+      furniture
+    };
+  }
+
+  /**
+   * Price a layout as a bill of quantities. Items without a rate are left
+   * out; items with nothing to measure are skipped.
+   */
+  static estimate(layout: HouseLayout, table: RateTable = this.DEFAULT_RATES): CostEstimate {
+    const quantities = this.measure(layout);
+    const styleMaterials = getStyleMaterials(layout.style);
+    const items: BillItem[] = [];
+
+    const add = (code: string, section: BillItem['section'], quantity: number) => {
+      const entry: CostRate | undefined = table.rates[code];
+      if (!entry || quantity <= 0) {
+        return;
+      }
+      items.push({
+        code,
+        section,
+        description: entry.label,
+        quantity: this.round(quantity),
+        unit: entry.unit,
+        rate: entry.rate,
+        amount: this.round(quantity * entry.rate)
+      });
+    };
+
+    add('foundation', 'Structure', quantities.footprint);
+    add('floor-slab', 'Structure', quantities.upperFloorArea);
+    add('staircase', 'Structure', quantities.staircases);
+
+    add(`exterior-wall:${getMaterialName(styleMaterials.walls)}`, 'Walls', quantities.exteriorWallArea);
+    add('interior-wall', 'Walls', quantities.interiorWallArea);
+
+    (Object.keys(quantities.floorAreas) as MaterialName[]).forEach(material => {
+      add(`floor:${material}`, 'Floors', quantities.floorAreas[material]);
+    });
+
+    add(`roof:${RoofGenerator.getSpec(layout).material}`, 'Roof', quantities.roofArea);
+
+    add('door-exterior', 'Doors and windows', quantities.doors.exterior);
+    add('door-garage', 'Doors and windows', quantities.doors.garage);
+    add('door-interior', 'Doors and windows', quantities.doors.interior);
+
+    // Windows are priced by glazed area but listed by size, so the count per size shows
+    const windowRate = table.rates['window'];
+    const sizes: Record<string, { width: number; height: number; count: number }> = {};
+    layout.openings.filter(opening => opening.type === 'window').forEach(opening => {
+      const key = `${opening.width.toFixed(2)}x${opening.height.toFixed(2)}`;
+      sizes[key] = sizes[key] || { width: opening.width, height: opening.height, count: 0 };
+      sizes[key].count++;
+    });
+    Object.keys(sizes).sort().reverse().forEach(key => {
+      const size = sizes[key];
+      if (windowRate) {
+        items.push({
+          code: 'window',
+          section: 'Doors and windows',
+          description: `${windowRate.label}, ${size.width.toFixed(2)} × ${size.height.toFixed(2)} m`,
+          quantity: size.count,
+          unit: 'each',
+          rate: this.round(windowRate.rate * size.width * size.height),
+          amount: this.round(windowRate.rate * size.width * size.height * size.count)
+        });
+      }
+    });
+
+    (Object.keys(quantities.furniture) as Furniture['type'][]).sort().forEach(type => {
+      add(`furniture:${type}`, 'Furniture', quantities.furniture[type]);
+    });
+
+    return {
+      currency: table.currency,
+      items,
+      total: this.round(items.reduce((sum, item) => sum + item.amount, 0)),
+      quantities
+    };
+  }
+
+  /**
+   * Bill of quantities as CSV, one line per item and a total at the end
+   */
+  static toCsv(estimate: CostEstimate): string {
+    const cell = (value: string | number) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows: (string | number)[][] = [
+      ['Section', 'Code', 'Description', 'Quantity', 'Unit', `Rate (${estimate.currency})`, `Amount (${estimate.currency})`],
+      ...estimate.items.map(item => [item.section, item.code, item.description, item.quantity, item.unit, item.rate.toFixed(2), item.amount.toFixed(2)]),
+      ['', '', 'Total', '', '', '', estimate.total.toFixed(2)]
+    ];
+    return rows.map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Check a rate table sent by a client, returning the problem or null if
+   * it is fine. Only known item codes may be priced.
+   */
+  static validateRates(table: unknown): string | null {
+    if (!table || typeof table !== 'object' || Array.isArray(table)) {
+      return 'Rate table must be an object';
+    }
+
+    const { currency, rates } = table as Record<string, unknown>;
+    if (currency !== undefined && (typeof currency !== 'string' || !currency.trim() || currency.length > this.MAX_CURRENCY_LENGTH)) {
+      return `Currency must be a code of at most ${this.MAX_CURRENCY_LENGTH} characters`;
+    }
+    if (rates === undefined) {
+      return null;
+    }
+    if (!rates || typeof rates !== 'object' || Array.isArray(rates)) {
+      return 'Rates must be an object keyed by item code';
+    }
+
+    for (const code of Object.keys(rates)) {
+      if (!this.DEFAULT_RATES.rates[code]) {
+        return `Unknown rate item "${code}"`;
+      }
+      const rate = (rates as Record<string, { rate?: unknown }>)[code];
+      if (!rate || typeof rate.rate !== 'number' || !isFinite(rate.rate) || rate.rate < 0) {
+        return `Rate for "${code}" must be a number of at least 0`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Default rates with a saved or submitted table's prices and currency on
+   * top. Labels and units always come from the defaults.
+   */
+  static mergeRates(table: { currency?: string; rates?: Record<string, { rate: number }> } = {}): RateTable {
+    const rates: Record<string, CostRate> = {};
+    Object.keys(this.DEFAULT_RATES.rates).forEach(code => {
+      const override = table.rates && table.rates[code];
+      rates[code] = { ...this.DEFAULT_RATES.rates[code], ...(override ? { rate: override.rate } : {}) };
+    });
+    return { currency: table.currency ? table.currency.trim() : this.DEFAULT_RATES.currency, rates };
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
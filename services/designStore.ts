@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { SavedDesign, SavedDesignSummary, DesignInput } from '@/types/house';
+import { validateLayout } from '@/utils/layoutValidation';
+
+/**
+ * Design Store
+ * Keeps saved designs as one JSON file each in a local directory,
+ * so designs survive restarts without any database or outside service
+ */
+export class DesignStore {
+  private static readonly ID_PATTERN = /^[a-f0-9-]{36}$/; // randomUUID format, also keeps ids from escaping the directory
+
+  /**
+   * Directory holding the design files, overridable with DESIGNS_DIR
+   */
+  static directory(): string {
+    return process.env.DESIGNS_DIR || path.join(process.cwd(), 'data', 'designs');
+  }
+
+  /**
+   * List saved designs, most recently updated first. Files that cannot be
+   * read as a design are logged and left out, so one damaged file does not
+   * hide all the others.
+   */
+  static async list(): Promise<SavedDesignSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const summaries = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => {
+          try {
+            const design = await this.get(file.slice(0, -'.json'.length));
+            if (!design) {
+              return null;
+            }
+            const problem = typeof design.updatedAt !== 'string' ? 'It has no update time' : validateLayout(design.layout);
+            if (problem) {
+              throw new Error(problem);
+            }
+            return this.summarize(design);
+          } catch (error) {
+            console.error(`Skipping unreadable design file ${file}:`, error);
+            return null;
+          }
+        })
+    );
+
+    return summaries
+      .filter((summary): summary is SavedDesignSummary => summary !== null)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Load a saved design, or null if there is none with that id
+   */
+  static async get(id: string): Promise<SavedDesign | null> {
+    if (!this.ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id), 'utf8')) as SavedDesign;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save a new design
+   */
+  static async create(input: DesignInput): Promise<SavedDesign> {
+    const now = new Date().toISOString();
+    const design: SavedDesign = { id: randomUUID(), ...input, createdAt: now, updatedAt: now };
+    await this.write(design);
+    return design;
+  }
+
+  /**
+   * Update some fields of a saved design, or return null if it does not exist
+   */
+  static async update(id: string, changes: Partial<DesignInput>): Promise<SavedDesign | null> {
+    const existing = await this.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const design: SavedDesign = { ...existing, ...changes, id, updatedAt: new Date().toISOString() };
+    await this.write(design);
+    return design;
+  }
+
+  /**
+   * Delete a saved design; returns false if it did not exist
+   */
+  static async remove(id: string): Promise<boolean> {
+    if (!this.ID_PATTERN.test(id)) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gallery entry for a design, without the heavy layout data
+   */
+  private static summarize(design: SavedDesign): SavedDesignSummary {
+    return {
+      id: design.id,
+      name: design.name,
+      formData: design.formData,
+      createdAt: design.createdAt,
+      updatedAt: design.updatedAt,
+      style: design.layout.style,
+      floors: design.layout.floors,
+      roomCount: design.layout.rooms.length
+    };
+  }
+
+  /**
+   * Write through a temporary file so a crash never leaves a half-written design
+   */
+  private static async write(design: SavedDesign): Promise<void> {
+    await fs.mkdir(this.directory(), { recursive: true });
+    const target = this.filePath(design.id);
+    // Unique per write, so saves racing within one process never share a file
+    const temporary = `${target}.${process.pid}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(design), 'utf8');
+    await fs.rename(temporary, target);
+  }
+
+  private static filePath(id: string): string {
+    return path.join(this.directory(), `${id}.json`);
+  }
+}
@@ -0,0 +1,406 @@
+import { HouseLayout, Room, Furniture, Opening, WallSide } from '@/types/house';
+import { CatalogEntry, getCatalogEntry, getClearanceZones } from '@/utils/furnitureCatalog';
+import { Footprint, footprintCorners, footprintsOverlap, relativeFootprint, wallInset } from '@/utils/footprints';
+import { getWallStart } from '@/utils/openings';
+
+/**
+ * Furniture Planner
+ * Furnishes rooms from the furniture catalog. Each room type has a recipe
+ * of items placed in turn: against walls, in corners, free in the middle,
+ * or next to an item placed before them. An item only goes where it clears
+ * the walls, the swing of every door, the windows it would stand in front
+ * of, the other furniture and the floor kept clear around it.
+ */
+
+// Rooms, walls and openings of the layout being furnished
+export type FurnishingContext = Pick<HouseLayout, 'rooms' | 'walls' | 'openings'>;
+
+// One step of a room's recipe
+interface RecipeStep {
+  items: string[]; // Catalog ids to try in turn; the first that fits is placed
+  anchor?: string[]; // Catalog ids of an item placed earlier that this one goes with, tried in turn
+  relation?: 'beside' | 'front' | 'facing' | 'around'; // Where it goes relative to the anchor
+  gap?: number; // Space left between it and the anchor
+  count?: number; // How many to place, for nightstands and chairs
+  cityOnly?: boolean;
+}
+
+interface Candidate {
+  item: Furniture;
+  score: number;
+}
+
+export class FurniturePlanner {
+  private static readonly STEP = 0.1; // Grid items are slid along, in meters
+  private static readonly MAX_DOOR_SWING = 1; // Depth kept clear inside a door, even a wide garage door
+  private static readonly WINDOW_DEPTH = 0.3; // Depth in front of a window that tall items keep out of
+  private static readonly EPSILON = 1e-6;
+
+  private static readonly RECIPES: Partial<Record<Room['type'], RecipeStep[]>> = {
+    living: [
+      { items: ['sofa'] },
+      { items: ['coffee-table'], anchor: ['sofa'], relation: 'front', gap: 0.45 },
+      { items: ['tv-cabinet'], anchor: ['sofa'], relation: 'facing' },
+      { items: ['armchair'] },
+      { items: ['side-table'], anchor: ['sofa'], relation: 'beside', gap: 0.05 },
+      { items: ['bookshelf'] }
+    ],
+    bedroom: [
+      { items: ['double-bed', 'single-bed'] },
+      { items: ['nightstand'], anchor: ['double-bed', 'single-bed'], relation: 'beside', gap: 0.05, count: 2 },
+      { items: ['wardrobe'] },
+      { items: ['dresser'] }
+    ],
+    kitchen: [
+      { items: ['refrigerator'] },
+      { items: ['sink-unit'] },
+      { items: ['stove'], anchor: ['sink-unit'], relation: 'beside', gap: 0 },
+      { items: ['kitchen-counter'], anchor: ['stove', 'sink-unit'], relation: 'beside', gap: 0 },
+      { items: ['kitchen-island'], cityOnly: true }
+    ],
+    bathroom: [
+      { items: ['shower'] },
+      { items: ['toilet'] },
+      { items: ['vanity'] },
+      { items: ['bathroom-cabinet'] }
+    ],
+    dining: [
+      { items: ['dining-table', 'small-dining-table'] },
+      { items: ['dining-chair'], anchor: ['dining-table', 'small-dining-table'], relation: 'around', count: 6 },
+      { items: ['sideboard'] }
+    ],
+    study: [
+      { items: ['desk'] },
+      { items: ['desk-chair'], anchor: ['desk'], relation: 'front', gap: 0.05 },
+      { items: ['bookshelf'] },
+      { items: ['armchair'] }
+    ],
+    prayer: [
+      { items: ['altar-cabinet'] }
+    ],
+    garage: [
+      { items: ['storage-shelves'] }
+    ]
+  };
+
+  /**
+   * Furniture for a room from its type's recipe; items that do not fit are left out
+   */
+  static furnish(room: Room, context: FurnishingContext, locationType: 'city' | 'village'): Furniture[] {
+    const placed: Furniture[] = [];
+
+    (this.RECIPES[room.type] || []).forEach(step => {
+      if (step.cityOnly && locationType !== 'city') {
+        return;
+      }
+      const anchor = step.anchor
+        ? step.anchor.reduce<Furniture | undefined>((found, id) => found || placed.find(item => item.catalogId === id), undefined)
+        : undefined;
+      if (step.anchor && !anchor) {
+        return;
+      }
+
+      for (const id of step.items) {
+        const entry = getCatalogEntry(id);
+        if (!entry) {
+          continue;
+        }
+        const before = placed.length;
+        for (let n = 0; n < (step.count || 1); n++) {
+          const itemId = this.uniqueId(`${entry.id}-${room.id}`, placed);
+          const candidates = anchor && step.relation
+            ? this.relativeCandidates(room, context, entry, itemId, anchor, step.relation, step.gap || 0)
+            : this.candidates(room, context, entry, itemId);
+          const spot = candidates.find(candidate => this.fits(room, context, candidate.item, placed, anchor));
+          if (!spot) {
+            break;
+          }
+          placed.push(spot.item);
+        }
+        if (placed.length > before) {
+          break;
+        }
+      }
+    });
+
+    return placed;
+  }
+
+  /**
+   * Best free spot for a catalog item in a furnished room, or null if there is none
+   */
+  static findSpot(room: Room, context: FurnishingContext, entry: CatalogEntry, id: string): Furniture | null {
+    const spot = this.candidates(room, context, entry, id).find(candidate => this.fits(room, context, candidate.item, room.furniture));
+    return spot ? spot.item : null;
+  }
+
+  /**
+   * Spots for an item on its own: backed onto a wall and facing into the
+   * room, or standing free, best first. Wall items prefer to be away from
+   * the doors and centred on the wall, corner items tucked into a corner,
+   * and free items the middle of the room.
+   */
+  private static candidates(room: Room, context: FurnishingContext, entry: CatalogEntry, id: string): Candidate[] {
+    const { width: W, length: L } = room.dimensions;
+    const { width: w, length: l } = entry.dimensions;
+    const inset = wallInset(context.walls, room);
+    const doors = this.doorCentres(room, context);
+    const candidates: Candidate[] = [];
+
+    if (entry.placement === 'centre') {
+      // Long side along the room's long side first
+      const rotations = (W >= L) === (w >= l) ? [0, Math.PI / 2] : [Math.PI / 2, 0];
+      rotations.forEach((rotation, r) => {
+        const [halfX, halfZ] = rotation ? [l / 2, w / 2] : [w / 2, l / 2];
+        this.steps(inset + halfX, W - inset - halfX).forEach(x => this.steps(inset + halfZ, L - inset - halfZ).forEach(z => {
+          candidates.push({ item: this.make(entry, id, x, z, rotation), score: -Math.hypot(x - W / 2, z - L / 2) - r * 0.05 });
+        }));
+      });
+    } else {
+      (['south', 'north', 'west', 'east'] as WallSide[]).forEach(side => {
+        const alongX = side === 'south' || side === 'north';
+        const span = alongX ? W : L;
+        const lo = inset + w / 2;
+        const hi = span - inset - w / 2;
+        const depth = inset + l / 2;
+        this.steps(lo, hi).forEach(along => {
+          if (!this.hasWall(room, context, side, along - w / 2, along + w / 2)) {
+            return;
+          }
+          const x = alongX ? along : side === 'west' ? depth : W - depth;
+          const z = alongX ? (side === 'south' ? depth : L - depth) : along;
+          const rotation = side === 'south' ? 0 : side === 'north' ? Math.PI : side === 'west' ? Math.PI / 2 : Math.PI * 1.5;
+          const fromDoor = doors.reduce((nearest, door) => Math.min(nearest, Math.hypot(door.x - x, door.z - z)), 4);
+          const fit = entry.placement === 'corner' ? -Math.min(along - lo, hi - along) : -Math.abs(along - span / 2) * 0.3;
+          candidates.push({ item: this.make(entry, id, x, z, rotation), score: Math.min(fromDoor, 4) + fit });
+        });
+      });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Spots for an item that goes with one placed before it
+   */
+  private static relativeCandidates(
+    room: Room,
+    context: FurnishingContext,
+    entry: CatalogEntry,
+    id: string,
+    anchor: Furniture,
+    relation: NonNullable<RecipeStep['relation']>,
+    gap: number
+  ): Candidate[] {
+    const a = anchor.dimensions;
+    const { width: w, length: l } = entry.dimensions;
+    const at = (x: number, z: number, turn: number, score = 0): Candidate => {
+      const { position } = relativeFootprint(anchor, x, z, w, l);
+      return { item: this.make(entry, id, position.x, position.z, this.normalise(anchor.rotation + turn)), score };
+    };
+
+    switch (relation) {
+      case 'beside': {
+        // Backed onto the same wall, to its right then its left
+        const x = a.width / 2 + gap + w / 2;
+        const z = -a.length / 2 + l / 2;
+        return [at(x, z, 0), at(-x, z, 0)];
+      }
+      case 'front': {
+        // Desk chairs face the desk; coffee tables run along the sofa
+        const turn = entry.category === 'seating' ? Math.PI : 0;
+        return [0, 0.05, -0.05, 0.1, 0.15].map(extra => at(0, a.length / 2 + gap + extra + l / 2, turn));
+      }
+      case 'facing': {
+        // On a wall across the room from the anchor, lined up with it
+        const opposite = this.normalise(anchor.rotation + Math.PI);
+        const axis = { x: Math.sin(anchor.rotation), z: Math.cos(anchor.rotation) };
+        return this.candidates(room, context, entry, id)
+          .filter(candidate => Math.abs(candidate.item.rotation - opposite) < this.EPSILON)
+          .map(candidate => {
+            const dx = candidate.item.position.x - anchor.position.x;
+            const dz = candidate.item.position.z - anchor.position.z;
+            return { ...candidate, score: -Math.abs(dx * axis.z - dz * axis.x) };
+          })
+          .sort((p, q) => q.score - p.score);
+      }
+      case 'around': {
+        // Evenly along both long sides, then at the ends, each chair facing the table
+        const perSide = Math.max(1, Math.floor(a.width / 0.6));
+        const slots: Candidate[] = [];
+        for (let i = 0; i < perSide; i++) {
+          const x = -a.width / 2 + (i + 0.5) * a.width / perSide;
+          slots.push(at(x, -a.length / 2 - l / 2 - 0.02, 0, -i), at(x, a.length / 2 + l / 2 + 0.02, Math.PI, -i));
+        }
+        slots.push(at(-a.width / 2 - l / 2 - 0.02, 0, Math.PI / 2, -perSide), at(a.width / 2 + l / 2 + 0.02, 0, Math.PI * 1.5, -perSide));
+        return slots;
+      }
+    }
+  }
+
+  /**
+   * Whether an item can stand where it is among the furniture placed so far.
+   * Items that go with `anchor` may use the floor it keeps clear.
+   */
+  private static fits(room: Room, context: FurnishingContext, item: Furniture, placed: Furniture[], anchor?: Furniture): boolean {
+    const entry = getCatalogEntry(item.catalogId);
+    const inset = wallInset(context.walls, room);
+    const inside = (footprint: Footprint) => footprintCorners(footprint).every(corner =>
+      corner.x > inset - this.EPSILON && corner.x < room.dimensions.width - inset + this.EPSILON &&
+      corner.z > inset - this.EPSILON && corner.z < room.dimensions.length - inset + this.EPSILON);
+
+    if (!inside(item)) {
+      return false;
+    }
+    if (this.doorSwings(room, context).some(zone => footprintsOverlap(item, zone))) {
+      return false;
+    }
+    if (this.windowZones(room, context, item.dimensions.height).some(zone => footprintsOverlap(item, zone))) {
+      return false;
+    }
+
+    // The floor needed in front of the item has to be in the room and free
+    if (entry && entry.clearance.front > 0) {
+      const { width, length } = item.dimensions;
+      const fronts = [relativeFootprint(item, 0, length / 2 + entry.clearance.front / 2, width, entry.clearance.front)];
+      if (entry.placement === 'centre') {
+        fronts.push(relativeFootprint(item, 0, -length / 2 - entry.clearance.front / 2, width, entry.clearance.front));
+      }
+      if (!fronts.every(inside)) {
+        return false;
+      }
+    }
+
+    const zones = getClearanceZones(item);
+    return placed.every(other =>
+      other.id !== item.id &&
+      !footprintsOverlap(item, other) &&
+      (other === anchor || (
+        !getClearanceZones(other).some(zone => footprintsOverlap(item, zone)) &&
+        !zones.some(zone => footprintsOverlap(other, zone))
+      )));
+  }
+
+  // Floor inside each door of the room, as deep as the door is wide
+  private static doorSwings(room: Room, context: FurnishingContext): Footprint[] {
+    return this.roomOpenings(room, context)
+      .filter(({ opening }) => opening.type === 'door')
+      .map(({ opening, side, along }) => this.wallZone(room, side, along, opening.width, Math.min(opening.width, this.MAX_DOOR_SWING)));
+  }
+
+  // Floor in front of the windows of the room that an item of `height` would block
+  private static windowZones(room: Room, context: FurnishingContext, height: number): Footprint[] {
+    return this.roomOpenings(room, context)
+      .filter(({ opening }) => opening.type === 'window' && height > opening.sillHeight + this.EPSILON)
+      .map(({ opening, side, along }) => this.wallZone(room, side, along, opening.width, this.WINDOW_DEPTH + wallInset(context.walls, room)));
+  }
+
+  private static doorCentres(room: Room, context: FurnishingContext): { x: number; z: number }[] {
+    return this.roomOpenings(room, context)
+      .filter(({ opening }) => opening.type === 'door')
+      .map(({ side, along }) => this.wallZone(room, side, along, 0, 0).position);
+  }
+
+  /**
+   * Openings in the walls of a room, whichever room holds them, with the
+   * side of this room they are on and their centre along it in room coordinates
+   */
+  private static roomOpenings(room: Room, context: FurnishingContext): { opening: Opening; side: WallSide; along: number }[] {
+    const opposite: Record<WallSide, WallSide> = { south: 'north', north: 'south', west: 'east', east: 'west' };
+    return context.openings.reduce<{ opening: Opening; side: WallSide; along: number }[]>((result, opening) => {
+      if (opening.roomId !== room.id && opening.connectsTo !== room.id) {
+        return result;
+      }
+      const host = context.rooms.find(r => r.id === opening.roomId);
+      if (host) {
+        const side = opening.roomId === room.id ? opening.wall : opposite[opening.wall];
+        result.push({ opening, side, along: getWallStart(host, opening.wall) + opening.offset - getWallStart(room, side) });
+      }
+      return result;
+    }, []);
+  }
+
+  // Rectangle against a side of the room, centred `along` it and reaching `depth` into the room
+  private static wallZone(room: Room, side: WallSide, along: number, width: number, depth: number): Footprint {
+    const { width: W, length: L } = room.dimensions;
+    switch (side) {
+      case 'south':
+        return { position: { x: along, z: depth / 2 }, rotation: 0, dimensions: { width, length: depth } };
+      case 'north':
+        return { position: { x: along, z: L - depth / 2 }, rotation: 0, dimensions: { width, length: depth } };
+      case 'west':
+        return { position: { x: depth / 2, z: along }, rotation: 0, dimensions: { width: depth, length: width } };
+      case 'east':
+        return { position: { x: W - depth / 2, z: along }, rotation: 0, dimensions: { width: depth, length: width } };
+    }
+  }
+
+  // Whether a wall runs along a side of the room between two points, so an item can back onto it
+  private static hasWall(room: Room, context: FurnishingContext, side: WallSide, from: number, to: number): boolean {
+    const alongX = side === 'south' || side === 'north';
+    const line = side === 'south' ? room.position.z : side === 'north' ? room.position.z + room.dimensions.length
+      : side === 'west' ? room.position.x : room.position.x + room.dimensions.width;
+    const start = getWallStart(room, side);
+    const spans = context.walls
+      .filter(wall => wall.floor === room.floor && wall.rooms.indexOf(room.id) >= 0 && (alongX
+        ? Math.abs(wall.start.z - line) < this.EPSILON && Math.abs(wall.end.z - line) < this.EPSILON
+        : Math.abs(wall.start.x - line) < this.EPSILON && Math.abs(wall.end.x - line) < this.EPSILON))
+      .map(wall => alongX
+        ? [Math.min(wall.start.x, wall.end.x) - start, Math.max(wall.start.x, wall.end.x) - start]
+        : [Math.min(wall.start.z, wall.end.z) - start, Math.max(wall.start.z, wall.end.z) - start])
+      .sort((a, b) => a[0] - b[0]);
+
+    // Walk the spans in order; a gap before `to` means part of the side is open
+    let reached = from;
+    for (const [a, b] of spans) {
+      if (a > reached + this.EPSILON) {
+        break;
+      }
+      reached = Math.max(reached, b);
+    }
+    return reached >= to - this.EPSILON;
+  }
+
+  private static make(entry: CatalogEntry, id: string, x: number, z: number, rotation: number): Furniture {
+    return {
+      id,
+      name: entry.name,
+      type: entry.type,
+      catalogId: entry.id,
+      position: { x: this.round(x), y: 0, z: this.round(z) },
+      rotation,
+      dimensions: { ...entry.dimensions }
+    };
+  }
+
+  // Positions from `from` to `to` on the grid, always including both ends
+  private static steps(from: number, to: number): number[] {
+    if (to < from - this.EPSILON) {
+      return [];
+    }
+    const positions: number[] = [];
+    for (let p = from; p < to - this.EPSILON; p += this.STEP) {
+      positions.push(p);
+    }
+    positions.push(to);
+    return positions;
+  }
+
+  private static uniqueId(base: string, placed: Furniture[]): string {
+    let id = base;
+    for (let n = 2; placed.some(item => item.id === id); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+
+  private static normalise(rotation: number): number {
+    const turn = Math.PI * 2;
+    const value = ((rotation % turn) + turn) % turn;
+    return Math.abs(value - turn) < this.EPSILON ? 0 : value;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -1,4 +1,30 @@
-import { HouseFormData, HouseLayout, Room, Furniture, TourWaypoint } from '@/types/house';
+import { HouseFormData, HouseLayout, HouseVariant, Room, TourWaypoint, Opening, WallSide, WallSegment, LayoutConstraint, NotesReport, AdjacencyReport, SitePlan } from '@/types/house';
+import { LayoutEngine, LayoutError, RoomRequest, FloorPlan, Rect } from '@/services/layoutEngine';
+import { WallGraph } from '@/services/wallGraph';
+import { FurniturePlanner, FurnishingContext } from '@/services/furniturePlanner';
+import { getWallStart, getWallLength } from '@/utils/openings';
+import { createRandom, shuffle, MAX_SEED } from '@/utils/random';
+import { parseExtraNotes, describeConstraint } from '@/utils/noteParser';
+import { AdjacencyRules } from '@/services/adjacencyRules';
+import { RoofGenerator } from '@/services/roofGenerator';
+import { planSite, moveSite } from '@/utils/plot';
+import { getDefaultFinish } from '@/utils/materials';
+import { getMinStairLength } from '@/utils/stairs';
+import { BuildingCode } from '@/services/buildingCode';
+
+// How rooms connect besides the usual doors found from the hallway
+interface RoomLinks {
+  attached: Record<string, string>; // Room id -> the only room it has a door to
+  open: Array<[string, string]>; // Room pairs with no wall between them
+}
+
+// Rooms asked for on one floor, split between the front and back bands
+interface FloorProgram {
+  front: RoomRequest[];
+  back: RoomRequest[];
+}
+
+type FacingConstraint = Extract<LayoutConstraint, { kind: 'facing' }>;
 
 /**
  * House Generation Service
@@ -8,82 +34,328 @@ import { HouseFormData, HouseLayout, Room, Furniture, TourWaypoint } from '@/typ
 
 export class HouseGenerator {
   private static readonly ROOM_HEIGHT = 3; // Standard room height in meters
+  private static readonly MAX_HOUSE_WIDTH = 25; // Largest footprint the room bands are laid out for, in meters
+  private static readonly MAX_HOUSE_LENGTH = 35;
   private static readonly WALL_THICKNESS = 0.2; // Wall thickness in meters
+  private static readonly INTERIOR_WALL_THICKNESS = 0.1; // Partition wall thickness in meters
   private static readonly DOOR_WIDTH = 1; // Door width in meters
-  private static readonly WINDOW_WIDTH = 1.5; // Window width in meters
+  private static readonly WINDOW_WIDTH = 1.5; // Narrowest window in a room other than a bathroom, in meters
+  private static readonly WINDOW_HEIGHT = 1.2;
+  private static readonly DOOR_HEIGHT = 2.1; // Door height in meters
+  private static readonly MIN_DOOR_WIDTH = 0.7; // Narrowest door worth placing
+  private static readonly GARAGE_DOOR_WIDTH = 2.5; // Garage door width per car in meters
+  private static readonly GARAGE_DOOR_HEIGHT = 2.4; // Garage door height in meters
+  private static readonly OPENING_MARGIN = 0.15; // Wall kept clear at each end of an opening
+  private static readonly AREA_VARIATION = 0.15; // Seeded rooms vary up to 15% around their target area
+  private static readonly DEFAULT_SEED = 1;
+  private static readonly VARIANT_ATTEMPTS = 8; // Seeds tried per requested variant before giving up
+  private static readonly LAYOUT_CANDIDATES = 12; // Room orders tried per seed, keeping the best adjacency score
+  private static readonly FOOTPRINT_SLACK = [1, 1.25, 1.5]; // Footprint areas tried in turn, relative to the rooms' own
+  private static readonly MASTER_BEDROOM_ID = 'bedroom-1';
+  private static readonly ENSUITE_ID = 'bathroom-ensuite';
+  private static readonly MIN_ENSUITE_WIDTH = 1.5; // Narrowest ensuite bathroom in meters
+  private static readonly MAX_ENSUITE_WIDTH = 2.5;
+  private static readonly MASTER_BEDROOM_SCALE = 1.25; // Master bedroom area relative to the others
+
+  // Preferred floor area per room type in square meters
+  private static readonly TARGET_AREAS: Record<Room['type'], number> = {
+    living: 20,
+    kitchen: 10,
+    dining: 12,
+    bedroom: 12,
+    bathroom: 5,
+    hallway: 0,
+    staircase: 0,
+    garage: 18, // Per car
+    prayer: 5,
+    study: 9
+  };
 
   /**
-   * Generate a complete house layout based on form data
+   * Generate a complete house layout based on form data. The seed picks
+   * room order, sizes and orientation; the same seed and form data always
+   * give the same house. Constraints found in the extra notes are honored
+   * where the plot allows. Throws a LayoutError saying why when the plot
+   * cannot hold the rooms asked for.
    */
-  static generateHouse(formData: HouseFormData): HouseLayout {
-    try {
-      // Parse plot size and calculate house dimensions
-      const plotSize = this.parsePlotSize(formData.plotSize);
-      const houseDimensions = this.calculateHouseDimensions(plotSize, formData);
-      
-      // Generate room layout
-      const rooms = this.generateRooms(formData, houseDimensions);
-      
-      // Add furniture based on style
-      const furnishedRooms = this.addFurniture(rooms, formData.locationType);
-      
-      // Generate tour waypoints
-      const tourWaypoints = this.generateTourWaypoints(furnishedRooms, houseDimensions);
-      
-      return {
-        width: houseDimensions.width,
-        length: houseDimensions.length,
-        height: houseDimensions.height,
-        floors: formData.houseType === 'single' ? 1 : 2,
-        rooms: furnishedRooms,
-        style: formData.locationType === 'city' ? 'modern' : 'traditional'
-      };
-    } catch (error) {
-      console.error('Error generating house:', error);
-      throw new Error('Failed to generate house layout');
+  static generateHouse(formData: HouseFormData, seed: number = this.DEFAULT_SEED): HouseLayout {
+    // An unusable plot or setbacks are the caller's mistake, so the message is passed on as is
+    const site = planSite(formData, { width: this.MAX_HOUSE_WIDTH, length: this.MAX_HOUSE_LENGTH });
+
+    const constraints = parseExtraNotes(formData.extraNotes || '').constraints.map(note => note.constraint);
+
+    // Plots too tight for the seeded arrangement fall back to the default one,
+    // and if the notes cannot be honored at all, to a house without them
+    const attempts: Array<[(() => number) | null, LayoutConstraint[]]> = [
+      [createRandom(seed), constraints],
+      [null, constraints],
+      [null, []]
+    ];
+
+    let lastError: unknown;
+    for (const [random, attemptConstraints] of attempts) {
+      try {
+        return this.buildHouse(formData, site, random, attemptConstraints);
+      } catch (error) {
+        lastError = error;
+      }
     }
+
+    // The house without the notes is the plainest one asked for, so its problem is the one reported
+    if (lastError instanceof LayoutError) {
+      throw lastError;
+    }
+    console.error('Error generating house:', lastError);
+    throw new Error('Failed to generate house layout');
   }
 
   /**
-   * Parse plot size string to get dimensions
+   * Report which constraints from the extra notes the layout meets, which it
+   * does not and which parts of the notes were not understood
    */
-  private static parsePlotSize(plotSize: string): { width: number; length: number } {
-    // Handle different plot size formats
-    const size = plotSize.toLowerCase().replace(/\s/g, '');
-    
-    if (size.includes('x')) {
-      const [width, length] = size.split('x').map(s => parseFloat(s));
-      return { width: width || 20, length: length || 30 };
+  static reportNotes(formData: HouseFormData, layout: HouseLayout): NotesReport {
+    const parsed = parseExtraNotes(formData.extraNotes || '');
+    const report: NotesReport = { applied: [], notApplied: [], notUnderstood: parsed.notUnderstood };
+
+    parsed.constraints.forEach(({ constraint, limited }) => {
+      const label = describeConstraint(constraint);
+      const result = this.checkConstraint(constraint, layout, formData);
+      if (!result.met) {
+        report.notApplied.push(`${label}: ${result.detail}`);
+      } else if (limited) {
+        // Built, but smaller than asked for
+        report.notApplied.push(`${label}: ${limited}`);
+      } else {
+        report.applied.push(result.detail ? `${label} (${result.detail})` : label);
+      }
+    });
+
+    return report;
+  }
+
+  /**
+   * Score a layout against the room adjacency rules
+   */
+  static scoreAdjacency(formData: HouseFormData, layout: HouseLayout): AdjacencyReport {
+    const constraints = parseExtraNotes(formData.extraNotes || '').constraints.map(note => note.constraint);
+    return AdjacencyRules.evaluate(layout, constraints);
+  }
+
+  /**
+   * Build the layout, varied by the random source when there is one. With a
+   * random source several room orders are tried and the one that best meets
+   * the adjacency rules is kept; without one the default order is used. When
+   * no order fits, the house grows while the envelope allows and tries again.
+   */
+  private static buildHouse(
+    formData: HouseFormData,
+    site: SitePlan,
+    random: (() => number) | null,
+    constraints: LayoutConstraint[]
+  ): HouseLayout {
+    let lastError: unknown;
+    let previous: { width: number; length: number } | null = null;
+
+    for (const slack of this.FOOTPRINT_SLACK) {
+      // Fit the house into the buildable envelope
+      const houseDimensions = this.calculateHouseDimensions(site.envelope, formData, constraints, slack);
+      if (previous && houseDimensions.width <= previous.width && houseDimensions.length <= previous.length) {
+        break;
+      }
+      previous = houseDimensions;
+
+      let best: { layout: HouseLayout; score: number } | null = null;
+      for (let candidate = 0; candidate < (random ? this.LAYOUT_CANDIDATES : 1); candidate++) {
+        try {
+          const layout = this.buildLayout(formData, houseDimensions, random, constraints);
+          const score = AdjacencyRules.evaluate(layout, constraints).score;
+          if (!best || score > best.score) {
+            best = { layout, score };
+          }
+        } catch (error) {
+          // This order does not work on the plot, e.g. a room ends up without a door
+          lastError = error;
+        }
+      }
+
+      if (best) {
+        // The house stands on the front setback line, centered across the envelope
+        const origin = { x: site.envelope.x + (site.envelope.width - houseDimensions.width) / 2, z: site.envelope.z };
+        return { ...best.layout, plot: moveSite(site, origin) };
+      }
     }
-    
-    const numericSize = parseFloat(size);
-    if (!isNaN(numericSize)) {
-      // Assume square plot if only one dimension provided
-      return { width: numericSize, length: numericSize };
+
+    throw lastError;
+  }
+
+  /**
+   * Lay out, connect and furnish the rooms in one particular order
+   */
+  private static buildLayout(
+    formData: HouseFormData,
+    houseDimensions: { width: number; length: number; height: number },
+    random: (() => number) | null,
+    constraints: LayoutConstraint[]
+  ): HouseLayout {
+    // Generate room layout, mirrored east to west for half of all seeds. Rooms
+    // asked to face east or west are laid out at the east end, so the house is
+    // mirrored exactly when they should face west.
+    const rooms = this.generateRooms(formData, houseDimensions, random, constraints);
+    const sideways = this.facingConstraints(constraints).find(constraint => constraint.side === 'east' || constraint.side === 'west');
+    const mirror = sideways ? sideways.side === 'west' : !!random && random() < 0.5;
+    if (mirror) {
+      this.mirrorRooms(rooms, houseDimensions.width);
     }
+
+    const links = this.linkRooms(rooms, constraints);
     
-    // Default plot size
-    return { width: 20, length: 30 };
+    // Build the shared wall graph, leaving out walls between open-plan rooms
+    const walls = WallGraph.build(rooms, { exterior: this.WALL_THICKNESS, interior: this.INTERIOR_WALL_THICKNESS })
+      .filter(wall => !this.isOpenPair(links, wall.rooms[0], wall.rooms[1]));
+    
+    // Connect rooms with doors and add windows on exterior walls
+    const garage = constraints.find(constraint => constraint.kind === 'garage');
+    const openings = this.generateOpenings(rooms, walls, houseDimensions, links, garage && garage.kind === 'garage' ? garage.cars : 0);
+    
+    // Give each room its type's floor and wall finishes, then furnish it
+    const style = formData.locationType === 'city' ? 'modern' : 'traditional';
+    const finishedRooms = rooms.map(room => ({ ...room, finish: getDefaultFinish(room.type, style) }));
+    const furnishedRooms = this.addFurniture(finishedRooms, { rooms: finishedRooms, walls, openings }, formData.locationType);
+    const floors = formData.houseType === 'single' ? 1 : 2;
+    
+    return {
+      width: houseDimensions.width,
+      length: houseDimensions.length,
+      height: houseDimensions.height,
+      floors,
+      rooms: furnishedRooms,
+      walls,
+      openings,
+      style,
+      roof: formData.roof || RoofGenerator.defaultSpec(style, floors)
+    };
+  }
+
+  /**
+   * Rebuild walls, doors and windows after rooms were edited by hand, and
+   * furnish the rooms in `changed` afresh; the other rooms keep their
+   * furniture. Rooms that were open to each other stay open while they
+   * still touch. Throws if a room can no longer be reached through a door.
+   */
+  static rebuildLayout(layout: HouseLayout, rooms: Room[], changed: string[]): HouseLayout {
+    const touching = (a: Room, b: Room) =>
+      a.floor === b.floor && LayoutEngine.sharedEdge(this.roomRect(a), this.roomRect(b)) !== null;
+    const find = (id: string) => rooms.find(room => room.id === id);
+
+    const links: RoomLinks = { attached: {}, open: [] };
+    const ensuite = find(this.ENSUITE_ID);
+    const master = find(this.MASTER_BEDROOM_ID);
+    if (ensuite && master && touching(ensuite, master)) {
+      links.attached[this.ENSUITE_ID] = this.MASTER_BEDROOM_ID;
+    }
+    layout.rooms.forEach((a, i) => layout.rooms.slice(i + 1).forEach(b => {
+      const wasOpen = touching(a, b) && !layout.walls.some(wall => wall.rooms.indexOf(a.id) >= 0 && wall.rooms.indexOf(b.id) >= 0);
+      const editedA = find(a.id);
+      const editedB = find(b.id);
+      if (wasOpen && editedA && editedB && touching(editedA, editedB)) {
+        links.open.push([a.id, b.id]);
+      }
+    }));
+
+    const walls = WallGraph.build(rooms, { exterior: this.WALL_THICKNESS, interior: this.INTERIOR_WALL_THICKNESS })
+      .filter(wall => !this.isOpenPair(links, wall.rooms[0], wall.rooms[1]));
+
+    // The garage door keeps the number of cars it was sized for
+    const garageDoor = layout.openings.find(opening => opening.id === 'door-garage');
+    const garageCars = garageDoor ? Math.max(1, Math.round(garageDoor.width / this.GARAGE_DOOR_WIDTH)) : 0;
+    const openings = this.generateOpenings(rooms, walls, layout, links, garageCars);
+
+    const refurnished = this.addFurniture(
+      rooms.filter(room => changed.indexOf(room.id) >= 0),
+      { rooms, walls, openings },
+      layout.style === 'modern' ? 'city' : 'village'
+    );
+
+    return {
+      ...layout,
+      rooms: rooms.map(room => refurnished.find(furnished => furnished.id === room.id) || room),
+      walls,
+      openings
+    };
   }
 
   /**
-   * Calculate house dimensions based on plot size and requirements
+   * Generate up to `count` distinct layouts for the same form data. The first
+   * uses the seed itself and the rest use seeds derived from it, so the whole
+   * set is reproducible. Seeds whose layout repeats an earlier one are skipped.
+   */
+  static generateVariants(formData: HouseFormData, count: number, seed: number): HouseVariant[] {
+    const variants: HouseVariant[] = [];
+    const seen = new Set<string>();
+    const nextSeed = createRandom(seed);
+    let candidate = seed;
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < count * this.VARIANT_ATTEMPTS && variants.length < count; attempt++) {
+      try {
+        const layout = this.generateHouse(formData, candidate);
+        const signature = layout.rooms
+          .map(room => `${room.id}:${room.position.x.toFixed(2)},${room.position.z.toFixed(2)},${room.dimensions.width.toFixed(2)}`)
+          .join('|');
+
+        if (!seen.has(signature)) {
+          seen.add(signature);
+          variants.push({
+            seed: candidate,
+            layout,
+            tourWaypoints: this.generateTourWaypoints(layout.rooms, layout),
+            notes: this.reportNotes(formData, layout),
+            adjacency: this.scoreAdjacency(formData, layout)
+          });
+        }
+      } catch (error) {
+        // Some seeds do not fit on tight plots; try the next one
+        lastError = error;
+      }
+
+      candidate = Math.floor(nextSeed() * MAX_SEED);
+    }
+
+    if (variants.length === 0) {
+      throw lastError instanceof LayoutError ? lastError : new Error('Failed to generate house layout');
+    }
+
+    return variants;
+  }
+
+  /**
+   * Calculate house dimensions based on requirements: a footprint just big
+   * enough for the rooms at their target areas, within the buildable envelope
    */
   private static calculateHouseDimensions(
-    plotSize: { width: number; length: number },
-    formData: HouseFormData
+    envelope: { width: number; length: number },
+    formData: HouseFormData,
+    constraints: LayoutConstraint[],
+    slack: number
   ): { width: number; length: number; height: number } {
-    // Calculate house footprint (80% of plot size)
-    const houseWidth = Math.min(plotSize.width * 0.8, 25);
-    const houseLength = Math.min(plotSize.length * 0.8, 35);
+    // Size the bands for the floor that needs the most of each, as the floors share them
+    const { floors } = this.planProgram(formData, null, constraints);
+    const area = (requests: RoomRequest[]) => requests.reduce((sum, request) => sum + request.area, 0) * slack;
+    const stairLength = floors.length > 1 ? this.stairLength() : 0;
+    const footprint = LayoutEngine.planFootprint(
+      { width: Math.min(envelope.width, this.MAX_HOUSE_WIDTH), length: Math.min(envelope.length, this.MAX_HOUSE_LENGTH) },
+      Math.max(...floors.map(floor => area(floor.front))) + LayoutEngine.staircaseArea(stairLength),
+      Math.max(...floors.map(floor => area(floor.back))),
+      stairLength
+    );
     
     // Calculate height based on floors
     const floorHeight = this.ROOM_HEIGHT;
     const totalHeight = formData.houseType === 'single' ? floorHeight : floorHeight * 2;
     
     return {
-      width: houseWidth,
-      length: houseLength,
+      width: footprint.width,
+      length: footprint.length,
       height: totalHeight
     };
   }
@@ -91,304 +363,616 @@ export class HouseGenerator {
   /**
    * Generate room layout based on requirements
    */
-  private static generateRooms(formData: HouseFormData, dimensions: { width: number; length: number; height: number }): Room[] {
-    const rooms: Room[] = [];
-    let currentX = 0;
-    let currentZ = 0;
-    
-    // Calculate room sizes based on house dimensions
-    const roomWidth = dimensions.width / Math.max(2, Math.ceil(Math.sqrt(formData.bedrooms + 2)));
-    const roomLength = dimensions.length / Math.max(2, Math.ceil(Math.sqrt(formData.bedrooms + 2)));
-    
-    // Add living room (always present)
-    rooms.push({
-      id: 'living-1',
-      name: 'Living Room',
-      type: 'living',
-      position: { x: currentX, y: 0, z: currentZ },
-      dimensions: { width: roomWidth * 1.5, length: roomLength * 1.5, height: this.ROOM_HEIGHT },
-      furniture: []
-    });
-    
-    currentX += roomWidth * 1.5;
-    
-    // Add kitchen
-    for (let i = 0; i < formData.kitchens; i++) {
-      rooms.push({
-        id: `kitchen-${i + 1}`,
-        name: `Kitchen ${i + 1}`,
-        type: 'kitchen',
-        position: { x: currentX, y: 0, z: currentZ },
-        dimensions: { width: roomWidth, length: roomLength, height: this.ROOM_HEIGHT },
-        furniture: []
+  private static generateRooms(
+    formData: HouseFormData,
+    dimensions: { width: number; length: number; height: number },
+    random: (() => number) | null,
+    constraints: LayoutConstraint[]
+  ): Room[] {
+    const { floors, ensuite } = this.planProgram(formData, random, constraints);
+    const rooms = this.layoutFloors(dimensions, floors);
+
+    // When the ensuite cannot be split off and took the place of one of the
+    // bathrooms asked for, lay the house out again with all of them instead
+    if (ensuite && !this.splitEnsuite(rooms, ensuite, dimensions) && formData.bathrooms > 1) {
+      const withoutEnsuite = constraints.filter(constraint => constraint.kind !== 'ensuite');
+      return this.layoutFloors(dimensions, this.planProgram(formData, random, withoutEnsuite).floors);
+    }
+
+    return rooms;
+  }
+
+  /**
+   * Lay out the rooms of every floor in the footprint
+   */
+  private static layoutFloors(
+    dimensions: { width: number; length: number; height: number },
+    floors: FloorProgram[]
+  ): Room[] {
+    // The order rooms are handed to the layout engine decides where they end up in their band
+    let rooms: Room[];
+    if (floors.length === 1) {
+      rooms = this.placeFloor(LayoutEngine.layoutFloor(dimensions, floors[0].front, floors[0].back), 0);
+    } else {
+      // Both floors share band depths so the corridor and staircase stack exactly
+      const area = (requests: RoomRequest[]) => requests.reduce((sum, request) => sum + request.area, 0);
+      const stairLength = this.stairLength();
+      const bands = LayoutEngine.planBands(
+        dimensions,
+        Math.max(...floors.map(floor => area(floor.front))) + LayoutEngine.staircaseArea(stairLength),
+        Math.max(...floors.map(floor => area(floor.back))),
+        stairLength
+      );
+
+      rooms = [];
+      floors.forEach((floor, i) => {
+        rooms.push(...this.placeFloor(LayoutEngine.layoutFloor(dimensions, floor.front, floor.back, { bands, staircase: stairLength }), i));
       });
-      currentX += roomWidth;
     }
-    
-    // Add dining room if space allows
-    if (currentX + roomWidth <= dimensions.width) {
-      rooms.push({
-        id: 'dining-1',
-        name: 'Dining Room',
-        type: 'dining',
-        position: { x: currentX, y: 0, z: currentZ },
-        dimensions: { width: roomWidth, length: roomLength, height: this.ROOM_HEIGHT },
-        furniture: []
+
+    return rooms;
+  }
+
+  /**
+   * Decide which rooms go on which floor and in which band, in the order
+   * they are laid out. The master bedroom is asked for with room for its
+   * ensuite, which is returned to be split off once the floor is laid out.
+   */
+  private static planProgram(
+    formData: HouseFormData,
+    random: (() => number) | null,
+    constraints: LayoutConstraint[]
+  ): { floors: FloorProgram[]; ensuite: RoomRequest | null } {
+    // Without a random source rooms keep their target areas and default order
+    const request = (id: string, name: string, type: Room['type'], scale: number = 1): RoomRequest => ({
+      id,
+      name,
+      type,
+      area: this.TARGET_AREAS[type] * scale * (random ? 1 + (random() * 2 - 1) * this.AREA_VARIATION : 1)
+    });
+
+    const facing = this.facingConstraints(constraints);
+    const openKitchen = constraints.some(constraint => constraint.kind === 'open-kitchen');
+    const arrange = (requests: RoomRequest[]) => {
+      let ordered = random ? shuffle(requests, random) : requests.slice();
+
+      // Rooms that should face a side go to the end of the list that lands there:
+      // the start of a list fills the west end and the front band, the end the east end and the back
+      facing.forEach(({ roomType, side, master }) => {
+        const faces = (room: RoomRequest) => (master ? room.id === this.MASTER_BEDROOM_ID : room.type === roomType);
+        const matching = ordered.filter(faces);
+        const others = ordered.filter(room => !faces(room));
+        ordered = side === 'south' ? [...matching, ...others] : [...others, ...matching];
       });
-      currentX += roomWidth;
+
+      // An open kitchen stays next to the living room so the wall between them can go
+      const kitchen = ordered.findIndex(room => room.id === 'kitchen-1');
+      if (openKitchen && kitchen >= 0 && ordered.some(room => room.type === 'living')) {
+        const [moved] = ordered.splice(kitchen, 1);
+        const living = ordered.findIndex(room => room.type === 'living');
+        ordered.splice(living === ordered.length - 1 ? living : living + 1, 0, moved);
+      }
+
+      return ordered;
+    };
+
+    const publicRooms: RoomRequest[] = [request('living-1', 'Living Room', 'living')];
+
+    for (let i = 0; i < formData.kitchens; i++) {
+      publicRooms.push(request(`kitchen-${i + 1}`, `Kitchen ${i + 1}`, 'kitchen'));
     }
-    
-    // Reset for next row
-    currentX = 0;
-    currentZ += roomLength * 1.5;
-    
-    // Add bedrooms
+
+    publicRooms.push(request('dining-1', 'Dining Room', 'dining'));
+
+    const bedrooms: RoomRequest[] = [];
     for (let i = 0; i < formData.bedrooms; i++) {
-      if (currentX + roomWidth > dimensions.width) {
-        currentX = 0;
-        currentZ += roomLength;
+      bedrooms.push(request(`bedroom-${i + 1}`, `Bedroom ${i + 1}`, 'bedroom'));
+    }
+
+    const bathrooms: RoomRequest[] = [];
+    for (let i = 0; i < formData.bathrooms; i++) {
+      bathrooms.push(request(`bathroom-${i + 1}`, `Bathroom ${i + 1}`, 'bathroom'));
+    }
+
+    // The master bedroom is laid out with room for its ensuite, which is split
+    // off afterwards; with several bathrooms the ensuite is one of them
+    let ensuite: RoomRequest | null = null;
+    if (constraints.some(constraint => constraint.kind === 'ensuite')) {
+      ensuite = request(this.ENSUITE_ID, 'Ensuite Bathroom', 'bathroom');
+      if (bathrooms.length > 1) {
+        bathrooms.pop();
       }
-      
-      rooms.push({
-        id: `bedroom-${i + 1}`,
-        name: `Bedroom ${i + 1}`,
-        type: 'bedroom',
-        position: { x: currentX, y: 0, z: currentZ },
-        dimensions: { width: roomWidth, length: roomLength, height: this.ROOM_HEIGHT },
+      bedrooms[0] = {
+        ...bedrooms[0],
+        name: 'Master Bedroom',
+        area: bedrooms[0].area * this.MASTER_BEDROOM_SCALE + ensuite.area
+      };
+    }
+
+    // Garages sit at the front for street access; extra rooms join the private rooms
+    const garages: RoomRequest[] = [];
+    const extras: RoomRequest[] = [];
+    constraints.forEach(constraint => {
+      if (constraint.kind === 'garage') {
+        garages.push(request('garage-1', constraint.cars > 1 ? `${constraint.cars}-Car Garage` : 'Garage', 'garage', constraint.cars));
+      } else if (constraint.kind === 'extra-room') {
+        extras.push(constraint.roomType === 'prayer'
+          ? request('prayer-1', 'Prayer Room', 'prayer')
+          : request('study-1', 'Study', 'study'));
+      }
+    });
+
+    if (formData.houseType === 'single') {
+      // Public rooms sit at the front of the house, private rooms at the back
+      return {
+        floors: [{
+          front: [...garages, ...arrange(publicRooms)],
+          back: arrange([...this.interleave(bedrooms, bathrooms), ...extras])
+        }],
+        ensuite
+      };
+    }
+
+    // Living room at the front downstairs (with the kitchen when it is open to it),
+    // kitchen and dining behind it and a guest bathroom when there is more than one;
+    // everything else goes upstairs, apart from a prayer room which stays downstairs
+    const [living, ...service] = publicRooms;
+    const openService = openKitchen ? service.filter(room => room.id === 'kitchen-1') : [];
+    const groundFront = [...garages, ...arrange([living, ...openService])];
+    const groundBack = arrange([
+      ...service.filter(room => openService.indexOf(room) < 0),
+      ...(bathrooms.length > 1 ? [bathrooms[0]] : []),
+      ...extras.filter(room => room.type === 'prayer')
+    ]);
+    const [upperFront, upperBack] = LayoutEngine.splitByArea(arrange([
+      ...this.interleave(bedrooms, bathrooms.length > 1 ? bathrooms.slice(1) : bathrooms),
+      ...extras.filter(room => room.type !== 'prayer')
+    ]));
+
+    return {
+      floors: [{ front: groundFront, back: groundBack }, { front: upperFront, back: upperBack }],
+      ensuite
+    };
+  }
+
+  /**
+   * Shortest staircase room whose steps and landing meet the building code
+   */
+  private static stairLength(): number {
+    const limits = BuildingCode.DEFAULT_LIMITS;
+    return getMinStairLength(this.ROOM_HEIGHT, limits.minStairTread, limits.minLandingDepth);
+  }
+
+  /**
+   * Spread bathrooms evenly between bedrooms, so that in the default order
+   * each bathroom is laid out next to a bedroom
+   */
+  private static interleave(bedrooms: RoomRequest[], bathrooms: RoomRequest[]): RoomRequest[] {
+    const result = bedrooms.slice();
+    // Insert from the last bathroom backwards so earlier insert positions stay valid
+    for (let i = bathrooms.length - 1; i >= 0; i--) {
+      const after = Math.max(Math.ceil(((i + 0.5) * bedrooms.length) / bathrooms.length) - 1, 0);
+      result.splice(Math.min(after + 1, result.length), 0, bathrooms[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Split the ensuite bathroom off one end of the master bedroom, trying the
+   * west end first, unless every end would leave the bedroom too narrow or
+   * without an outside wall for its window. Returns whether it was split off.
+   */
+  private static splitEnsuite(rooms: Room[], ensuite: RoomRequest, dimensions: { width: number; length: number }): boolean {
+    const index = rooms.findIndex(room => room.id === this.MASTER_BEDROOM_ID);
+    if (index < 0) {
+      return false;
+    }
+
+    const master = rooms[index];
+    const sides: WallSide[] = ['west', 'east', 'south', 'north'];
+    for (const side of sides) {
+      // The ensuite runs the full length of the end it takes
+      const acrossWidth = side === 'west' || side === 'east';
+      const span = acrossWidth ? master.dimensions.length : master.dimensions.width;
+      const depth = Math.min(Math.max(ensuite.area / span, this.MIN_ENSUITE_WIDTH), this.MAX_ENSUITE_WIDTH);
+      const x = side === 'east' ? master.position.x + master.dimensions.width - depth : master.position.x;
+      const z = side === 'north' ? master.position.z + master.dimensions.length - depth : master.position.z;
+
+      const bathroom: Room = {
+        id: ensuite.id,
+        name: ensuite.name,
+        type: 'bathroom',
+        floor: master.floor,
+        position: { ...master.position, x, z },
+        dimensions: acrossWidth ? { ...master.dimensions, width: depth } : { ...master.dimensions, length: depth },
         furniture: []
-      });
-      
-      currentX += roomWidth;
+      };
+      const bedroom: Room = {
+        ...master,
+        position: {
+          ...master.position,
+          x: side === 'west' ? master.position.x + depth : master.position.x,
+          z: side === 'south' ? master.position.z + depth : master.position.z
+        },
+        dimensions: acrossWidth
+          ? { ...master.dimensions, width: master.dimensions.width - depth }
+          : { ...master.dimensions, length: master.dimensions.length - depth }
+      };
+
+      const narrowest = Math.min(bedroom.dimensions.width, bedroom.dimensions.length);
+      if (narrowest >= BuildingCode.DEFAULT_LIMITS.minBedroomWidth &&
+          sides.some(outside => this.isExteriorWall(bedroom, outside, dimensions))) {
+        rooms.splice(index, 1, bedroom, bathroom);
+        return true;
+      }
     }
-    
-    // Add bathrooms
-    for (let i = 0; i < formData.bathrooms; i++) {
-      if (currentX + roomWidth > dimensions.width) {
-        currentX = 0;
-        currentZ += roomLength;
+
+    return false;
+  }
+
+  /**
+   * Work out which rooms connect only to one other room and which are open to each other
+   */
+  private static linkRooms(rooms: Room[], constraints: LayoutConstraint[]): RoomLinks {
+    const links: RoomLinks = { attached: {}, open: [] };
+
+    if (rooms.some(room => room.id === this.ENSUITE_ID)) {
+      links.attached[this.ENSUITE_ID] = this.MASTER_BEDROOM_ID;
+    }
+
+    const kitchen = rooms.find(room => room.id === 'kitchen-1');
+    if (kitchen && constraints.some(constraint => constraint.kind === 'open-kitchen')) {
+      const partner = ['living', 'dining']
+        .map(type => rooms.find(room =>
+          room.type === type && room.floor === kitchen.floor &&
+          LayoutEngine.sharedEdge(this.roomRect(kitchen), this.roomRect(room)) !== null))
+        .find((room): room is Room => room !== undefined);
+      if (partner) {
+        links.open.push([kitchen.id, partner.id]);
+      }
+    }
+
+    return links;
+  }
+
+  private static isOpenPair(links: RoomLinks, a: string | null, b: string | null): boolean {
+    return links.open.some(([first, second]) => (first === a && second === b) || (first === b && second === a));
+  }
+
+  private static facingConstraints(constraints: LayoutConstraint[]): FacingConstraint[] {
+    return constraints.filter((constraint): constraint is FacingConstraint => constraint.kind === 'facing');
+  }
+
+  /**
+   * Whether a layout meets a constraint, with a short explanation when it does not
+   * or only partly does
+   */
+  private static checkConstraint(
+    constraint: LayoutConstraint,
+    layout: HouseLayout,
+    formData: HouseFormData
+  ): { met: boolean; detail?: string } {
+    const has = (predicate: (room: Room) => boolean) => layout.rooms.some(predicate);
+
+    switch (constraint.kind) {
+      case 'ensuite': {
+        if (!has(room => room.id === this.ENSUITE_ID)) {
+          return { met: false, detail: 'the master bedroom is too small to split off a bathroom' };
+        }
+        // With a single bathroom asked for the ensuite comes on top of it, so the other bedrooms keep one
+        const bathrooms = layout.rooms.filter(room => room.type === 'bathroom').length;
+        return bathrooms > formData.bathrooms
+          ? { met: true, detail: `an extra bathroom on top of the ${formData.bathrooms} asked for` }
+          : { met: true };
+      }
+
+      case 'open-kitchen': {
+        const kitchen = layout.rooms.find(room => room.id === 'kitchen-1');
+        const open = kitchen && layout.rooms.some(room =>
+          (room.type === 'living' || room.type === 'dining') && room.floor === kitchen.floor &&
+          LayoutEngine.sharedEdge(this.roomRect(kitchen), this.roomRect(room)) !== null &&
+          !layout.walls.some(wall => wall.rooms.indexOf(kitchen.id) >= 0 && wall.rooms.indexOf(room.id) >= 0));
+        return open ? { met: true } : { met: false, detail: 'the kitchen could not be placed next to the living or dining room' };
+      }
+
+      case 'garage':
+        return has(room => room.type === 'garage') ? { met: true } : { met: false, detail: 'there is not enough space on this plot' };
+
+      case 'extra-room':
+        return has(room => room.type === constraint.roomType) ? { met: true } : { met: false, detail: 'there is not enough space on this plot' };
+
+      case 'facing': {
+        const rooms = layout.rooms.filter(room => (constraint.master ? room.id === this.MASTER_BEDROOM_ID : room.type === constraint.roomType));
+        const facingRooms = rooms.filter(room => this.isExteriorWall(room, constraint.side, layout));
+        if (rooms.length === 0) {
+          return { met: false, detail: 'there is no such room in this design' };
+        }
+        if (facingRooms.length === 0) {
+          return { met: false, detail: `none could be placed on the ${constraint.side} side` };
+        }
+        return facingRooms.length < rooms.length
+          ? { met: true, detail: `${facingRooms.length} of ${rooms.length}` }
+          : { met: true };
       }
-      
+    }
+  }
+
+  /**
+   * Flip rooms east to west in place
+   */
+  private static mirrorRooms(rooms: Room[], width: number): void {
+    rooms.forEach(room => {
+      room.position.x = width - room.position.x - room.dimensions.width;
+    });
+  }
+
+  /**
+   * Turn a floor plan into rooms raised to the floor's elevation
+   */
+  private static placeFloor(plan: FloorPlan, floor: number): Room[] {
+    const elevation = floor * this.ROOM_HEIGHT;
+    const suffix = floor + 1;
+
+    const rooms: Room[] = plan.rooms.map(({ request, rect }) => ({
+      id: request.id,
+      name: request.name,
+      type: request.type,
+      floor,
+      position: { x: rect.x, y: elevation, z: rect.z },
+      dimensions: { width: rect.width, length: rect.length, height: this.ROOM_HEIGHT },
+      furniture: []
+    }));
+
+    if (plan.staircase) {
       rooms.push({
-        id: `bathroom-${i + 1}`,
-        name: `Bathroom ${i + 1}`,
-        type: 'bathroom',
-        position: { x: currentX, y: 0, z: currentZ },
-        dimensions: { width: roomWidth * 0.8, length: roomLength * 0.8, height: this.ROOM_HEIGHT },
+        id: `staircase-${suffix}`,
+        name: 'Staircase',
+        type: 'staircase',
+        floor,
+        position: { x: plan.staircase.x, y: elevation, z: plan.staircase.z },
+        dimensions: { width: plan.staircase.width, length: plan.staircase.length, height: this.ROOM_HEIGHT },
         furniture: []
       });
-      
-      currentX += roomWidth;
     }
-    
-    // Add hallway
+
+    // Whatever the rooms do not use becomes the hallway
     rooms.push({
-      id: 'hallway-1',
-      name: 'Hallway',
+      id: `hallway-${suffix}`,
+      name: floor === 0 ? 'Hallway' : 'Upstairs Hallway',
       type: 'hallway',
-      position: { x: 0, y: 0, z: -2 },
-      dimensions: { width: dimensions.width, length: 2, height: this.ROOM_HEIGHT },
+      floor,
+      position: { x: plan.circulation.x, y: elevation, z: plan.circulation.z },
+      dimensions: { width: plan.circulation.width, length: plan.circulation.length, height: this.ROOM_HEIGHT },
       furniture: []
     });
-    
+
     return rooms;
   }
 
   /**
-   * Add furniture to rooms based on style
+   * Place doors so every room can be reached from its floor's hallway,
+   * an entrance door in the living room and windows on exterior walls.
+   * Attached rooms only get a door to their own room, and open-plan rooms
+   * reach each other without one.
    */
-  private static addFurniture(rooms: Room[], locationType: 'city' | 'village'): Room[] {
-    return rooms.map(room => {
-      const furniture: Furniture[] = [];
-      
-      switch (room.type) {
-        case 'living':
-          furniture.push(
-            {
-              id: 'sofa-1',
-              name: 'Sofa',
-              type: 'sofa',
-              position: { x: room.dimensions.width * 0.2, y: 0, z: room.dimensions.length * 0.3 },
-              rotation: 0,
-              dimensions: { width: 2.5, length: 1, height: 0.8 }
-            },
-            {
-              id: 'coffee-table-1',
-              name: 'Coffee Table',
-              type: 'table',
-              position: { x: room.dimensions.width * 0.5, y: 0, z: room.dimensions.length * 0.5 },
-              rotation: 0,
-              dimensions: { width: 1.2, length: 0.8, height: 0.5 }
-            },
-            {
-              id: 'tv-cabinet-1',
-              name: 'TV Cabinet',
-              type: 'cabinet',
-              position: { x: room.dimensions.width * 0.8, y: 0, z: room.dimensions.length * 0.2 },
-              rotation: 0,
-              dimensions: { width: 2, length: 0.5, height: 0.6 }
-            },
-            {
-              id: 'armchair-1',
-              name: 'Armchair',
-              type: 'chair',
-              position: { x: room.dimensions.width * 0.7, y: 0, z: room.dimensions.length * 0.7 },
-              rotation: Math.PI / 4,
-              dimensions: { width: 0.8, length: 0.8, height: 0.9 }
-            },
-            {
-              id: 'side-table-1',
-              name: 'Side Table',
-              type: 'table',
-              position: { x: room.dimensions.width * 0.85, y: 0, z: room.dimensions.length * 0.75 },
-              rotation: 0,
-              dimensions: { width: 0.5, length: 0.5, height: 0.6 }
-            }
-          );
-          break;
-          
-        case 'bedroom':
-          furniture.push(
-            {
-              id: `bed-${room.id}`,
-              name: 'Bed',
-              type: 'bed',
-              position: { x: room.dimensions.width * 0.3, y: 0, z: room.dimensions.length * 0.4 },
-              rotation: 0,
-              dimensions: { width: 1.6, length: 2, height: 0.6 }
-            },
-            {
-              id: `wardrobe-${room.id}`,
-              name: 'Wardrobe',
-              type: 'cabinet',
-              position: { x: room.dimensions.width * 0.1, y: 0, z: room.dimensions.length * 0.1 },
-              rotation: 0,
-              dimensions: { width: 1.5, length: 0.6, height: 2.2 }
-            },
-            {
-              id: `nightstand-${room.id}`,
-              name: 'Nightstand',
-              type: 'table',
-              position: { x: room.dimensions.width * 0.6, y: 0, z: room.dimensions.length * 0.3 },
-              rotation: 0,
-              dimensions: { width: 0.5, length: 0.4, height: 0.7 }
-            },
-            {
-              id: `dresser-${room.id}`,
-              name: 'Dresser',
-              type: 'cabinet',
-              position: { x: room.dimensions.width * 0.8, y: 0, z: room.dimensions.length * 0.7 },
-              rotation: Math.PI / 2,
-              dimensions: { width: 1.2, length: 0.5, height: 1.0 }
-            }
-          );
-          break;
-          
-        case 'kitchen':
-          furniture.push(
-            {
-              id: `counter-${room.id}`,
-              name: 'Kitchen Counter',
-              type: 'cabinet',
-              position: { x: room.dimensions.width * 0.1, y: 0, z: room.dimensions.length * 0.2 },
-              rotation: 0,
-              dimensions: { width: room.dimensions.width * 0.8, length: 0.6, height: 0.9 }
-            },
-            {
-              id: `stove-${room.id}`,
-              name: 'Stove',
-              type: 'appliance',
-              position: { x: room.dimensions.width * 0.3, y: 0, z: room.dimensions.length * 0.25 },
-              rotation: 0,
-              dimensions: { width: 0.6, length: 0.6, height: 0.9 }
-            },
-            {
-              id: `fridge-${room.id}`,
-              name: 'Refrigerator',
-              type: 'appliance',
-              position: { x: room.dimensions.width * 0.8, y: 0, z: room.dimensions.length * 0.1 },
-              rotation: 0,
-              dimensions: { width: 0.7, length: 0.7, height: 1.8 }
-            },
-            {
-              id: `sink-${room.id}`,
-              name: 'Kitchen Sink',
-              type: 'appliance',
-              position: { x: room.dimensions.width * 0.5, y: 0, z: room.dimensions.length * 0.25 },
-              rotation: 0,
-              dimensions: { width: 0.8, length: 0.5, height: 0.9 }
-            },
-            {
-              id: `island-${room.id}`,
-              name: 'Kitchen Island',
-              type: 'table',
-              position: { x: room.dimensions.width * 0.5, y: 0, z: room.dimensions.length * 0.6 },
-              rotation: 0,
-              dimensions: { width: 1.5, length: 1.0, height: 0.9 }
-            }
-          );
-          break;
-          
-        case 'bathroom':
-          furniture.push(
-            {
-              id: `toilet-${room.id}`,
-              name: 'Toilet',
-              type: 'appliance',
-              position: { x: room.dimensions.width * 0.2, y: 0, z: room.dimensions.length * 0.2 },
-              rotation: 0,
-              dimensions: { width: 0.4, length: 0.7, height: 0.8 }
-            },
-            {
-              id: `sink-${room.id}`,
-              name: 'Bathroom Sink',
-              type: 'appliance',
-              position: { x: room.dimensions.width * 0.7, y: 0, z: room.dimensions.length * 0.2 },
-              rotation: 0,
-              dimensions: { width: 0.6, length: 0.4, height: 0.8 }
-            },
-            {
-              id: `shower-${room.id}`,
-              name: 'Shower',
-              type: 'appliance',
-              position: { x: room.dimensions.width * 0.2, y: 0, z: room.dimensions.length * 0.7 },
-              rotation: 0,
-              dimensions: { width: 0.9, length: 0.9, height: 2.0 }
-            },
-            {
-              id: `cabinet-${room.id}`,
-              name: 'Bathroom Cabinet',
-              type: 'cabinet',
-              position: { x: room.dimensions.width * 0.7, y: 0, z: room.dimensions.length * 0.7 },
-              rotation: 0,
-              dimensions: { width: 0.6, length: 0.3, height: 1.8 }
-            }
-          );
-          break;
-          
-        case 'dining':
-          furniture.push(
-            {
-              id: `dining-table-${room.id}`,
-              name: 'Dining Table',
-              type: 'table',
-              position: { x: room.dimensions.width * 0.5, y: 0, z: room.dimensions.length * 0.5 },
-              rotation: 0,
-              dimensions: { width: 1.8, length: 1.2, height: 0.75 }
-            },
-            {
-              id: `dining-chairs-${room.id}`,
-              name: 'Dining Chairs',
-              type: 'chair',
-              position: { x: room.dimensions.width * 0.5, y: 0, z: room.dimensions.length * 0.3 },
-              rotation: 0,
-              dimensions: { width: 0.5, length: 0.5, height: 0.9 }
-            }
-          );
-          break;
+  private static generateOpenings(
+    rooms: Room[],
+    walls: WallSegment[],
+    dimensions: { width: number; length: number },
+    links: RoomLinks,
+    garageCars: number
+  ): Opening[] {
+    const openings: Opening[] = [];
+    const floors = Array.from(new Set(rooms.map(room => room.floor)));
+
+    floors.forEach(floor => {
+      const floorRooms = rooms.filter(room => room.floor === floor);
+      const hallway = floorRooms.find(room => room.type === 'hallway');
+      if (!hallway) {
+        return;
+      }
+
+      // Walk outwards from the hallway; each room joins through a door in the first reached room it touches
+      const reached = new Set<string>([hallway.id]);
+      const queue: Room[] = [hallway];
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+
+        floorRooms.forEach(other => {
+          const owner = links.attached[other.id];
+          if (reached.has(other.id) || (owner && owner !== current.id)) {
+            return;
+          }
+
+          const edge = LayoutEngine.sharedEdge(this.roomRect(current), this.roomRect(other));
+          if (edge && this.isOpenPair(links, current.id, other.id)) {
+            reached.add(other.id);
+            queue.push(other);
+            return;
+          }
+
+          const width = edge ? Math.min(this.DOOR_WIDTH, edge.end - edge.start - 2 * this.OPENING_MARGIN) : 0;
+          if (!edge || width < this.MIN_DOOR_WIDTH) {
+            return;
+          }
+
+          const offset = (edge.start + edge.end) / 2 - getWallStart(current, edge.side);
+          openings.push({
+            id: `door-${current.id}-${other.id}`,
+            type: 'door',
+            wallId: this.findWallId(walls, current, edge.side, offset),
+            roomId: current.id,
+            connectsTo: other.id,
+            wall: edge.side,
+            offset,
+            width,
+            height: this.DOOR_HEIGHT,
+            sillHeight: 0
+          });
+
+          reached.add(other.id);
+          if (!owner) {
+            queue.push(other);
+          }
+        });
+      }
+
+      const unreachable = floorRooms.find(room => !reached.has(room.id));
+      if (unreachable) {
+        throw new LayoutError(`${unreachable.name} cannot be reached through a door`);
       }
-      
-      return { ...room, furniture };
     });
+
+    // Front door in the middle of the living room's street-facing wall
+    const living = rooms.find(room => room.type === 'living' && room.floor === 0);
+    if (living && this.isExteriorWall(living, 'south', dimensions)) {
+      openings.push({
+        id: 'door-entrance',
+        type: 'door',
+        wallId: this.findWallId(walls, living, 'south', living.dimensions.width / 2),
+        roomId: living.id,
+        wall: 'south',
+        offset: living.dimensions.width / 2,
+        width: this.DOOR_WIDTH,
+        height: this.DOOR_HEIGHT,
+        sillHeight: 0
+      });
+    }
+
+    // Garage door wide enough for every car on the garage's street-facing wall
+    const garage = rooms.find(room => room.type === 'garage');
+    if (garage && this.isExteriorWall(garage, 'south', dimensions)) {
+      openings.push({
+        id: 'door-garage',
+        type: 'door',
+        wallId: this.findWallId(walls, garage, 'south', garage.dimensions.width / 2),
+        roomId: garage.id,
+        wall: 'south',
+        offset: garage.dimensions.width / 2,
+        width: Math.min(this.GARAGE_DOOR_WIDTH * Math.max(garageCars, 1), garage.dimensions.width - 2 * this.OPENING_MARGIN),
+        height: this.GARAGE_DOOR_HEIGHT,
+        sillHeight: 0
+      });
+    }
+
+    // One window per exterior wall, kept clear of any door on the same wall. Other
+    // than in bathrooms, the windows widen until together they let in as much
+    // daylight as the building code asks for, each wall making up what the
+    // ones before it could not fit. A wall whose widest gap is too narrow for
+    // its share, e.g. beside a front door, gets another window in the next gap.
+    const sides: WallSide[] = ['south', 'north', 'west', 'east'];
+    rooms.forEach(room => {
+      if (room.type === 'staircase') {
+        return;
+      }
+
+      const isBathroom = room.type === 'bathroom';
+      const height = isBathroom ? 0.6 : this.WINDOW_HEIGHT;
+      const outside = sides.filter(side => this.isExteriorWall(room, side, dimensions));
+      let glazing = BuildingCode.DEFAULT_LIMITS.minWindowRatio * room.dimensions.width * room.dimensions.length;
+
+      outside.forEach((side, i) => {
+        const length = getWallLength(room, side);
+        // Rounded up to the centimeter so the windows never fall just short
+        let wanted = isBathroom ? 0.6 : Math.max(this.WINDOW_WIDTH, Math.ceil((glazing / height / (outside.length - i)) * 100) / 100);
+
+        for (let count = 1; wanted > 0; count++) {
+          const taken = openings
+            .filter(opening => opening.roomId === room.id && opening.wall === side)
+            .map(opening => [opening.offset - opening.width / 2, opening.offset + opening.width / 2] as [number, number]);
+          const gap = this.findWallGap(length, taken);
+          const width = Math.min(wanted, gap.size);
+
+          if (width < 0.5) {
+            return;
+          }
+
+          const offset = gap.start + gap.size / 2;
+          openings.push({
+            id: count === 1 ? `window-${room.id}-${side}` : `window-${room.id}-${side}-${count}`,
+            type: 'window',
+            wallId: this.findWallId(walls, room, side, offset),
+            roomId: room.id,
+            wall: side,
+            offset,
+            width,
+            height,
+            sillHeight: isBathroom ? 1.5 : 0.9
+          });
+          glazing -= width * height;
+          wanted = isBathroom || wanted - width < 0.01 ? 0 : Math.max(wanted - width, 0.5);
+        }
+      });
+    });
+
+    return openings;
+  }
+
+  /**
+   * Widest free stretch of wall, kept clear of the openings already on it
+   */
+  private static findWallGap(length: number, taken: Array<[number, number]>): { start: number; size: number } {
+    const sorted = [...taken].sort((a, b) => a[0] - b[0]);
+    let bestStart = 0;
+    let bestSize = -Infinity;
+    let cursor = 0;
+
+    for (const [start, end] of [...sorted, [length, length]]) {
+      const gapStart = cursor + this.OPENING_MARGIN;
+      const gapSize = start - this.OPENING_MARGIN - gapStart;
+      if (gapSize > bestSize) {
+        bestStart = gapStart;
+        bestSize = gapSize;
+      }
+      cursor = Math.max(cursor, end);
+    }
+
+    return { start: bestStart, size: bestSize };
+  }
+
+  /**
+   * Wall segment that holds an opening on a room's wall
+   */
+  private static findWallId(walls: WallSegment[], room: Room, side: WallSide, offset: number): string {
+    const axis = side === 'north' || side === 'south' ? 'x' : 'z';
+    const coord =
+      side === 'south' ? room.position.z :
+      side === 'north' ? room.position.z + room.dimensions.length :
+      side === 'west' ? room.position.x :
+      room.position.x + room.dimensions.width;
+
+    const wall = WallGraph.findWall(walls, room.floor, axis, coord, getWallStart(room, side) + offset);
+    if (!wall) {
+      throw new Error(`No wall found for an opening in ${room.name}`);
+    }
+    return wall.id;
+  }
+
+  private static roomRect(room: Room): Rect {
+    return { x: room.position.x, z: room.position.z, width: room.dimensions.width, length: room.dimensions.length };
+  }
+
+  private static isExteriorWall(room: Room, side: WallSide, dimensions: { width: number; length: number }): boolean {
+    const epsilon = 1e-6;
+    switch (side) {
+      case 'south':
+        return room.position.z < epsilon;
+      case 'north':
+        return room.position.z + room.dimensions.length > dimensions.length - epsilon;
+      case 'west':
+        return room.position.x < epsilon;
+      case 'east':
+        return room.position.x + room.dimensions.width > dimensions.width - epsilon;
+    }
+  }
+
+  /**
+   * Furnish rooms from the furniture catalog, placing each item against the
+   * walls clear of the doors, windows and the other furniture
+   */
+  private static addFurniture(rooms: Room[], context: FurnishingContext, locationType: 'city' | 'village'): Room[] {
+    return rooms.map(room => ({ ...room, furniture: FurniturePlanner.furnish(room, context, locationType) }));
   }
 
   /**
@@ -405,18 +989,18 @@ export class HouseGenerator {
       roomName: 'Exterior View'
     });
     
-    // Tour through each room
+    // Tour through each room, floor by floor
     rooms.forEach(room => {
-      if (room.type !== 'hallway') {
+      if (room.type !== 'hallway' && room.type !== 'staircase') {
         waypoints.push({
           position: [
             room.position.x + room.dimensions.width / 2,
-            room.dimensions.height / 2,
+            room.position.y + room.dimensions.height / 2,
             room.position.z + room.dimensions.length / 2
           ],
           lookAt: [
             room.position.x + room.dimensions.width / 2,
-            room.dimensions.height / 2,
+            room.position.y + room.dimensions.height / 2,
             room.position.z + room.dimensions.length / 2
           ],
           duration: 2,
@@ -0,0 +1,397 @@
+import { Room, WallSide } from '@/types/house';
+import { BuildingCode, LIVING_SPACES } from '@/services/buildingCode';
+
+/**
+ * Layout Engine
+ * Packs rooms into the house footprint by recursive subdivision.
+ * Every placed room lies inside the footprint, no two rooms overlap,
+ * no room is smaller or narrower than its type allows and every room
+ * people live in has an outside wall for a window.
+ */
+
+// The rooms asked for cannot be laid out on the plot, which is the caller's
+// problem to fix rather than a fault in the generator
+export class LayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayoutError';
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, LayoutError.prototype);
+  }
+}
+
+// Axis-aligned rectangle on the ground plane (x = width axis, z = length axis)
+export interface Rect {
+  x: number;
+  z: number;
+  width: number;
+  length: number;
+}
+
+// A room waiting to be placed, with the floor area it would like to have
+export interface RoomRequest {
+  id: string;
+  name: string;
+  type: Room['type'];
+  area: number;
+}
+
+export interface PlacedRoom {
+  request: RoomRequest;
+  rect: Rect;
+}
+
+// Depth of the front and back room bands; the corridor takes the rest
+export interface Bands {
+  front: number;
+  back: number;
+}
+
+// Stretch of wall two rectangles have in common, measured along the wall axis
+export interface SharedEdge {
+  side: WallSide; // Side of the first rectangle the edge lies on
+  start: number;
+  end: number;
+}
+
+export interface FloorPlan {
+  rooms: PlacedRoom[];
+  circulation: Rect;
+  staircase?: Rect;
+}
+
+export class LayoutEngine {
+  static readonly CORRIDOR_WIDTH = 1.2; // Corridor depth in meters
+  static readonly MIN_ROOM_SCALE = 0.7; // Rooms shrink to at most 30% under their target area
+  static readonly MIN_BAND_DEPTH = 3; // Shallowest room band worth keeping, in meters
+  static readonly BAND_DEPTH = 4; // Depth the deeper room band is sized for
+  static readonly MIN_HOUSE_WIDTH = 6;
+  static readonly STAIRCASE_WIDTH = 2.4; // Width of a dog-leg staircase in meters
+  private static readonly EPSILON = 1e-6;
+
+  // Narrowest each type of room may be, in meters
+  static readonly MIN_ROOM_WIDTH: Record<Room['type'], number> = {
+    living: 3,
+    kitchen: 2.1,
+    dining: 2.4,
+    bedroom: BuildingCode.DEFAULT_LIMITS.minBedroomWidth,
+    bathroom: 1.2,
+    hallway: 0,
+    staircase: 0,
+    garage: 3,
+    prayer: 1.2,
+    study: 2.1
+  };
+
+  /**
+   * Smallest footprint within the bounds that holds the front and back room
+   * bands at their areas: wide enough for the deeper band to be BAND_DEPTH
+   * deep and long enough for both bands and the corridor, with the front
+   * band at least `minFrontDepth` deep. On a tight plot the bounds win and
+   * the rooms shrink to fit.
+   */
+  static planFootprint(
+    bounds: { width: number; length: number },
+    frontArea: number,
+    backArea: number,
+    minFrontDepth = 0
+  ): { width: number; length: number } {
+    const width = Math.min(Math.max(Math.max(frontArea, backArea) / this.BAND_DEPTH, this.MIN_HOUSE_WIDTH), bounds.width);
+    const depth = (area: number) => (area > 0 ? Math.max(area / width, this.MIN_BAND_DEPTH) : 0);
+    const length = Math.min(Math.max(depth(frontArea), minFrontDepth) + depth(backArea) + this.CORRIDOR_WIDTH, bounds.length);
+    return { width, length };
+  }
+
+  /**
+   * Decide how deep the front and back room bands are. The corridor keeps
+   * its own depth and the bands share the rest of the length in proportion
+   * to their areas, with the front band at least `minFrontDepth` deep for a
+   * staircase. Floors stacked on top of each other share these depths so
+   * corridors and stairs line up. Throws if the rooms would have to shrink
+   * too far to fit.
+   */
+  static planBands(bounds: { width: number; length: number }, frontArea: number, backArea: number, minFrontDepth = 0): Bands {
+    const { width, length } = bounds;
+    const depth = Math.max(0, length - this.CORRIDOR_WIDTH);
+    const total = frontArea + backArea;
+
+    if (total * this.MIN_ROOM_SCALE > width * depth + this.EPSILON) {
+      throw new LayoutError(
+        `The plot is too small for the rooms asked for: they need at least ${Math.ceil(total * this.MIN_ROOM_SCALE)} m² on each floor, ` +
+        `but only ${Math.floor(width * depth)} m² fits`
+      );
+    }
+
+    if (minFrontDepth > depth + this.EPSILON) {
+      throw new LayoutError(`The plot is too short for a staircase, which needs ${minFrontDepth.toFixed(2)} m`);
+    }
+
+    // Keep both bands deep enough for usable rooms when there is the length
+    // for it; the staircase gets its depth either way
+    const minFront = Math.max(frontArea > 0 ? this.MIN_BAND_DEPTH : 0, minFrontDepth);
+    const minBack = backArea > 0 ? this.MIN_BAND_DEPTH : 0;
+    let front = total > 0 ? (depth * frontArea) / total : depth;
+    if (minFront + minBack <= depth) {
+      front = Math.min(Math.max(front, minFront), depth - minBack);
+    } else {
+      front = Math.max(front, minFrontDepth);
+    }
+
+    return { front, back: depth - front };
+  }
+
+  /**
+   * Lay out one floor as three bands running across the full width:
+   * front rooms (z = 0, where the entrance is), a corridor in the middle
+   * and back rooms. With a staircase, given as the shortest it may be, the
+   * east end of the front band is reserved for it so it opens onto the
+   * corridor.
+   */
+  static layoutFloor(
+    bounds: { width: number; length: number },
+    frontRooms: RoomRequest[],
+    backRooms: RoomRequest[],
+    options: { bands?: Bands; staircase?: number } = {}
+  ): FloorPlan {
+    const { width, length } = bounds;
+    const bands = options.bands || this.planBands(
+      bounds,
+      this.totalArea(frontRooms) + (options.staircase ? this.staircaseArea(options.staircase) : 0),
+      this.totalArea(backRooms),
+      options.staircase
+    );
+
+    const staircase: Rect | undefined = options.staircase
+      ? { x: width - Math.min(this.STAIRCASE_WIDTH, width / 2), z: 0, width: Math.min(this.STAIRCASE_WIDTH, width / 2), length: bands.front }
+      : undefined;
+    const frontWidth = staircase ? width - staircase.width : width;
+
+    const rooms = [
+      ...this.subdivide({ x: 0, z: 0, width: frontWidth, length: bands.front }, frontRooms, bounds),
+      ...this.subdivide({ x: 0, z: length - bands.back, width, length: bands.back }, backRooms, bounds)
+    ];
+
+    const circulation: Rect = { x: 0, z: bands.front, width, length: length - bands.front - bands.back };
+
+    this.assertValid(bounds, [
+      ...rooms.map(room => room.rect),
+      circulation,
+      ...(staircase ? [staircase] : [])
+    ]);
+    this.assertUsable(rooms, bounds);
+
+    return { rooms, circulation, staircase };
+  }
+
+  /**
+   * Split an ordered list of rooms into two groups of roughly equal area
+   */
+  static splitByArea(requests: RoomRequest[]): [RoomRequest[], RoomRequest[]] {
+    const index = this.balancedSplitIndex(requests);
+    return [requests.slice(0, index), requests.slice(index)];
+  }
+
+  /**
+   * Floor area to budget for a staircase of a given length when planning bands
+   */
+  static staircaseArea(length: number): number {
+    return this.STAIRCASE_WIDTH * length;
+  }
+
+  /**
+   * Recursively split a rectangle between rooms in proportion to their areas.
+   * Each split cuts across the longer side so rooms stay close to square,
+   * unless that leaves a room too narrow or a living space away from the
+   * outside walls of the footprint, and cutting the other way (or the other
+   * way round) does not.
+   */
+  static subdivide(rect: Rect, requests: RoomRequest[], bounds: { width: number; length: number }): PlacedRoom[] {
+    if (requests.length === 0) {
+      return [];
+    }
+
+    if (requests.length === 1) {
+      return [{ request: requests[0], rect }];
+    }
+
+    const total = this.totalArea(requests);
+    const splitIndex = this.balancedSplitIndex(requests);
+    const first = requests.slice(0, splitIndex);
+    const second = requests.slice(splitIndex);
+    const ratio = this.totalArea(first) / Math.max(total, this.EPSILON);
+
+    // Rooms stacked along the length may swap ends, so the one needing
+    // daylight gets the outside wall; side by side they keep their west to
+    // east order
+    const split = (acrossWidth: boolean, swapped = false): PlacedRoom[] => {
+      let firstRect: Rect;
+      let secondRect: Rect;
+
+      if (acrossWidth) {
+        const splitWidth = rect.width * ratio;
+        firstRect = { x: rect.x, z: rect.z, width: splitWidth, length: rect.length };
+        secondRect = { x: rect.x + splitWidth, z: rect.z, width: rect.width - splitWidth, length: rect.length };
+      } else if (!swapped) {
+        const splitLength = rect.length * ratio;
+        firstRect = { x: rect.x, z: rect.z, width: rect.width, length: splitLength };
+        secondRect = { x: rect.x, z: rect.z + splitLength, width: rect.width, length: rect.length - splitLength };
+      } else {
+        const splitLength = rect.length * (1 - ratio);
+        secondRect = { x: rect.x, z: rect.z, width: rect.width, length: splitLength };
+        firstRect = { x: rect.x, z: rect.z + splitLength, width: rect.width, length: rect.length - splitLength };
+      }
+
+      return [...this.subdivide(firstRect, first, bounds), ...this.subdivide(secondRect, second, bounds)];
+    };
+
+    const acrossWidth = rect.width >= rect.length;
+    const options: Array<() => PlacedRoom[]> = [
+      () => split(acrossWidth),
+      () => split(!acrossWidth),
+      () => split(false, true)
+    ];
+    let best: PlacedRoom[] | null = null;
+    for (const option of options) {
+      const rooms = option();
+      if (this.widthFit(rooms) >= 1 && this.daylit(rooms, bounds)) {
+        return rooms;
+      }
+      if (!best || this.widthFit(rooms) > this.widthFit(best)) {
+        best = rooms;
+      }
+    }
+    return best!;
+  }
+
+  /**
+   * Check whether two rectangles share any interior area
+   */
+  static overlaps(a: Rect, b: Rect): boolean {
+    return (
+      a.x < b.x + b.width - this.EPSILON &&
+      b.x < a.x + a.width - this.EPSILON &&
+      a.z < b.z + b.length - this.EPSILON &&
+      b.z < a.z + a.length - this.EPSILON
+    );
+  }
+
+  /**
+   * Find the wall two rectangles share, if they touch along a side
+   */
+  static sharedEdge(a: Rect, b: Rect): SharedEdge | null {
+    const overlapX: [number, number] = [Math.max(a.x, b.x), Math.min(a.x + a.width, b.x + b.width)];
+    const overlapZ: [number, number] = [Math.max(a.z, b.z), Math.min(a.z + a.length, b.z + b.length)];
+
+    const candidates: Array<[boolean, WallSide, [number, number]]> = [
+      [Math.abs(a.x + a.width - b.x) < this.EPSILON, 'east', overlapZ],
+      [Math.abs(b.x + b.width - a.x) < this.EPSILON, 'west', overlapZ],
+      [Math.abs(a.z + a.length - b.z) < this.EPSILON, 'north', overlapX],
+      [Math.abs(b.z + b.length - a.z) < this.EPSILON, 'south', overlapX]
+    ];
+
+    for (const [touching, side, [start, end]] of candidates) {
+      if (touching && end - start > this.EPSILON) {
+        return { side, start, end };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a rectangle lies entirely inside the footprint
+   */
+  static contains(bounds: { width: number; length: number }, rect: Rect): boolean {
+    return (
+      rect.x >= -this.EPSILON &&
+      rect.z >= -this.EPSILON &&
+      rect.x + rect.width <= bounds.width + this.EPSILON &&
+      rect.z + rect.length <= bounds.length + this.EPSILON
+    );
+  }
+
+  /**
+   * Throw if any rectangle leaves the footprint or overlaps another
+   */
+  private static assertValid(bounds: { width: number; length: number }, rects: Rect[]): void {
+    rects.forEach((rect, i) => {
+      if (!this.contains(bounds, rect)) {
+        throw new Error('Room layout exceeds the house footprint');
+      }
+      for (let j = i + 1; j < rects.length; j++) {
+        if (this.overlaps(rect, rects[j])) {
+          throw new Error('Room layout contains overlapping rooms');
+        }
+      }
+    });
+  }
+
+  /**
+   * Throw if a room ended up narrower than its type allows, shrank too far
+   * below the area it asked for or is a living space without an outside wall
+   */
+  private static assertUsable(rooms: PlacedRoom[], bounds: { width: number; length: number }): void {
+    rooms.forEach(({ request, rect }) => {
+      const narrowest = Math.min(rect.width, rect.length);
+      const minimum = this.MIN_ROOM_WIDTH[request.type];
+      if (narrowest < minimum - this.EPSILON) {
+        throw new LayoutError(`${request.name} would be only ${narrowest.toFixed(2)} m wide, below the ${minimum} m minimum`);
+      }
+      const area = rect.width * rect.length;
+      if (area < request.area * this.MIN_ROOM_SCALE - this.EPSILON) {
+        throw new LayoutError(`${request.name} would be only ${area.toFixed(1)} m², too small for the ${request.area.toFixed(1)} m² it needs`);
+      }
+    });
+    if (!this.daylit(rooms, bounds)) {
+      const dark = rooms.filter(room => !this.daylit([room], bounds))[0];
+      throw new LayoutError(`${dark.request.name} would have no outside wall for a window`);
+    }
+  }
+
+  /**
+   * How well the narrowest room meets its type's minimum width, as a ratio:
+   * 1 or more when every room is wide enough
+   */
+  private static widthFit(rooms: PlacedRoom[]): number {
+    return rooms.reduce((fit, { request, rect }) =>
+      Math.min(fit, Math.min(rect.width, rect.length) / Math.max(this.MIN_ROOM_WIDTH[request.type], this.EPSILON)), Infinity);
+  }
+
+  /**
+   * Whether every living space among the rooms touches an outside wall of
+   * the footprint, where it can have a window
+   */
+  private static daylit(rooms: PlacedRoom[], bounds: { width: number; length: number }): boolean {
+    return rooms.every(({ request, rect }) =>
+      LIVING_SPACES.indexOf(request.type) < 0 ||
+      rect.x < this.EPSILON ||
+      rect.z < this.EPSILON ||
+      rect.x + rect.width > bounds.width - this.EPSILON ||
+      rect.z + rect.length > bounds.length - this.EPSILON);
+  }
+
+  /**
+   * Find the split point that best balances area between the two halves
+   */
+  private static balancedSplitIndex(requests: RoomRequest[]): number {
+    const total = this.totalArea(requests);
+    let running = 0;
+    let splitIndex = Math.min(1, requests.length);
+    let bestDifference = Infinity;
+
+    for (let i = 1; i < requests.length; i++) {
+      running += requests[i - 1].area;
+      const difference = Math.abs(total / 2 - running);
+      if (difference < bestDifference) {
+        bestDifference = difference;
+        splitIndex = i;
+      }
+    }
+
+    return splitIndex;
+  }
+
+  private static totalArea(requests: RoomRequest[]): number {
+    return requests.reduce((sum, request) => sum + request.area, 0);
+  }
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RateTable } from '@/types/house';
+import { CostEstimator } from '@/services/costEstimator';
+
+/**
+ * Rate Store
+ * Keeps the edited unit rates in a local JSON file; rates never edited
+ * stay at the estimator's defaults
+ */
+export class RateStore {
+  /**
+   * File holding the edited rates, overridable with RATES_FILE
+   */
+  static filePath(): string {
+    return process.env.RATES_FILE || path.join(process.cwd(), 'data', 'rates.json');
+  }
+
+  /**
+   * Current rate table, the defaults with any saved rates on top
+   */
+  static async get(): Promise<RateTable> {
+    try {
+      return CostEstimator.mergeRates(JSON.parse(await fs.readFile(this.filePath(), 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return CostEstimator.mergeRates();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save changed rates or currency over the current table
+   */
+  static async update(changes: { currency?: string; rates?: Record<string, { rate: number }> }): Promise<RateTable> {
+    const current = await this.get();
+    const table = CostEstimator.mergeRates({
+      currency: changes.currency ?? current.currency,
+      rates: { ...current.rates, ...changes.rates }
+    });
+    await this.write(table);
+    return table;
+  }
+
+  /**
+   * Go back to the default rates
+   */
+  static async reset(): Promise<RateTable> {
+    try {
+      await fs.unlink(this.filePath());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    return CostEstimator.mergeRates();
+  }
+
+  /**
+   * Write through a temporary file so a crash never leaves half-written rates
+   */
+  private static async write(table: RateTable): Promise<void> {
+    const target = this.filePath();
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temporary = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(table, null, 2), 'utf8');
+    await fs.rename(temporary, target);
+  }
+}
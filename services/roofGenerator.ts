@@ -0,0 +1,460 @@
+import { HouseLayout, RoofSpec, RoofType, RoofMaterial } from '@/types/house';
+import { Rect } from '@/services/layoutEngine';
+
+/**
+ * Roof Generator
+ * Builds the roof over the top floor from the house footprint: gable, hip
+ * and shed roofs pitched up from the top of the outside walls with their
+ * eaves overhanging them, or a flat roof behind a parapet. Footprints that
+ * are not rectangular, such as L shapes, are roofed as overlapping
+ * rectangular wings, so the roofs of two wings meet in a valley.
+ */
+
+export interface RoofPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Flat convex polygon, wound counter-clockwise as seen from the side it faces
+export type RoofPolygon = RoofPoint[];
+
+// Rectangle of the footprint roofed on its own, with the axis its ridge runs along
+export interface RoofWing {
+  rect: Rect;
+  ridge: 'x' | 'z';
+}
+
+export interface RoofPlan {
+  spec: RoofSpec;
+  wings: RoofWing[];
+  roofing: RoofPolygon[]; // In the roofing material, undersides of the overhangs included
+  walls: RoofPolygon[]; // Gables, the high wall of a shed roof and parapets, in the exterior wall finish
+  area: number; // Roofing in square meters, measured along the slope
+  height: number; // Highest point of the roof above the ground
+}
+
+export const ROOF_TYPES: { value: RoofType; label: string }[] = [
+  { value: 'gable', label: 'Gable' },
+  { value: 'hip', label: 'Hip' },
+  { value: 'shed', label: 'Shed (single slope)' },
+  { value: 'flat', label: 'Flat with parapet' }
+];
+
+export const ROOF_MATERIALS: { value: RoofMaterial; label: string }[] = [
+  { value: 'CLAY_TILES', label: 'Clay tiles' },
+  { value: 'METAL_ROOFING', label: 'Metal roofing' }
+];
+
+// Points in a wing's own frame: a along the ridge, c across it
+type Frame = (a: number, y: number, c: number) => RoofPoint;
+
+export class RoofGenerator {
+  static readonly PARAPET_HEIGHT = 0.9;
+  static readonly PARAPET_THICKNESS = 0.2;
+  static readonly MAX_PITCH = 60; // Degrees; steeper roofs are walls in all but name
+  static readonly MAX_OVERHANG = 1.5; // Meters
+  private static readonly DECK_LIFT = 0.05; // Flat roof deck above the tops of the walls, clear of their top faces
+  private static readonly EPSILON = 1e-6;
+
+  /**
+   * Roof a new design gets: pitched clay tiles on traditional houses, and
+   * metal on modern ones, as a shed roof on a single storey or a flat roof
+   * behind a parapet on two
+   */
+  static defaultSpec(style: HouseLayout['style'], floors: number): RoofSpec {
+    if (style === 'traditional') {
+      return { type: 'gable', pitch: 30, overhang: 0.5, material: 'CLAY_TILES' };
+    }
+    return floors > 1
+      ? { type: 'flat', pitch: 0, overhang: 0, material: 'METAL_ROOFING' }
+      : { type: 'shed', pitch: 8, overhang: 0.4, material: 'METAL_ROOFING' };
+  }
+
+  /**
+   * Roof of a layout; designs saved before roofs were generated get their style's default
+   */
+  static getSpec(layout: HouseLayout): RoofSpec {
+    return layout.roof || this.defaultSpec(layout.style, layout.floors);
+  }
+
+  /**
+   * Check a roof sent by a client, returning the problem or null if it is fine
+   */
+  static validateSpec(spec: unknown): string | null {
+    if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+      return 'Roof must be an object with a type, pitch, overhang and material';
+    }
+
+    const { type, pitch, overhang, ridge, material } = spec as Record<string, unknown>;
+    if (!ROOF_TYPES.some(option => option.value === type)) {
+      return `Roof type must be one of ${ROOF_TYPES.map(option => option.value).join(', ')}`;
+    }
+    if (typeof pitch !== 'number' || !isFinite(pitch) || pitch < 0 || pitch > this.MAX_PITCH) {
+      return `Roof pitch must be between 0 and ${this.MAX_PITCH} degrees`;
+    }
+    if (type !== 'flat' && pitch === 0) {
+      return 'A pitched roof needs a pitch above 0 degrees; use a flat roof instead';
+    }
+    if (typeof overhang !== 'number' || !isFinite(overhang) || overhang < 0 || overhang > this.MAX_OVERHANG) {
+      return `Roof overhang must be between 0 and ${this.MAX_OVERHANG} m`;
+    }
+    if (ridge !== undefined && ridge !== 'x' && ridge !== 'z') {
+      return 'Roof ridge must be "x" or "z"';
+    }
+    if (!ROOF_MATERIALS.some(option => option.value === material)) {
+      return `Roof material must be one of ${ROOF_MATERIALS.map(option => option.value).join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Build the roof of a layout
+   */
+  static build(layout: HouseLayout, spec: RoofSpec = this.getSpec(layout)): RoofPlan {
+    const footprint = this.footprint(layout);
+    const wings = this.wings(footprint, spec);
+    const base = layout.height;
+    const roofing: RoofPolygon[] = [];
+    const walls: RoofPolygon[] = [];
+    let height = base;
+
+    if (spec.type === 'flat') {
+      const deck = base + this.DECK_LIFT;
+      wings.forEach(wing => {
+        const { x, z, width, length } = wing.rect;
+        roofing.push(this.facing([
+          { x, y: deck, z }, { x: x + width, y: deck, z }, { x: x + width, y: deck, z: z + length }, { x, y: deck, z: z + length }
+        ], { x: 0, y: 1, z: 0 }));
+      });
+      this.outline(footprint).forEach(edge => walls.push(...this.parapet(edge, base)));
+      height = base + this.PARAPET_HEIGHT;
+    } else {
+      const slope = Math.tan(spec.pitch * Math.PI / 180);
+      const ends = spec.type === 'gable' ? this.buriedEnds(wings) : wings.map(() => [false, false]);
+      wings.forEach((wing, i) => {
+        const built = spec.type === 'gable'
+          ? this.gable(wing, ends[i], base, slope, spec.overhang)
+          : spec.type === 'hip'
+            ? this.hip(wing, base, slope, spec.overhang)
+            : this.shed(wing, base, slope, spec.overhang);
+        roofing.push(...built.roofing, ...built.roofing.map(polygon => polygon.slice().reverse()));
+        walls.push(...built.walls);
+        height = Math.max(height, built.height);
+      });
+    }
+
+    return { spec, wings, roofing, walls, area: this.roofArea(footprint, spec), height };
+  }
+
+  /**
+   * Roofing needed for a layout, in square meters along the slope. Every
+   * plane of a roof has the same pitch, so this is the covered plan area
+   * divided by the cosine of the pitch.
+   */
+  static roofArea(footprint: Rect[], spec: RoofSpec): number {
+    if (spec.type === 'flat') {
+      return this.unionArea(footprint);
+    }
+    const o = spec.overhang;
+    const covered = this.unionArea(footprint.map(rect => ({ x: rect.x - o, z: rect.z - o, width: rect.width + 2 * o, length: rect.length + 2 * o })));
+    return covered / Math.cos(spec.pitch * Math.PI / 180);
+  }
+
+  /**
+   * Rooms of the top floor, which the roof covers; the whole house when it has none
+   */
+  static footprint(layout: HouseLayout): Rect[] {
+    const top = layout.rooms.filter(room => room.floor === layout.floors - 1);
+    return top.length
+      ? top.map(room => ({ x: room.position.x, z: room.position.z, width: room.dimensions.width, length: room.dimensions.length }))
+      : [{ x: 0, z: 0, width: layout.width, length: layout.length }];
+  }
+
+  /**
+   * Split a footprint into wings: the largest rectangle inside it first,
+   * then the largest taking in any part not yet covered, so every wing is as
+   * big as the footprint allows and wings overlap where they meet. The first
+   * wing's ridge runs the way the spec asks; every other ridge, and a hip
+   * ridge, which cannot run across its wing, runs along the wing's longer side.
+   */
+  static wings(footprint: Rect[], spec: RoofSpec): RoofWing[] {
+    const grid = this.grid(footprint);
+    const { xs, zs, covered } = grid;
+    const claimed = covered.map(column => column.map(() => false));
+    const coveredSum = this.prefixSums(covered);
+    const wings: RoofWing[] = [];
+
+    for (;;) {
+      const open = this.prefixSums(covered.map((column, i) => column.map((cell, j) => cell && !claimed[i][j])));
+      let best: { i0: number; i1: number; j0: number; j1: number; area: number } | null = null;
+
+      for (let i0 = 0; i0 < xs.length - 1; i0++) {
+        for (let i1 = i0; i1 < xs.length - 1; i1++) {
+          for (let j0 = 0; j0 < zs.length - 1; j0++) {
+            for (let j1 = j0; j1 < zs.length - 1; j1++) {
+              const cells = (i1 - i0 + 1) * (j1 - j0 + 1);
+              if (this.rangeSum(coveredSum, i0, i1, j0, j1) < cells) {
+                break; // Growing j1 further cannot fill the gap
+              }
+              const area = (xs[i1 + 1] - xs[i0]) * (zs[j1 + 1] - zs[j0]);
+              if (this.rangeSum(open, i0, i1, j0, j1) > 0 && (!best || area > best.area + this.EPSILON)) {
+                best = { i0, i1, j0, j1, area };
+              }
+            }
+          }
+        }
+      }
+
+      if (!best) {
+        return wings;
+      }
+      for (let i = best.i0; i <= best.i1; i++) {
+        for (let j = best.j0; j <= best.j1; j++) {
+          claimed[i][j] = true;
+        }
+      }
+
+      const rect = { x: xs[best.i0], z: zs[best.j0], width: xs[best.i1 + 1] - xs[best.i0], length: zs[best.j1 + 1] - zs[best.j0] };
+      const longer = rect.width >= rect.length ? 'x' : 'z';
+      wings.push({ rect, ridge: !wings.length && spec.type !== 'hip' && spec.ridge ? spec.ridge : longer });
+    }
+  }
+
+  /**
+   * Two sloping planes meeting at the ridge, with a gable at each open end
+   */
+  private static gable(wing: RoofWing, buried: boolean[], base: number, slope: number, overhang: number) {
+    const { frame, a0, a1, c0, c1 } = this.frameOf(wing);
+    const eave = base - overhang * slope;
+    const ridge = base + (c1 - c0) / 2 * slope;
+    const cm = (c0 + c1) / 2;
+    const from = buried[0] ? a0 : a0 - overhang;
+    const to = buried[1] ? a1 : a1 + overhang;
+    const up = { x: 0, y: 1, z: 0 };
+
+    const roofing = [c0 - overhang, c1 + overhang].map(c =>
+      this.facing([frame(from, eave, c), frame(to, eave, c), frame(to, ridge, cm), frame(from, ridge, cm)], up)
+    );
+    const walls: RoofPolygon[] = [];
+    [a0, a1].forEach((a, end) => {
+      if (!buried[end]) {
+        walls.push(this.facing([frame(a, base, c0), frame(a, base, c1), frame(a, ridge, cm)], this.outward(frame, end ? 1 : -1, 0)));
+      }
+    });
+
+    return { roofing, walls, height: ridge };
+  }
+
+  /**
+   * Four planes sloping up from every eave; the ridge shortens to a point on a square wing
+   */
+  private static hip(wing: RoofWing, base: number, slope: number, overhang: number) {
+    const { frame, a0, a1, c0, c1 } = this.frameOf(wing);
+    const eave = base - overhang * slope;
+    const half = (c1 - c0) / 2 + overhang;
+    const ridge = eave + half * slope;
+    const cm = (c0 + c1) / 2;
+    const [A0, A1, C0, C1] = [a0 - overhang, a1 + overhang, c0 - overhang, c1 + overhang];
+    const up = { x: 0, y: 1, z: 0 };
+
+    const roofing = [
+      [frame(A0, eave, C0), frame(A1, eave, C0), frame(A1 - half, ridge, cm), frame(A0 + half, ridge, cm)],
+      [frame(A0, eave, C1), frame(A1, eave, C1), frame(A1 - half, ridge, cm), frame(A0 + half, ridge, cm)],
+      [frame(A0, eave, C0), frame(A0, eave, C1), frame(A0 + half, ridge, cm)],
+      [frame(A1, eave, C0), frame(A1, eave, C1), frame(A1 - half, ridge, cm)]
+    ].map(points => this.facing(this.distinct(points), up));
+
+    return { roofing, walls: [] as RoofPolygon[], height: ridge };
+  }
+
+  /**
+   * One plane rising from the south or west eave to the north or east one,
+   * over a raised wall along the high side and a triangle at each end
+   */
+  private static shed(wing: RoofWing, base: number, slope: number, overhang: number) {
+    const { frame, a0, a1, c0, c1 } = this.frameOf(wing);
+    const eave = base - overhang * slope;
+    const high = base + (c1 - c0) * slope;
+    const top = high + overhang * slope;
+    const [A0, A1, C0, C1] = [a0 - overhang, a1 + overhang, c0 - overhang, c1 + overhang];
+
+    const roofing = [this.facing([frame(A0, eave, C0), frame(A1, eave, C0), frame(A1, top, C1), frame(A0, top, C1)], { x: 0, y: 1, z: 0 })];
+    const walls = [
+      this.facing([frame(a0, base, c1), frame(a1, base, c1), frame(a1, high, c1), frame(a0, high, c1)], this.outward(frame, 0, 1)),
+      this.facing([frame(a0, base, c0), frame(a0, base, c1), frame(a0, high, c1)], this.outward(frame, -1, 0)),
+      this.facing([frame(a1, base, c0), frame(a1, base, c1), frame(a1, high, c1)], this.outward(frame, 1, 0))
+    ];
+
+    return { roofing, walls, height: top };
+  }
+
+  /**
+   * Ends of gable wings that run into an earlier wing crossing them. Such an
+   * end stops at the earlier wing's ridge, under its roof, rather than
+   * standing up as a gable inside it.
+   */
+  private static buriedEnds(wings: RoofWing[]): boolean[][] {
+    return wings.map((wing, i) => {
+      const buried = [false, false];
+      const own = this.frameOf(wing);
+
+      wings.slice(0, i).filter(other => other.ridge !== wing.ridge).forEach(other => {
+        const across = this.frameOf(other);
+        const ridgeLine = (across.c0 + across.c1) / 2; // The other wing's ridge, as a position along this wing
+        const spansWing = across.a0 <= own.c0 + this.EPSILON && across.a1 >= own.c1 - this.EPSILON;
+        const overlapFrom = Math.max(own.a0, across.c0);
+        const overlapTo = Math.min(own.a1, across.c1);
+        if (!spansWing || overlapTo - overlapFrom <= this.EPSILON || ridgeLine <= own.a0 || ridgeLine >= own.a1) {
+          return;
+        }
+        if (Math.abs(overlapFrom - own.a0) < this.EPSILON && overlapTo < own.a1) {
+          buried[0] = true;
+          own.a0 = ridgeLine;
+        } else if (Math.abs(overlapTo - own.a1) < this.EPSILON && overlapFrom > own.a0) {
+          buried[1] = true;
+          own.a1 = ridgeLine;
+        }
+      });
+
+      if (buried[0] || buried[1]) {
+        const { x, z, width, length } = wing.rect;
+        wing.rect = wing.ridge === 'x'
+          ? { x: own.a0, z, width: own.a1 - own.a0, length }
+          : { x, z: own.a0, width, length: own.a1 - own.a0 };
+      }
+      return buried;
+    });
+  }
+
+  /**
+   * Faces of the parapet standing on one edge of the footprint outline,
+   * just inside it
+   */
+  private static parapet(edge: { from: { x: number; z: number }; to: { x: number; z: number } }, base: number): RoofPolygon[] {
+    const length = Math.hypot(edge.to.x - edge.from.x, edge.to.z - edge.from.z);
+    const along = { x: (edge.to.x - edge.from.x) / length, z: (edge.to.z - edge.from.z) / length };
+    const out = { x: along.z, z: -along.x };
+    const inner = { x: -out.x * this.PARAPET_THICKNESS, z: -out.z * this.PARAPET_THICKNESS };
+    const top = base + this.PARAPET_HEIGHT;
+    const at = (point: { x: number; z: number }, shift: { x: number; z: number }, y: number) =>
+      ({ x: point.x + shift.x, y, z: point.z + shift.z });
+    const none = { x: 0, z: 0 };
+
+    return [
+      this.facing([at(edge.from, none, base), at(edge.to, none, base), at(edge.to, none, top), at(edge.from, none, top)], { x: out.x, y: 0, z: out.z }),
+      this.facing([at(edge.from, inner, base), at(edge.to, inner, base), at(edge.to, inner, top), at(edge.from, inner, top)], { x: -out.x, y: 0, z: -out.z }),
+      this.facing([at(edge.from, none, top), at(edge.to, none, top), at(edge.to, inner, top), at(edge.from, inner, top)], { x: 0, y: 1, z: 0 }),
+      this.facing([at(edge.from, none, base), at(edge.from, inner, base), at(edge.from, inner, top), at(edge.from, none, top)], { x: -along.x, y: 0, z: -along.z }),
+      this.facing([at(edge.to, none, base), at(edge.to, inner, base), at(edge.to, inner, top), at(edge.to, none, top)], { x: along.x, y: 0, z: along.z })
+    ];
+  }
+
+  /**
+   * Outline of a footprint as straight edges, each as long as it runs.
+   * Edges go east along south sides and on round the outline the same way,
+   * so the outside lies at (z, -x) of the direction an edge runs.
+   */
+  private static outline(footprint: Rect[]): { from: { x: number; z: number }; to: { x: number; z: number } }[] {
+    const { xs, zs, covered } = this.grid(footprint);
+    const filled = (i: number, j: number) => i >= 0 && j >= 0 && i < xs.length - 1 && j < zs.length - 1 && covered[i][j];
+    const edges: { from: { x: number; z: number }; to: { x: number; z: number } }[] = [];
+    const heading = (from: { x: number; z: number }, to: { x: number; z: number }) => `${Math.sign(to.x - from.x)},${Math.sign(to.z - from.z)}`;
+    const add = (from: { x: number; z: number }, to: { x: number; z: number }) => {
+      const joined = edges.find(edge => edge.to.x === from.x && edge.to.z === from.z && heading(edge.from, edge.to) === heading(from, to));
+      if (joined) {
+        joined.to = to;
+      } else {
+        edges.push({ from, to });
+      }
+    };
+    const cellsX = xs.slice(0, -1).map((x, i) => i);
+    const cellsZ = zs.slice(0, -1).map((z, j) => j);
+
+    zs.forEach((z, j) => {
+      cellsX.filter(i => filled(i, j) && !filled(i, j - 1)).forEach(i => add({ x: xs[i], z }, { x: xs[i + 1], z })); // South sides
+      cellsX.reverse().filter(i => filled(i, j - 1) && !filled(i, j)).forEach(i => add({ x: xs[i + 1], z }, { x: xs[i], z })); // North sides
+      cellsX.reverse();
+    });
+    xs.forEach((x, i) => {
+      cellsZ.filter(j => filled(i - 1, j) && !filled(i, j)).forEach(j => add({ x, z: zs[j] }, { x, z: zs[j + 1] })); // East sides
+      cellsZ.reverse().filter(j => filled(i, j) && !filled(i - 1, j)).forEach(j => add({ x, z: zs[j + 1] }, { x, z: zs[j] })); // West sides
+      cellsZ.reverse();
+    });
+
+    return edges;
+  }
+
+  /**
+   * Grid of every distinct edge coordinate in a footprint, with the cells the footprint covers
+   */
+  private static grid(footprint: Rect[]): { xs: number[]; zs: number[]; covered: boolean[][] } {
+    const coords = (values: number[]) => values
+      .map(value => Math.round(value * 1000) / 1000)
+      .sort((a, b) => a - b)
+      .filter((value, i, sorted) => i === 0 || value - sorted[i - 1] > this.EPSILON);
+    const xs = coords(footprint.reduce<number[]>((all, rect) => all.concat([rect.x, rect.x + rect.width]), []));
+    const zs = coords(footprint.reduce<number[]>((all, rect) => all.concat([rect.z, rect.z + rect.length]), []));
+    const covered = xs.slice(0, -1).map((x, i) => zs.slice(0, -1).map((z, j) => {
+      const cx = (x + xs[i + 1]) / 2;
+      const cz = (z + zs[j + 1]) / 2;
+      return footprint.some(rect => cx > rect.x && cx < rect.x + rect.width && cz > rect.z && cz < rect.z + rect.length);
+    }));
+    return { xs, zs, covered };
+  }
+
+  private static unionArea(rects: Rect[]): number {
+    const { xs, zs, covered } = this.grid(rects);
+    return covered.reduce((sum, column, i) => column.reduce((total, cell, j) =>
+      total + (cell ? (xs[i + 1] - xs[i]) * (zs[j + 1] - zs[j]) : 0), sum), 0);
+  }
+
+  // Sums of the true cells below and left of each grid corner, for counting any rectangle of cells at once
+  private static prefixSums(cells: boolean[][]): number[][] {
+    const sums = [cells.length ? cells[0].map(() => 0).concat(0) : [0]];
+    cells.forEach((column, i) => {
+      const row = [0];
+      column.forEach((cell, j) => row.push(row[j] + sums[i][j + 1] - sums[i][j] + (cell ? 1 : 0)));
+      sums.push(row);
+    });
+    return sums;
+  }
+
+  private static rangeSum(sums: number[][], i0: number, i1: number, j0: number, j1: number): number {
+    return sums[i1 + 1][j1 + 1] - sums[i0][j1 + 1] - sums[i1 + 1][j0] + sums[i0][j0];
+  }
+
+  private static frameOf(wing: RoofWing): { frame: Frame; a0: number; a1: number; c0: number; c1: number } {
+    const { x, z, width, length } = wing.rect;
+    return wing.ridge === 'x'
+      ? { frame: (a, y, c) => ({ x: a, y, z: c }), a0: x, a1: x + width, c0: z, c1: z + length }
+      : { frame: (a, y, c) => ({ x: c, y, z: a }), a0: z, a1: z + length, c0: x, c1: x + width };
+  }
+
+  // Horizontal direction in world axes from directions along and across a wing
+  private static outward(frame: Frame, along: number, across: number): RoofPoint {
+    return frame(along, 0, across);
+  }
+
+  /**
+   * Wind a polygon to face a direction
+   */
+  private static facing(points: RoofPolygon, direction: RoofPoint): RoofPolygon {
+    const normal = { x: 0, y: 0, z: 0 };
+    points.forEach((p, i) => {
+      const q = points[(i + 1) % points.length];
+      normal.x += (p.y - q.y) * (p.z + q.z);
+      normal.y += (p.z - q.z) * (p.x + q.x);
+      normal.z += (p.x - q.x) * (p.y + q.y);
+    });
+    return normal.x * direction.x + normal.y * direction.y + normal.z * direction.z < 0 ? points.slice().reverse() : points;
+  }
+
+  // Drop repeated corners, e.g. where a hip ridge shrinks to a point
+  private static distinct(points: RoofPolygon): RoofPolygon {
+    return points.filter((p, i) => {
+      const q = points[(i + 1) % points.length];
+      return Math.abs(p.x - q.x) + Math.abs(p.y - q.y) + Math.abs(p.z - q.z) > this.EPSILON;
+    });
+  }
+}
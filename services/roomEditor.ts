@@ -0,0 +1,353 @@
+import { HouseLayout, Room, WallSide, RoomFinish, FinishMaterial } from '@/types/house';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { MaterialPresets, FLOOR_FINISHES, WALL_FINISHES, getDefaultFinish, getRoomFinish } from '@/utils/materials';
+
+/**
+ * Room Editor
+ * Resizes, splits, merges, retypes and refinishes rooms of a generated
+ * layout. Rooms on both sides of a moved wall follow it, so rooms never
+ * overlap, and the walls, doors, windows and furniture of the changed rooms
+ * are rebuilt after every edit that moves or retypes a room.
+ */
+
+export type RoomEdit =
+  | { layout: HouseLayout; selection: string | null } // Selection is the room to keep selected
+  | { error: string };
+
+// Which way a room is cut in two: 'east-west' gives a west and an east room
+export type SplitDirection = 'east-west' | 'north-south';
+
+export class RoomEditor {
+  static readonly MIN_ROOM_SIDE = 1.2; // Narrowest room an edit may leave, in meters
+  private static readonly SNAP_STEP = 0.1;
+  private static readonly EPSILON = 1e-6;
+
+  private static readonly ROOM_NAMES: Record<Room['type'], string> = {
+    bedroom: 'Bedroom',
+    bathroom: 'Bathroom',
+    kitchen: 'Kitchen',
+    living: 'Living Room',
+    dining: 'Dining Room',
+    hallway: 'Hallway',
+    staircase: 'Staircase',
+    garage: 'Garage',
+    prayer: 'Prayer Room',
+    study: 'Study'
+  };
+
+  // Types whose rooms are numbered, as the generator names them
+  private static readonly NUMBERED_TYPES: Room['type'][] = ['bedroom', 'bathroom', 'kitchen'];
+
+  // Types a room can be changed to; staircases only come from the generator so the floors line up
+  static readonly ROOM_TYPES: Room['type'][] = ['bedroom', 'bathroom', 'kitchen', 'living', 'dining', 'study', 'prayer', 'garage', 'hallway'];
+
+  /**
+   * Sides of a room with a wall that can be dragged; outside walls stay put
+   */
+  static movableSides(layout: HouseLayout, room: Room): WallSide[] {
+    if (room.type === 'staircase') {
+      return [];
+    }
+    const sides: WallSide[] = ['south', 'north', 'west', 'east'];
+    return sides.filter(side => {
+      const coord = this.edgeCoord(room, side);
+      const limit = side === 'east' || side === 'west' ? layout.width : layout.length;
+      return coord > this.EPSILON && coord < limit - this.EPSILON;
+    });
+  }
+
+  /**
+   * Where a side of a room lies: its x for east and west, its z for north and south
+   */
+  static edgeCoord(room: Room, side: WallSide): number {
+    switch (side) {
+      case 'south':
+        return room.position.z;
+      case 'north':
+        return room.position.z + room.dimensions.length;
+      case 'west':
+        return room.position.x;
+      case 'east':
+        return room.position.x + room.dimensions.width;
+    }
+  }
+
+  /**
+   * Move the wall on one side of a room to `coord`, snapped to a 10 cm grid.
+   * Every room along the same stretch of wall moves with it, on both sides.
+   */
+  static resize(layout: HouseLayout, roomId: string, side: WallSide, coord: number): RoomEdit {
+    const room = layout.rooms.find(r => r.id === roomId);
+    if (!room) {
+      return { error: 'That room is no longer in the layout' };
+    }
+    if (this.movableSides(layout, room).indexOf(side) < 0) {
+      return { error: room.type === 'staircase' ? 'The staircase stays put so it lines up with the floor above' : 'Outside walls stay where they are' };
+    }
+
+    const axis = side === 'east' || side === 'west' ? 'x' : 'z';
+    const from = this.edgeCoord(room, side);
+    const to = this.round(Math.round(coord / this.SNAP_STEP) * this.SNAP_STEP);
+    if (Math.abs(to - from) < this.EPSILON) {
+      return { error: 'The wall has not moved' };
+    }
+
+    const moving = this.wallRun(layout, room, axis, from);
+    const staircase = moving.find(r => r.type === 'staircase');
+    if (staircase) {
+      return { error: `That wall runs along the ${staircase.name.toLowerCase()}, which stays put so it lines up with the floor above` };
+    }
+
+    const rooms = layout.rooms.map(r => {
+      if (moving.indexOf(r) < 0) {
+        return r;
+      }
+      const start = axis === 'x' ? r.position.x : r.position.z;
+      const size = axis === 'x' ? r.dimensions.width : r.dimensions.length;
+      // Rooms ending on the wall stretch up to it, rooms starting on it start there
+      const [newStart, newSize] = Math.abs(start - from) < this.EPSILON ? [to, start + size - to] : [start, to - start];
+      return axis === 'x'
+        ? { ...r, position: { ...r.position, x: newStart }, dimensions: { ...r.dimensions, width: newSize } }
+        : { ...r, position: { ...r.position, z: newStart }, dimensions: { ...r.dimensions, length: newSize } };
+    });
+
+    return this.rebuild(layout, rooms, moving.map(r => r.id), roomId);
+  }
+
+  /**
+   * Cut a room in two halves; the west or south half keeps the room's name
+   * and the other becomes a new room of the same type
+   */
+  static split(layout: HouseLayout, roomId: string, direction: SplitDirection): RoomEdit {
+    const room = layout.rooms.find(r => r.id === roomId);
+    if (!room) {
+      return { error: 'That room is no longer in the layout' };
+    }
+    if (room.type === 'staircase') {
+      return { error: 'The staircase cannot be split' };
+    }
+
+    const alongX = direction === 'east-west';
+    const size = alongX ? room.dimensions.width : room.dimensions.length;
+    const first = this.round(Math.round(size / 2 / this.SNAP_STEP) * this.SNAP_STEP);
+    if (first < this.MIN_ROOM_SIDE || size - first < this.MIN_ROOM_SIDE) {
+      return { error: `${room.name} is too small to split ${alongX ? 'into west and east' : 'into south and north'} halves` };
+    }
+
+    const kept: Room = alongX
+      ? { ...room, dimensions: { ...room.dimensions, width: first } }
+      : { ...room, dimensions: { ...room.dimensions, length: first } };
+    const added: Room = {
+      ...room,
+      id: this.uniqueId(layout.rooms, room.type),
+      name: this.nextName(layout.rooms, room.type),
+      position: alongX
+        ? { ...room.position, x: room.position.x + first }
+        : { ...room.position, z: room.position.z + first },
+      dimensions: alongX
+        ? { ...room.dimensions, width: size - first }
+        : { ...room.dimensions, length: size - first },
+      furniture: []
+    };
+
+    const rooms = layout.rooms.reduce<Room[]>((list, r) => list.concat(r.id === roomId ? [kept, added] : [r]), []);
+    return this.rebuild(layout, rooms, [kept.id, added.id], roomId);
+  }
+
+  /**
+   * Join a room with a neighbour; the room keeps its name and type and takes
+   * over the neighbour's floor space
+   */
+  static merge(layout: HouseLayout, roomId: string, otherId: string): RoomEdit {
+    const room = layout.rooms.find(r => r.id === roomId);
+    const other = layout.rooms.find(r => r.id === otherId);
+    if (!room || !other) {
+      return { error: 'That room is no longer in the layout' };
+    }
+    if (room.type === 'staircase' || other.type === 'staircase') {
+      return { error: 'The staircase cannot be merged' };
+    }
+    if (this.isOnlyHallway(layout, other)) {
+      return { error: `${other.name} connects the rooms on its floor, so it cannot be merged away` };
+    }
+    if (!this.canMerge(room, other)) {
+      return { error: `${room.name} and ${other.name} do not make a rectangle together` };
+    }
+
+    const x = Math.min(room.position.x, other.position.x);
+    const z = Math.min(room.position.z, other.position.z);
+    const merged: Room = {
+      ...room,
+      position: { ...room.position, x, z },
+      dimensions: {
+        ...room.dimensions,
+        width: Math.max(room.position.x + room.dimensions.width, other.position.x + other.dimensions.width) - x,
+        length: Math.max(room.position.z + room.dimensions.length, other.position.z + other.dimensions.length) - z
+      }
+    };
+
+    const rooms = layout.rooms.filter(r => r.id !== otherId).map(r => (r.id === roomId ? merged : r));
+    return this.rebuild(layout, rooms, [roomId], roomId);
+  }
+
+  /**
+   * Rooms a room can be merged with
+   */
+  static neighbours(layout: HouseLayout, room: Room): Room[] {
+    if (room.type === 'staircase') {
+      return [];
+    }
+    return layout.rooms.filter(other =>
+      other.id !== room.id && other.type !== 'staircase' && !this.isOnlyHallway(layout, other) && this.canMerge(room, other));
+  }
+
+  /**
+   * Change what a room is used for; it is renamed and furnished to match
+   */
+  static retype(layout: HouseLayout, roomId: string, type: Room['type']): RoomEdit {
+    const room = layout.rooms.find(r => r.id === roomId);
+    if (!room) {
+      return { error: 'That room is no longer in the layout' };
+    }
+    if (room.type === type) {
+      return { error: `${room.name} is already a ${this.ROOM_NAMES[type].toLowerCase()}` };
+    }
+    if (room.type === 'staircase' || type === 'staircase') {
+      return { error: 'Staircases come from the floor plan and cannot be changed' };
+    }
+    if (this.isOnlyHallway(layout, room)) {
+      return { error: `${room.name} connects the rooms on its floor, so it has to stay a hallway` };
+    }
+
+    const others = layout.rooms.filter(r => r.id !== roomId);
+    const rooms = layout.rooms.map(r => (r.id === roomId
+      ? { ...r, type, name: this.nextName(others, type), finish: getDefaultFinish(type, layout.style) }
+      : r));
+    return this.rebuild(layout, rooms, [roomId], roomId);
+  }
+
+  /**
+   * Give a room's floor or walls another finish; nothing else changes, so
+   * the layout is not rebuilt
+   */
+  static refinish(layout: HouseLayout, roomId: string, surface: keyof RoomFinish, material: FinishMaterial): RoomEdit {
+    const room = layout.rooms.find(r => r.id === roomId);
+    if (!room) {
+      return { error: 'That room is no longer in the layout' };
+    }
+    if ((surface === 'floor' ? FLOOR_FINISHES : WALL_FINISHES).indexOf(material) < 0) {
+      return { error: `${MaterialPresets[material].description} is not a ${surface === 'floor' ? 'floor' : 'wall'} finish` };
+    }
+
+    const finish = { ...getRoomFinish(room, layout.style), [surface]: material };
+    return { layout: { ...layout, rooms: layout.rooms.map(r => (r.id === roomId ? { ...r, finish } : r)) }, selection: roomId };
+  }
+
+  /**
+   * Rooms on one floor whose walls lie along the same stretch of wall as a
+   * room's side: the room itself, and whatever touches the stretch on either
+   * side, growing the stretch until nothing more touches it
+   */
+  private static wallRun(layout: HouseLayout, room: Room, axis: 'x' | 'z', coord: number): Room[] {
+    const onLine = layout.rooms.filter(r => r.floor === room.floor && (
+      axis === 'x'
+        ? Math.abs(r.position.x - coord) < this.EPSILON || Math.abs(r.position.x + r.dimensions.width - coord) < this.EPSILON
+        : Math.abs(r.position.z - coord) < this.EPSILON || Math.abs(r.position.z + r.dimensions.length - coord) < this.EPSILON
+    ));
+    const span = (r: Room): [number, number] => axis === 'x'
+      ? [r.position.z, r.position.z + r.dimensions.length]
+      : [r.position.x, r.position.x + r.dimensions.width];
+
+    const run = [room];
+    let [from, to] = span(room);
+    let grown = true;
+    while (grown) {
+      grown = false;
+      onLine.forEach(r => {
+        const [start, end] = span(r);
+        if (run.indexOf(r) < 0 && start < to - this.EPSILON && end > from + this.EPSILON) {
+          run.push(r);
+          from = Math.min(from, start);
+          to = Math.max(to, end);
+          grown = true;
+        }
+      });
+    }
+    return run;
+  }
+
+  /**
+   * Check an edited set of rooms and rebuild the layout around them
+   */
+  private static rebuild(layout: HouseLayout, rooms: Room[], changed: string[], selection: string): RoomEdit {
+    const cramped = rooms.find(r => changed.indexOf(r.id) >= 0 &&
+      Math.min(r.dimensions.width, r.dimensions.length) < this.MIN_ROOM_SIDE - this.EPSILON);
+    if (cramped) {
+      return { error: `${cramped.name} would be narrower than ${this.MIN_ROOM_SIDE} m` };
+    }
+
+    for (const id of changed) {
+      const room = rooms.find(r => r.id === id)!;
+      const overlapping = rooms.find(other => other.id !== id && other.floor === room.floor && this.overlap(room, other));
+      if (overlapping) {
+        return { error: `${room.name} would overlap ${overlapping.name}` };
+      }
+    }
+
+    try {
+      return { layout: HouseGenerator.rebuildLayout(layout, rooms, changed), selection };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'The rooms could not be rebuilt' };
+    }
+  }
+
+  // Rooms that share a whole side, so together they make a rectangle
+  private static canMerge(a: Room, b: Room): boolean {
+    if (a.floor !== b.floor) {
+      return false;
+    }
+    const same = (p: number, q: number) => Math.abs(p - q) < this.EPSILON;
+    const sameColumn = same(a.position.x, b.position.x) && same(a.dimensions.width, b.dimensions.width) &&
+      (same(a.position.z + a.dimensions.length, b.position.z) || same(b.position.z + b.dimensions.length, a.position.z));
+    const sameRow = same(a.position.z, b.position.z) && same(a.dimensions.length, b.dimensions.length) &&
+      (same(a.position.x + a.dimensions.width, b.position.x) || same(b.position.x + b.dimensions.width, a.position.x));
+    return sameColumn || sameRow;
+  }
+
+  private static isOnlyHallway(layout: HouseLayout, room: Room): boolean {
+    return room.type === 'hallway' && !layout.rooms.some(r => r.id !== room.id && r.type === 'hallway' && r.floor === room.floor);
+  }
+
+  private static overlap(a: Room, b: Room): boolean {
+    return a.position.x < b.position.x + b.dimensions.width - this.EPSILON &&
+      b.position.x < a.position.x + a.dimensions.width - this.EPSILON &&
+      a.position.z < b.position.z + b.dimensions.length - this.EPSILON &&
+      b.position.z < a.position.z + a.dimensions.length - this.EPSILON;
+  }
+
+  // Name for another room of a type, e.g. "Bedroom 4" or "Study 2"
+  private static nextName(rooms: Room[], type: Room['type']): string {
+    const base = this.ROOM_NAMES[type];
+    const taken = (name: string) => rooms.some(r => r.name === name);
+    if (this.NUMBERED_TYPES.indexOf(type) < 0 && !taken(base)) {
+      return base;
+    }
+    let n = this.NUMBERED_TYPES.indexOf(type) < 0 ? 2 : 1;
+    while (taken(`${base} ${n}`)) {
+      n++;
+    }
+    return `${base} ${n}`;
+  }
+
+  private static uniqueId(rooms: Room[], type: Room['type']): string {
+    let n = 1;
+    while (rooms.some(r => r.id === `${type}-${n}`)) {
+      n++;
+    }
+    return `${type}-${n}`;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,168 @@
+import { Room, WallSegment } from '@/types/house';
+
+/**
+ * Wall Graph
+ * Turns room rectangles into a deduplicated set of wall segments.
+ * Each wall line is swept once per floor and split wherever the room on
+ * either side changes, so a wall shared by two rooms exists only once.
+ */
+
+interface EdgeInterval {
+  roomId: string;
+  from: number;
+  to: number;
+  height: number;
+}
+
+interface WallLine {
+  coord: number;
+  lower: EdgeInterval[]; // Rooms on the south or west side of the line
+  upper: EdgeInterval[]; // Rooms on the north or east side of the line
+}
+
+export class WallGraph {
+  private static readonly EPSILON = 1e-6;
+
+  /**
+   * Build wall segments for every floor of the house
+   */
+  static build(rooms: Room[], thickness: { exterior: number; interior: number }): WallSegment[] {
+    const walls: WallSegment[] = [];
+    const floors = Array.from(new Set(rooms.map(room => room.floor))).sort((a, b) => a - b);
+
+    floors.forEach(floor => {
+      const floorRooms = rooms.filter(room => room.floor === floor);
+
+      (['x', 'z'] as const).forEach(axis => {
+        this.collectLines(floorRooms, axis).forEach(line => {
+          this.sweepLine(line).forEach(run => {
+            walls.push({
+              id: `wall-${floor}-${walls.filter(wall => wall.floor === floor).length + 1}`,
+              floor,
+              start: axis === 'x' ? { x: run.from, z: line.coord } : { x: line.coord, z: run.from },
+              end: axis === 'x' ? { x: run.to, z: line.coord } : { x: line.coord, z: run.to },
+              height: run.height,
+              thickness: run.rooms[0] && run.rooms[1] ? thickness.interior : thickness.exterior,
+              exterior: !run.rooms[0] || !run.rooms[1],
+              rooms: run.rooms
+            });
+          });
+        });
+      });
+    });
+
+    return walls;
+  }
+
+  /**
+   * Find the wall segment on a floor that runs along a line and covers a point on it
+   */
+  static findWall(
+    walls: WallSegment[],
+    floor: number,
+    axis: 'x' | 'z',
+    coord: number,
+    along: number
+  ): WallSegment | undefined {
+    return walls.find(wall => {
+      if (wall.floor !== floor || this.axisOf(wall) !== axis) {
+        return false;
+      }
+      const lineCoord = axis === 'x' ? wall.start.z : wall.start.x;
+      const [from, to] = axis === 'x' ? [wall.start.x, wall.end.x] : [wall.start.z, wall.end.z];
+      return Math.abs(lineCoord - coord) < this.EPSILON && along > from - this.EPSILON && along < to + this.EPSILON;
+    });
+  }
+
+  /**
+   * Direction a wall runs in
+   */
+  static axisOf(wall: WallSegment): 'x' | 'z' {
+    return Math.abs(wall.end.z - wall.start.z) < this.EPSILON ? 'x' : 'z';
+  }
+
+  /**
+   * Length of a wall segment
+   */
+  static lengthOf(wall: WallSegment): number {
+    return Math.hypot(wall.end.x - wall.start.x, wall.end.z - wall.start.z);
+  }
+
+  /**
+   * Group room edges by the line they lie on. Walls along x sit on lines of
+   * constant z (room south and north edges), walls along z on lines of constant x.
+   */
+  private static collectLines(rooms: Room[], axis: 'x' | 'z'): WallLine[] {
+    const lines = new Map<number, WallLine>();
+
+    const lineFor = (coord: number): WallLine => {
+      const key = Math.round(coord * 1000);
+      let line = lines.get(key);
+      if (!line) {
+        line = { coord, lower: [], upper: [] };
+        lines.set(key, line);
+      }
+      return line;
+    };
+
+    rooms.forEach(room => {
+      const { x, z } = room.position;
+      const { width, length, height } = room.dimensions;
+
+      if (axis === 'x') {
+        lineFor(z).upper.push({ roomId: room.id, from: x, to: x + width, height });
+        lineFor(z + length).lower.push({ roomId: room.id, from: x, to: x + width, height });
+      } else {
+        lineFor(x).upper.push({ roomId: room.id, from: z, to: z + length, height });
+        lineFor(x + width).lower.push({ roomId: room.id, from: z, to: z + length, height });
+      }
+    });
+
+    return Array.from(lines.values()).sort((a, b) => a.coord - b.coord);
+  }
+
+  /**
+   * Split a line at every room boundary and merge neighbouring pieces that
+   * separate the same pair of rooms
+   */
+  private static sweepLine(line: WallLine): Array<{ from: number; to: number; height: number; rooms: [string | null, string | null] }> {
+    const edges = [...line.lower, ...line.upper];
+    const breakpoints = Array.from(new Set(edges.reduce<number[]>((points, edge) => points.concat(edge.from, edge.to), []))).sort((a, b) => a - b);
+    const runs: Array<{ from: number; to: number; height: number; rooms: [string | null, string | null] }> = [];
+
+    const roomAt = (intervals: EdgeInterval[], at: number) =>
+      intervals.find(interval => interval.from < at && interval.to > at);
+
+    for (let i = 0; i < breakpoints.length - 1; i++) {
+      const from = breakpoints[i];
+      const to = breakpoints[i + 1];
+      if (to - from < this.EPSILON) {
+        continue;
+      }
+
+      const middle = (from + to) / 2;
+      const lower = roomAt(line.lower, middle);
+      const upper = roomAt(line.upper, middle);
+      if (!lower && !upper) {
+        continue;
+      }
+
+      const rooms: [string | null, string | null] = [lower ? lower.roomId : null, upper ? upper.roomId : null];
+      const height = Math.max(lower ? lower.height : 0, upper ? upper.height : 0);
+      const previous = runs[runs.length - 1];
+
+      if (
+        previous &&
+        Math.abs(previous.to - from) < this.EPSILON &&
+        previous.rooms[0] === rooms[0] &&
+        previous.rooms[1] === rooms[1]
+      ) {
+        previous.to = to;
+      } else {
+        runs.push({ from, to, height, rooms });
+      }
+    }
+
+    return runs;
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CostEstimator } from '@/services/costEstimator';
+import { WallGraph } from '@/services/wallGraph';
+import { Furniture, HouseLayout, Opening, Room } from '@/types/house';
+
+const item = (id: string, type: Furniture['type']): Furniture => ({
+  id,
+  name: id,
+  type,
+  position: { x: 1, y: 0, z: 1 },
+  rotation: 0,
+  dimensions: { width: 1, length: 1, height: 1 }
+});
+
+const room = (id: string, type: Room['type'], x: number, width: number, furniture: Furniture[]): Room => ({
+  id,
+  name: id,
+  type,
+  floor: 0,
+  position: { x, y: 0, z: 0 },
+  dimensions: { width, length: 5, height: 3 },
+  furniture
+});
+
+// A living room and a bedroom side by side, 7 m × 5 m
+const rooms = [
+  room('living', 'living', 0, 4, [item('sofa', 'sofa'), item('chair-1', 'chair'), item('chair-2', 'chair')]),
+  room('bedroom', 'bedroom', 4, 3, [])
+];
+const walls = WallGraph.build(rooms, { exterior: 0.25, interior: 0.1 });
+const wallOf = (roomIds: [string | null, string | null]) =>
+  walls.filter(wall => wall.rooms[0] === roomIds[0] && wall.rooms[1] === roomIds[1])[0].id;
+
+const opening = (id: string, type: Opening['type'], wallId: string, width: number, height: number, connectsTo?: string): Opening => ({
+  id,
+  type,
+  wallId,
+  roomId: 'living',
+  connectsTo,
+  wall: 'south',
+  offset: 1,
+  width,
+  height,
+  sillHeight: type === 'window' ? 0.9 : 0
+});
+
+const layout: HouseLayout = {
+  width: 7,
+  length: 5,
+  height: 3,
+  floors: 1,
+  rooms,
+  walls,
+  openings: [
+    opening('front-door', 'door', wallOf([null, 'living']), 1, 2.1),
+    opening('bedroom-door', 'door', wallOf(['living', 'bedroom']), 0.9, 2.1, 'bedroom'),
+    opening('window-1', 'window', wallOf(['living', null]), 1.5, 1.2),
+    opening('window-2', 'window', wallOf(['bedroom', null]), 1.5, 1.2),
+    opening('window-3', 'window', wallOf(['bedroom', null]), 1, 1.2)
+  ],
+  style: 'modern'
+};
+
+const find = (code: string, estimate = CostEstimator.estimate(layout)) => estimate.items.filter(entry => entry.code === code);
+
+describe('CostEstimator.estimate', () => {
+  it('measures walls net of their openings and counts doors by kind', () => {
+    const { quantities } = CostEstimator.estimate(layout);
+    assert.equal(quantities.footprint, 35);
+    assert.equal(quantities.upperFloorArea, 0);
+    assert.ok(Math.abs(quantities.interiorWallArea - (5 * 3 - 0.9 * 2.1)) < 1e-9);
+    assert.ok(Math.abs(quantities.exteriorWallArea - (24 * 3 - 1 * 2.1 - 2 * 1.5 * 1.2 - 1 * 1.2)) < 1e-9);
+    assert.deepEqual(quantities.doors, { interior: 1, exterior: 1, garage: 0 });
+    assert.deepEqual(quantities.furniture, { sofa: 1, chair: 2 });
+  });
+
+  it('prices each item at its rate and lists windows by size', () => {
+    const estimate = CostEstimator.estimate(layout);
+    assert.deepEqual(find('foundation', estimate).map(entry => [entry.quantity, entry.amount]), [[35, 3325]]);
+    assert.equal(find('floor-slab', estimate).length, 0);
+    assert.deepEqual(find('window', estimate).map(entry => [entry.description, entry.quantity, entry.rate, entry.amount]), [
+      ['Windows, 1.50 × 1.20 m', 2, 540, 1080],
+      ['Windows, 1.00 × 1.20 m', 1, 360, 360]
+    ]);
+    assert.deepEqual(estimate.items.filter(entry => entry.section === 'Furniture').map(entry => [entry.code, entry.amount]), [
+      ['furniture:chair', 180],
+      ['furniture:sofa', 800]
+    ]);
+    const sum = estimate.items.reduce((total, entry) => total + entry.amount, 0);
+    assert.ok(Math.abs(estimate.total - sum) < 0.005);
+  });
+
+  it('leaves out items the rate table does not price', () => {
+    const table = CostEstimator.mergeRates();
+    delete table.rates['window'];
+    delete table.rates['furniture:sofa'];
+    const estimate = CostEstimator.estimate(layout, table);
+    assert.equal(find('window', estimate).length, 0);
+    assert.equal(find('furniture:sofa', estimate).length, 0);
+    assert.equal(find('furniture:chair', estimate).length, 1);
+  });
+});
+
+describe('CostEstimator.toCsv', () => {
+  it('writes a quoted line per item and the total last', () => {
+    const estimate = CostEstimator.estimate(layout);
+    const lines = CostEstimator.toCsv(estimate).split('\r\n');
+    assert.equal(lines[0], 'Section,Code,Description,Quantity,Unit,Rate (USD),Amount (USD)');
+    assert.equal(lines.length, estimate.items.length + 3);
+    assert.equal(lines[lines.length - 1], '');
+    assert.equal(lines[lines.length - 2], `,,Total,,,,${estimate.total.toFixed(2)}`);
+    assert.ok(lines.indexOf('Doors and windows,window,"Windows, 1.50 × 1.20 m",2,each,540.00,1080.00') > 0);
+  });
+});
+
+describe('CostEstimator rate tables', () => {
+  it('accepts known item codes with prices of at least 0', () => {
+    assert.equal(CostEstimator.validateRates({}), null);
+    assert.equal(CostEstimator.validateRates({ currency: 'EUR', rates: { window: { rate: 0 } } }), null);
+  });
+
+  it('explains what is wrong with a rate table', () => {
+    assert.match(CostEstimator.validateRates(null) || '', /must be an object/);
+    assert.match(CostEstimator.validateRates({ currency: 'EURO-DOLLAR' }) || '', /Currency/);
+    assert.match(CostEstimator.validateRates({ rates: [] }) || '', /keyed by item code/);
+    assert.match(CostEstimator.validateRates({ rates: { pool: { rate: 1 } } }) || '', /Unknown rate item "pool"/);
+    assert.match(CostEstimator.validateRates({ rates: { window: { rate: -5 } } }) || '', /"window" must be a number/);
+  });
+
+  it('merges prices and currency onto the default labels and units', () => {
+    const table = CostEstimator.mergeRates({ currency: ' EUR ', rates: { window: { rate: 250 } } });
+    assert.equal(table.currency, 'EUR');
+    assert.deepEqual(table.rates['window'], { ...CostEstimator.DEFAULT_RATES.rates['window'], rate: 250 });
+    assert.deepEqual(table.rates['foundation'], CostEstimator.DEFAULT_RATES.rates['foundation']);
+    assert.equal(CostEstimator.mergeRates().currency, 'USD');
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createHistory,
+  recordChange,
+  canUndo,
+  canRedo,
+  undoChange,
+  redoChange,
+  takeSnapshot,
+  deleteSnapshot,
+  listVersions,
+  compareLayouts,
+  DesignHistory,
+  DesignVersion
+} from '@/utils/designHistory';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { HouseFormData } from '@/types/house';
+
+const formData: HouseFormData = {
+  plotSize: '20x30',
+  houseType: 'single',
+  bedrooms: 2,
+  bathrooms: 1,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: ''
+};
+
+const version = (seed: number): DesignVersion => ({
+  layout: HouseGenerator.generateHouse(formData, seed),
+  tourWaypoints: [],
+  formData,
+  seed,
+  notes: null,
+  adjacency: null
+});
+
+const [first, second, third] = [version(1), version(2), version(3)];
+
+// A history that started at the first version and changed twice
+function twoChanges(): DesignHistory {
+  let history = recordChange(createHistory(), 'generate', 'Generated', null, first);
+  history = recordChange(history, 'regenerate', 'Regenerated', first, second);
+  return recordChange(history, 'edit', 'Resized Bedroom 1', second, third);
+}
+
+describe('design history', () => {
+  it('cannot undo the version a history starts from', () => {
+    const history = recordChange(createHistory(), 'generate', 'Generated', null, first);
+    assert.equal(canUndo(history), false);
+    assert.equal(undoChange(history), null);
+    assert.equal(canRedo(history), false);
+    assert.equal(redoChange(history), null);
+  });
+
+  it('undoes and redoes changes in order', () => {
+    let history = twoChanges();
+
+    let step = undoChange(history)!;
+    assert.equal(step.version, second);
+    step = undoChange(step.history)!;
+    assert.equal(step.version, first);
+    history = step.history;
+    assert.equal(canUndo(history), false);
+    assert.equal(canRedo(history), true);
+
+    step = redoChange(history)!;
+    assert.equal(step.version, second);
+    step = redoChange(step.history)!;
+    assert.equal(step.version, third);
+    assert.equal(canRedo(step.history), false);
+    assert.deepEqual(step.history.done.map(command => command.label), ['Generated', 'Regenerated', 'Resized Bedroom 1']);
+  });
+
+  it('drops the undone changes once a new change is recorded', () => {
+    const undone = undoChange(twoChanges())!.history;
+    const history = recordChange(undone, 'variant', 'Variant', second, first);
+    assert.equal(canRedo(history), false);
+    assert.deepEqual(history.done.map(command => command.id), [1, 2, 4]);
+  });
+
+  it('keeps named snapshots apart from undo and redo', () => {
+    let history = takeSnapshot(twoChanges(), 'Before the study', second);
+    assert.deepEqual(history.snapshots.map(snapshot => [snapshot.id, snapshot.name]), [[4, 'Before the study']]);
+    history = undoChange(history)!.history;
+    assert.equal(history.snapshots.length, 1);
+    assert.equal(deleteSnapshot(history, 4).snapshots.length, 0);
+  });
+
+  it('lists every change newest first, then the snapshots', () => {
+    const history = takeSnapshot(undoChange(twoChanges())!.history, 'Kept', first);
+    assert.deepEqual(listVersions(history).map(option => [option.key, option.label]), [
+      ['change:3', '3. Resized Bedroom 1 (undone)'],
+      ['change:2', '2. Regenerated (current)'],
+      ['change:1', '1. Generated'],
+      ['snapshot:4', '📌 Kept']
+    ]);
+  });
+});
+
+describe('compareLayouts', () => {
+  it('matches rooms by id and finds those added, changed and removed', () => {
+    const from = first.layout;
+    const [moved, removed] = from.rooms;
+    const to = {
+      ...from,
+      rooms: from.rooms
+        .filter(room => room !== removed)
+        .map(room => (room === moved ? { ...room, position: { ...room.position, x: room.position.x + 1 } } : room))
+        .concat([{ ...removed, id: 'study-1', name: 'Study', type: 'study' as const }])
+    };
+
+    const comparison = compareLayouts(from, to);
+    assert.deepEqual(comparison.added, ['study-1']);
+    assert.deepEqual(comparison.changed, [moved.id]);
+    assert.deepEqual(comparison.removed.map(room => room.id), [removed.id]);
+    assert.deepEqual(compareLayouts(from, from), { added: [], changed: [], removed: [] });
+  });
+});
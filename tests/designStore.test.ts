@@ -0,0 +1,106 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DesignStore } from '@/services/designStore';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { DesignInput, HouseFormData } from '@/types/house';
+
+const formData: HouseFormData = {
+  plotSize: '20x30',
+  houseType: 'single',
+  bedrooms: 2,
+  bathrooms: 1,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: ''
+};
+
+const input = (name: string): DesignInput => ({
+  name,
+  formData,
+  layout: HouseGenerator.generateHouse(formData, 1),
+  tourWaypoints: []
+});
+
+describe('DesignStore', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'designs-'));
+    process.env.DESIGNS_DIR = directory;
+  });
+
+  after(async () => {
+    delete process.env.DESIGNS_DIR;
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await Promise.all((await fs.readdir(directory)).map(file => fs.unlink(path.join(directory, file))));
+  });
+
+  it('saves, loads, updates and deletes a design', async () => {
+    const created = await DesignStore.create(input('Cottage'));
+    assert.deepEqual(await DesignStore.get(created.id), created);
+
+    const updated = await DesignStore.update(created.id, { name: 'Bigger cottage' });
+    assert.equal(updated!.name, 'Bigger cottage');
+    assert.equal(updated!.createdAt, created.createdAt);
+    assert.deepEqual(updated!.layout, created.layout);
+
+    assert.equal(await DesignStore.remove(created.id), true);
+    assert.equal(await DesignStore.get(created.id), null);
+    assert.equal(await DesignStore.remove(created.id), false);
+    assert.equal(await DesignStore.update(created.id, { name: 'Gone' }), null);
+  });
+
+  it('treats ids that are not its own as missing', async () => {
+    assert.equal(await DesignStore.get('../package'), null);
+    assert.equal(await DesignStore.remove('../package'), false);
+  });
+
+  it('lists summaries, most recently updated first', async () => {
+    const first = await DesignStore.create(input('First'));
+    const second = await DesignStore.create(input('Second'));
+    // Timestamps are to the millisecond
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await DesignStore.update(first.id, { name: 'First again' });
+
+    const list = await DesignStore.list();
+    assert.deepEqual(list.map(summary => summary.name), ['First again', 'Second']);
+    assert.equal(list[1].id, second.id);
+    assert.equal(list[1].roomCount, second.layout.rooms.length);
+    assert.equal((list[1] as unknown as Record<string, unknown>).layout, undefined);
+  });
+
+  it('leaves out damaged files instead of failing the whole list', async () => {
+    const kept = await DesignStore.create(input('Kept'));
+    await fs.writeFile(path.join(directory, '00000000-0000-0000-0000-000000000001.json'), '{ not json', 'utf8');
+    await fs.writeFile(path.join(directory, '00000000-0000-0000-0000-000000000002.json'), JSON.stringify({ name: 'No layout' }), 'utf8');
+
+    const errors = console.error;
+    console.error = () => undefined;
+    try {
+      assert.deepEqual((await DesignStore.list()).map(summary => summary.id), [kept.id]);
+    } finally {
+      console.error = errors;
+    }
+  });
+
+  it('leaves no temporary files behind when saves race', async () => {
+    const design = await DesignStore.create(input('Raced'));
+    await Promise.all([1, 2, 3, 4].map(n => DesignStore.update(design.id, { name: `Raced ${n}` })));
+    assert.deepEqual(await fs.readdir(directory), [`${design.id}.json`]);
+  });
+
+  it('lists nothing before the directory exists', async () => {
+    process.env.DESIGNS_DIR = path.join(directory, 'missing');
+    try {
+      assert.deepEqual(await DesignStore.list(), []);
+    } finally {
+      process.env.DESIGNS_DIR = directory;
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateDesignInput } from '@/utils/designValidation';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { HouseFormData } from '@/types/house';
+
+const formData: HouseFormData = {
+  plotSize: '20x30',
+  houseType: 'single',
+  bedrooms: 2,
+  bathrooms: 1,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: ''
+};
+const design = { name: 'Cottage', formData, layout: HouseGenerator.generateHouse(formData, 1), tourWaypoints: [] };
+
+describe('validateDesignInput', () => {
+  it('accepts a whole design, and any of its fields on an update', () => {
+    assert.equal(validateDesignInput(design, true), null);
+    assert.equal(validateDesignInput({ name: 'Renamed' }, false), null);
+    assert.equal(validateDesignInput({}, false), null);
+  });
+
+  it('turns away a body that is not an object', () => {
+    [null, 'design', 3].forEach(body => assert.match(validateDesignInput(body, true) || '', /JSON object/));
+  });
+
+  it('asks for every field of a new design', () => {
+    assert.match(validateDesignInput({ ...design, name: '  ' }, true) || '', /name is required/);
+    assert.match(validateDesignInput({ ...design, tourWaypoints: undefined }, true) || '', /Tour waypoints/);
+    assert.match(validateDesignInput({ ...design, layout: undefined }, true) || '', /house layout/);
+  });
+
+  it('checks the form data field by field', () => {
+    assert.match(validateDesignInput({ formData: {} }, false) || '', /Form data/);
+    assert.match(validateDesignInput({ formData: { ...formData, bedrooms: '2' } }, false) || '', /Form data/);
+    assert.match(validateDesignInput({ formData: { ...formData, houseType: 'triple' } }, false) || '', /Form data/);
+  });
+
+  it('checks the layout with the shared layout check', () => {
+    const layout = { ...design.layout, rooms: [{ id: 'room' }] };
+    assert.match(validateDesignInput({ layout }, false) || '', /^Room 1 /);
+  });
+});
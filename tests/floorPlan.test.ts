@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFloorPlanSheet, buildFloorPlanSheets, planPoint, renderFloorPlanSvg, PlanShape } from '@/utils/floorPlan';
+import { HouseGenerator } from '@/services/houseGenerator';
+
+type TextShape = Extract<PlanShape, { kind: 'text' }>;
+
+const layout = HouseGenerator.generateHouse({
+  plotSize: '20x30',
+  houseType: 'double',
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: ''
+}, 7);
+
+describe('floor plan sheets', () => {
+  it('draws one sheet per floor with the house and a margin round it', () => {
+    const sheets = buildFloorPlanSheets(layout);
+    assert.deepEqual(sheets.map(sheet => sheet.title), ['Ground Floor Plan', 'Floor 2 Plan']);
+    sheets.forEach(sheet => {
+      assert.ok(sheet.width > layout.width && sheet.height > layout.length);
+    });
+  });
+
+  it('names every room of the floor with its area', () => {
+    const sheet = buildFloorPlanSheet(layout, 1);
+    const texts = sheet.shapes.filter((shape): shape is TextShape => shape.kind === 'text').map(shape => shape.text);
+    layout.rooms.filter(room => room.floor === 1).forEach(room => {
+      assert.ok(texts.indexOf(room.name) >= 0, room.name);
+      assert.ok(texts.indexOf(`${(room.dimensions.width * room.dimensions.length).toFixed(1)} m²`) >= 0, `${room.name} area`);
+    });
+    assert.equal(texts.indexOf('Living Room'), -1);
+  });
+
+  it('puts north up and +x on the left, as seen in the 3D view from the street', () => {
+    const [southWestX, southWestY] = planPoint(layout, 0, 0);
+    const [northEastX, northEastY] = planPoint(layout, layout.width, layout.length);
+    assert.ok(northEastY < southWestY, 'north is up');
+    assert.ok(northEastX < southWestX, '+x is on the left');
+    assert.ok(Math.abs(southWestX - northEastX - layout.width) < 1e-9);
+  });
+});
+
+describe('renderFloorPlanSvg', () => {
+  it('writes a standalone SVG sized in pixels and drawn in meters', () => {
+    const sheet = buildFloorPlanSheet(layout, 0);
+    const svg = renderFloorPlanSvg(sheet, 10);
+    assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg"/);
+    assert.ok(svg.indexOf(`width="${Math.round(sheet.width * 10)}"`) > 0);
+    assert.ok(svg.indexOf('<title>Ground Floor Plan</title>') > 0);
+    assert.match(svg, /<\/svg>$/);
+  });
+
+  it('escapes room names', () => {
+    const sheet = buildFloorPlanSheet({
+      ...layout,
+      rooms: layout.rooms.map(room => (room.floor === 0 && room.type === 'living' ? { ...room, name: 'Tom & Jerry <3' } : room))
+    }, 0);
+    assert.ok(renderFloorPlanSvg(sheet).indexOf('Tom &amp; Jerry &lt;3') > 0);
+  });
+});
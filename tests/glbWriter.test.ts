@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as THREE from 'three';
+import { encodeGLB } from '@/utils/glbWriter';
+import { buildHouseScene } from '@/utils/houseScene';
+import { HouseGenerator } from '@/services/houseGenerator';
+
+interface GLTF {
+  asset: { version: string };
+  scenes: Array<{ nodes: number[] }>;
+  nodes: Array<{ name?: string; mesh?: number; children?: number[]; translation?: number[]; extras?: Record<string, unknown> }>;
+  meshes?: Array<{ primitives: Array<{ attributes: Record<string, number>; indices?: number; material: number }> }>;
+  materials?: Array<{ pbrMetallicRoughness: { baseColorFactor: number[] } }>;
+  accessors?: Array<{ count: number; type: string }>;
+  buffers?: Array<{ byteLength: number }>;
+}
+
+// The JSON chunk of a GLB file, after checking its header and chunk layout
+function decodeGLB(glb: ArrayBuffer): GLTF {
+  const view = new DataView(glb);
+  assert.equal(view.getUint32(0, true), 0x46546c67, 'magic');
+  assert.equal(view.getUint32(4, true), 2, 'version');
+  assert.equal(view.getUint32(8, true), glb.byteLength, 'length');
+
+  const jsonLength = view.getUint32(12, true);
+  assert.equal(view.getUint32(16, true), 0x4e4f534a, 'JSON chunk');
+  assert.equal(jsonLength % 4, 0, 'JSON chunk padding');
+  const json = JSON.parse(new TextDecoder().decode(new Uint8Array(glb, 20, jsonLength))) as GLTF;
+
+  if (json.buffers) {
+    const binStart = 20 + jsonLength;
+    assert.equal(view.getUint32(binStart + 4, true), 0x004e4942, 'BIN chunk');
+    assert.ok(view.getUint32(binStart, true) >= json.buffers[0].byteLength, 'BIN chunk holds the buffer');
+  }
+  return json;
+}
+
+describe('encodeGLB', () => {
+  it('writes named nodes with their meshes, materials and transforms', () => {
+    const root = new THREE.Group();
+    root.name = 'root';
+    const box = new THREE.Mesh(new THREE.BoxGeometry(1, 2, 3), new THREE.MeshStandardMaterial({ color: '#ff0000' }));
+    box.name = 'box';
+    box.position.set(1, 2, 3);
+    box.userData = { roomId: 'living-1' };
+    root.add(box);
+
+    const gltf = decodeGLB(encodeGLB(root));
+    assert.equal(gltf.asset.version, '2.0');
+    const node = gltf.nodes.find(candidate => candidate.name === 'box')!;
+    assert.deepEqual(node.translation, [1, 2, 3]);
+    assert.deepEqual(node.extras, { roomId: 'living-1' });
+
+    const mesh = gltf.meshes![node.mesh!];
+    assert.equal(mesh.primitives.length, 1);
+    assert.equal(gltf.accessors![mesh.primitives[0].attributes.POSITION].count, 24);
+    assert.equal(gltf.accessors![mesh.primitives[0].indices!].count, 36);
+    assert.deepEqual(gltf.materials![mesh.primitives[0].material].pbrMetallicRoughness.baseColorFactor, [1, 0, 0, 1]);
+  });
+
+  it('shares a mesh between nodes with the same geometry and material', () => {
+    const root = new THREE.Group();
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    const material = new THREE.MeshStandardMaterial();
+    root.add(new THREE.Mesh(geometry, material), new THREE.Mesh(geometry, material));
+
+    const gltf = decodeGLB(encodeGLB(root));
+    assert.equal(gltf.meshes!.length, 1);
+    assert.equal(gltf.materials!.length, 1);
+  });
+
+  it('leaves out hidden objects', () => {
+    const root = new THREE.Group();
+    const hidden = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshStandardMaterial());
+    hidden.name = 'hidden';
+    hidden.visible = false;
+    root.add(hidden);
+
+    assert.equal(decodeGLB(encodeGLB(root)).nodes.some(node => node.name === 'hidden'), false);
+  });
+
+  it('writes a primitive per geometry group for meshes with a material per face', () => {
+    const inside = new THREE.MeshStandardMaterial({ color: '#ffffff' });
+    const outside = new THREE.MeshStandardMaterial({ color: '#000000' });
+    const root = new THREE.Group();
+    root.add(new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), [inside, inside, inside, inside, outside, inside]));
+
+    const gltf = decodeGLB(encodeGLB(root));
+    const primitives = gltf.meshes![0].primitives;
+    assert.equal(primitives.length, 6);
+    assert.ok(primitives.every(primitive => gltf.accessors![primitive.indices!].count === 6));
+    assert.equal(gltf.materials!.length, 2);
+    assert.notEqual(primitives[4].material, primitives[0].material);
+    assert.deepEqual(gltf.materials![primitives[4].material].pbrMetallicRoughness.baseColorFactor, [0, 0, 0, 1]);
+  });
+
+  it('exports every wall piece of a generated house with a mesh', () => {
+    const layout = HouseGenerator.generateHouse({
+      plotSize: '30x40',
+      houseType: 'single',
+      bedrooms: 3,
+      bathrooms: 2,
+      kitchens: 1,
+      locationType: 'city',
+      extraNotes: ''
+    });
+    const gltf = decodeGLB(encodeGLB(buildHouseScene(layout)));
+    const pieces = gltf.nodes.filter(node => /-piece-\d+$/.test(node.name || ''));
+
+    assert.ok(pieces.length >= layout.walls.length, `${pieces.length} wall pieces for ${layout.walls.length} walls`);
+    pieces.forEach(node => assert.notEqual(node.mesh, undefined, `${node.name} has no mesh`));
+  });
+
+  it('writes an empty scene without empty arrays', () => {
+    const gltf = decodeGLB(encodeGLB(new THREE.Group()));
+    assert.equal(gltf.meshes, undefined);
+    assert.equal(gltf.buffers, undefined);
+    assert.equal(gltf.nodes.length, 1);
+  });
+});
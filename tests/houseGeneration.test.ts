@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { LayoutEngine, LayoutError } from '@/services/layoutEngine';
+import { BuildingCode, LIVING_SPACES } from '@/services/buildingCode';
+import { HouseFormData, HouseLayout } from '@/types/house';
+
+const EPSILON = 1e-6;
+const SEEDS = [1, 7, 42, 2024];
+
+function form(overrides: Partial<HouseFormData>): HouseFormData {
+  return {
+    plotSize: '20x30',
+    houseType: 'single',
+    bedrooms: 2,
+    bathrooms: 1,
+    kitchens: 1,
+    locationType: 'city',
+    extraNotes: '',
+    ...overrides
+  };
+}
+
+const PROGRAMS: HouseFormData[] = [
+  form({}),
+  form({ houseType: 'double', bedrooms: 3, bathrooms: 2 }),
+  form({ plotSize: '40x40', bedrooms: 4, bathrooms: 3, locationType: 'village' }),
+  form({ plotSize: '40x40', houseType: 'double', bedrooms: 6, bathrooms: 4, kitchens: 2 }),
+  form({ plotSize: '15x25', bedrooms: 3, bathrooms: 2, extraNotes: 'study, prayer room, garage for 1 car' }),
+  form({ plotSize: '30x60 ft', houseType: 'double', bedrooms: 4, bathrooms: 2 }),
+  form({ plotSize: '25x30', bedrooms: 3, bathrooms: 2, plotShape: 'l-shaped', locationType: 'village' }),
+  form({ bedrooms: 6, bathrooms: 3 }),
+  form({ plotSize: '12x20', bedrooms: 4, bathrooms: 2 }),
+  form({ plotSize: '30x40', houseType: 'double', bedrooms: 6, bathrooms: 1 }),
+  form({ plotSize: '12x20', houseType: 'double', bedrooms: 6, bathrooms: 2, extraNotes: 'open kitchen' })
+];
+
+// Rooms that doors, and the stairs between floors, lead to from an outside door
+function reachableRooms(layout: HouseLayout): Set<string> {
+  const neighbours: Record<string, string[]> = {};
+  const connect = (a: string, b: string) => {
+    (neighbours[a] = neighbours[a] || []).push(b);
+    (neighbours[b] = neighbours[b] || []).push(a);
+  };
+  layout.openings
+    .filter(opening => opening.type === 'door' && opening.connectsTo)
+    .forEach(opening => connect(opening.roomId, opening.connectsTo!));
+  const staircases = layout.rooms.filter(room => room.type === 'staircase');
+  staircases.forEach(lower => staircases
+    .filter(upper => upper.floor === lower.floor + 1)
+    .forEach(upper => connect(lower.id, upper.id)));
+
+  const reached = new Set<string>();
+  const queue = layout.openings
+    .filter(opening => opening.type === 'door' && !opening.connectsTo)
+    .map(opening => opening.roomId);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (!reached.has(id)) {
+      reached.add(id);
+      (neighbours[id] || []).forEach(next => queue.push(next));
+    }
+  }
+  return reached;
+}
+
+function describeProgram(formData: HouseFormData): string {
+  return `${formData.plotSize} ${formData.houseType}, ${formData.bedrooms} bed ${formData.bathrooms} bath` +
+    (formData.extraNotes ? `, "${formData.extraNotes}"` : '');
+}
+
+describe('generated layouts', () => {
+  PROGRAMS.forEach(formData => {
+    describe(describeProgram(formData), () => {
+      const layouts = SEEDS.map(seed => ({ seed, layout: HouseGenerator.generateHouse(formData, seed) }));
+
+      it('keeps every room inside the footprint', () => {
+        layouts.forEach(({ seed, layout }) => layout.rooms.forEach(room => {
+          assert.ok(room.position.x > -EPSILON && room.position.z > -EPSILON, `seed ${seed}: ${room.name} starts outside the house`);
+          assert.ok(room.position.x + room.dimensions.width < layout.width + EPSILON, `seed ${seed}: ${room.name} runs past the east wall`);
+          assert.ok(room.position.z + room.dimensions.length < layout.length + EPSILON, `seed ${seed}: ${room.name} runs past the north wall`);
+        }));
+      });
+
+      it('never overlaps two rooms on the same floor', () => {
+        layouts.forEach(({ seed, layout }) => layout.rooms.forEach((a, i) => layout.rooms.slice(i + 1)
+          .filter(b => b.floor === a.floor)
+          .forEach(b => {
+            const overlapX = Math.min(a.position.x + a.dimensions.width, b.position.x + b.dimensions.width) - Math.max(a.position.x, b.position.x);
+            const overlapZ = Math.min(a.position.z + a.dimensions.length, b.position.z + b.dimensions.length) - Math.max(a.position.z, b.position.z);
+            assert.ok(overlapX < EPSILON || overlapZ < EPSILON, `seed ${seed}: ${a.name} overlaps ${b.name}`);
+          })));
+      });
+
+      it('reaches every room through doors from outside', () => {
+        layouts.forEach(({ seed, layout }) => {
+          const reached = reachableRooms(layout);
+          layout.rooms.forEach(room => assert.ok(reached.has(room.id), `seed ${seed}: ${room.name} cannot be reached`));
+        });
+      });
+
+      it('makes every room at least as wide as its type needs', () => {
+        layouts.forEach(({ seed, layout }) => layout.rooms.forEach(room => {
+          const narrowest = Math.min(room.dimensions.width, room.dimensions.length);
+          const minimum = LayoutEngine.MIN_ROOM_WIDTH[room.type];
+          assert.ok(narrowest > minimum - EPSILON, `seed ${seed}: ${room.name} is ${narrowest.toFixed(2)} m wide, below ${minimum} m`);
+        }));
+      });
+
+      it('passes the building code for bedroom size, stairs and daylight', () => {
+        layouts.forEach(({ seed, layout }) => {
+          const violations = BuildingCode.check(layout).issues
+            .filter(issue => issue.severity === 'violation' && ['bedroom-size', 'stairs', 'daylight'].indexOf(issue.rule) >= 0);
+          assert.deepEqual(violations.map(issue => issue.message), [], `seed ${seed}`);
+        });
+      });
+
+      it('gives every living space a window', () => {
+        layouts.forEach(({ seed, layout }) => layout.rooms
+          .filter(room => LIVING_SPACES.indexOf(room.type) >= 0)
+          .forEach(room => assert.ok(
+            layout.openings.some(opening => opening.type === 'window' && opening.roomId === room.id),
+            `seed ${seed}: ${room.name} has no window`
+          )));
+      });
+
+      it('gives the same house for the same seed', () => {
+        assert.deepEqual(HouseGenerator.generateHouse(formData, SEEDS[0]), layouts[0].layout);
+      });
+    });
+  });
+
+  it('passes every building code check for the default designs', () => {
+    [form({}), form({ houseType: 'double', bedrooms: 3, bathrooms: 2 })].forEach(formData => {
+      const report = BuildingCode.check(HouseGenerator.generateHouse(formData));
+      assert.ok(report.passed, `${describeProgram(formData)}: ${report.issues.map(issue => issue.message).join('; ')}`);
+    });
+  });
+});
+
+describe('impossible programs', () => {
+  it('rejects more rooms than the plot can hold with the reason', () => {
+    assert.throws(
+      () => HouseGenerator.generateHouse(form({ plotSize: '8x12', houseType: 'double', bedrooms: 6, bathrooms: 4, kitchens: 2 })),
+      (error: unknown) => error instanceof LayoutError && /too small for the rooms/.test(error.message)
+    );
+    assert.throws(
+      () => HouseGenerator.generateHouse(form({ plotSize: '10x15', bedrooms: 6, bathrooms: 2 })),
+      LayoutError
+    );
+  });
+
+  it('rejects a floor too short for the staircase', () => {
+    assert.throws(
+      () => LayoutEngine.planBands({ width: 12, length: 3 }, 10, 10, 3.25),
+      (error: unknown) => error instanceof LayoutError && /too short for a staircase/.test(error.message)
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateLayout } from '@/utils/layoutValidation';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { HouseLayout } from '@/types/house';
+
+const layout = HouseGenerator.generateHouse({
+  plotSize: '20x30',
+  houseType: 'double',
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: ''
+});
+
+// A copy of the generated layout with one change made to it
+function broken(change: (copy: HouseLayout) => void): HouseLayout {
+  const copy = JSON.parse(JSON.stringify(layout)) as HouseLayout;
+  change(copy);
+  return copy;
+}
+
+describe('validateLayout', () => {
+  it('accepts a generated layout, also after a trip through JSON', () => {
+    assert.equal(validateLayout(layout), null);
+    assert.equal(validateLayout(broken(() => undefined)), null);
+  });
+
+  it('asks for a layout when there is none', () => {
+    [null, undefined, 'house', [], {}, { rooms: [], walls: [] }].forEach(value =>
+      assert.match(validateLayout(value) || '', /rooms, walls and openings is required/));
+  });
+
+  it('asks for the size of the house', () => {
+    assert.match(validateLayout(broken(copy => { delete (copy as Partial<HouseLayout>).width; })) || '', /width, length, height/);
+    assert.match(validateLayout(broken(copy => { copy.floors = 0; })) || '', /number of floors/);
+  });
+
+  it('names the first malformed room, wall or opening', () => {
+    assert.match(validateLayout(broken(copy => { (copy.rooms as unknown[])[2] = null; })) || '', /^Room 3 /);
+    assert.match(validateLayout(broken(copy => { delete (copy.rooms[0] as Partial<HouseLayout['rooms'][0]>).position; })) || '', /^Room 1 /);
+    assert.match(validateLayout(broken(copy => { copy.rooms[1].dimensions.width = NaN; })) || '', /^Room 2 /);
+    assert.match(validateLayout(broken(copy => { copy.rooms[0].furniture = [{} as HouseLayout['rooms'][0]['furniture'][0]]; })) || '', /^Room 1 /);
+    assert.match(validateLayout(broken(copy => { (copy.walls[0] as { rooms: unknown }).rooms = ['a']; })) || '', /^Wall 1 /);
+    assert.match(validateLayout(broken(copy => { (copy.openings[0] as { type: string }).type = 'arch'; })) || '', /^Opening 1 /);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseExtraNotes, describeConstraint, MAX_GARAGE_CARS } from '@/utils/noteParser';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { HouseFormData } from '@/types/house';
+
+const constraintsOf = (notes: string) => parseExtraNotes(notes).constraints.map(note => note.constraint);
+
+describe('parseExtraNotes', () => {
+  it('finds every kind of constraint in a list of notes', () => {
+    const parsed = parseExtraNotes('master bedroom with attached bath, open kitchen, garage for two cars, prayer room, study, bedrooms facing east');
+    assert.deepEqual(parsed.constraints.map(note => note.constraint), [
+      { kind: 'ensuite' },
+      { kind: 'open-kitchen' },
+      { kind: 'garage', cars: 2 },
+      { kind: 'extra-room', roomType: 'prayer' },
+      { kind: 'extra-room', roomType: 'study' },
+      { kind: 'facing', roomType: 'bedroom', side: 'east' }
+    ]);
+    assert.deepEqual(parsed.notUnderstood, []);
+  });
+
+  it('reads the number of cars from words and digits', () => {
+    assert.deepEqual(constraintsOf('double garage'), [{ kind: 'garage', cars: 2 }]);
+    assert.deepEqual(constraintsOf('a garage for 3 cars'), [{ kind: 'garage', cars: 3 }]);
+    assert.deepEqual(constraintsOf('carport'), [{ kind: 'garage', cars: 1 }]);
+  });
+
+  it('keeps only the first garage asked for', () => {
+    assert.deepEqual(constraintsOf('garage for two cars, single garage'), [{ kind: 'garage', cars: 2 }]);
+  });
+
+  it('skips phrases the notes turn down', () => {
+    assert.deepEqual(parseExtraNotes('no garage please'), { constraints: [], notUnderstood: [] });
+    assert.deepEqual(parseExtraNotes('we do not need a study'), { constraints: [], notUnderstood: [] });
+    assert.deepEqual(parseExtraNotes("don't want a prayer room"), { constraints: [], notUnderstood: [] });
+    assert.deepEqual(parseExtraNotes('garage not needed'), { constraints: [], notUnderstood: [] });
+    assert.deepEqual(constraintsOf('study without a garage'), [{ kind: 'extra-room', roomType: 'study' }]);
+  });
+
+  it('keeps a wanted phrase before a turned down one in the same clause', () => {
+    assert.deepEqual(constraintsOf('ensuite and no garage'), [{ kind: 'ensuite' }]);
+  });
+
+  it('turns down only a phrase the negation comes right before', () => {
+    const parsed = parseExtraNotes('I have no kids but want a garage');
+    assert.deepEqual(parsed.constraints.map(note => note.constraint), [{ kind: 'garage', cars: 1 }]);
+    assert.deepEqual(parsed.notUnderstood, ['no kids but']);
+
+    const unsure = parseExtraNotes('not sure about study');
+    assert.deepEqual(unsure.constraints.map(note => note.constraint), [{ kind: 'extra-room', roomType: 'study' }]);
+    assert.deepEqual(unsure.notUnderstood, ['not sure about']);
+
+    assert.deepEqual(constraintsOf('we do not really need any study'), []);
+  });
+
+  it('caps the garage and says why', () => {
+    const [note] = parseExtraNotes('garage for 4 cars').constraints;
+    assert.deepEqual(note.constraint, { kind: 'garage', cars: MAX_GARAGE_CARS });
+    assert.match(note.limited || '', /4 cars were asked for/);
+    assert.equal(parseExtraNotes('garage for 2 cars').constraints[0].limited, undefined);
+  });
+
+  it('targets only the master bedroom when the notes name it', () => {
+    assert.deepEqual(constraintsOf('master bedroom facing east'), [{ kind: 'facing', roomType: 'bedroom', side: 'east', master: true }]);
+    assert.deepEqual(constraintsOf('east-facing master bedroom'), [{ kind: 'facing', roomType: 'bedroom', side: 'east', master: true }]);
+    assert.deepEqual(constraintsOf('bedrooms on the west side'), [{ kind: 'facing', roomType: 'bedroom', side: 'west' }]);
+  });
+
+  it('reports words it does not understand', () => {
+    assert.deepEqual(parseExtraNotes('a swimming pool, open kitchen').notUnderstood, ['swimming pool']);
+  });
+});
+
+describe('describeConstraint', () => {
+  it('names the master bedroom and the number of cars', () => {
+    assert.equal(describeConstraint({ kind: 'facing', roomType: 'bedroom', side: 'east', master: true }), 'Master bedroom facing east');
+    assert.equal(describeConstraint({ kind: 'facing', roomType: 'bedroom', side: 'east' }), 'Bedrooms facing east');
+    assert.equal(describeConstraint({ kind: 'garage', cars: 1 }), 'Garage for 1 car');
+  });
+});
+
+describe('notes report', () => {
+  const formData = (extraNotes: string): HouseFormData => ({
+    plotSize: '40x40',
+    houseType: 'single',
+    bedrooms: 3,
+    bathrooms: 2,
+    kitchens: 1,
+    locationType: 'village',
+    extraNotes
+  });
+
+  it('reports a capped garage as not applied', () => {
+    const data = formData('garage for 4 cars');
+    const report = HouseGenerator.reportNotes(data, HouseGenerator.generateHouse(data));
+    assert.deepEqual(report.applied, []);
+    assert.deepEqual(report.notApplied, [`Garage for ${MAX_GARAGE_CARS} cars: 4 cars were asked for, but a garage holds at most ${MAX_GARAGE_CARS}`]);
+  });
+
+  it('reports an ensuite on top of a single bathroom', () => {
+    const data = { ...formData('master bedroom with attached bath'), bathrooms: 1 };
+    const layout = HouseGenerator.generateHouse(data);
+    assert.equal(layout.rooms.filter(room => room.type === 'bathroom').length, 2);
+    assert.deepEqual(HouseGenerator.reportNotes(data, layout).applied, ['Master bedroom with attached bathroom (an extra bathroom on top of the 1 asked for)']);
+  });
+
+  it('keeps every bathroom asked for with an ensuite on a narrow plot', () => {
+    const data: HouseFormData = { ...formData('master bedroom with attached bath'), plotSize: '8x30', houseType: 'double', locationType: 'city' };
+    [1, 2, 3].forEach(seed => {
+      const bathrooms = HouseGenerator.generateHouse(data, seed).rooms.filter(room => room.type === 'bathroom');
+      assert.equal(bathrooms.length, 2, `seed ${seed}`);
+    });
+  });
+
+  it('splits the ensuite off an end that leaves the master bedroom a window', () => {
+    const data: HouseFormData = {
+      ...formData('master bedroom with attached bath, study, open kitchen'),
+      plotSize: '12x20',
+      bathrooms: 1,
+      locationType: 'city'
+    };
+    const layout = HouseGenerator.generateHouse(data, 3);
+    assert.ok(layout.rooms.some(room => room.id === 'bathroom-ensuite'));
+    assert.ok(layout.openings.some(opening => opening.type === 'window' && opening.roomId === 'bedroom-1'));
+  });
+
+  it('turns only the master bedroom to face the side asked for', () => {
+    const data = formData('master bedroom facing east');
+    const layout = HouseGenerator.generateHouse(data);
+    const report = HouseGenerator.reportNotes(data, layout);
+    assert.deepEqual(report.applied, ['Master bedroom facing east']);
+    const master = layout.rooms.filter(room => room.id === 'bedroom-1')[0];
+    assert.ok(layout.openings.some(opening => opening.type === 'window' && opening.roomId === master.id && opening.wall === 'east'));
+  });
+});
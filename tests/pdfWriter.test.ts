@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { renderPlanPdf } from '@/utils/pdfWriter';
+import { PlanSheet } from '@/utils/floorPlan';
+
+const sheet = (title: string, width: number, height: number): PlanSheet => ({
+  title,
+  floor: 0,
+  width,
+  height,
+  shapes: [
+    { kind: 'polygon', points: [[1, 1], [4, 1], [4, 3]], fill: '#FFFFFF', stroke: '#1F2937', strokeWidth: 0.1 },
+    { kind: 'line', from: [0, 0], to: [2, 2], stroke: '#6B7280', strokeWidth: 0.02, dashed: true },
+    { kind: 'arc', center: [2, 2], radius: 1, startAngle: 0, endAngle: Math.PI / 2, stroke: '#1F2937', strokeWidth: 0.02 },
+    { kind: 'text', at: [1, 1], text: title, size: 0.4, anchor: 'middle', bold: true }
+  ]
+});
+
+const text = (pdf: ArrayBuffer) => String.fromCharCode(...Array.from(new Uint8Array(pdf)));
+
+describe('renderPlanPdf', () => {
+  it('writes one A4 page per sheet, landscape for wide sheets', () => {
+    const pdf = text(renderPlanPdf([sheet('Wide', 20, 10), sheet('Tall', 10, 20)]));
+    assert.match(pdf, /^%PDF-1\.4\n/);
+    assert.match(pdf, /\/Type \/Pages \/Kids \[\d+ 0 R \d+ 0 R\] \/Count 2/);
+    assert.ok(pdf.indexOf('/MediaBox [0 0 842 595]') > 0);
+    assert.ok(pdf.indexOf('/MediaBox [0 0 595 842]') > 0);
+    assert.match(pdf, /%%EOF\n$/);
+  });
+
+  it('points the cross-reference table at every object', () => {
+    const pdf = text(renderPlanPdf([sheet('Plan', 20, 10)]));
+    const xref = parseInt(/startxref\n(\d+)/.exec(pdf)![1], 10);
+    assert.equal(pdf.slice(xref, xref + 4), 'xref');
+
+    const offsets = pdf.slice(xref).split('\n').filter(line => / 00000 n $/.test(line)).map(line => parseInt(line, 10));
+    assert.ok(offsets.length > 0);
+    offsets.forEach((offset, i) => assert.equal(pdf.slice(offset, offset + `${i + 1} 0 obj`.length), `${i + 1} 0 obj`));
+  });
+
+  it('gives each content stream its exact length', () => {
+    const pdf = text(renderPlanPdf([sheet('Plan', 20, 10)]));
+    const match = /<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/.exec(pdf)!;
+    assert.equal(match[2].length, parseInt(match[1], 10));
+  });
+
+  it('escapes brackets and writes Latin-1 text in WinAnsi codes', () => {
+    const pdf = text(renderPlanPdf([sheet('Study (2) · 12 m²', 20, 10)]));
+    assert.ok(pdf.indexOf('(Study \\(2\\) \\267 12 m\\262) Tj') > 0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { planSite, validateSite, resolveSetbacks, moveSite, siteBounds, plotArea, DEFAULT_SETBACKS } from '@/utils/plot';
+import { HouseFormData } from '@/types/house';
+
+const form = (overrides: Partial<HouseFormData> = {}): HouseFormData => ({
+  plotSize: '20x30',
+  houseType: 'single',
+  bedrooms: 2,
+  bathrooms: 1,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: '',
+  ...overrides
+});
+
+describe('resolveSetbacks', () => {
+  it('fills in the location defaults around the setbacks given', () => {
+    assert.deepEqual(resolveSetbacks('village'), DEFAULT_SETBACKS.village);
+    assert.deepEqual(resolveSetbacks('city', { rear: 0 }), { front: 3, rear: 0, side: 1 });
+  });
+
+  it('refuses setbacks that are negative or too large', () => {
+    assert.throws(() => resolveSetbacks('city', { front: -1 }), /front setback/);
+    assert.throws(() => resolveSetbacks('city', { side: 60 }), /side setback/);
+  });
+});
+
+describe('planSite', () => {
+  it('keeps the front, rear and side setbacks on a rectangular plot', () => {
+    const site = planSite(form());
+    assert.deepEqual(site.edges, ['front', 'side', 'rear', 'side']);
+    assert.deepEqual(site.envelope, { x: 1, z: 3, width: 18, length: 25.5 });
+  });
+
+  it('treats the side street of a corner plot as a second front', () => {
+    const site = planSite(form({ plotShape: 'corner' }));
+    assert.deepEqual(site.edges, ['front', 'front', 'front', 'rear', 'side']);
+    assert.equal(site.envelope.x + site.envelope.width, 20 - 3);
+  });
+
+  it('keeps the envelope inside an irregular outline', () => {
+    const { boundary, envelope } = planSite(form({ plotShape: 'l-shaped', locationType: 'village' }));
+    // The rear of the east side belongs to a neighbour, so a deep house stays west of it
+    const notch = boundary.filter(point => point.x > 0 && point.x < 20)[0];
+    assert.ok(envelope.x + envelope.width <= notch.x - 2 + 1e-9);
+    assert.ok(envelope.z + envelope.length <= 30 - 3 + 1e-9);
+  });
+
+  it('moves a custom outline to the origin and turns it anticlockwise', () => {
+    const site = planSite(form({
+      plotBoundary: [{ x: 5, z: 5 }, { x: 5, z: 25 }, { x: 25, z: 25 }, { x: 25, z: 5 }],
+      setbacks: { front: 0, rear: 0, side: 0 }
+    }));
+    assert.deepEqual(site.boundary, [{ x: 20, z: 0 }, { x: 20, z: 20 }, { x: 0, z: 20 }, { x: 0, z: 0 }]);
+    assert.deepEqual(site.edges, ['side', 'rear', 'side', 'front']);
+    assert.deepEqual(site.envelope, { x: 0, z: 0, width: 20, length: 20 });
+    assert.equal(plotArea(site.boundary), 400);
+  });
+
+  it('explains why a plot cannot be built on', () => {
+    assert.match(validateSite(form({ setbacks: { side: 9 } })) || '', /no room to build/);
+    assert.match(validateSite(form({ plotBoundary: [{ x: 0, z: 0 }] })) || '', /between 3 and 50 corners/);
+    assert.match(
+      validateSite(form({ plotBoundary: [{ x: 0, z: 0 }, { x: 10, z: 10 }, { x: 10, z: 0 }, { x: 0, z: 10 }] })) || '',
+      /edges do not cross/
+    );
+    assert.equal(validateSite(form()), null);
+  });
+});
+
+describe('site placement', () => {
+  it('moves the plot so the house corner is the origin and bounds both', () => {
+    const site = moveSite(planSite(form()), { x: 1, z: 3 });
+    assert.deepEqual(site.boundary[0], { x: -1, z: -3 });
+    assert.deepEqual(site.envelope, { x: 0, z: 0, width: 18, length: 25.5 });
+    assert.deepEqual(siteBounds({ width: 10, length: 12, plot: site }), { minX: -1, maxX: 19, minZ: -3, maxZ: 27 });
+    assert.deepEqual(siteBounds({ width: 10, length: 12 }), { minX: 0, maxX: 10, minZ: 0, maxZ: 12 });
+  });
+});
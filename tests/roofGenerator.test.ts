@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoofGenerator } from '@/services/roofGenerator';
+import { Rect } from '@/services/layoutEngine';
+import { HouseLayout, Room, RoofSpec } from '@/types/house';
+
+// An L: a 10 m × 4 m front wing and a 4 m × 6 m wing behind its west end
+const L_SHAPE: Rect[] = [{ x: 0, z: 0, width: 10, length: 4 }, { x: 0, z: 4, width: 4, length: 6 }];
+
+const room = (id: string, rect: Rect): Room => ({
+  id,
+  name: id,
+  type: 'living',
+  floor: 0,
+  position: { x: rect.x, y: 0, z: rect.z },
+  dimensions: { width: rect.width, length: rect.length, height: 3 },
+  furniture: []
+});
+
+const layout: HouseLayout = {
+  width: 10,
+  length: 10,
+  height: 3,
+  floors: 1,
+  rooms: L_SHAPE.map((rect, i) => room(`room-${i + 1}`, rect)),
+  walls: [],
+  openings: [],
+  style: 'traditional'
+};
+
+const spec = (type: RoofSpec['type'], extra: Partial<RoofSpec> = {}): RoofSpec => ({
+  type,
+  pitch: type === 'flat' ? 0 : 30,
+  overhang: type === 'flat' ? 0 : 0.5,
+  material: 'CLAY_TILES',
+  ...extra
+});
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not ${expected}`);
+
+describe('RoofGenerator.wings', () => {
+  it('roofs an L as two overlapping wings, largest first, ridges along their longer sides', () => {
+    assert.deepEqual(RoofGenerator.wings(L_SHAPE, spec('gable')), [
+      { rect: { x: 0, z: 0, width: 4, length: 10 }, ridge: 'z' },
+      { rect: { x: 0, z: 0, width: 10, length: 4 }, ridge: 'x' }
+    ]);
+  });
+
+  it('turns only the first ridge the way the roof asks, and never a hip ridge', () => {
+    assert.deepEqual(RoofGenerator.wings(L_SHAPE, spec('gable', { ridge: 'x' })).map(wing => wing.ridge), ['x', 'x']);
+    assert.deepEqual(RoofGenerator.wings([{ x: 0, z: 0, width: 4, length: 8 }], spec('hip', { ridge: 'x' })).map(wing => wing.ridge), ['z']);
+  });
+});
+
+describe('RoofGenerator.build', () => {
+  it('stops a gable wing at the ridge of the wing it runs into', () => {
+    const plan = RoofGenerator.build(layout, spec('gable'));
+    assert.deepEqual(plan.wings[1].rect, { x: 2, z: 0, width: 8, length: 4 });
+    // Gables at both ends of the west wing and at the east end of the front wing
+    assert.equal(plan.walls.length, 3);
+    close(plan.height, 3 + 2 * Math.tan(Math.PI / 6));
+  });
+
+  it('stands a flat roof behind a parapet', () => {
+    const plan = RoofGenerator.build(layout, spec('flat'));
+    close(plan.height, 3 + RoofGenerator.PARAPET_HEIGHT);
+    assert.ok(plan.roofing.every(polygon => polygon.every(point => point.y > layout.height)));
+    assert.ok(plan.walls.length > 0);
+  });
+
+  it('gives designs without a roof their style default', () => {
+    assert.deepEqual(RoofGenerator.getSpec(layout), RoofGenerator.defaultSpec('traditional', 1));
+    assert.deepEqual(RoofGenerator.getSpec({ ...layout, roof: spec('hip') }), spec('hip'));
+    assert.equal(RoofGenerator.defaultSpec('modern', 2).type, 'flat');
+  });
+});
+
+describe('RoofGenerator.roofArea', () => {
+  it('measures a flat roof as the footprint it covers', () => {
+    close(RoofGenerator.roofArea(L_SHAPE, spec('flat')), 64);
+  });
+
+  it('measures a pitched roof along the slope, eaves included, without counting overlaps twice', () => {
+    // The L grown by the 0.5 m overhang: 11 × 5 and 5 × 7, overlapping in 5 × 1
+    const covered = 11 * 5 + 5 * 7 - 5 * 1;
+    close(RoofGenerator.roofArea(L_SHAPE, spec('gable')), covered / Math.cos(Math.PI / 6));
+    close(RoofGenerator.build(layout, spec('hip')).area, covered / Math.cos(Math.PI / 6));
+  });
+});
+
+describe('RoofGenerator.validateSpec', () => {
+  it('accepts every roof type and material', () => {
+    ['gable', 'hip', 'shed', 'flat'].forEach(type => assert.equal(RoofGenerator.validateSpec(spec(type as RoofSpec['type'])), null));
+    assert.equal(RoofGenerator.validateSpec(spec('shed', { ridge: 'z', material: 'METAL_ROOFING' })), null);
+  });
+
+  it('explains what is wrong with a roof', () => {
+    assert.match(RoofGenerator.validateSpec(null) || '', /must be an object/);
+    assert.match(RoofGenerator.validateSpec(spec('dome' as RoofSpec['type'])) || '', /type must be one of/);
+    assert.match(RoofGenerator.validateSpec(spec('gable', { pitch: 75 })) || '', /between 0 and 60 degrees/);
+    assert.match(RoofGenerator.validateSpec(spec('gable', { pitch: 0 })) || '', /use a flat roof/);
+    assert.match(RoofGenerator.validateSpec(spec('hip', { overhang: 2 })) || '', /overhang must be between 0 and 1.5 m/);
+    assert.match(RoofGenerator.validateSpec(spec('hip', { ridge: 'y' as 'x' })) || '', /ridge must be/);
+    assert.match(RoofGenerator.validateSpec(spec('hip', { material: 'THATCH' as RoofSpec['material'] })) || '', /material must be one of/);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoomEditor, RoomEdit } from '@/services/roomEditor';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { HouseLayout, Room } from '@/types/house';
+
+// Kitchen, dining and living rooms along the street, a hallway behind them and bedrooms at the rear
+const layout = HouseGenerator.generateHouse({
+  plotSize: '20x30',
+  houseType: 'single',
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: ''
+}, 1);
+
+const byId = (edited: HouseLayout, id: string) => edited.rooms.filter(room => room.id === id)[0];
+
+function edited(edit: RoomEdit): HouseLayout {
+  assert.ok('layout' in edit, 'error' in edit ? edit.error : '');
+  return edit.layout;
+}
+
+function assertNoOverlaps(rooms: Room[]) {
+  rooms.forEach(a => rooms.forEach(b => {
+    const overlaps = a !== b && a.floor === b.floor &&
+      a.position.x < b.position.x + b.dimensions.width - 1e-6 && b.position.x < a.position.x + a.dimensions.width - 1e-6 &&
+      a.position.z < b.position.z + b.dimensions.length - 1e-6 && b.position.z < a.position.z + a.dimensions.length - 1e-6;
+    assert.ok(!overlaps, `${a.name} overlaps ${b.name}`);
+  }));
+}
+
+describe('RoomEditor.resize', () => {
+  it('moves a wall to the 10 cm grid and takes the room on the other side with it', () => {
+    const living = byId(layout, 'living-1');
+    const dining = byId(layout, 'dining-1');
+    const result = edited(RoomEditor.resize(layout, 'living-1', 'west', 5.04));
+
+    assert.equal(byId(result, 'living-1').position.x, 5);
+    assert.ok(Math.abs(byId(result, 'living-1').position.x + byId(result, 'living-1').dimensions.width - (living.position.x + living.dimensions.width)) < 1e-9);
+    assert.ok(Math.abs(byId(result, 'dining-1').position.x + byId(result, 'dining-1').dimensions.width - 5) < 1e-9);
+    assert.equal(byId(result, 'dining-1').position.x, dining.position.x);
+    assertNoOverlaps(result.rooms);
+    assert.ok(result.walls.some(wall => !wall.exterior && Math.abs(wall.start.x - 5) < 1e-9 && Math.abs(wall.end.x - 5) < 1e-9));
+  });
+
+  it('keeps outside walls put and rooms at least the narrowest side', () => {
+    assert.deepEqual(RoomEditor.resize(layout, 'living-1', 'east', 5), { error: 'Outside walls stay where they are' });
+    assert.deepEqual(RoomEditor.resize(layout, 'living-1', 'west', 11), { error: 'Living Room would be narrower than 1.2 m' });
+    // The hallway on the other side of the bedroom's south wall would shrink too
+    assert.deepEqual(RoomEditor.resize(layout, 'bedroom-1', 'south', 4), { error: 'Hallway would be narrower than 1.2 m' });
+    assert.deepEqual(RoomEditor.resize(layout, 'missing', 'west', 1), { error: 'That room is no longer in the layout' });
+  });
+});
+
+describe('RoomEditor.split and merge', () => {
+  it('splits a room into two halves, naming the new one after its type', () => {
+    const result = edited(RoomEditor.split(layout, 'living-1', 'east-west'));
+    const west = byId(result, 'living-1');
+    const east = byId(result, 'living-2');
+    assert.equal(west.name, 'Living Room');
+    assert.equal(east.name, 'Living Room 2');
+    assert.ok(Math.abs(west.position.x + west.dimensions.width - east.position.x) < 1e-9);
+    assert.ok(Math.abs(west.dimensions.width + east.dimensions.width - byId(layout, 'living-1').dimensions.width) < 1e-9);
+    assertNoOverlaps(result.rooms);
+    assert.ok(result.openings.some(opening => opening.roomId === 'living-2' || opening.connectsTo === 'living-2'));
+
+    assert.deepEqual(RoomEditor.split(layout, 'bathroom-1', 'east-west'), {
+      error: 'Bathroom 1 is too small to split into west and east halves'
+    });
+  });
+
+  it('merges neighbours that make a rectangle together', () => {
+    assert.deepEqual(RoomEditor.neighbours(layout, byId(layout, 'dining-1')).map(room => room.id), ['living-1', 'kitchen-1']);
+
+    const result = edited(RoomEditor.merge(layout, 'living-1', 'dining-1'));
+    const merged = byId(result, 'living-1');
+    assert.equal(byId(result, 'dining-1'), undefined);
+    assert.equal(merged.position.x, byId(layout, 'dining-1').position.x);
+    assert.equal(merged.position.x + merged.dimensions.width, layout.width);
+    assertNoOverlaps(result.rooms);
+  });
+
+  it('refuses merges that leave no rectangle or no hallway', () => {
+    assert.deepEqual(RoomEditor.merge(layout, 'living-1', 'kitchen-1'), {
+      error: 'Living Room and Kitchen 1 do not make a rectangle together'
+    });
+    assert.deepEqual(RoomEditor.merge(layout, 'living-1', 'hallway-1'), {
+      error: 'Hallway connects the rooms on its floor, so it cannot be merged away'
+    });
+  });
+});
+
+describe('RoomEditor.retype', () => {
+  it('renames and refurnishes a room for its new use', () => {
+    const result = edited(RoomEditor.retype(layout, 'bedroom-3', 'study'));
+    const study = byId(result, 'bedroom-3');
+    assert.equal(study.type, 'study');
+    assert.equal(study.name, 'Study');
+    assert.notDeepEqual(study.furniture.map(item => item.name), byId(layout, 'bedroom-3').furniture.map(item => item.name));
+  });
+
+  it('refuses a change that does nothing or leaves a floor without a hallway', () => {
+    assert.deepEqual(RoomEditor.retype(layout, 'bedroom-3', 'bedroom'), { error: 'Bedroom 3 is already a bedroom' });
+    assert.deepEqual(RoomEditor.retype(layout, 'hallway-1', 'study'), {
+      error: 'Hallway connects the rooms on its floor, so it has to stay a hallway'
+    });
+  });
+});
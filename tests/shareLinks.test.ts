@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildStoredShareUrl,
+  buildEmbeddedShareUrl,
+  parseShareLocation,
+  encodeSharedDesign,
+  decodeSharedDesign
+} from '@/utils/shareLinks';
+import { HouseGenerator } from '@/services/houseGenerator';
+import { DesignInput, HouseFormData } from '@/types/house';
+
+const formData: HouseFormData = {
+  plotSize: '20x30',
+  houseType: 'double',
+  bedrooms: 3,
+  bathrooms: 2,
+  kitchens: 1,
+  locationType: 'city',
+  extraNotes: 'study'
+};
+const design: DesignInput = {
+  name: 'Family house',
+  formData,
+  layout: HouseGenerator.generateHouse(formData, 7),
+  tourWaypoints: [{ position: [1, 1.6, 2], lookAt: [3, 1.6, 4], duration: 2, roomName: 'Living Room' }]
+};
+
+// Deflates a design the way encodeSharedDesign does, without its checks
+async function encodeRaw(data: unknown): Promise<string> {
+  const output = new Blob([JSON.stringify(data)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return Buffer.from(await new Response(output).arrayBuffer()).toString('base64url');
+}
+
+describe('share links', () => {
+  it('round-trips a design through the URL hash, to the millimetre', async () => {
+    const decoded = await decodeSharedDesign(await encodeSharedDesign(design));
+    assert.equal(decoded.name, design.name);
+    assert.deepEqual(decoded.formData, design.formData);
+    assert.deepEqual(decoded.tourWaypoints, design.tourWaypoints);
+    assert.equal(decoded.layout.rooms.length, design.layout.rooms.length);
+    decoded.layout.rooms.forEach((room, i) => {
+      assert.equal(room.id, design.layout.rooms[i].id);
+      assert.ok(Math.abs(room.dimensions.width - design.layout.rooms[i].dimensions.width) <= 0.0005);
+    });
+  });
+
+  it('reads both kinds of link back from the page location', async () => {
+    const stored = new URL(buildStoredShareUrl('https://example.com/', 'abc'));
+    assert.deepEqual(await parseShareLocation(stored), { kind: 'stored', id: 'abc' });
+
+    const embedded = new URL(await buildEmbeddedShareUrl('https://example.com/', design));
+    const link = await parseShareLocation(embedded);
+    assert.ok(link && link.kind === 'embedded');
+    assert.equal(link.design.name, design.name);
+
+    assert.equal(await parseShareLocation({ search: '', hash: '#top' }), null);
+  });
+
+  it('rejects damaged links and designs the design routes would refuse', async () => {
+    await assert.rejects(decodeSharedDesign('not-a-design'), /damaged or incomplete/);
+    await assert.rejects(decodeSharedDesign(await encodeRaw({ v: 99, ...design })), /not a supported design/);
+    await assert.rejects(decodeSharedDesign(await encodeRaw({ v: 1, ...design, name: '' })), /name is required/);
+    await assert.rejects(decodeSharedDesign(await encodeRaw({ v: 1, ...design, formData: {} })), /Form data/);
+    await assert.rejects(
+      decodeSharedDesign(await encodeRaw({ v: 1, ...design, layout: { ...design.layout, walls: [{ id: 'wall' }] } })),
+      /Wall 1 /
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePlotSize, validatePlotSize, preferredUnit, formatLength, formatArea } from '@/utils/units';
+
+function assertSides(input: string, width: number, length: number, displayUnit: 'm' | 'ft') {
+  const plot = parsePlotSize(input);
+  assert.ok(Math.abs(plot.width - width) < 1e-6, `${input}: width ${plot.width}, expected ${width}`);
+  assert.ok(Math.abs(plot.length - length) < 1e-6, `${input}: length ${plot.length}, expected ${length}`);
+  assert.equal(plot.displayUnit, displayUnit, input);
+}
+
+describe('parsePlotSize', () => {
+  it('reads plain numbers as meters', () => {
+    assertSides('20x30', 20, 30, 'm');
+    assertSides(' 12.5 X 40 ', 12.5, 40, 'm');
+    assertSides('15 × 25', 15, 25, 'm');
+    assertSides('10 by 20', 10, 20, 'm');
+  });
+
+  it('reads a unit on either side, or on both', () => {
+    assertSides('10m x 15m', 10, 15, 'm');
+    assertSides('30x60 ft', 9.144, 18.288, 'ft');
+    assertSides("30' x 60'", 9.144, 18.288, 'ft');
+    assertSides('20 yd x 30 yards', 18.288, 27.432, 'ft');
+    assertSides('30 ft x 10 m', 9.144, 10, 'ft');
+  });
+
+  it('lays out an area as a plot 1.5 times as deep as it is wide', () => {
+    const plot = parsePlotSize('600 sq m');
+    assertSides('600 sq m', 20, 30, 'm');
+    assert.ok(Math.abs(plot.width * plot.length - 600) < 1e-6);
+
+    const marla = parsePlotSize('5 marla');
+    assert.ok(Math.abs(marla.width * marla.length - 5 * 225 * 0.09290304) < 1e-6);
+    assert.equal(marla.displayUnit, 'ft');
+
+    const kanal = parsePlotSize('1 kanal');
+    assert.ok(Math.abs(kanal.width * kanal.length - 20 * 225 * 0.09290304) < 1e-6);
+    assert.equal(parsePlotSize('2400 sqft').displayUnit, 'ft');
+  });
+
+  it('reads a single length as a square plot', () => {
+    assertSides('25', 25, 25, 'm');
+    assertSides('100 feet', 30.48, 30.48, 'ft');
+  });
+
+  it('explains what it cannot use', () => {
+    assert.throws(() => parsePlotSize('   '), /required/);
+    assert.throws(() => parsePlotSize('big'), /Could not understand the plot size "big"/);
+    assert.throws(() => parsePlotSize('20x30 furlongs'), /Could not understand/);
+    assert.throws(() => parsePlotSize('0x30'), /greater than zero/);
+    assert.throws(() => parsePlotSize('3x30'), /between 5 m and 1000 m/);
+    assert.throws(() => parsePlotSize('10 x 2000'), /between/);
+  });
+
+  it('states the side limits in the unit the plot was given in', () => {
+    assert.throws(() => parsePlotSize('10 ft x 60 ft'), /between 16 ft and 3281 ft/);
+  });
+});
+
+describe('validatePlotSize', () => {
+  it('returns null for a usable size and the problem otherwise', () => {
+    assert.equal(validatePlotSize('20x30'), null);
+    assert.equal(validatePlotSize('5 marla'), null);
+    assert.match(validatePlotSize('abc') || '', /Could not understand/);
+    assert.match(validatePlotSize('') || '', /required/);
+  });
+});
+
+describe('display units', () => {
+  it('shows feet for plots given in imperial or regional units, meters otherwise', () => {
+    assert.equal(preferredUnit('30x60 ft'), 'ft');
+    assert.equal(preferredUnit('5 marla'), 'ft');
+    assert.equal(preferredUnit('20x30'), 'm');
+    assert.equal(preferredUnit('nonsense'), 'm');
+  });
+
+  it('formats lengths and areas in the unit', () => {
+    assert.equal(formatLength(12.5, 'm'), '12.5 m');
+    assert.equal(formatLength(10, 'ft'), '32.8 ft');
+    assert.equal(formatArea(120, 'm'), '120 m²');
+    assert.equal(formatArea(120, 'ft'), '1292 sq ft');
+  });
+});
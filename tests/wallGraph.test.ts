@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WallGraph } from '@/services/wallGraph';
+import { Room, WallSegment } from '@/types/house';
+
+const THICKNESS = { exterior: 0.25, interior: 0.1 };
+
+function room(id: string, x: number, z: number, width: number, length: number, floor = 0): Room {
+  return {
+    id,
+    name: id,
+    type: 'bedroom',
+    floor,
+    position: { x, y: floor * 3, z },
+    dimensions: { width, length, height: 3 },
+    furniture: []
+  };
+}
+
+// Walls as "x1,z1-x2,z2 south-or-west|north-or-east" for readable comparisons
+const describeWalls = (walls: WallSegment[]) =>
+  walls.map(wall => `${wall.start.x},${wall.start.z}-${wall.end.x},${wall.end.z} ${wall.rooms[0] || '-'}|${wall.rooms[1] || '-'}`).sort();
+
+describe('WallGraph.build', () => {
+  it('keeps a wall between two rooms once and splits outside walls per room', () => {
+    const walls = WallGraph.build([room('a', 0, 0, 4, 3), room('b', 4, 0, 3, 3)], THICKNESS);
+    assert.deepEqual(describeWalls(walls), [
+      '0,0-0,3 -|a',
+      '0,0-4,0 -|a',
+      '0,3-4,3 a|-',
+      '4,0-4,3 a|b',
+      '4,0-7,0 -|b',
+      '4,3-7,3 b|-',
+      '7,0-7,3 b|-'
+    ]);
+
+    const shared = walls.filter(wall => wall.rooms[0] && wall.rooms[1]);
+    assert.equal(shared.length, 1);
+    assert.equal(shared[0].exterior, false);
+    assert.equal(shared[0].thickness, THICKNESS.interior);
+    walls.filter(wall => wall !== shared[0]).forEach(wall => {
+      assert.equal(wall.exterior, true);
+      assert.equal(wall.thickness, THICKNESS.exterior);
+    });
+  });
+
+  it('splits a line where the room on one side ends', () => {
+    const walls = WallGraph.build([room('a', 0, 0, 4, 3), room('b', 0, 3, 2, 3)], THICKNESS);
+    const line = describeWalls(walls.filter(wall => wall.start.z === 3 && wall.end.z === 3));
+    assert.deepEqual(line, ['0,3-2,3 a|b', '2,3-4,3 a|-']);
+  });
+
+  it('numbers walls per floor and never joins floors', () => {
+    const walls = WallGraph.build([room('up', 0, 0, 4, 4, 1), room('down', 0, 0, 4, 4, 0)], THICKNESS);
+    assert.deepEqual(walls.map(wall => wall.id), ['wall-0-1', 'wall-0-2', 'wall-0-3', 'wall-0-4', 'wall-1-1', 'wall-1-2', 'wall-1-3', 'wall-1-4']);
+    assert.ok(walls.every(wall => wall.rooms.indexOf(wall.floor === 0 ? 'down' : 'up') >= 0));
+  });
+});
+
+describe('WallGraph helpers', () => {
+  const walls = WallGraph.build([room('a', 0, 0, 4, 3), room('b', 4, 0, 3, 3)], THICKNESS);
+
+  it('finds the wall covering a point on a line', () => {
+    assert.deepEqual(WallGraph.findWall(walls, 0, 'x', 0, 5)!.rooms, [null, 'b']);
+    assert.deepEqual(WallGraph.findWall(walls, 0, 'z', 4, 1.5)!.rooms, ['a', 'b']);
+    assert.equal(WallGraph.findWall(walls, 0, 'x', 1.5, 2), undefined);
+    assert.equal(WallGraph.findWall(walls, 1, 'x', 0, 2), undefined);
+  });
+
+  it('measures a wall and tells which way it runs', () => {
+    const shared = walls.filter(wall => wall.rooms[0] === 'a' && wall.rooms[1] === 'b')[0];
+    assert.equal(WallGraph.axisOf(shared), 'z');
+    assert.equal(WallGraph.lengthOf(shared), 3);
+    assert.equal(WallGraph.axisOf(walls.filter(wall => wall.start.z === 0)[0]), 'x');
+  });
+});
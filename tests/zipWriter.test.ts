@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeZip } from '@/utils/zipWriter';
+
+interface ZipEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// The files in a stored zip, read through its central directory
+function readZip(zip: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(zip);
+  const end = zip.byteLength - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50, 'end of central directory');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(offset, true), 0x02014b50, 'central directory header');
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(new Uint8Array(zip, offset + 46, nameLength));
+    const local = view.getUint32(offset + 42, true);
+
+    assert.equal(view.getUint32(local, true), 0x04034b50, 'local header');
+    assert.equal(view.getUint16(local + 8, true), 0, 'stored');
+    assert.equal(view.getUint32(local + 14, true), crc, 'local and central checksums agree');
+    const start = local + 30 + view.getUint16(local + 26, true);
+    entries.push({ name, crc, data: new Uint8Array(zip, start, size) });
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('encodeZip', () => {
+  it('stores every file under its path with its contents and checksum', () => {
+    const encoder = new TextEncoder();
+    const entries = readZip(encodeZip({
+      'hello.txt': encoder.encode('hello world'),
+      'plans/floor-1.svg': encoder.encode('<svg/>'),
+      'empty.bin': new Uint8Array(0)
+    }));
+
+    assert.deepEqual(entries.map(entry => entry.name), ['hello.txt', 'plans/floor-1.svg', 'empty.bin']);
+    assert.equal(new TextDecoder().decode(entries[0].data), 'hello world');
+    assert.equal(entries[0].crc, 0x0d4a1185);
+    assert.equal(new TextDecoder().decode(entries[1].data), '<svg/>');
+    assert.equal(entries[2].data.byteLength, 0);
+    assert.equal(entries[2].crc, 0);
+  });
+
+  it('keeps binary contents byte for byte and names in UTF-8', () => {
+    const bytes = new Uint8Array(256).map((_, i) => i);
+    const [entry] = readZip(encodeZip({ 'Ansicht über.png': bytes }));
+    assert.equal(entry.name, 'Ansicht über.png');
+    assert.deepEqual(Array.from(entry.data), Array.from(bytes));
+  });
+
+  it('writes an empty archive as only the end record', () => {
+    const zip = encodeZip({});
+    assert.equal(zip.byteLength, 22);
+    assert.deepEqual(readZip(zip), []);
+  });
+});
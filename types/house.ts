@@ -7,6 +7,38 @@ export interface HouseFormData {
   kitchens: number;
   locationType: 'city' | 'village';
   extraNotes: string;
+  plotShape?: PlotShape; // Outline drawn within the plot size; rectangular when not given
+  plotBoundary?: PlotPoint[]; // Custom plot outline in meters, used instead of the plot shape
+  setbacks?: Partial<Setbacks>; // Defaults for the location type fill in any not given
+  roof?: RoofSpec; // The style's default roof when not given
+}
+
+// Unit lengths are shown in; layouts themselves are always in meters
+export type LengthUnit = 'm' | 'ft';
+
+export type PlotShape = 'rectangle' | 'l-shaped' | 'trapezoid' | 'corner';
+
+export interface PlotPoint {
+  x: number;
+  z: number;
+}
+
+// Distances in meters the house must keep from each kind of plot edge
+export interface Setbacks {
+  front: number; // From the street
+  rear: number;
+  side: number;
+}
+
+// Which setback applies to a plot edge; corner plots have a second front along the side street
+export type PlotEdgeKind = keyof Setbacks;
+
+// Plot the house stands on, in the same coordinates as the rooms
+export interface SitePlan {
+  boundary: PlotPoint[]; // Plot corners in order around the plot
+  edges: PlotEdgeKind[]; // Kind of the edge from each corner to the next
+  setbacks: Setbacks;
+  envelope: { x: number; z: number; width: number; length: number }; // Largest rectangle clear of the setbacks
 }
 
 // House layout configuration
@@ -16,14 +48,63 @@ export interface HouseLayout {
   height: number;
   floors: number;
   rooms: Room[];
+  walls: WallSegment[];
+  openings: Opening[];
   style: 'modern' | 'traditional';
+  plot?: SitePlan; // Missing for designs saved before plots had outlines
+  roof?: RoofSpec; // Missing for designs saved before roofs were generated; the style's default applies
+}
+
+export type RoofType = 'gable' | 'hip' | 'shed' | 'flat';
+
+// Roofing material, named after its preset in utils/materials
+export type RoofMaterial = 'CLAY_TILES' | 'METAL_ROOFING';
+
+// Roof over the top floor; a flat roof stands behind a parapet and has no pitch or overhang
+export interface RoofSpec {
+  type: RoofType;
+  pitch: number; // Degrees from level
+  overhang: number; // Meters the eaves reach past the outside walls
+  ridge?: 'x' | 'z'; // Axis the ridge, or a shed roof's high side, runs along; the longer side when not given
+  material: RoofMaterial;
+}
+
+// Side of a room; south faces the street (z = 0) and east is +x
+export type WallSide = 'north' | 'south' | 'east' | 'west';
+
+// Straight run of wall between two points, shared by the rooms on either side.
+// Walls along x run west to east, walls along z run south to north.
+export interface WallSegment {
+  id: string;
+  floor: number;
+  start: { x: number; z: number };
+  end: { x: number; z: number };
+  height: number;
+  thickness: number;
+  exterior: boolean;
+  rooms: [string | null, string | null]; // [south or west side, north or east side]; null is outside
+}
+
+// Door or window cut into a room wall
+export interface Opening {
+  id: string;
+  type: 'door' | 'window';
+  wallId: string; // Wall segment the opening is cut into
+  roomId: string; // Room whose wall holds the opening
+  connectsTo?: string; // Room on the other side, omitted for exterior openings
+  wall: WallSide;
+  offset: number; // Distance from the west/south end of the wall to the opening centre
+  width: number;
+  height: number;
+  sillHeight: number; // 0 for doors
 }
 
 // Room configuration
 export interface Room {
   id: string;
   name: string;
-  type: 'bedroom' | 'bathroom' | 'kitchen' | 'living' | 'dining' | 'hallway';
+  type: 'bedroom' | 'bathroom' | 'kitchen' | 'living' | 'dining' | 'hallway' | 'staircase' | 'garage' | 'prayer' | 'study';
+  floor: number; // 0 = ground floor
   position: {
     x: number;
     y: number;
@@ -35,6 +116,18 @@ export interface Room {
     height: number;
   };
   furniture: Furniture[];
+  finish?: RoomFinish; // Missing in designs saved before finishes; the room type's defaults apply
+}
+
+// Surface material, named after its preset in utils/materials
+export type FinishMaterial =
+  | 'HARDWOOD_FLOOR' | 'CERAMIC_TILE' | 'CARPET' | 'STONE_TILE' | 'MODERN_CONCRETE'
+  | 'PAINTED_PLASTER' | 'STUCCO_WHITE' | 'TRADITIONAL_BRICK' | 'WOOD_PANELLING';
+
+// Floor and wall finishes of a room
+export interface RoomFinish {
+  floor: FinishMaterial;
+  walls: FinishMaterial;
 }
 
 // Furniture configuration
@@ -42,6 +135,7 @@ export interface Furniture {
   id: string;
   name: string;
   type: 'bed' | 'sofa' | 'table' | 'chair' | 'cabinet' | 'appliance';
+  catalogId?: string; // Furniture catalog entry it was made from; missing in designs saved before the catalog
   position: {
     x: number;
     y: number;
@@ -63,17 +157,160 @@ export interface TourWaypoint {
   roomName: string;
 }
 
+// Requirement understood from the extra notes
+export type LayoutConstraint =
+  | { kind: 'ensuite' } // Master bedroom with its own bathroom
+  | { kind: 'open-kitchen' } // No wall between the kitchen and the living or dining room
+  | { kind: 'garage'; cars: number }
+  | { kind: 'extra-room'; roomType: 'prayer' | 'study' }
+  | { kind: 'facing'; roomType: Room['type']; side: WallSide; master?: boolean }; // Rooms with a window on that side; only the master bedroom when master is set
+
+// What became of the extra notes in a generated layout
+export interface NotesReport {
+  applied: string[];
+  notApplied: string[]; // Understood but not possible in this layout, with the reason
+  notUnderstood: string[]; // Parts of the notes no rule recognised
+}
+
+// How well a layout meets one room adjacency preference
+export interface AdjacencyScore {
+  rule: string; // e.g. 'kitchen-dining'
+  label: string;
+  score: number; // 0 (not met) to 1 (fully met)
+  weight: number;
+}
+
+// Adjacency scores of a layout; score is the weighted mean of the rules that apply
+export interface AdjacencyReport {
+  score: number;
+  rules: AdjacencyScore[];
+}
+
+// Minimums (and maximums) a layout is checked against, in meters unless noted
+export interface BuildingCodeLimits {
+  minBedroomArea: number; // Square meters
+  recommendedBedroomArea: number; // Smaller bedrooms pass but are flagged as cramped
+  minBedroomWidth: number;
+  minCeilingHeight: number;
+  maxStairRiser: number;
+  minStairTread: number;
+  minStairWidth: number;
+  minLandingDepth: number;
+  minWindowRatio: number; // Window area per floor area of living spaces
+  maxCoverage: number; // House footprint per plot area
+}
+
+// Something in a layout that breaks a code minimum, or that only hurts livability
+export interface CodeIssue {
+  rule: string;
+  severity: 'violation' | 'warning';
+  message: string;
+  roomIds: string[]; // Rooms to highlight, empty for issues with the house as a whole
+}
+
+export interface CodeReport {
+  passed: boolean; // No violations, though there may be warnings
+  issues: CodeIssue[];
+  checked: string[]; // Labels of the rules that applied to the layout
+}
+
+// Unit a quantity is measured and priced in
+export type CostUnit = 'm²' | 'each';
+
+export interface CostRate {
+  label: string;
+  unit: CostUnit;
+  rate: number; // Price per unit in the table's currency
+}
+
+// Unit rates by item code, e.g. 'floor:CERAMIC_TILE' or 'door-interior'
+export interface RateTable {
+  currency: string;
+  rates: Record<string, CostRate>;
+}
+
+// Amounts measured from a layout before any pricing
+export interface LayoutQuantities {
+  footprint: number; // Square meters
+  upperFloorArea: number;
+  exteriorWallArea: number; // Net of doors and windows
+  interiorWallArea: number;
+  floorAreas: Record<string, number>; // By material preset name
+  roofArea: number;
+  doors: { interior: number; exterior: number; garage: number };
+  windows: { count: number; area: number };
+  staircases: number;
+  furniture: Record<string, number>; // By furniture type
+}
+
+// Line of a bill of quantities
+export interface BillItem {
+  code: string; // Rate table entry the item is priced from
+  section: 'Structure' | 'Walls' | 'Floors' | 'Roof' | 'Doors and windows' | 'Furniture';
+  description: string;
+  quantity: number;
+  unit: CostUnit;
+  rate: number;
+  amount: number;
+}
+
+export interface CostEstimate {
+  currency: string;
+  items: BillItem[];
+  total: number;
+  quantities: LayoutQuantities;
+}
+
+// One of several layouts generated for the same form data
+export interface HouseVariant {
+  seed: number;
+  layout: HouseLayout;
+  tourWaypoints: TourWaypoint[];
+  notes: NotesReport;
+  adjacency: AdjacencyReport;
+}
+
 // House generation response
 export interface HouseGenerationResponse {
   success: boolean;
   layout: HouseLayout;
   tourWaypoints: TourWaypoint[];
+  seed: number; // Regenerating with this seed and the same form data gives the same house
+  variants?: HouseVariant[]; // Only when several variants were requested; the first matches layout
+  notes: NotesReport;
+  adjacency: AdjacencyReport;
+  codeReport: CodeReport; // Checked against the default limits
+  displayUnit: LengthUnit; // Preferred from the units the plot size was given in
   error?: string;
 }
 
+// Design saved to the local design store
+export interface SavedDesign {
+  id: string;
+  name: string;
+  formData: HouseFormData;
+  layout: HouseLayout;
+  tourWaypoints: TourWaypoint[];
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+// Content of a design as it is saved or shared
+export type DesignInput = Pick<SavedDesign, 'name' | 'formData' | 'layout' | 'tourWaypoints'>;
+
+// Saved design without its layout, as listed in the gallery
+export type SavedDesignSummary = Omit<SavedDesign, 'layout' | 'tourWaypoints'> & {
+  style: HouseLayout['style'];
+  floors: number;
+  roomCount: number;
+};
+
 // Form validation errors
 export interface FormErrors {
   plotSize?: string;
+  plotShape?: string;
+  setbacks?: string;
+  roof?: string;
   houseType?: string;
   bedrooms?: string;
   bathrooms?: string;
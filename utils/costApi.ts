@@ -0,0 +1,31 @@
+/**
+ * Cost API Client
+ * Browser-side calls to the unit rate table the cost estimator prices from
+ */
+
+import { RateTable } from '@/types/house';
+import { request } from '@/utils/designApi';
+
+/**
+ * Load the current rate table
+ */
+export async function loadRates(): Promise<RateTable> {
+  const data = await request('/api/rates');
+  return data.rates;
+}
+
+/**
+ * Save changed rates or currency, returning the whole table
+ */
+export async function saveRates(changes: { currency?: string; rates?: Record<string, { rate: number }> }): Promise<RateTable> {
+  const data = await request('/api/rates', { method: 'PUT', body: JSON.stringify(changes) });
+  return data.rates;
+}
+
+/**
+ * Go back to the default rates
+ */
+export async function resetRates(): Promise<RateTable> {
+  const data = await request('/api/rates', { method: 'DELETE' });
+  return data.rates;
+}
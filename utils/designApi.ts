@@ -0,0 +1,68 @@
+/**
+ * Design API Client
+ * Browser-side calls to the saved designs API
+ */
+
+import { SavedDesign, SavedDesignSummary, DesignInput } from '@/types/house';
+
+/**
+ * List saved designs, most recently updated first
+ */
+export async function listDesigns(): Promise<SavedDesignSummary[]> {
+  const data = await request('/api/designs');
+  return data.designs;
+}
+
+/**
+ * Load a saved design with its layout and tour
+ */
+export async function loadDesign(id: string): Promise<SavedDesign> {
+  const data = await request(`/api/designs/${encodeURIComponent(id)}`);
+  return data.design;
+}
+
+/**
+ * Save a new design
+ */
+export async function createDesign(input: DesignInput): Promise<SavedDesign> {
+  const data = await request('/api/designs', { method: 'POST', body: JSON.stringify(input) });
+  return data.design;
+}
+
+/**
+ * Update some fields of a saved design
+ */
+export async function updateDesign(id: string, changes: Partial<DesignInput>): Promise<SavedDesign> {
+  const data = await request(`/api/designs/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(changes) });
+  return data.design;
+}
+
+/**
+ * Delete a saved design
+ */
+export async function deleteDesign(id: string): Promise<void> {
+  await request(`/api/designs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/**
+ * Call the API and unwrap its { success, error } envelope
+ */
+export async function request(url: string, init: RequestInit = {}) {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Server error (${response.status})`);
+  }
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Server error (${response.status})`);
+  }
+
+  return data;
+}
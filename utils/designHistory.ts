@@ -0,0 +1,157 @@
+/**
+ * Design History
+ * Every change to a design is recorded as a command holding the version of
+ * the design before and after it, so changes can be undone and redone
+ * without limit. Named snapshots keep a version aside to restore or compare
+ * against later.
+ */
+
+import { HouseLayout, HouseFormData, TourWaypoint, NotesReport, AdjacencyReport, Room } from '@/types/house';
+
+export type DesignChange = 'generate' | 'regenerate' | 'variant' | 'edit' | 'restore' | 'open';
+
+// Everything that makes up one version of a design
+export interface DesignVersion {
+  layout: HouseLayout;
+  tourWaypoints: TourWaypoint[];
+  formData: HouseFormData;
+  seed: number | null;
+  notes: NotesReport | null;
+  adjacency: AdjacencyReport | null;
+}
+
+export interface HistoryCommand {
+  id: number;
+  kind: DesignChange;
+  label: string;
+  createdAt: string;
+  before: DesignVersion | null; // Null for the version a history starts from, which cannot be undone
+  after: DesignVersion;
+}
+
+export interface NamedSnapshot {
+  id: number;
+  name: string;
+  createdAt: string;
+  version: DesignVersion;
+}
+
+export interface DesignHistory {
+  done: HistoryCommand[]; // Oldest first; the last one is the version being shown
+  undone: HistoryCommand[]; // Next to redo first
+  snapshots: NamedSnapshot[];
+  nextId: number;
+}
+
+// A version that can be picked for comparison: 'change:<id>' or 'snapshot:<id>'
+export interface VersionOption {
+  key: string;
+  label: string;
+  version: DesignVersion;
+}
+
+// How the rooms of one layout differ from another's, matched by room id
+export interface LayoutComparison {
+  added: string[]; // Ids of rooms only in the newer layout
+  changed: string[]; // Ids of rooms in both that moved, were resized, retyped, renamed, refinished or refurnished
+  removed: Room[]; // Rooms only in the older layout
+}
+
+export function createHistory(): DesignHistory {
+  return { done: [], undone: [], snapshots: [], nextId: 1 };
+}
+
+/**
+ * Record a change; anything that was undone can no longer be redone
+ */
+export function recordChange(history: DesignHistory, kind: DesignChange, label: string, before: DesignVersion | null, after: DesignVersion): DesignHistory {
+  const command: HistoryCommand = { id: history.nextId, kind, label, createdAt: new Date().toISOString(), before, after };
+  return { ...history, done: [...history.done, command], undone: [], nextId: history.nextId + 1 };
+}
+
+export function canUndo(history: DesignHistory): boolean {
+  return history.done.length > 0 && history.done[history.done.length - 1].before !== null;
+}
+
+export function canRedo(history: DesignHistory): boolean {
+  return history.undone.length > 0;
+}
+
+/**
+ * Step back over the last change, giving the version to show, or null if there is nothing to undo
+ */
+export function undoChange(history: DesignHistory): { history: DesignHistory; version: DesignVersion } | null {
+  if (!canUndo(history)) {
+    return null;
+  }
+  const command = history.done[history.done.length - 1];
+  return {
+    history: { ...history, done: history.done.slice(0, -1), undone: [command, ...history.undone] },
+    version: command.before!
+  };
+}
+
+/**
+ * Apply the last undone change again, giving the version to show, or null if there is nothing to redo
+ */
+export function redoChange(history: DesignHistory): { history: DesignHistory; version: DesignVersion } | null {
+  if (!canRedo(history)) {
+    return null;
+  }
+  const command = history.undone[0];
+  return {
+    history: { ...history, done: [...history.done, command], undone: history.undone.slice(1) },
+    version: command.after
+  };
+}
+
+export function takeSnapshot(history: DesignHistory, name: string, version: DesignVersion): DesignHistory {
+  const snapshot: NamedSnapshot = { id: history.nextId, name, createdAt: new Date().toISOString(), version };
+  return { ...history, snapshots: [...history.snapshots, snapshot], nextId: history.nextId + 1 };
+}
+
+export function deleteSnapshot(history: DesignHistory, id: number): DesignHistory {
+  return { ...history, snapshots: history.snapshots.filter(snapshot => snapshot.id !== id) };
+}
+
+/**
+ * Versions that can be compared: every change still in the history, newest
+ * first, then the named snapshots
+ */
+export function listVersions(history: DesignHistory): VersionOption[] {
+  const changes = history.done.concat(history.undone).map((command, i) => ({
+    key: `change:${command.id}`,
+    label: `${i + 1}. ${command.label}${i === history.done.length - 1 ? ' (current)' : i >= history.done.length ? ' (undone)' : ''}`,
+    version: command.after
+  }));
+  const snapshots = history.snapshots.map(snapshot => ({
+    key: `snapshot:${snapshot.id}`,
+    label: `📌 ${snapshot.name}`,
+    version: snapshot.version
+  }));
+  return changes.reverse().concat(snapshots);
+}
+
+/**
+ * Rooms added, removed and changed going from one layout to another
+ */
+export function compareLayouts(from: HouseLayout, to: HouseLayout): LayoutComparison {
+  const fingerprint = (room: Room) => JSON.stringify([room.name, room.type, room.floor, room.position, room.dimensions, room.furniture, room.finish]);
+  const before: Record<string, Room> = {};
+  from.rooms.forEach(room => {
+    before[room.id] = room;
+  });
+
+  const added: string[] = [];
+  const changed: string[] = [];
+  to.rooms.forEach(room => {
+    const old = before[room.id];
+    if (!old) {
+      added.push(room.id);
+    } else if (fingerprint(old) !== fingerprint(room)) {
+      changed.push(room.id);
+    }
+  });
+
+  return { added, changed, removed: from.rooms.filter(room => !to.rooms.some(r => r.id === room.id)) };
+}
@@ -0,0 +1,56 @@
+/**
+ * Design Validation
+ * Request body checks shared by the design storage API routes
+ */
+
+import { validateLayout } from '@/utils/layoutValidation';
+
+// Whether a value holds the house design form's required fields, which reopening the design fills the form with
+function isFormData(value: unknown): boolean {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const form = value as Record<string, unknown>;
+  const isCount = (count: unknown) => typeof count === 'number' && Number.isInteger(count) && count >= 0;
+  return typeof form.plotSize === 'string' &&
+    (form.houseType === 'single' || form.houseType === 'double') &&
+    isCount(form.bedrooms) &&
+    isCount(form.bathrooms) &&
+    isCount(form.kitchens) &&
+    (form.locationType === 'city' || form.locationType === 'village') &&
+    typeof form.extraNotes === 'string';
+}
+
+/**
+ * Check a design request body. With `required` every field must be present
+ * (create); otherwise only the fields that are present are checked (update).
+ * Returns an error message, or null when the body is valid.
+ */
+export function validateDesignInput(body: unknown, required: boolean): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Request body must be a JSON object';
+  }
+
+  const { name, formData, layout, tourWaypoints } = body as Record<string, unknown>;
+
+  if ((required || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return 'Design name is required';
+  }
+
+  if ((required || formData !== undefined) && !isFormData(formData)) {
+    return 'Form data with the plot size, house type, room counts, location and notes is required';
+  }
+
+  if (required || layout !== undefined) {
+    const layoutError = validateLayout(layout);
+    if (layoutError) {
+      return layoutError;
+    }
+  }
+
+  if ((required || tourWaypoints !== undefined) && !Array.isArray(tourWaypoints)) {
+    return 'Tour waypoints must be an array';
+  }
+
+  return null;
+}
@@ -0,0 +1,201 @@
+/**
+ * Export Utilities
+ * Browser-side file exports for the rendered house
+ */
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { HouseLayout } from '@/types/house';
+import { buildFloorPlanSheet, buildFloorPlanSheets, renderFloorPlanSvg } from '@/utils/floorPlan';
+import { renderPlanPdf } from '@/utils/pdfWriter';
+import { encodeZip } from '@/utils/zipWriter';
+
+// Live renderer and scene of the 3D viewer
+export interface ViewerContext {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+}
+
+export interface CaptureOptions {
+  width: number;
+  height: number;
+  hideOverlays: boolean; // Leave out room labels and other helpers
+  transparent: boolean; // Drop the sky and the ground around the house
+}
+
+export const CAPTURE_RESOLUTIONS = [
+  { label: 'HD (1280 × 720)', width: 1280, height: 720 },
+  { label: 'Full HD (1920 × 1080)', width: 1920, height: 1080 },
+  { label: 'QHD (2560 × 1440)', width: 2560, height: 1440 },
+  { label: '4K (3840 × 2160)', width: 3840, height: 2160 }
+];
+
+// Viewing directions (from the house centre towards the camera) of the presentation pack
+const PRESENTATION_VIEWS: Array<{ name: string; direction: [number, number, number]; up: [number, number, number] }> = [
+  { name: 'front', direction: [0, 0.4, -1], up: [0, 1, 0] },
+  { name: 'back', direction: [0, 0.4, 1], up: [0, 1, 0] },
+  { name: 'east-side', direction: [1, 0.4, 0], up: [0, 1, 0] },
+  { name: 'west-side', direction: [-1, 0.4, 0], up: [0, 1, 0] },
+  { name: 'top', direction: [0, 1, 0], up: [0, 0, 1] }
+];
+
+// Matches the viewer's background gradient
+const SKY_TOP = '#EFF6FF';
+const SKY_BOTTOM = '#E0E7FF';
+
+/**
+ * Export the live viewer scene as a binary glTF (GLB) file.
+ * Objects flagged with userData.overlay (labels and other helpers) are left out.
+ */
+export async function exportSceneAsGLB(scene: THREE.Object3D): Promise<Blob> {
+  const restore = hideObjects(scene, object => object.userData.overlay);
+
+  try {
+    const result = await new GLTFExporter().parseAsync(scene, { binary: true, onlyVisible: true });
+    return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * Render the scene from a camera into a PNG at any resolution, independent of
+ * the on-screen canvas size. The renderer is resized for the capture and put
+ * back straight after, before the next frame is drawn.
+ */
+export async function captureView(context: ViewerContext, camera: THREE.Camera, options: CaptureOptions): Promise<Blob> {
+  const { gl, scene } = context;
+
+  // Stay within what the GPU can allocate, keeping the aspect ratio
+  const limit = gl.capabilities.maxTextureSize;
+  const scale = Math.min(1, limit / options.width, limit / options.height);
+  const width = Math.floor(options.width * scale);
+  const height = Math.floor(options.height * scale);
+
+  const shot = camera.clone();
+  if (shot instanceof THREE.PerspectiveCamera) {
+    shot.aspect = width / height;
+    shot.updateProjectionMatrix();
+  }
+
+  const size = gl.getSize(new THREE.Vector2());
+  const pixelRatio = gl.getPixelRatio();
+  const background = scene.background;
+  const restore = hideObjects(scene, object =>
+    (options.hideOverlays && object.userData.overlay) || (options.transparent && object.name === 'ground'));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context2d = canvas.getContext('2d');
+  if (!context2d) {
+    restore();
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  try {
+    if (options.transparent) {
+      scene.background = null;
+    }
+    gl.setPixelRatio(1);
+    gl.setSize(width, height, false);
+    gl.render(scene, shot);
+
+    // Copy the frame before the browser clears the drawing buffer
+    if (!options.transparent) {
+      const sky = context2d.createLinearGradient(0, 0, 0, height);
+      sky.addColorStop(0, SKY_TOP);
+      sky.addColorStop(1, SKY_BOTTOM);
+      context2d.fillStyle = sky;
+      context2d.fillRect(0, 0, width, height);
+    }
+    context2d.drawImage(gl.domElement, 0, 0, width, height);
+  } finally {
+    scene.background = background;
+    gl.setPixelRatio(pixelRatio);
+    gl.setSize(size.x, size.y, false);
+    restore();
+  }
+
+  return canvasToBlob(canvas, 'image/png');
+}
+
+/**
+ * Render the house from a fixed set of angles (front, back, both sides and
+ * top-down) and bundle the PNGs into a zip
+ */
+export async function exportPresentationPack(context: ViewerContext, layout: HouseLayout, options: CaptureOptions): Promise<Blob> {
+  const files: Record<string, Uint8Array> = {};
+  const center = new THREE.Vector3(layout.width / 2, layout.height / 2, layout.length / 2);
+  const radius = new THREE.Vector3(layout.width, layout.height, layout.length).length() / 2;
+
+  for (let i = 0; i < PRESENTATION_VIEWS.length; i++) {
+    const view = PRESENTATION_VIEWS[i];
+    const camera = new THREE.PerspectiveCamera(45, options.width / options.height, 0.1, 1000);
+
+    // Back off far enough for the bounding sphere to fit the narrower field of view
+    const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+    const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+    const distance = (radius / Math.sin(Math.min(verticalFov, horizontalFov) / 2)) * 1.05;
+
+    camera.up.set(...view.up);
+    camera.position.copy(center).addScaledVector(new THREE.Vector3(...view.direction).normalize(), distance);
+    camera.lookAt(center);
+    camera.updateMatrixWorld();
+
+    const png = await captureView(context, camera, options);
+    files[`${i + 1}-${view.name}.png`] = new Uint8Array(await png.arrayBuffer());
+  }
+
+  return new Blob([encodeZip(files)], { type: 'application/zip' });
+}
+
+/**
+ * Save a blob to the user's downloads folder
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Export one floor of the layout as a 2D plan in SVG format
+ */
+export function exportFloorPlanSVG(layout: HouseLayout, floor: number): Blob {
+  return new Blob([renderFloorPlanSvg(buildFloorPlanSheet(layout, floor))], { type: 'image/svg+xml' });
+}
+
+/**
+ * Export the 2D plans of every floor as a multi-page PDF
+ */
+export function exportFloorPlanPDF(layout: HouseLayout): Blob {
+  return new Blob([renderPlanPdf(buildFloorPlanSheets(layout))], { type: 'application/pdf' });
+}
+
+/**
+ * Hide every visible object matching the predicate; returns a function that shows them again
+ */
+function hideObjects(root: THREE.Object3D, predicate: (object: THREE.Object3D) => boolean): () => void {
+  const hidden: THREE.Object3D[] = [];
+  root.traverse(object => {
+    if (object.visible && predicate(object)) {
+      object.visible = false;
+      hidden.push(object);
+    }
+  });
+
+  return () => hidden.forEach(object => {
+    object.visible = true;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode the image'))), type);
+  });
+}
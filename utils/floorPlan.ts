@@ -0,0 +1,299 @@
+/**
+ * Floor Plan Utilities
+ * Draws a dimensioned 2D plan of each floor as simple shapes (in meters,
+ * north up) that can be rendered to SVG here or to PDF by the PDF writer
+ */
+
+import { HouseLayout, Opening, WallSegment } from '@/types/house';
+import { getWallOpenings, getWallPieces } from '@/utils/openings';
+
+export type PlanPoint = [number, number];
+
+export type PlanShape =
+  | { kind: 'polygon'; points: PlanPoint[]; fill?: string; stroke?: string; strokeWidth?: number }
+  | { kind: 'line'; from: PlanPoint; to: PlanPoint; stroke: string; strokeWidth: number; dashed?: boolean }
+  | { kind: 'arc'; center: PlanPoint; radius: number; startAngle: number; endAngle: number; stroke: string; strokeWidth: number }
+  | { kind: 'text'; at: PlanPoint; text: string; size: number; anchor: 'start' | 'middle' | 'end'; bold?: boolean; rotate?: number; fill?: string };
+
+// One printable sheet; coordinates run right and down from the top-left corner
+export interface PlanSheet {
+  title: string;
+  floor: number;
+  width: number;
+  height: number;
+  shapes: PlanShape[];
+}
+
+const MARGIN = 3; // Space around the house for dimensions and the title, in meters
+const WALL_COLOR = '#1F2937';
+const DIMENSION_COLOR = '#6B7280';
+const FURNITURE_COLOR = '#9CA3AF';
+const WINDOW_COLOR = '#3B82F6';
+
+/**
+ * Build one plan sheet per floor
+ */
+export function buildFloorPlanSheets(layout: HouseLayout): PlanSheet[] {
+  return Array.from({ length: layout.floors }, (_, floor) => buildFloorPlanSheet(layout, floor));
+}
+
+/**
+ * Build the plan sheet for a single floor
+ */
+export function buildFloorPlanSheet(layout: HouseLayout, floor: number): PlanSheet {
+  const rooms = layout.rooms.filter(room => room.floor === floor);
+  const walls = layout.walls.filter(wall => wall.floor === floor);
+  const shapes: PlanShape[] = [];
+
+  const toSheet = (x: number, z: number): PlanPoint => planPoint(layout, x, z);
+
+  // Room fills, names and areas
+  rooms.forEach(room => {
+    const { x, z } = room.position;
+    const { width, length } = room.dimensions;
+    shapes.push({
+      kind: 'polygon',
+      points: [toSheet(x, z), toSheet(x + width, z), toSheet(x + width, z + length), toSheet(x, z + length)],
+      fill: room.type === 'staircase' ? '#F3F4F6' : '#FFFFFF'
+    });
+
+    room.furniture.forEach(item => {
+      const angle = item.rotation;
+      const corners: Array<[number, number]> = [
+        [-item.dimensions.width / 2, -item.dimensions.length / 2],
+        [item.dimensions.width / 2, -item.dimensions.length / 2],
+        [item.dimensions.width / 2, item.dimensions.length / 2],
+        [-item.dimensions.width / 2, item.dimensions.length / 2]
+      ];
+      shapes.push({
+        kind: 'polygon',
+        points: corners.map(([cx, cz]) => toSheet(
+          x + item.position.x + cx * Math.cos(angle) + cz * Math.sin(angle),
+          z + item.position.z - cx * Math.sin(angle) + cz * Math.cos(angle)
+        )),
+        stroke: FURNITURE_COLOR,
+        strokeWidth: 0.02
+      });
+    });
+
+    const [cx, cy] = toSheet(x + width / 2, z + length / 2);
+    const size = Math.max(0.18, Math.min(0.4, width / 10, length / 4));
+    shapes.push(
+      { kind: 'text', at: [cx, cy - size * 0.2], text: room.name, size, anchor: 'middle', bold: true },
+      { kind: 'text', at: [cx, cy + size * 1.1], text: `${(width * length).toFixed(1)} m²`, size: size * 0.8, anchor: 'middle', fill: DIMENSION_COLOR }
+    );
+  });
+
+  // Walls, with gaps for doors and windows
+  walls.forEach(wall => shapes.push(...drawWall(wall, layout, toSheet)));
+
+  // Overall dimensions and a chain of room dimensions along the south side and the
+  // +x side, which are the bottom and left edges of the sheet
+  const southEdges = uniqueSorted(rooms
+    .filter(room => room.position.z < 1e-6)
+    .reduce<number[]>((points, room) => points.concat(room.position.x, room.position.x + room.dimensions.width), [0, layout.width]));
+  const sideEdges = uniqueSorted(rooms
+    .filter(room => room.position.x + room.dimensions.width > layout.width - 1e-6)
+    .reduce<number[]>((points, room) => points.concat(room.position.z, room.position.z + room.dimensions.length), [0, layout.length]));
+
+  for (let i = 0; i < southEdges.length - 1; i++) {
+    shapes.push(...dimensionLine(toSheet(southEdges[i], 0), toSheet(southEdges[i + 1], 0), 0.8, 'below'));
+  }
+  shapes.push(...dimensionLine(toSheet(0, 0), toSheet(layout.width, 0), 1.6, 'below'));
+
+  for (let i = 0; i < sideEdges.length - 1; i++) {
+    shapes.push(...dimensionLine(toSheet(layout.width, sideEdges[i]), toSheet(layout.width, sideEdges[i + 1]), 0.8, 'left'));
+  }
+  shapes.push(...dimensionLine(toSheet(layout.width, 0), toSheet(layout.width, layout.length), 1.6, 'left'));
+
+  // Title and north arrow
+  const title = floor === 0 ? 'Ground Floor Plan' : `Floor ${floor + 1} Plan`;
+  shapes.push(
+    { kind: 'text', at: [MARGIN, 1.2], text: title, size: 0.6, anchor: 'start', bold: true },
+    { kind: 'text', at: [MARGIN, 1.9], text: `${layout.width.toFixed(2)} m × ${layout.length.toFixed(2)} m · ${layout.style} style`, size: 0.35, anchor: 'start', fill: DIMENSION_COLOR }
+  );
+
+  const arrowX = MARGIN * 2 + layout.width - 1;
+  shapes.push(
+    { kind: 'polygon', points: [[arrowX, 0.6], [arrowX - 0.3, 1.5], [arrowX, 1.3], [arrowX + 0.3, 1.5]], fill: WALL_COLOR },
+    { kind: 'text', at: [arrowX, 2.1], text: 'N', size: 0.4, anchor: 'middle', bold: true }
+  );
+
+  return { title, floor, width: layout.width + MARGIN * 2, height: layout.length + MARGIN * 2, shapes };
+}
+
+/**
+ * House coordinates to sheet coordinates, as seen from above with north (+z) up,
+ * which puts +x on the left just like the 3D view from the street
+ */
+export function planPoint(layout: HouseLayout, x: number, z: number): PlanPoint {
+  return [MARGIN + layout.width - x, MARGIN + layout.length - z];
+}
+
+/**
+ * Render a plan sheet as a standalone SVG document
+ */
+export function renderFloorPlanSvg(sheet: PlanSheet, pixelsPerMeter = 40): string {
+  const body = sheet.shapes.map(shape => {
+    switch (shape.kind) {
+      case 'polygon':
+        return `<polygon points="${shape.points.map(point => point.map(round).join(',')).join(' ')}" fill="${shape.fill || 'none'}"${
+          shape.stroke ? ` stroke="${shape.stroke}" stroke-width="${shape.strokeWidth || 0.02}"` : ''
+        }/>`;
+      case 'line':
+        return `<line x1="${round(shape.from[0])}" y1="${round(shape.from[1])}" x2="${round(shape.to[0])}" y2="${round(shape.to[1])}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}"${
+          shape.dashed ? ' stroke-dasharray="0.1 0.08"' : ''
+        }/>`;
+      case 'arc': {
+        const start = arcPoint(shape.center, shape.radius, shape.startAngle);
+        const end = arcPoint(shape.center, shape.radius, shape.endAngle);
+        const largeArc = Math.abs(shape.endAngle - shape.startAngle) > Math.PI ? 1 : 0;
+        const sweep = shape.endAngle > shape.startAngle ? 1 : 0;
+        return `<path d="M ${round(start[0])} ${round(start[1])} A ${round(shape.radius)} ${round(shape.radius)} 0 ${largeArc} ${sweep} ${round(end[0])} ${round(end[1])}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}"/>`;
+      }
+      case 'text':
+        return `<text x="${round(shape.at[0])}" y="${round(shape.at[1])}" font-size="${round(shape.size)}" text-anchor="${shape.anchor}" fill="${shape.fill || WALL_COLOR}"${
+          shape.bold ? ' font-weight="bold"' : ''
+        }${shape.rotate ? ` transform="rotate(${round(shape.rotate)} ${round(shape.at[0])} ${round(shape.at[1])})"` : ''}>${escapeXml(shape.text)}</text>`;
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(sheet.width * pixelsPerMeter)}" height="${Math.round(sheet.height * pixelsPerMeter)}" viewBox="0 0 ${round(sheet.width)} ${round(sheet.height)}" font-family="Helvetica, Arial, sans-serif">`,
+    `<title>${escapeXml(sheet.title)}</title>`,
+    `<rect width="100%" height="100%" fill="#FFFFFF"/>`,
+    ...body,
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Point on a circle; angles are measured clockwise from the +x axis on the sheet
+ */
+export function arcPoint(center: PlanPoint, radius: number, angle: number): PlanPoint {
+  return [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle)];
+}
+
+/**
+ * Wall pieces as filled bands, window glazing lines and door leaves with swings
+ */
+function drawWall(wall: WallSegment, layout: HouseLayout, toSheet: (x: number, z: number) => PlanPoint): PlanShape[] {
+  const shapes: PlanShape[] = [];
+  const alongX = Math.abs(wall.end.z - wall.start.z) < 1e-6;
+  const half = wall.thickness / 2;
+  const openings = getWallOpenings(wall, layout);
+
+  // Sheet position of a point along the wall, pushed sideways across it
+  const at = (along: number, across: number): PlanPoint => alongX
+    ? toSheet(wall.start.x + along, wall.start.z + across)
+    : toSheet(wall.start.x + across, wall.start.z + along);
+
+  // In plan a wall is cut at about a meter high, so only full-height pieces are solid
+  getWallPieces(wall, openings)
+    .filter(piece => piece.bottom === 0 && piece.top === wall.height)
+    .forEach(piece => {
+      shapes.push({
+        kind: 'polygon',
+        points: [at(piece.from, -half), at(piece.to, -half), at(piece.to, half), at(piece.from, half)],
+        fill: WALL_COLOR
+      });
+    });
+
+  openings.forEach(({ opening, start, end }) => {
+    if (opening.type === 'window') {
+      shapes.push(
+        { kind: 'polygon', points: [at(start, -half), at(end, -half), at(end, half), at(start, half)], stroke: WINDOW_COLOR, strokeWidth: 0.02, fill: '#FFFFFF' },
+        { kind: 'line', from: at(start, 0), to: at(end, 0), stroke: WINDOW_COLOR, strokeWidth: 0.02 }
+      );
+      return;
+    }
+
+    // Garage doors roll up, so they are shown as a dashed line instead of a swing
+    const room = layout.rooms.find(candidate => candidate.id === opening.roomId);
+    if (room && room.type === 'garage' && !opening.connectsTo) {
+      shapes.push({ kind: 'line', from: at(start, 0), to: at(end, 0), stroke: DIMENSION_COLOR, strokeWidth: 0.03, dashed: true });
+      return;
+    }
+
+    // Doors swing into the room they lead to; the entrance swings into the house
+    const direction = swingDirection(opening, wall, layout);
+    const hinge = at(start, direction * half);
+    const leafEnd = at(start, direction * (half + opening.width));
+    const jamb = at(end, direction * half);
+    const startAngle = Math.atan2(leafEnd[1] - hinge[1], leafEnd[0] - hinge[0]);
+    let endAngle = Math.atan2(jamb[1] - hinge[1], jamb[0] - hinge[0]);
+    if (endAngle - startAngle > Math.PI) {
+      endAngle -= Math.PI * 2;
+    } else if (startAngle - endAngle > Math.PI) {
+      endAngle += Math.PI * 2;
+    }
+
+    shapes.push(
+      { kind: 'line', from: hinge, to: leafEnd, stroke: WALL_COLOR, strokeWidth: 0.03 },
+      { kind: 'arc', center: hinge, radius: opening.width, startAngle, endAngle, stroke: DIMENSION_COLOR, strokeWidth: 0.015 }
+    );
+  });
+
+  return shapes;
+}
+
+/**
+ * Which side of the wall (-1 south/west, +1 north/east) a door swings towards
+ */
+function swingDirection(opening: Opening, wall: WallSegment, layout: HouseLayout): number {
+  const targetId = opening.connectsTo || opening.roomId;
+  const target = layout.rooms.find(room => room.id === targetId);
+  if (!target) {
+    return 1;
+  }
+  return wall.rooms[1] === target.id ? 1 : -1;
+}
+
+/**
+ * Dimension line with ticks, offset from the measured edge
+ */
+function dimensionLine(from: PlanPoint, to: PlanPoint, offset: number, side: 'below' | 'left'): PlanShape[] {
+  const shift = (point: PlanPoint): PlanPoint => side === 'below' ? [point[0], point[1] + offset] : [point[0] - offset, point[1]];
+  const a = shift(from);
+  const b = shift(to);
+  const length = Math.hypot(to[0] - from[0], to[1] - from[1]);
+  if (length < 0.05) {
+    return [];
+  }
+
+  const tick = (point: PlanPoint): PlanShape => ({
+    kind: 'line',
+    from: [point[0] - 0.12, point[1] + 0.12],
+    to: [point[0] + 0.12, point[1] - 0.12],
+    stroke: DIMENSION_COLOR,
+    strokeWidth: 0.02
+  });
+
+  const middle: PlanPoint = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const label: PlanShape = side === 'below'
+    ? { kind: 'text', at: [middle[0], middle[1] - 0.1], text: `${length.toFixed(2)}`, size: 0.25, anchor: 'middle', fill: DIMENSION_COLOR }
+    : { kind: 'text', at: [middle[0] - 0.1, middle[1]], text: `${length.toFixed(2)}`, size: 0.25, anchor: 'middle', fill: DIMENSION_COLOR, rotate: -90 };
+
+  return [
+    { kind: 'line', from: a, to: b, stroke: DIMENSION_COLOR, strokeWidth: 0.015 },
+    { kind: 'line', from: from, to: a, stroke: DIMENSION_COLOR, strokeWidth: 0.01, dashed: true },
+    { kind: 'line', from: to, to: b, stroke: DIMENSION_COLOR, strokeWidth: 0.01, dashed: true },
+    tick(a),
+    tick(b),
+    label
+  ];
+}
+
+function uniqueSorted(values: number[]): number[] {
+  return values
+    .sort((a, b) => a - b)
+    .filter((value, i, sorted) => i === 0 || value - sorted[i - 1] > 1e-3);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,79 @@
+/**
+ * Footprints
+ * Floor-plan geometry of furniture and the zones around it: rotated
+ * rectangles given by a centre, a rotation about the vertical and a width
+ * and length, as furniture is stored in a room
+ */
+
+import { Room, WallSegment } from '@/types/house';
+
+const DEFAULT_WALL_THICKNESS = 0.15;
+const EPSILON = 1e-6;
+
+export interface Footprint {
+  position: { x: number; z: number };
+  rotation: number;
+  dimensions: { width: number; length: number };
+}
+
+// Axes of a footprint; rotation turns +x towards -z as it does in the viewer
+export function footprintAxes(footprint: Pick<Footprint, 'rotation'>): { x: number; z: number }[] {
+  const cos = Math.cos(footprint.rotation);
+  const sin = Math.sin(footprint.rotation);
+  return [{ x: cos, z: -sin }, { x: sin, z: cos }];
+}
+
+/**
+ * Half the size of the axis-aligned box around a footprint
+ */
+export function footprintExtents(footprint: Pick<Footprint, 'rotation' | 'dimensions'>): { halfX: number; halfZ: number } {
+  const cos = Math.abs(Math.cos(footprint.rotation));
+  const sin = Math.abs(Math.sin(footprint.rotation));
+  const { width, length } = footprint.dimensions;
+  return { halfX: (cos * width + sin * length) / 2, halfZ: (sin * width + cos * length) / 2 };
+}
+
+export function footprintCorners(footprint: Footprint): { x: number; z: number }[] {
+  const [u, v] = footprintAxes(footprint);
+  const hw = footprint.dimensions.width / 2;
+  const hl = footprint.dimensions.length / 2;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([a, b]) => ({
+    x: footprint.position.x + a * hw * u.x + b * hl * v.x,
+    z: footprint.position.z + a * hw * u.z + b * hl * v.z
+  }));
+}
+
+/**
+ * Separating axis test on two footprints; touching does not count
+ */
+export function footprintsOverlap(a: Footprint, b: Footprint): boolean {
+  const cornersA = footprintCorners(a);
+  const cornersB = footprintCorners(b);
+  return footprintAxes(a).concat(footprintAxes(b)).every(axis => {
+    const project = (points: { x: number; z: number }[]) => points.map(p => p.x * axis.x + p.z * axis.z);
+    const pa = project(cornersA);
+    const pb = project(cornersB);
+    return Math.min(...pa) < Math.max(...pb) - EPSILON && Math.min(...pb) < Math.max(...pa) - EPSILON;
+  });
+}
+
+/**
+ * Footprint of a rectangle given in the frame of another, e.g. the floor
+ * kept clear in front of an item; (x, z) is the rectangle's centre in that frame
+ */
+export function relativeFootprint(frame: Footprint, x: number, z: number, width: number, length: number): Footprint {
+  const [u, v] = footprintAxes(frame);
+  return {
+    position: { x: frame.position.x + x * u.x + z * v.x, z: frame.position.z + x * u.z + z * v.z },
+    rotation: frame.rotation,
+    dimensions: { width, length }
+  };
+}
+
+/**
+ * Distance from a room's edge to the inside face of its thickest wall
+ */
+export function wallInset(walls: WallSegment[], room: Room): number {
+  const own = walls.filter(wall => wall.floor === room.floor && wall.rooms.indexOf(room.id) >= 0);
+  return own.reduce((inset, wall) => Math.max(inset, wall.thickness / 2), own.length ? 0 : DEFAULT_WALL_THICKNESS / 2);
+}
@@ -0,0 +1,299 @@
+/**
+ * Furniture Catalog
+ * Every piece of furniture a house can be furnished with: its real size,
+ * the floor it needs kept clear in front and beside it, and a low-poly
+ * model built from boxes and cylinders. Shared by the generator, which
+ * places items from it, and the viewer and scene exports, which draw them.
+ */
+
+import { Furniture } from '@/types/house';
+import { Footprint, relativeFootprint } from '@/utils/footprints';
+
+export type FurnitureCategory = 'beds' | 'seating' | 'tables' | 'storage' | 'kitchen' | 'bathroom';
+
+// Surface of a model part; the viewer picks a colour for each per style
+export type PartFinish = 'body' | 'wood' | 'fabric' | 'cushion' | 'linen' | 'metal' | 'white' | 'dark' | 'glass';
+
+// One box or cylinder of a model, in the item's frame: x across its front,
+// y up from the floor, z from its back (-z) to its front (+z)
+export interface MeshPart {
+  shape: 'box' | 'cylinder';
+  position: [number, number, number]; // Centre of the part
+  size: [number, number, number]; // Width, height and length; a cylinder's diameter is its width
+  axis?: 'y' | 'z'; // Cylinders stand upright unless they face forward
+  finish: PartFinish;
+}
+
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  category: FurnitureCategory;
+  type: Furniture['type']; // Coarse kind, used for pricing and colours
+  dimensions: Furniture['dimensions']; // Width across the front, length front to back, overall height
+  clearance: { front: number; sides: number }; // Floor kept clear to use the item, in meters
+  placement: 'wall' | 'corner' | 'centre'; // Where it stands in a room; wall and corner items back onto a wall
+  parts: (size: Furniture['dimensions']) => MeshPart[];
+}
+
+const box = (x: number, y: number, z: number, w: number, h: number, l: number, finish: PartFinish): MeshPart =>
+  ({ shape: 'box', position: [x, y, z], size: [w, h, l], finish });
+
+const cylinder = (x: number, y: number, z: number, d: number, h: number, finish: PartFinish, axis: 'y' | 'z' = 'y'): MeshPart =>
+  ({ shape: 'cylinder', position: [x, y, z], size: [d, h, d], finish, axis });
+
+// Square legs at the corners of a frame `h` high, set in by `inset`
+function legs(w: number, l: number, h: number, inset: number, thickness: number, finish: PartFinish): MeshPart[] {
+  const x = w / 2 - inset - thickness / 2;
+  const z = l / 2 - inset - thickness / 2;
+  return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([a, b]) => box(a * x, h / 2, b * z, thickness, h, thickness, finish));
+}
+
+function bed({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  const pillows = w > 1.2
+    ? [box(-w / 4, 0.62, -l / 2 + 0.3, w / 2 - 0.15, 0.12, 0.35, 'linen'), box(w / 4, 0.62, -l / 2 + 0.3, w / 2 - 0.15, 0.12, 0.35, 'linen')]
+    : [box(0, 0.62, -l / 2 + 0.3, w - 0.3, 0.12, 0.35, 'linen')];
+  return [
+    ...legs(w, l, 0.1, 0.05, 0.08, 'wood'),
+    box(0, 0.22, 0, w, 0.24, l, 'body'),
+    box(0, 0.44, 0.03, w - 0.06, 0.2, l - 0.1, 'linen'),
+    box(0, 0.56, l * 0.15, w - 0.02, 0.05, l * 0.65, 'fabric'),
+    box(0, h / 2, -l / 2 + 0.04, w, h, 0.08, 'body'),
+    ...pillows
+  ];
+}
+
+function sofa({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  const arm = 0.18;
+  return [
+    ...legs(w, l, 0.08, 0.05, 0.06, 'dark'),
+    box(0, 0.24, 0, w, 0.32, l, 'fabric'),
+    box(0, 0.46, 0.08, w - 2 * arm, 0.12, l - 0.24, 'cushion'),
+    box(0, 0.4 + (h - 0.4) / 2, -l / 2 + 0.11, w, h - 0.4, 0.22, 'fabric'),
+    box(-w / 2 + arm / 2, 0.36, 0, arm, 0.56, l, 'fabric'),
+    box(w / 2 - arm / 2, 0.36, 0, arm, 0.56, l, 'fabric')
+  ];
+}
+
+function chair({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    ...legs(w, l, 0.43, 0.02, 0.04, 'wood'),
+    box(0, 0.45, 0, w, 0.04, l, 'body'),
+    box(0, 0.47 + (h - 0.47) / 2, -l / 2 + 0.02, w, h - 0.47, 0.04, 'body')
+  ];
+}
+
+function officeChair({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    cylinder(0, 0.03, 0, Math.min(w, l) * 0.9, 0.06, 'dark'),
+    cylinder(0, 0.25, 0, 0.06, 0.4, 'metal'),
+    box(0, 0.48, 0.02, w * 0.8, 0.08, l * 0.8, 'fabric'),
+    box(0, 0.52 + (h - 0.52) / 2, -l / 2 + 0.06, w * 0.75, h - 0.55, 0.06, 'fabric')
+  ];
+}
+
+function table({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    ...legs(w, l, h - 0.04, 0.05, 0.06, 'wood'),
+    box(0, h - 0.02, 0, w, 0.04, l, 'body')
+  ];
+}
+
+function desk({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  const pedestal = 0.4;
+  return [
+    box(-w / 2 + 0.03, (h - 0.03) / 2, 0, 0.04, h - 0.03, l - 0.04, 'body'),
+    box(w / 2 - pedestal / 2, (h - 0.03) / 2, 0, pedestal, h - 0.03, l - 0.04, 'body'),
+    box(w / 2 - pedestal / 2, h * 0.6, l / 2 - 0.015, pedestal - 0.04, 0.005, 0.01, 'dark'),
+    box(w / 2 - pedestal / 2, h * 0.3, l / 2 - 0.015, pedestal - 0.04, 0.005, 0.01, 'dark'),
+    box(0, h - 0.015, 0, w, 0.03, l, 'wood')
+  ];
+}
+
+// Cabinet with `doors` doors (or drawers when `drawers` is set) across its front
+function cabinet(doors: number, drawers = false) {
+  return ({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] => {
+    const parts = [box(0, (h - 0.05) / 2 + 0.05, 0, w, h - 0.05, l, 'body'), box(0, 0.025, 0, w - 0.04, 0.05, l - 0.04, 'dark')];
+    for (let i = 1; i < doors; i++) {
+      parts.push(drawers
+        ? box(0, 0.05 + (h - 0.05) * i / doors, l / 2 + 0.005, w - 0.04, 0.01, 0.01, 'dark')
+        : box(-w / 2 + w * i / doors, (h + 0.05) / 2, l / 2 + 0.005, 0.01, h - 0.15, 0.01, 'dark'));
+    }
+    for (let i = 0; i < doors; i++) {
+      parts.push(drawers
+        ? box(0, 0.05 + (h - 0.05) * (i + 0.5) / doors, l / 2 + 0.015, Math.min(0.2, w / 3), 0.02, 0.02, 'metal')
+        : box(-w / 2 + w * (i + 0.5) / doors + (i % 2 ? -1 : 1) * (w / doors / 2 - 0.06), h * 0.55, l / 2 + 0.015, 0.02, Math.min(0.3, h / 4), 0.02, 'metal'));
+    }
+    return parts;
+  };
+}
+
+function shelves(finish: PartFinish, count: number) {
+  return ({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] => {
+    const parts = finish === 'metal'
+      ? legs(w, l, h, 0, 0.04, 'metal')
+      : [box(-w / 2 + 0.01, h / 2, 0, 0.02, h, l, finish), box(w / 2 - 0.01, h / 2, 0, 0.02, h, l, finish), box(0, h / 2, -l / 2 + 0.005, w, h, 0.01, finish)];
+    for (let i = 0; i <= count; i++) {
+      parts.push(box(0, 0.05 + (h - 0.07) * i / count, 0, w - 0.02, 0.02, l - 0.01, finish === 'metal' ? 'wood' : finish));
+    }
+    return parts;
+  };
+}
+
+function tvCabinet(size: Furniture['dimensions']): MeshPart[] {
+  const { width: w, height: h } = size;
+  const base = 0.5;
+  return [
+    ...cabinet(3)({ ...size, height: base }),
+    box(0, base + 0.05, -0.05, 0.3, 0.1, 0.15, 'dark'),
+    box(0, base + 0.1 + (h - base - 0.1) / 2, -0.05, Math.min(w - 0.2, 1.3), h - base - 0.1, 0.05, 'dark')
+  ];
+}
+
+function counter(top: 'plain' | 'sink' | 'hob') {
+  return ({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] => {
+    const parts = [
+      ...cabinet(Math.max(1, Math.round(w / 0.6)))({ width: w, length: l - 0.04, height: h - 0.04 }).map(part => ({ ...part, position: [part.position[0], part.position[1], part.position[2] - 0.02] as [number, number, number] })),
+      box(0, h - 0.02, 0, w, 0.04, l, top === 'hob' ? 'dark' : 'white')
+    ];
+    if (top === 'sink') {
+      parts.push(box(0, h - 0.03, 0.02, Math.min(0.6, w - 0.2), 0.03, l * 0.6, 'metal'), cylinder(0, h + 0.12, -l / 2 + 0.08, 0.03, 0.24, 'metal'));
+    }
+    if (top === 'hob') {
+      [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(([a, b]) => parts.push(cylinder(a * w / 5, h + 0.005, b * l / 5, 0.16, 0.01, 'metal')));
+    }
+    return parts;
+  };
+}
+
+function refrigerator({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    box(0, h / 2, 0, w, h, l, 'white'),
+    box(0, h * 0.65, l / 2 + 0.005, w - 0.02, 0.01, 0.01, 'dark'),
+    box(-w / 2 + 0.08, h * 0.8, l / 2 + 0.03, 0.03, 0.4, 0.03, 'metal'),
+    box(-w / 2 + 0.08, h * 0.45, l / 2 + 0.03, 0.03, 0.3, 0.03, 'metal')
+  ];
+}
+
+function washingMachine({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    box(0, h / 2, 0, w, h, l, 'white'),
+    cylinder(0, h * 0.45, l / 2 + 0.01, w * 0.6, 0.02, 'glass', 'z'),
+    box(0, h - 0.06, l / 2 + 0.005, w - 0.06, 0.08, 0.01, 'dark')
+  ];
+}
+
+function toilet({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    box(0, h * 0.55 + (h * 0.45) / 2, -l / 2 + 0.09, w, h * 0.45, 0.18, 'white'),
+    cylinder(0, 0.2, 0.06, w * 0.9, 0.4, 'white'),
+    box(0, 0.41, 0.08, w * 0.9, 0.03, l * 0.55, 'white')
+  ];
+}
+
+function vanity({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    ...cabinet(2)({ width: w, length: l, height: h - 0.05 }),
+    box(0, h - 0.025, 0, w, 0.05, l, 'white'),
+    cylinder(0, h - 0.02, 0.03, Math.min(w, l) * 0.7, 0.02, 'metal'),
+    cylinder(0, h + 0.1, -l / 2 + 0.06, 0.03, 0.2, 'metal')
+  ];
+}
+
+function shower({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    box(0, 0.04, 0, w, 0.08, l, 'white'),
+    box(0, h / 2, l / 2 - 0.01, w, h - 0.1, 0.02, 'glass'),
+    box(w / 2 - 0.01, h / 2, 0, 0.02, h - 0.1, l, 'glass'),
+    cylinder(-w / 4, h - 0.15, -l / 2 + 0.1, 0.2, 0.03, 'metal')
+  ];
+}
+
+function bathtub({ width: w, length: l, height: h }: Furniture['dimensions']): MeshPart[] {
+  return [
+    box(0, h / 2, 0, w, h, l, 'white'),
+    box(0, h - 0.01, 0, w - 0.16, 0.02, l - 0.16, 'glass'),
+    cylinder(-w / 2 + 0.12, h + 0.1, -l / 2 + 0.06, 0.03, 0.2, 'metal')
+  ];
+}
+
+// Entries in the order the add menu lists them
+export const FURNITURE_CATALOG: CatalogEntry[] = [
+  { id: 'single-bed', name: 'Single Bed', category: 'beds', type: 'bed', dimensions: { width: 1, length: 2.05, height: 0.95 }, clearance: { front: 0.6, sides: 0.5 }, placement: 'wall', parts: bed },
+  { id: 'double-bed', name: 'Double Bed', category: 'beds', type: 'bed', dimensions: { width: 1.6, length: 2.1, height: 1 }, clearance: { front: 0.6, sides: 0.6 }, placement: 'wall', parts: bed },
+  { id: 'sofa', name: 'Sofa', category: 'seating', type: 'sofa', dimensions: { width: 2.2, length: 0.9, height: 0.85 }, clearance: { front: 0.45, sides: 0 }, placement: 'wall', parts: sofa },
+  { id: 'armchair', name: 'Armchair', category: 'seating', type: 'chair', dimensions: { width: 0.85, length: 0.85, height: 0.9 }, clearance: { front: 0.45, sides: 0 }, placement: 'wall', parts: sofa },
+  { id: 'dining-chair', name: 'Dining Chair', category: 'seating', type: 'chair', dimensions: { width: 0.45, length: 0.5, height: 0.9 }, clearance: { front: 0, sides: 0 }, placement: 'wall', parts: chair },
+  { id: 'desk-chair', name: 'Desk Chair', category: 'seating', type: 'chair', dimensions: { width: 0.6, length: 0.6, height: 1 }, clearance: { front: 0, sides: 0 }, placement: 'centre', parts: officeChair },
+  { id: 'coffee-table', name: 'Coffee Table', category: 'tables', type: 'table', dimensions: { width: 1.1, length: 0.6, height: 0.45 }, clearance: { front: 0.3, sides: 0.3 }, placement: 'centre', parts: table },
+  { id: 'side-table', name: 'Side Table', category: 'tables', type: 'table', dimensions: { width: 0.5, length: 0.5, height: 0.55 }, clearance: { front: 0, sides: 0 }, placement: 'wall', parts: table },
+  { id: 'dining-table', name: 'Dining Table', category: 'tables', type: 'table', dimensions: { width: 1.8, length: 0.95, height: 0.76 }, clearance: { front: 0.8, sides: 0.6 }, placement: 'centre', parts: table },
+  { id: 'small-dining-table', name: 'Small Dining Table', category: 'tables', type: 'table', dimensions: { width: 1.2, length: 0.8, height: 0.76 }, clearance: { front: 0.7, sides: 0.5 }, placement: 'centre', parts: table },
+  { id: 'desk', name: 'Desk', category: 'tables', type: 'table', dimensions: { width: 1.4, length: 0.7, height: 0.75 }, clearance: { front: 0.7, sides: 0 }, placement: 'wall', parts: desk },
+  { id: 'nightstand', name: 'Nightstand', category: 'storage', type: 'table', dimensions: { width: 0.45, length: 0.4, height: 0.55 }, clearance: { front: 0, sides: 0 }, placement: 'wall', parts: cabinet(2, true) },
+  { id: 'wardrobe', name: 'Wardrobe', category: 'storage', type: 'cabinet', dimensions: { width: 1.5, length: 0.6, height: 2.1 }, clearance: { front: 0.7, sides: 0 }, placement: 'corner', parts: cabinet(3) },
+  { id: 'dresser', name: 'Dresser', category: 'storage', type: 'cabinet', dimensions: { width: 1.2, length: 0.5, height: 0.9 }, clearance: { front: 0.6, sides: 0 }, placement: 'wall', parts: cabinet(3, true) },
+  { id: 'tv-cabinet', name: 'TV Cabinet', category: 'storage', type: 'cabinet', dimensions: { width: 1.8, length: 0.45, height: 1.3 }, clearance: { front: 0.4, sides: 0 }, placement: 'wall', parts: tvCabinet },
+  { id: 'sideboard', name: 'Sideboard', category: 'storage', type: 'cabinet', dimensions: { width: 1.6, length: 0.45, height: 0.85 }, clearance: { front: 0.6, sides: 0 }, placement: 'wall', parts: cabinet(3) },
+  { id: 'bookshelf', name: 'Bookshelf', category: 'storage', type: 'cabinet', dimensions: { width: 0.9, length: 0.35, height: 1.9 }, clearance: { front: 0.6, sides: 0 }, placement: 'corner', parts: shelves('wood', 5) },
+  { id: 'altar-cabinet', name: 'Altar Cabinet', category: 'storage', type: 'cabinet', dimensions: { width: 1.2, length: 0.5, height: 1.2 }, clearance: { front: 0.9, sides: 0 }, placement: 'wall', parts: cabinet(2) },
+  { id: 'storage-shelves', name: 'Storage Shelves', category: 'storage', type: 'cabinet', dimensions: { width: 2, length: 0.5, height: 2 }, clearance: { front: 0.6, sides: 0 }, placement: 'wall', parts: shelves('metal', 4) },
+  { id: 'kitchen-counter', name: 'Kitchen Counter', category: 'kitchen', type: 'cabinet', dimensions: { width: 1.2, length: 0.6, height: 0.9 }, clearance: { front: 0.9, sides: 0 }, placement: 'wall', parts: counter('plain') },
+  { id: 'sink-unit', name: 'Kitchen Sink', category: 'kitchen', type: 'appliance', dimensions: { width: 0.8, length: 0.6, height: 0.9 }, clearance: { front: 0.9, sides: 0 }, placement: 'wall', parts: counter('sink') },
+  { id: 'stove', name: 'Stove', category: 'kitchen', type: 'appliance', dimensions: { width: 0.6, length: 0.6, height: 0.9 }, clearance: { front: 0.9, sides: 0 }, placement: 'wall', parts: counter('hob') },
+  { id: 'refrigerator', name: 'Refrigerator', category: 'kitchen', type: 'appliance', dimensions: { width: 0.7, length: 0.7, height: 1.8 }, clearance: { front: 0.9, sides: 0 }, placement: 'corner', parts: refrigerator },
+  { id: 'kitchen-island', name: 'Kitchen Island', category: 'kitchen', type: 'table', dimensions: { width: 1.5, length: 0.9, height: 0.9 }, clearance: { front: 0.9, sides: 0.9 }, placement: 'centre', parts: counter('plain') },
+  { id: 'washing-machine', name: 'Washing Machine', category: 'kitchen', type: 'appliance', dimensions: { width: 0.6, length: 0.6, height: 0.85 }, clearance: { front: 0.8, sides: 0 }, placement: 'wall', parts: washingMachine },
+  { id: 'toilet', name: 'Toilet', category: 'bathroom', type: 'appliance', dimensions: { width: 0.4, length: 0.7, height: 0.8 }, clearance: { front: 0.6, sides: 0.2 }, placement: 'wall', parts: toilet },
+  { id: 'vanity', name: 'Bathroom Sink', category: 'bathroom', type: 'appliance', dimensions: { width: 0.6, length: 0.45, height: 0.85 }, clearance: { front: 0.6, sides: 0 }, placement: 'wall', parts: vanity },
+  { id: 'shower', name: 'Shower', category: 'bathroom', type: 'appliance', dimensions: { width: 0.9, length: 0.9, height: 2 }, clearance: { front: 0.6, sides: 0 }, placement: 'corner', parts: shower },
+  { id: 'bathtub', name: 'Bathtub', category: 'bathroom', type: 'appliance', dimensions: { width: 1.7, length: 0.75, height: 0.55 }, clearance: { front: 0.6, sides: 0 }, placement: 'corner', parts: bathtub },
+  { id: 'bathroom-cabinet', name: 'Bathroom Cabinet', category: 'bathroom', type: 'cabinet', dimensions: { width: 0.6, length: 0.3, height: 1.8 }, clearance: { front: 0.5, sides: 0 }, placement: 'wall', parts: cabinet(1) }
+];
+
+export const CATEGORY_NAMES: Record<FurnitureCategory, string> = {
+  beds: 'Beds',
+  seating: 'Seating',
+  tables: 'Tables',
+  storage: 'Storage',
+  kitchen: 'Kitchen',
+  bathroom: 'Bathroom'
+};
+
+export function getCatalogEntry(id: string | undefined): CatalogEntry | undefined {
+  return id ? FURNITURE_CATALOG.find(entry => entry.id === id) : undefined;
+}
+
+/**
+ * Model of an item; items without a catalog entry, such as those in
+ * designs saved before the catalog, are drawn as a plain block
+ */
+export function getFurnitureParts(furniture: Furniture): MeshPart[] {
+  const entry = getCatalogEntry(furniture.catalogId);
+  const { width, length, height } = furniture.dimensions;
+  return entry ? entry.parts(furniture.dimensions) : [box(0, height / 2, 0, width, height, length, 'body')];
+}
+
+/**
+ * Floor to keep clear around an item, in room coordinates: in front of it
+ * and to its sides, or on all four sides for items standing free in a room
+ */
+export function getClearanceZones(furniture: Furniture): Footprint[] {
+  const entry = getCatalogEntry(furniture.catalogId);
+  if (!entry) {
+    return [];
+  }
+  const { width: w, length: l } = furniture.dimensions;
+  const { front, sides } = entry.clearance;
+  const frame: Footprint = { position: furniture.position, rotation: furniture.rotation, dimensions: furniture.dimensions };
+  const zones: Footprint[] = [];
+  if (front > 0) {
+    zones.push(relativeFootprint(frame, 0, l / 2 + front / 2, w, front));
+    if (entry.placement === 'centre') {
+      zones.push(relativeFootprint(frame, 0, -l / 2 - front / 2, w, front));
+    }
+  }
+  if (sides > 0) {
+    zones.push(relativeFootprint(frame, -w / 2 - sides / 2, 0, sides, l), relativeFootprint(frame, w / 2 + sides / 2, 0, sides, l));
+  }
+  return zones;
+}
@@ -0,0 +1,191 @@
+/**
+ * Furniture Editing
+ * Moving, rotating, adding and removing furniture in a layout. Every edit
+ * returns a new layout with the change written into the rooms' furniture,
+ * or the reason it is not possible when the item would hit a wall or
+ * other furniture.
+ */
+
+import { HouseLayout, Room, Furniture } from '@/types/house';
+import { CatalogEntry } from '@/utils/furnitureCatalog';
+import { footprintCorners, footprintExtents, footprintsOverlap, wallInset } from '@/utils/footprints';
+import { FurniturePlanner } from '@/services/furniturePlanner';
+
+const SNAP_STEP = 0.1; // Grid furniture centres snap to, in meters
+const WALL_SNAP_DISTANCE = 0.15; // Items closer than this to a wall are pushed flush against it
+const ROTATION_STEP = Math.PI / 4;
+const EPSILON = 1e-6;
+
+// Item of furniture in a room, as picked in the viewer
+export interface FurnitureSelection {
+  roomId: string;
+  furnitureId: string;
+}
+
+export type FurnitureEdit =
+  | { layout: HouseLayout; selection: FurnitureSelection | null }
+  | { error: string };
+
+/**
+ * Room and item of a selection, or null if either is gone
+ */
+export function findFurniture(layout: HouseLayout, selection: FurnitureSelection): { room: Room; item: Furniture } | null {
+  const room = layout.rooms.find(r => r.id === selection.roomId);
+  const item = room ? room.furniture.find(f => f.id === selection.furnitureId) : undefined;
+  return room && item ? { room, item } : null;
+}
+
+/**
+ * Move an item so its centre lands on a point given in house coordinates,
+ * carrying it into another room on the same floor if the point is there
+ */
+export function moveFurniture(layout: HouseLayout, selection: FurnitureSelection, point: { x: number; z: number }): FurnitureEdit {
+  const found = findFurniture(layout, selection);
+  if (!found) {
+    return { error: 'That furniture is no longer in the layout' };
+  }
+
+  const target = layout.rooms.find(room =>
+    room.floor === found.room.floor &&
+    point.x >= room.position.x && point.x <= room.position.x + room.dimensions.width &&
+    point.z >= room.position.z && point.z <= room.position.z + room.dimensions.length
+  );
+  if (!target) {
+    return { error: 'Furniture must stay inside the house' };
+  }
+
+  const moved = snapToWalls(layout, target, {
+    ...found.item,
+    position: {
+      x: snap(point.x - target.position.x),
+      y: found.item.position.y,
+      z: snap(point.z - target.position.z)
+    }
+  });
+  return place(layout, found.room, target, moved);
+}
+
+/**
+ * Turn an item 45° one way or the other, nudging it off any wall its
+ * corners would swing into
+ */
+export function rotateFurniture(layout: HouseLayout, selection: FurnitureSelection, direction: 1 | -1 = 1): FurnitureEdit {
+  const found = findFurniture(layout, selection);
+  if (!found) {
+    return { error: 'That furniture is no longer in the layout' };
+  }
+
+  const steps = Math.round(found.item.rotation / ROTATION_STEP) + direction;
+  const rotation = ((steps % 8) + 8) % 8 * ROTATION_STEP;
+  return place(layout, found.room, found.room, snapToWalls(layout, found.room, { ...found.item, rotation }));
+}
+
+/**
+ * Take an item out of its room
+ */
+export function removeFurniture(layout: HouseLayout, selection: FurnitureSelection): FurnitureEdit {
+  const found = findFurniture(layout, selection);
+  if (!found) {
+    return { error: 'That furniture is no longer in the layout' };
+  }
+
+  return {
+    layout: withFurniture(layout, found.room.id, found.room.furniture.filter(item => item.id !== found.item.id)),
+    selection: null
+  };
+}
+
+/**
+ * Put a catalog item in the best free spot of a room, against a wall and
+ * clear of the doors, windows and the floor kept free around other furniture
+ */
+export function addFromCatalog(layout: HouseLayout, roomId: string, entry: CatalogEntry): FurnitureEdit {
+  const room = layout.rooms.find(r => r.id === roomId);
+  if (!room) {
+    return { error: 'That room is no longer in the layout' };
+  }
+  if (room.type === 'staircase') {
+    return { error: 'Furniture cannot go on the stairs' };
+  }
+
+  let id = `${entry.id}-${room.id}`;
+  for (let n = 2; layout.rooms.some(r => r.furniture.some(item => item.id === id)); n++) {
+    id = `${entry.id}-${room.id}-${n}`;
+  }
+
+  const item = FurniturePlanner.findSpot(room, layout, entry, id);
+  if (!item) {
+    return { error: `There is no free space for a ${entry.name.toLowerCase()} in ${room.name}` };
+  }
+  return { layout: withFurniture(layout, room.id, [...room.furniture, item]), selection: { roomId: room.id, furnitureId: id } };
+}
+
+/**
+ * Why an item cannot stand where it is in a room, or null if it can. Items
+ * must clear the walls and every other item of furniture in the room.
+ */
+export function placementError(layout: HouseLayout, room: Room, item: Furniture): string | null {
+  if (room.type === 'staircase') {
+    return 'Furniture cannot go on the stairs';
+  }
+
+  const inset = wallInset(layout.walls, room);
+  const outside = footprintCorners(item).some(corner =>
+    corner.x < inset - EPSILON || corner.x > room.dimensions.width - inset + EPSILON ||
+    corner.z < inset - EPSILON || corner.z > room.dimensions.length - inset + EPSILON
+  );
+  if (outside) {
+    return `${item.name} would go through a wall of ${room.name}`;
+  }
+
+  const blocking = room.furniture.find(other => other.id !== item.id && footprintsOverlap(item, other));
+  return blocking ? `${item.name} would overlap the ${blocking.name.toLowerCase()}` : null;
+}
+
+function place(layout: HouseLayout, from: Room, to: Room, item: Furniture): FurnitureEdit {
+  const error = placementError(layout, to, item);
+  if (error) {
+    return { error };
+  }
+
+  let updated = layout;
+  if (from.id !== to.id) {
+    updated = withFurniture(updated, from.id, from.furniture.filter(other => other.id !== item.id));
+    updated = withFurniture(updated, to.id, [...to.furniture, item]);
+  } else {
+    updated = withFurniture(updated, to.id, to.furniture.map(other => (other.id === item.id ? item : other)));
+  }
+  return { layout: updated, selection: { roomId: to.id, furnitureId: item.id } };
+}
+
+function withFurniture(layout: HouseLayout, roomId: string, furniture: Furniture[]): HouseLayout {
+  return { ...layout, rooms: layout.rooms.map(room => (room.id === roomId ? { ...room, furniture } : room)) };
+}
+
+function snap(value: number): number {
+  return Math.round(value / SNAP_STEP) * SNAP_STEP;
+}
+
+// Millimeters are plenty, and keep float noise out of saved layouts
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// Push an item flush against any wall it was dropped close to or through
+function snapToWalls(layout: HouseLayout, room: Room, item: Furniture): Furniture {
+  const inset = wallInset(layout.walls, room);
+  const { halfX, halfZ } = footprintExtents(item);
+  let { x, z } = item.position;
+
+  if (x - halfX - inset < WALL_SNAP_DISTANCE) {
+    x = inset + halfX;
+  } else if (room.dimensions.width - inset - (x + halfX) < WALL_SNAP_DISTANCE) {
+    x = room.dimensions.width - inset - halfX;
+  }
+  if (z - halfZ - inset < WALL_SNAP_DISTANCE) {
+    z = inset + halfZ;
+  } else if (room.dimensions.length - inset - (z + halfZ) < WALL_SNAP_DISTANCE) {
+    z = room.dimensions.length - inset - halfZ;
+  }
+  return { ...item, position: { ...item.position, x: round(x), z: round(z) } };
+}
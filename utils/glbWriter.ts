@@ -0,0 +1,261 @@
+/**
+ * GLB Writer
+ * Encodes a THREE.js object tree of meshes into a binary glTF 2.0 file.
+ * Unlike GLTFExporter it needs no FileReader or canvas, so it also runs
+ * on the server. Supports indexed or plain BufferGeometry with standard
+ * (PBR) materials, one per mesh or one per geometry group, which is
+ * everything the house scene builder produces.
+ */
+
+import * as THREE from 'three';
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a; // 'JSON'
+const CHUNK_BIN = 0x004e4942; // 'BIN'
+
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+
+interface GLTFNode {
+  name?: string;
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  mesh?: number;
+  children?: number[];
+  extras?: Record<string, unknown>;
+}
+
+/**
+ * Encode an object and its descendants as a GLB file
+ */
+export function encodeGLB(root: THREE.Object3D): ArrayBuffer {
+  const json = {
+    asset: { version: '2.0', generator: 'AI House Designer' },
+    scene: 0,
+    scenes: [{ nodes: [] as number[] }],
+    nodes: [] as GLTFNode[],
+    meshes: [] as object[],
+    materials: [] as object[],
+    accessors: [] as object[],
+    bufferViews: [] as object[],
+    buffers: [] as object[]
+  };
+
+  const chunks: Uint8Array[] = [];
+  let byteLength = 0;
+  const meshIndex = new Map<string, number>();
+  const materialIndex = new Map<string, number>();
+
+  const addBufferView = (data: ArrayBufferView, target: number): number => {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    json.bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: bytes.byteLength, target });
+    chunks.push(bytes);
+    byteLength += bytes.byteLength;
+
+    // Keep every view 4-byte aligned
+    const padding = (4 - (byteLength % 4)) % 4;
+    if (padding) {
+      chunks.push(new Uint8Array(padding));
+      byteLength += padding;
+    }
+
+    return json.bufferViews.length - 1;
+  };
+
+  const addAccessor = (attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, withBounds: boolean): number => {
+    const values = new Float32Array(attribute.count * attribute.itemSize);
+    const min = new Array(attribute.itemSize).fill(Infinity);
+    const max = new Array(attribute.itemSize).fill(-Infinity);
+
+    for (let i = 0; i < attribute.count; i++) {
+      for (let c = 0; c < attribute.itemSize; c++) {
+        const value = c === 0 ? attribute.getX(i) : c === 1 ? attribute.getY(i) : c === 2 ? attribute.getZ(i) : attribute.getW(i);
+        values[i * attribute.itemSize + c] = value;
+        min[c] = Math.min(min[c], value);
+        max[c] = Math.max(max[c], value);
+      }
+    }
+
+    json.accessors.push({
+      bufferView: addBufferView(values, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: attribute.count,
+      type: attribute.itemSize === 2 ? 'VEC2' : attribute.itemSize === 3 ? 'VEC3' : 'VEC4',
+      ...(withBounds ? { min, max } : {})
+    });
+
+    return json.accessors.length - 1;
+  };
+
+  const addMaterial = (source: THREE.Material): number => {
+    const existing = materialIndex.get(source.uuid);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const standard = source as THREE.MeshStandardMaterial;
+    const color = standard.color || new THREE.Color('#ffffff');
+    json.materials.push({
+      name: source.name || undefined,
+      pbrMetallicRoughness: {
+        baseColorFactor: [color.r, color.g, color.b, source.transparent ? source.opacity : 1],
+        metallicFactor: standard.metalness ?? 0,
+        roughnessFactor: standard.roughness ?? 1
+      },
+      alphaMode: source.transparent ? 'BLEND' : 'OPAQUE',
+      doubleSided: source.side === THREE.DoubleSide
+    });
+
+    materialIndex.set(source.uuid, json.materials.length - 1);
+    return json.materials.length - 1;
+  };
+
+  const addIndices = (indices: ArrayLike<number>): number => {
+    json.accessors.push({
+      bufferView: addBufferView(Uint32Array.from(indices), ELEMENT_ARRAY_BUFFER),
+      componentType: UNSIGNED_INT,
+      count: indices.length,
+      type: 'SCALAR'
+    });
+    return json.accessors.length - 1;
+  };
+
+  const addMesh = (mesh: THREE.Mesh): number | undefined => {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute('position');
+    if (!position) {
+      return undefined;
+    }
+
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    const key = `${geometry.uuid}:${materials.map(material => material.uuid).join(',')}`;
+    const existing = meshIndex.get(key);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const attributes: Record<string, number> = { POSITION: addAccessor(position, true) };
+    const normal = geometry.getAttribute('normal');
+    if (normal) {
+      attributes.NORMAL = addAccessor(normal, false);
+    }
+    const uv = geometry.getAttribute('uv');
+    if (uv) {
+      attributes.TEXCOORD_0 = addAccessor(uv, false);
+    }
+
+    const index = geometry.getIndex();
+    let primitives: object[];
+    if (!Array.isArray(mesh.material)) {
+      primitives = [{ attributes, material: addMaterial(mesh.material), ...(index ? { indices: addIndices(index.array as ArrayLike<number>) } : {}) }];
+    } else {
+      // A material per geometry group, as on a box with each face in its own finish,
+      // becomes one primitive per group sharing the vertex attributes
+      const vertices = index ? (index.array as ArrayLike<number>) : null;
+      primitives = geometry.groups
+        .filter(group => group.count > 0 && materials[group.materialIndex || 0])
+        .map(group => {
+          const indices: number[] = [];
+          for (let i = group.start; i < group.start + group.count; i++) {
+            indices.push(vertices ? vertices[i] : i);
+          }
+          return { attributes, material: addMaterial(materials[group.materialIndex || 0]), indices: addIndices(indices) };
+        });
+    }
+    if (primitives.length === 0) {
+      return undefined;
+    }
+
+    json.meshes.push({ name: mesh.name || undefined, primitives });
+    meshIndex.set(key, json.meshes.length - 1);
+    return json.meshes.length - 1;
+  };
+
+  const addNode = (object: THREE.Object3D): number => {
+    const node: GLTFNode = {};
+    if (object.name) {
+      node.name = object.name;
+    }
+    if (!object.position.equals(new THREE.Vector3())) {
+      node.translation = object.position.toArray();
+    }
+    if (!object.quaternion.equals(new THREE.Quaternion())) {
+      node.rotation = object.quaternion.toArray();
+    }
+    if (!object.scale.equals(new THREE.Vector3(1, 1, 1))) {
+      node.scale = object.scale.toArray();
+    }
+    if (Object.keys(object.userData).length > 0) {
+      node.extras = { ...object.userData };
+    }
+    if ((object as THREE.Mesh).isMesh) {
+      node.mesh = addMesh(object as THREE.Mesh);
+    }
+
+    json.nodes.push(node);
+    const index = json.nodes.length - 1;
+
+    const children = object.children.filter(child => child.visible).map(addNode);
+    if (children.length > 0) {
+      node.children = children;
+    }
+
+    return index;
+  };
+
+  root.updateMatrixWorld(true);
+  json.scenes[0].nodes.push(addNode(root));
+  if (byteLength > 0) {
+    json.buffers.push({ byteLength });
+  }
+
+  // Drop empty top-level arrays, which glTF validators reject
+  const cleaned: Record<string, unknown> = {};
+  Object.keys(json).forEach(key => {
+    const value = json[key as keyof typeof json];
+    if (!Array.isArray(value) || value.length > 0) {
+      cleaned[key] = value;
+    }
+  });
+
+  return packGLB(cleaned, chunks, byteLength);
+}
+
+/**
+ * Wrap the JSON document and binary buffer in GLB chunks
+ */
+function packGLB(json: object, chunks: Uint8Array[], binaryLength: number): ArrayBuffer {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonPadded = Math.ceil(jsonBytes.byteLength / 4) * 4;
+  const binPadded = Math.ceil(binaryLength / 4) * 4;
+  const total = 12 + 8 + jsonPadded + (binaryLength > 0 ? 8 + binPadded : 0);
+
+  const buffer = new ArrayBuffer(total);
+  const output = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonPadded, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  output.set(jsonBytes, 20);
+  output.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonPadded); // JSON is padded with spaces
+
+  if (binaryLength > 0) {
+    const binStart = 20 + jsonPadded;
+    view.setUint32(binStart, binPadded, true);
+    view.setUint32(binStart + 4, CHUNK_BIN, true);
+    let offset = binStart + 8;
+    chunks.forEach(chunk => {
+      output.set(chunk, offset);
+      offset += chunk.byteLength;
+    });
+  }
+
+  return buffer;
+}
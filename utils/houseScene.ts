@@ -0,0 +1,296 @@
+/**
+ * House Scene Builder
+ * Builds the same house the 3D viewer renders in its exterior view as a
+ * plain THREE.js object tree, without React or WebGL, so it can be
+ * exported on the server. Rooms, walls and furniture become named nodes.
+ */
+
+import * as THREE from 'three';
+import { HouseLayout, Room, Furniture, WallSegment } from '@/types/house';
+import { getWallOpenings, getWallPieces, getWallStart } from '@/utils/openings';
+import { MaterialPreset, MaterialPresets, getStyleMaterials, getRoomFinish, getWallFaces, getFurnitureMaterial } from '@/utils/materials';
+import { getFurnitureParts } from '@/utils/furnitureCatalog';
+import { siteBounds, boundarySegments } from '@/utils/plot';
+import { createSurfaceGeometry } from '@/utils/textures';
+import { RoofGenerator, RoofPolygon } from '@/services/roofGenerator';
+
+interface MaterialOptions {
+  roughness?: number;
+  metalness?: number;
+  opacity?: number;
+}
+
+/**
+ * Build the complete house scene: structure, rooms, walls and grounds
+ */
+export function buildHouseScene(layout: HouseLayout): THREE.Group {
+  const scene = new THREE.Group();
+  scene.name = 'house-design';
+
+  const structure = new THREE.Group();
+  structure.name = 'house';
+  structure.add(
+    box('foundation', [layout.width + 0.4, 0.3, layout.length + 0.4], [layout.width / 2, -0.1, layout.length / 2], '#555555', { roughness: 0.9, metalness: 0.1 }),
+    buildRoof(layout)
+  );
+
+  layout.openings
+    .filter(opening => !opening.connectsTo)
+    .forEach(opening => {
+      const room = layout.rooms.find(r => r.id === opening.roomId);
+      if (!room) {
+        return;
+      }
+
+      const along = getWallStart(room, opening.wall) + opening.offset;
+      const y = room.position.y + opening.sillHeight + opening.height / 2;
+      const isDoor = opening.type === 'door';
+      const depth = isDoor ? 0.1 : 0.05;
+      const position: [number, number, number] =
+        opening.wall === 'south' ? [along, y, -0.05] :
+        opening.wall === 'north' ? [along, y, layout.length + 0.05] :
+        opening.wall === 'west' ? [-0.05, y, along] :
+        [layout.width + 0.05, y, along];
+      const size: [number, number, number] = opening.wall === 'south' || opening.wall === 'north'
+        ? [opening.width, opening.height, depth]
+        : [depth, opening.height, opening.width];
+
+      structure.add(isDoor
+        ? box(opening.id, size, position, layout.style === 'modern' ? '#8B4513' : '#654321', { roughness: 0.7, metalness: 0.1 })
+        : box(opening.id, size, position, '#87CEEB', { roughness: 0.1, metalness: 0.1, opacity: 0.3 }));
+    });
+
+  layout.rooms.forEach(room => structure.add(buildRoom(room, layout.style)));
+  layout.walls.forEach(wall => structure.add(buildWall(wall, layout)));
+
+  scene.add(structure, buildGround(layout));
+
+  return scene;
+}
+
+/**
+ * Roof node: the roofing, and the gables or parapets in the exterior wall finish
+ */
+function buildRoof(layout: HouseLayout): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'roof';
+  const plan = RoofGenerator.build(layout);
+  group.userData = { type: plan.spec.type, pitch: plan.spec.pitch, area: plan.area };
+
+  const roofing = MaterialPresets[plan.spec.material];
+  const walls = getStyleMaterials(layout.style).walls;
+  group.add(surface('roofing', plan.roofing, roofing.color, presetOptions(roofing)));
+  if (plan.walls.length) {
+    group.add(surface('roof-walls', plan.walls, walls.color, presetOptions(walls)));
+  }
+
+  return group;
+}
+
+/**
+ * Room node with its floor, stairs and furniture
+ */
+function buildRoom(room: Room, style: HouseLayout['style']): THREE.Group {
+  const group = new THREE.Group();
+  group.name = room.id;
+  group.userData = { name: room.name, type: room.type, floor: room.floor };
+  group.position.set(room.position.x, room.position.y, room.position.z);
+
+  const { width, length, height } = room.dimensions;
+  const floor = MaterialPresets[getRoomFinish(room, style).floor];
+
+  if (!(room.type === 'staircase' && room.floor > 0)) {
+    group.add(box(`${room.id}-floor`, [width, 0.02, length], [width / 2, 0.01, length / 2], floor.color, presetOptions(floor)));
+  }
+
+  if (room.type === 'staircase' && room.floor === 0) {
+    group.add(buildStairs(width, length, height, floor));
+  }
+
+  room.furniture.forEach(item => group.add(buildFurniture(item, style)));
+
+  return group;
+}
+
+/**
+ * Dog-leg staircase matching the viewer's StaircaseSteps
+ */
+function buildStairs(width: number, length: number, height: number, finish: MaterialPreset): THREE.Group {
+  const group = new THREE.Group();
+  group.name = 'stairs';
+
+  const stepsPerFlight = Math.ceil(height / 2 / 0.18);
+  const riser = height / 2 / stepsPerFlight;
+  const landingDepth = Math.min(1, length / 3);
+  const tread = (length - landingDepth) / stepsPerFlight;
+  const flightWidth = width / 2;
+  const options = presetOptions(finish);
+
+  for (let i = 0; i < stepsPerFlight; i++) {
+    group.add(box(`step-lower-${i + 1}`, [flightWidth, riser * (i + 1), tread], [flightWidth / 2, (riser * (i + 1)) / 2, tread * (i + 0.5)], finish.color, options));
+    group.add(box(`step-upper-${i + 1}`, [flightWidth, riser, tread],
+      [flightWidth * 1.5, height / 2 + riser * (i + 0.5), length - landingDepth - tread * (i + 0.5)], finish.color, options));
+  }
+
+  group.add(box('landing', [width, 0.1, landingDepth], [width / 2, height / 2 - 0.05, length - landingDepth / 2], finish.color, options));
+
+  return group;
+}
+
+/**
+ * Furniture node, built from the same catalog model as the viewer's FurnitureComponent
+ */
+function buildFurniture(furniture: Furniture, style: HouseLayout['style']): THREE.Group {
+  const group = new THREE.Group();
+  group.name = furniture.id;
+  group.userData = { name: furniture.name, type: furniture.type };
+  group.position.set(furniture.position.x, furniture.position.y, furniture.position.z);
+  group.rotation.y = furniture.rotation;
+
+  getFurnitureParts(furniture).forEach((part, i) => {
+    const name = `${furniture.id}-${part.finish}-${i + 1}`;
+    const preset = getFurnitureMaterial(part.finish, furniture.type, style);
+    const color = preset.color;
+    const options = { ...presetOptions(preset), opacity: part.finish === 'glass' ? 0.5 : undefined };
+    if (part.shape === 'cylinder') {
+      const mesh = cylinder(name, part.size[0] / 2, part.size[1], part.position, color, options);
+      if (part.axis === 'z') {
+        mesh.rotation.x = Math.PI / 2;
+      }
+      group.add(mesh);
+    } else {
+      group.add(box(name, part.size, part.position, color, options));
+    }
+  });
+
+  return group;
+}
+
+/**
+ * Wall node, split into solid pieces around its openings
+ */
+function buildWall(wall: WallSegment, layout: HouseLayout): THREE.Group {
+  const group = new THREE.Group();
+  group.name = wall.id;
+  group.userData = { exterior: wall.exterior };
+
+  const alongX = Math.abs(wall.end.z - wall.start.z) < 1e-6;
+  const room = layout.rooms.find(r => r.id === (wall.rooms[0] || wall.rooms[1]));
+  const elevation = room ? room.position.y : 0;
+  const openings = getWallOpenings(wall, layout);
+
+  // Each side of the wall in the finish of the room it faces; box faces run +x, -x, +y, -y, +z, -z
+  const [first, second] = getWallFaces(wall, layout).map(name => material(MaterialPresets[name].color, presetOptions(MaterialPresets[name])));
+  const faces = alongX ? [first, first, first, first, second, first] : [second, first, first, first, first, first];
+
+  const placeAt = (along: number, y: number): [number, number, number] =>
+    alongX ? [wall.start.x + along, elevation + y, wall.start.z] : [wall.start.x, elevation + y, wall.start.z + along];
+
+  getWallPieces(wall, openings).forEach((piece, i) => {
+    const size = piece.to - piece.from;
+    const height = piece.top - piece.bottom;
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(...(alongX ? [size, height, wall.thickness] : [wall.thickness, height, size])), faces);
+    mesh.name = `${wall.id}-piece-${i + 1}`;
+    mesh.position.set(...placeAt((piece.from + piece.to) / 2, (piece.bottom + piece.top) / 2));
+    group.add(mesh);
+  });
+
+  openings
+    .filter(({ opening }) => opening.type === 'window')
+    .forEach(({ opening, start, end }) => {
+      group.add(box(`${opening.id}-glass`,
+        alongX ? [opening.width, opening.height, 0.02] : [0.02, opening.height, opening.width],
+        placeAt((start + end) / 2, opening.sillHeight + opening.height / 2),
+        '#87CEEB', { roughness: 0.1, metalness: 0.1, opacity: 0.3 }));
+    });
+
+  return group;
+}
+
+/**
+ * Plot, lawn, path and trees around the house
+ */
+function buildGround(layout: HouseLayout): THREE.Group {
+  const { width, length, plot } = layout;
+  const bounds = siteBounds(layout);
+  const group = new THREE.Group();
+  group.name = 'ground';
+
+  group.add(
+    box('grass', [bounds.maxX - bounds.minX + 20, 1, bounds.maxZ - bounds.minZ + 20],
+      [(bounds.minX + bounds.maxX) / 2, -0.5, (bounds.minZ + bounds.maxZ) / 2], plot ? '#6B8E23' : '#228B22', { roughness: 0.95, metalness: 0 }),
+    box('path', [width + 2, 0.05, length + 2], [width / 2, -0.48, length / 2], '#C0C0C0', { roughness: 0.7, metalness: 0 }),
+    cylinder('tree-1-trunk', 0.5, 2, [bounds.maxX + 5, 1, length / 4], '#8B4513'),
+    cylinder('tree-1-crown', 2, 2, [bounds.maxX + 5, 3, length / 4], '#228B22'),
+    cylinder('tree-2-trunk', 0.4, 1.8, [bounds.minX - 3, 1, length * 0.7], '#8B4513'),
+    cylinder('tree-2-crown', 1.8, 1.8, [bounds.minX - 3, 2.8, length * 0.7], '#32CD32')
+  );
+
+  if (plot) {
+    // The plot itself as a lawn just above the surrounding ground, edged with a kerb
+    const lawn = new THREE.Mesh(
+      new THREE.ShapeGeometry(new THREE.Shape(plot.boundary.map(point => new THREE.Vector2(point.x, -point.z)))),
+      material('#228B22', { roughness: 0.95, metalness: 0 })
+    );
+    lawn.name = 'plot';
+    lawn.rotation.x = -Math.PI / 2;
+    lawn.position.y = 0.01;
+    group.add(lawn);
+
+    boundarySegments(plot.boundary).forEach((segment, index) => {
+      const kerb = box(`plot-edge-${index + 1}`, [segment.length, 0.12, 0.15], [segment.center.x, 0.06, segment.center.z], '#A9A9A9', { roughness: 0.8, metalness: 0 });
+      kerb.rotation.y = segment.angle;
+      group.add(kerb);
+    });
+  }
+
+  return group;
+}
+
+// Options for a material preset; its texture maps need a canvas, so exports leave them out
+function presetOptions(preset: MaterialPreset): MaterialOptions {
+  return { roughness: preset.roughness, metalness: preset.metalness };
+}
+
+function material(color: string, options: MaterialOptions = {}): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    color,
+    roughness: options.roughness ?? 1,
+    metalness: options.metalness ?? 0,
+    transparent: options.opacity !== undefined,
+    opacity: options.opacity ?? 1
+  });
+}
+
+function box(
+  name: string,
+  size: [number, number, number],
+  position: [number, number, number],
+  color: string,
+  options?: MaterialOptions
+): THREE.Mesh {
+  const mesh = new THREE.Mesh(new THREE.BoxGeometry(...size), material(color, options));
+  mesh.name = name;
+  mesh.position.set(...position);
+  return mesh;
+}
+
+function surface(name: string, polygons: RoofPolygon[], color: string, options?: MaterialOptions): THREE.Mesh {
+  const mesh = new THREE.Mesh(createSurfaceGeometry(polygons), material(color, options));
+  mesh.name = name;
+  return mesh;
+}
+
+function cylinder(
+  name: string,
+  radius: number,
+  height: number,
+  position: [number, number, number],
+  color: string,
+  options: MaterialOptions = { roughness: 0.9, metalness: 0 }
+): THREE.Mesh {
+  const mesh = new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, height), material(color, options));
+  mesh.name = name;
+  mesh.position.set(...position);
+  return mesh;
+}
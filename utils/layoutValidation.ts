@@ -0,0 +1,94 @@
+/**
+ * Layout Validation
+ * Shape checks for house layouts sent to the API routes, so that a malformed
+ * layout is turned away before an export or check trips over it
+ */
+
+type Fields = Record<string, unknown>;
+
+const SIDES = ['north', 'south', 'east', 'west'];
+
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isFloor = (value: unknown): boolean => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// An object whose given fields are all finite numbers
+function hasNumbers(value: unknown, keys: string[]): boolean {
+  return isObject(value) && keys.every(key => isNumber(value[key]));
+}
+
+function isFurniture(value: unknown): boolean {
+  return isObject(value) &&
+    isText(value.id) &&
+    isText(value.type) &&
+    hasNumbers(value.position, ['x', 'y', 'z']) &&
+    hasNumbers(value.dimensions, ['width', 'length', 'height']) &&
+    isNumber(value.rotation);
+}
+
+function isRoom(value: unknown): boolean {
+  return isObject(value) &&
+    isText(value.id) &&
+    typeof value.name === 'string' &&
+    isText(value.type) &&
+    isFloor(value.floor) &&
+    hasNumbers(value.position, ['x', 'y', 'z']) &&
+    hasNumbers(value.dimensions, ['width', 'length', 'height']) &&
+    Array.isArray(value.furniture) &&
+    value.furniture.every(isFurniture);
+}
+
+function isWall(value: unknown): boolean {
+  return isObject(value) &&
+    isText(value.id) &&
+    isFloor(value.floor) &&
+    hasNumbers(value.start, ['x', 'z']) &&
+    hasNumbers(value.end, ['x', 'z']) &&
+    hasNumbers(value, ['height', 'thickness']) &&
+    typeof value.exterior === 'boolean' &&
+    Array.isArray(value.rooms) &&
+    value.rooms.length === 2 &&
+    value.rooms.every(room => room === null || typeof room === 'string');
+}
+
+function isOpening(value: unknown): boolean {
+  return isObject(value) &&
+    isText(value.id) &&
+    (value.type === 'door' || value.type === 'window') &&
+    isText(value.wallId) &&
+    isText(value.roomId) &&
+    (value.connectsTo === undefined || typeof value.connectsTo === 'string') &&
+    SIDES.indexOf(value.wall as string) >= 0 &&
+    hasNumbers(value, ['offset', 'width', 'height', 'sillHeight']);
+}
+
+/**
+ * Check that a value is a house layout: its size and floor count, and rooms,
+ * walls and openings with every field the exports and checks read.
+ * Returns an error message naming the first bad entry, or null when the
+ * layout is valid.
+ */
+export function validateLayout(value: unknown): string | null {
+  if (!isObject(value) || !Array.isArray(value.rooms) || !Array.isArray(value.walls) || !Array.isArray(value.openings)) {
+    return 'A house layout with rooms, walls and openings is required';
+  }
+
+  if (!hasNumbers(value, ['width', 'length', 'height']) || !isFloor(value.floors) || (value.floors as number) < 1) {
+    return 'The house layout needs a width, length, height and number of floors';
+  }
+
+  const entries: Array<[unknown[], (entry: unknown) => boolean, string]> = [
+    [value.rooms, isRoom, 'Room'],
+    [value.walls, isWall, 'Wall'],
+    [value.openings, isOpening, 'Opening']
+  ];
+  for (const [list, isValid, label] of entries) {
+    const index = list.findIndex(entry => !isValid(entry));
+    if (index >= 0) {
+      return `${label} ${index + 1} of the house layout is missing fields or has fields of the wrong type`;
+    }
+  }
+
+  return null;
+}
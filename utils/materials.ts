@@ -1,12 +1,15 @@
 /**
  * Texture and Material Utilities
- * Free PBR materials implementation for realistic house rendering
- * Uses free resources like Polyhaven, FreePBR.com, etc.
+ * PBR material presets for realistic house rendering, textured with the
+ * procedural maps from utils/textures
  */
 
 import * as THREE from 'three';
+import { HouseLayout, Room, Furniture, RoomFinish, FinishMaterial, WallSegment } from '@/types/house';
+import { getTextureMaps, TexturePattern } from '@/utils/textures';
+import { PartFinish } from '@/utils/furnitureCatalog';
 
-// Free PBR Material presets based on Polyhaven and FreePBR resources
+// PBR material presets
 export const MaterialPresets = {
   // Wall Materials
   MODERN_CONCRETE: {
@@ -33,6 +36,22 @@ export const MaterialPresets = {
     description: 'White stucco exterior'
   },
 
+  PAINTED_PLASTER: {
+    color: '#F3E9D2',
+    roughness: 0.9,
+    metalness: 0.0,
+    normalScale: [0.4, 0.4] as [number, number],
+    description: 'Painted plaster'
+  },
+
+  WOOD_PANELLING: {
+    color: '#A0744B',
+    roughness: 0.65,
+    metalness: 0.0,
+    normalScale: [1, 1] as [number, number],
+    description: 'Wood wall panelling'
+  },
+
   // Roof Materials
   CLAY_TILES: {
     color: '#8B4513',
@@ -83,6 +102,14 @@ export const MaterialPresets = {
     description: 'Soft carpet texture'
   },
 
+  STONE_TILE: {
+    color: '#A8A29A',
+    roughness: 0.6,
+    metalness: 0.0,
+    normalScale: [1.2, 1.2] as [number, number],
+    description: 'Natural stone tile'
+  },
+
   // Ground Materials
   GRASS: {
     color: '#228B22',
@@ -131,9 +158,33 @@ export const MaterialPresets = {
     metalness: 0.0,
     normalScale: [0.5, 0.5] as [number, number],
     description: 'Soft fabric upholstery'
+  },
+
+  PORCELAIN: {
+    color: '#F8F9F9',
+    roughness: 0.15,
+    metalness: 0.0,
+    normalScale: [0.1, 0.1] as [number, number],
+    description: 'Glazed porcelain and enamel'
+  },
+
+  GLASS: {
+    color: '#AED6F1',
+    roughness: 0.05,
+    metalness: 0.1,
+    normalScale: [0, 0] as [number, number],
+    description: 'Clear glass'
   }
 };
 
+export type MaterialName = keyof typeof MaterialPresets;
+
+export type MaterialPreset = (typeof MaterialPresets)[MaterialName];
+
+// Finishes a room's floor and walls can be given, in the order the palette shows them
+export const FLOOR_FINISHES: FinishMaterial[] = ['HARDWOOD_FLOOR', 'CERAMIC_TILE', 'CARPET', 'STONE_TILE', 'MODERN_CONCRETE'];
+export const WALL_FINISHES: FinishMaterial[] = ['PAINTED_PLASTER', 'STUCCO_WHITE', 'MODERN_CONCRETE', 'TRADITIONAL_BRICK', 'WOOD_PANELLING'];
+
 /**
  * Get material preset by name
  */
@@ -141,6 +192,13 @@ export function getMaterialPreset(name: keyof typeof MaterialPresets) {
   return MaterialPresets[name];
 }
 
+/**
+ * Name of a material preset, for tables keyed by preset such as cost rates
+ */
+export function getMaterialName(preset: MaterialPreset): MaterialName {
+  return (Object.keys(MaterialPresets) as MaterialName[]).filter(name => MaterialPresets[name] === preset)[0];
+}
+
 /**
  * Create a THREE.js material from preset
  */
@@ -192,55 +250,157 @@ export function getRoomMaterials(roomType: string, style: 'modern' | 'traditiona
         floor: MaterialPresets.CERAMIC_TILE,
         walls: styleMaterials.walls
       };
+    case 'garage':
+      return {
+        floor: MaterialPresets.MODERN_CONCRETE,
+        walls: MaterialPresets.MODERN_CONCRETE
+      };
     case 'bedroom':
     case 'living':
       return {
         floor: style === 'modern' ? MaterialPresets.HARDWOOD_FLOOR : MaterialPresets.CARPET,
-        walls: styleMaterials.walls
+        walls: style === 'modern' ? MaterialPresets.MODERN_CONCRETE : MaterialPresets.PAINTED_PLASTER
       };
     default:
       return {
         floor: styleMaterials.floor,
-        walls: styleMaterials.walls
+        walls: style === 'modern' ? MaterialPresets.MODERN_CONCRETE : MaterialPresets.PAINTED_PLASTER
       };
   }
 }
 
 /**
- * Free texture resources URLs (for future implementation)
+ * Finishes a room of a type is given when it is generated
+ */
+export function getDefaultFinish(roomType: Room['type'], style: 'modern' | 'traditional'): RoomFinish {
+  const materials = getRoomMaterials(roomType, style);
+  // Every room material recommended above is one of the finishes
+  return { floor: getMaterialName(materials.floor) as FinishMaterial, walls: getMaterialName(materials.walls) as FinishMaterial };
+}
+
+/**
+ * Finishes of a room, falling back to its type's defaults for designs saved before finishes
  */
-export const FreeTextureResources = {
-  POLYHAVEN: 'https://polyhaven.com/textures',
-  FREEPBR: 'https://freepbr.com',
-  TEXTURES_COM: 'https://www.textures.com',
-  SKETCHFAB: 'https://sketchfab.com/tags/cc0',
-  OPEN3DMODEL: 'https://www.open3dmodel.com'
+export function getRoomFinish(room: Room, style: 'modern' | 'traditional'): RoomFinish {
+  return room.finish || getDefaultFinish(room.type, style);
+}
+
+/**
+ * Finish of each side of a wall, south or west side first. A side facing a
+ * room takes the room's wall finish; a side facing outside takes the style's
+ * exterior walls.
+ */
+export function getWallFaces(wall: WallSegment, layout: Pick<HouseLayout, 'rooms' | 'style'>): [MaterialName, MaterialName] {
+  const exterior = getMaterialName(getStyleMaterials(layout.style).walls);
+  const face = (roomId: string | null): MaterialName => {
+    const room = roomId ? layout.rooms.find(r => r.id === roomId) : undefined;
+    return room ? getRoomFinish(room, layout.style).walls : exterior;
+  };
+  return [face(wall.rooms[0]), face(wall.rooms[1])];
+}
+
+/**
+ * Material of one surface of a furniture model: the preset for what the
+ * surface is made of, in a color for the style. The body takes a color per
+ * furniture type so a bed frame still reads as a bed from afar.
+ */
+export function getFurnitureMaterial(finish: PartFinish, furnitureType: Furniture['type'], style: 'modern' | 'traditional'): MaterialPreset {
+  const bodies: Record<Furniture['type'], MaterialName> = {
+    bed: 'FABRIC_SOFT',
+    sofa: 'FABRIC_SOFT',
+    chair: 'FABRIC_SOFT',
+    table: 'WOOD_FURNITURE',
+    cabinet: 'WOOD_FURNITURE',
+    appliance: 'PORCELAIN'
+  };
+  const presets: Record<Exclude<PartFinish, 'body'>, MaterialName> = {
+    wood: 'WOOD_FURNITURE',
+    fabric: 'FABRIC_SOFT',
+    cushion: 'FABRIC_SOFT',
+    linen: 'FABRIC_SOFT',
+    metal: 'METAL_APPLIANCE',
+    white: 'PORCELAIN',
+    dark: 'GLASS',
+    glass: 'GLASS'
+  };
+  const colors: Record<'modern' | 'traditional', Record<PartFinish | Furniture['type'], string>> = {
+    modern: {
+      bed: '#2C3E50',
+      sofa: '#34495E',
+      table: '#95A5A6',
+      chair: '#7F8C8D',
+      cabinet: '#BDC3C7',
+      appliance: '#ECF0F1',
+      body: '#BDC3C7',
+      wood: '#A47551',
+      fabric: '#5D6D7E',
+      cushion: '#85929E',
+      linen: '#F4F6F7',
+      metal: '#909497',
+      white: '#F8F9F9',
+      dark: '#1C2833',
+      glass: '#AED6F1'
+    },
+    traditional: {
+      bed: '#8B4513',
+      sofa: '#A0522D',
+      table: '#CD853F',
+      chair: '#DEB887',
+      cabinet: '#D2B48C',
+      appliance: '#F5DEB3',
+      body: '#D2B48C',
+      wood: '#6F4E37',
+      fabric: '#8E3B2F',
+      cushion: '#C19A6B',
+      linen: '#FAF3E0',
+      metal: '#7B7D7D',
+      white: '#F5F5F0',
+      dark: '#3E2723',
+      glass: '#B3D9E6'
+    }
+  };
+
+  const preset = MaterialPresets[finish === 'body' ? bodies[furnitureType] || 'WOOD_FURNITURE' : presets[finish]];
+  return { ...preset, color: colors[style][finish === 'body' ? furnitureType : finish] || colors[style].body };
+}
+
+// Pattern each preset is drawn with; presets not listed get a plain weathered finish
+const PRESET_PATTERNS: Partial<Record<MaterialName, TexturePattern>> = {
+  TRADITIONAL_BRICK: 'brick',
+  CERAMIC_TILE: 'tile',
+  STONE_TILE: 'large-tile',
+  HARDWOOD_FLOOR: 'planks',
+  WOOD_PANELLING: 'planks',
+  WOOD_FURNITURE: 'planks',
+  CLAY_TILES: 'roof-tiles',
+  ASPHALT_SHINGLES: 'roof-tiles',
+  CARPET: 'carpet',
+  GRASS: 'grass'
 };
 
+const surfaceMaterials: Partial<Record<MaterialName, THREE.MeshStandardMaterial>> = {};
+
 /**
- * Generate procedural normal map for enhanced detail
+ * Material for a preset with its procedural albedo, normal and roughness
+ * maps, for geometry whose UVs are in meters (see applyWorldUVs). One
+ * material is shared by every surface with the preset, so it must not be
+ * disposed. Needs a browser, as the maps are drawn on a canvas.
  */
-export function createProceduralNormal(scale: number = 1) {
-  const canvas = document.createElement('canvas');
-  const size = 256;
-  canvas.width = canvas.height = size;
-  const ctx = canvas.getContext('2d')!;
-  
-  // Create noise pattern for normal map
-  const imageData = ctx.createImageData(size, size);
-  for (let i = 0; i < imageData.data.length; i += 4) {
-    const noise = Math.random() * 0.5 + 0.5;
-    imageData.data[i] = 128 + (noise - 0.5) * 50 * scale;     // R
-    imageData.data[i + 1] = 128 + (noise - 0.5) * 50 * scale; // G
-    imageData.data[i + 2] = 255;                              // B (Z)
-    imageData.data[i + 3] = 255;                              // A
+export function getSurfaceMaterial(name: MaterialName): THREE.MeshStandardMaterial {
+  if (!surfaceMaterials[name]) {
+    const preset = MaterialPresets[name];
+    // Each preset gets its own seed so neighbouring surfaces do not repeat the same pattern
+    const seed = (Object.keys(MaterialPresets) as MaterialName[]).indexOf(name) + 1;
+    const maps = getTextureMaps(PRESET_PATTERNS[name] || 'plain', preset.color, seed);
+
+    surfaceMaterials[name] = new THREE.MeshStandardMaterial({
+      map: maps.map,
+      roughness: preset.roughness,
+      metalness: preset.metalness,
+      normalMap: maps.normalMap,
+      normalScale: new THREE.Vector2(...preset.normalScale),
+      roughnessMap: maps.roughnessMap
+    });
   }
-  
-  ctx.putImageData(imageData, 0, 0);
-  
-  const texture = new THREE.CanvasTexture(canvas);
-  texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
-  texture.repeat.set(scale, scale);
-  
-  return texture;
-}
\ No newline at end of file
+  return surfaceMaterials[name]!;
+}
@@ -0,0 +1,265 @@
+/**
+ * Note Parser
+ * Turns the free-text extra notes into layout constraints with a fixed set
+ * of phrase rules, so it works offline and always gives the same answer.
+ * Whatever no rule recognises is handed back so it can be reported.
+ */
+
+import { LayoutConstraint, Room, WallSide } from '@/types/house';
+
+// A constraint together with the words of the notes it came from
+export interface NoteConstraint {
+  text: string;
+  constraint: LayoutConstraint;
+  limited?: string; // Why the constraint asks for less than the notes did
+}
+
+export interface ParsedNotes {
+  constraints: NoteConstraint[];
+  notUnderstood: string[];
+}
+
+interface NoteRule {
+  pattern: RegExp; // Must be global; every match in a clause is used
+  build: (match: RegExpExecArray) => LayoutConstraint;
+}
+
+export const MAX_GARAGE_CARS = 3;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, single: 1,
+  two: 2, double: 2,
+  three: 3, triple: 3,
+  four: 4
+};
+
+const SIDE_WORDS: Record<string, WallSide> = {
+  north: 'north', back: 'north', rear: 'north',
+  south: 'south', front: 'south', street: 'south',
+  east: 'east',
+  west: 'west'
+};
+
+const ROOM_LABELS: Partial<Record<Room['type'], string>> = {
+  bedroom: 'Bedrooms',
+  living: 'Living room',
+  kitchen: 'Kitchen',
+  dining: 'Dining room',
+  study: 'Study',
+  prayer: 'Prayer room'
+};
+
+const ROOM_WORDS = 'master\\s+bedroom|bedrooms?|living(?:\\s+room)?|lounge|kitchens?|dining(?:\\s+room)?|study|prayer\\s+room';
+const SIDES = 'north|south|east|west|front|back|rear|street';
+
+// Words that turn down what follows them in a clause, e.g. "no garage", "we do not need a study"
+const NEGATION = /\b(?:no|not|without|never|nor|don'?t|doesn'?t|dont)\b/gi;
+// Filler words allowed between a negation and the phrase it turns down, as in "not really need a study"
+const MAX_NEGATION_GAP = 3;
+// Words that turn down what comes before them, e.g. "garage not needed"
+const TRAILING_NEGATION = /^\s*(?:is\s+|are\s+)?not\s+(?:needed|required|necessary|wanted)\b/i;
+
+// Filler words that may surround a recognised phrase without being worth reporting
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'with', 'also', 'plus', 'please', 'i', 'we', 'want', 'would', 'like', 'need',
+  'should', 'have', 'has', 'be', 'is', 'are', 'it', 'my', 'our', 'to', 'for', 'of', 'in', 'on', 'some', 'must',
+  'prefer', 'include', 'add', 'there', 'separate', 'nice', 'good', 'do', 'does', 'any', 'really'
+]);
+
+const RULES: NoteRule[] = [
+  {
+    pattern: /\b(?:(?:master|main|primary)\s+bed(?:room)?\s+(?:with\s+(?:an?\s+)?)?)?(?:attached|en-?suite|private|own)\s+(?:bath(?:room)?|toilet|washroom)s?\b|\ben-?suite\b/gi,
+    build: () => ({ kind: 'ensuite' })
+  },
+  {
+    pattern: /\bopen(?:[\s-]+plan)?[\s-]+kitchen\b|\bkitchen\s+(?:should\s+be\s+|is\s+)?open(?:[\s-]+plan)?\b/gi,
+    build: () => ({ kind: 'open-kitchen' })
+  },
+  {
+    pattern: /\b(?:(\d+|one|two|three|four|single|double|triple)(?:[\s-]*cars?)?\s+)?(?:garage|car\s*port|car\s+parking)(?:\s+for\s+(\d+|an?|one|two|three|four)\s+(?:cars?|vehicles?))?/gi,
+    build: match => ({ kind: 'garage', cars: parseCount(match[1] || match[2]) })
+  },
+  {
+    pattern: /\b(?:prayer|pooja|puja|worship|meditation)(?:\s+(?:room|space|area|hall))?\b/gi,
+    build: () => ({ kind: 'extra-room', roomType: 'prayer' })
+  },
+  {
+    pattern: /\b(?:study(?:\s+room)?|home\s+office|office(?:\s+room)?|library)\b/gi,
+    build: () => ({ kind: 'extra-room', roomType: 'study' })
+  },
+  {
+    pattern: new RegExp(`\\b(${ROOM_WORDS})\\s+(?:should\\s+)?(?:fac(?:e|es|ing)|towards?|on\\s+the)\\s+(?:the\\s+)?(${SIDES})(?:\\s+side)?\\b`, 'gi'),
+    build: match => facing(match[1], match[2])
+  },
+  {
+    pattern: new RegExp(`\\b(${SIDES})[\\s-]+facing\\s+(${ROOM_WORDS})\\b`, 'gi'),
+    build: match => facing(match[2], match[1])
+  }
+];
+
+/**
+ * Find the constraints in the notes. Each clause (split at punctuation and
+ * line breaks) may hold several; phrases the clause turns down ("no garage")
+ * are skipped, and leftover words are reported as not understood.
+ */
+export function parseExtraNotes(notes: string): ParsedNotes {
+  const constraints: NoteConstraint[] = [];
+  const notUnderstood: string[] = [];
+  const seen = new Set<string>();
+
+  notes.split(/[.,;:!?\n]+/).forEach(clause => {
+    const covered: Array<[number, number]> = [];
+    const matches: Array<{ rule: NoteRule; match: RegExpExecArray }> = [];
+
+    RULES.forEach(rule => {
+      rule.pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = rule.pattern.exec(clause)) !== null) {
+        covered.push([match.index, match.index + match[0].length]);
+        matches.push({ rule, match });
+      }
+    });
+
+    matches.forEach(({ rule, match }) => {
+      const negation = findNegation(clause, match, covered);
+      if (negation) {
+        covered.push(negation);
+        return;
+      }
+
+      const constraint = rule.build(match);
+      const key = constraint.kind === 'garage' ? 'garage' : JSON.stringify(constraint);
+      if (!seen.has(key)) {
+        seen.add(key);
+        constraints.push({ text: match[0].trim(), constraint, limited: limit(constraint) });
+      }
+    });
+
+    leftovers(clause, covered).forEach(text => notUnderstood.push(text));
+  });
+
+  return { constraints, notUnderstood };
+}
+
+/**
+ * Short description of a constraint, e.g. "Garage for 2 cars"
+ */
+export function describeConstraint(constraint: LayoutConstraint): string {
+  switch (constraint.kind) {
+    case 'ensuite':
+      return 'Master bedroom with attached bathroom';
+    case 'open-kitchen':
+      return 'Open kitchen';
+    case 'garage':
+      return `Garage for ${constraint.cars} car${constraint.cars === 1 ? '' : 's'}`;
+    case 'extra-room':
+      return constraint.roomType === 'prayer' ? 'Prayer room' : 'Study';
+    case 'facing':
+      return `${constraint.master ? 'Master bedroom' : ROOM_LABELS[constraint.roomType] || constraint.roomType} facing ${constraint.side}`;
+  }
+}
+
+/**
+ * Pieces of a clause outside the recognised phrases that hold more than filler words
+ */
+function leftovers(clause: string, covered: Array<[number, number]>): string[] {
+  const pieces: string[] = [];
+  let cursor = 0;
+
+  covered
+    .sort((a, b) => a[0] - b[0])
+    .concat([[clause.length, clause.length]])
+    .forEach(([start, end]) => {
+      if (start > cursor) {
+        pieces.push(clause.slice(cursor, start));
+      }
+      cursor = Math.max(cursor, end);
+    });
+
+  return pieces
+    .map(piece => {
+      const words = piece.trim().split(/\s+/).filter(word => word.length > 0);
+      const isFiller = (word: string) => FILLER_WORDS.has(word.toLowerCase());
+      while (words.length > 0 && isFiller(words[0])) {
+        words.shift();
+      }
+      while (words.length > 0 && isFiller(words[words.length - 1])) {
+        words.pop();
+      }
+      return words.join(' ');
+    })
+    .filter(text => /[a-z]/i.test(text));
+}
+
+/**
+ * Span of the words turning a matched phrase down, or null when it is wanted.
+ * A negation only counts right before the phrase, with at most a few filler
+ * words between, so "no kids but a garage" still asks for the garage.
+ */
+function findNegation(clause: string, match: RegExpExecArray, covered: Array<[number, number]>): [number, number] | null {
+  const start = match.index;
+  const end = start + match[0].length;
+  const before = covered.reduce((from, [, to]) => (to <= start ? Math.max(from, to) : from), 0);
+  const after = covered.reduce((to, [from]) => (from >= end ? Math.min(to, from) : to), clause.length);
+
+  NEGATION.lastIndex = 0;
+  const text = clause.slice(before, start);
+  let leading: RegExpExecArray | null = null;
+  let found: RegExpExecArray | null;
+  while ((found = NEGATION.exec(text)) !== null) {
+    leading = found;
+  }
+  if (leading) {
+    const gap = text.slice(leading.index + leading[0].length).split(/\s+/).filter(word => word.length > 0);
+    if (gap.length <= MAX_NEGATION_GAP && gap.every(word => FILLER_WORDS.has(word.toLowerCase()))) {
+      return [before + leading.index, start];
+    }
+  }
+  const trailing = TRAILING_NEGATION.exec(clause.slice(end, after));
+  return trailing ? [end, end + trailing[0].length] : null;
+}
+
+/**
+ * Cut a constraint down to what the generator can build, returning why it was
+ */
+function limit(constraint: LayoutConstraint): string | undefined {
+  if (constraint.kind === 'garage' && constraint.cars > MAX_GARAGE_CARS) {
+    const asked = constraint.cars;
+    constraint.cars = MAX_GARAGE_CARS;
+    return `${asked} cars were asked for, but a garage holds at most ${MAX_GARAGE_CARS}`;
+  }
+  return undefined;
+}
+
+function parseCount(word: string | undefined): number {
+  if (!word) {
+    return 1;
+  }
+  const count = /^\d+$/.test(word) ? parseInt(word, 10) : NUMBER_WORDS[word.toLowerCase()] || 1;
+  return Math.max(1, count);
+}
+
+// Only a note naming the master bedroom is about that one bedroom
+function facing(roomWords: string, sideWord: string): LayoutConstraint {
+  const side = SIDE_WORDS[sideWord.toLowerCase()];
+  return /^master/i.test(roomWords)
+    ? { kind: 'facing', roomType: 'bedroom', side, master: true }
+    : { kind: 'facing', roomType: parseRoomType(roomWords), side };
+}
+
+function parseRoomType(words: string): Room['type'] {
+  const word = words.toLowerCase();
+  if (word.indexOf('bedroom') >= 0) {
+    return 'bedroom';
+  }
+  if (word.indexOf('living') >= 0 || word === 'lounge') {
+    return 'living';
+  }
+  if (word.indexOf('kitchen') >= 0) {
+    return 'kitchen';
+  }
+  if (word.indexOf('dining') >= 0) {
+    return 'dining';
+  }
+  return word === 'study' ? 'study' : 'prayer';
+}
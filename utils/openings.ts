@@ -0,0 +1,84 @@
+/**
+ * Opening Utilities
+ * Resolves where doors and windows sit along room walls and wall segments
+ */
+
+import { HouseLayout, Opening, Room, WallSegment, WallSide } from '@/types/house';
+
+// Opening measured along a wall segment from the segment's start
+export interface WallOpening {
+  opening: Opening;
+  start: number;
+  end: number;
+}
+
+/**
+ * Where a wall of a room starts along its own axis, in house coordinates
+ */
+export function getWallStart(room: Room, side: WallSide): number {
+  return side === 'north' || side === 'south' ? room.position.x : room.position.z;
+}
+
+/**
+ * Length of a room wall
+ */
+export function getWallLength(room: Room, side: WallSide): number {
+  return side === 'north' || side === 'south' ? room.dimensions.width : room.dimensions.length;
+}
+
+/**
+ * Collect the openings cut into a wall segment, measured from the segment's start
+ */
+export function getWallOpenings(wall: WallSegment, layout: Pick<HouseLayout, 'rooms' | 'openings'>): WallOpening[] {
+  const wallStart = Math.abs(wall.end.z - wall.start.z) < 1e-6 ? wall.start.x : wall.start.z;
+
+  return layout.openings
+    .filter(opening => opening.wallId === wall.id)
+    .reduce<WallOpening[]>((result, opening) => {
+      const host = layout.rooms.find(room => room.id === opening.roomId);
+      if (host) {
+        const centre = getWallStart(host, opening.wall) + opening.offset - wallStart;
+        result.push({ opening, start: centre - opening.width / 2, end: centre + opening.width / 2 });
+      }
+      return result;
+    }, [])
+    .sort((a, b) => a.start - b.start);
+}
+
+// Solid block of wall left around the openings, measured along the wall and up from its base
+export interface WallPiece {
+  from: number;
+  to: number;
+  bottom: number;
+  top: number;
+}
+
+/**
+ * Split a wall into solid pieces around its openings: full-height piers
+ * between openings, a lintel above each one and a sill below windows.
+ * Walls along x run half a thickness past each end to close the corners.
+ */
+export function getWallPieces(wall: WallSegment, openings: WallOpening[]): WallPiece[] {
+  const alongX = Math.abs(wall.end.z - wall.start.z) < 1e-6;
+  const length = alongX ? wall.end.x - wall.start.x : wall.end.z - wall.start.z;
+  const extension = alongX ? wall.thickness / 2 : 0;
+  const pieces: WallPiece[] = [];
+  let cursor = -extension;
+
+  openings.forEach(({ opening, start, end }) => {
+    const from = Math.max(start, 0);
+    const to = Math.min(end, length);
+    if (to <= from) {
+      return;
+    }
+
+    pieces.push({ from: cursor, to: from, bottom: 0, top: wall.height });
+    pieces.push({ from, to, bottom: Math.min(opening.sillHeight + opening.height, wall.height), top: wall.height });
+    pieces.push({ from, to, bottom: 0, top: opening.sillHeight });
+    cursor = Math.max(cursor, to);
+  });
+
+  pieces.push({ from: cursor, to: length + extension, bottom: 0, top: wall.height });
+
+  return pieces.filter(piece => piece.to - piece.from > 0.001 && piece.top - piece.bottom > 0.001);
+}
@@ -0,0 +1,160 @@
+/**
+ * PDF Writer
+ * Writes plan sheets to a multi-page vector PDF using only the built-in
+ * Helvetica fonts, so it needs no external libraries and runs anywhere
+ */
+
+import { PlanSheet, PlanShape, PlanPoint, arcPoint } from '@/utils/floorPlan';
+
+const A4_LONG = 842; // A4 sides in PDF points
+const A4_SHORT = 595;
+const PAGE_MARGIN = 36;
+const AVERAGE_CHAR_WIDTH = 0.52; // Helvetica glyph width as a share of the font size, for centring text
+
+/**
+ * Render plan sheets as a PDF document, one A4 page per sheet
+ */
+export function renderPlanPdf(sheets: PlanSheet[]): ArrayBuffer {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+
+  // Fixed objects: 1 catalog, 2 page tree, 3 regular font, 4 bold font
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  sheets.forEach(sheet => {
+    const landscape = sheet.width >= sheet.height;
+    const pageWidth = landscape ? A4_LONG : A4_SHORT;
+    const pageHeight = landscape ? A4_SHORT : A4_LONG;
+    const scale = Math.min((pageWidth - PAGE_MARGIN * 2) / sheet.width, (pageHeight - PAGE_MARGIN * 2) / sheet.height);
+    const offsetX = (pageWidth - sheet.width * scale) / 2;
+    const offsetY = (pageHeight + sheet.height * scale) / 2;
+
+    // Flip the y axis so sheet coordinates (y down, meters) can be written directly
+    const content = [
+      `q ${num(scale)} 0 0 ${num(-scale)} ${num(offsetX)} ${num(offsetY)} cm`,
+      '1 J 1 j',
+      ...sheet.shapes.map(drawShape),
+      'Q'
+    ].join('\n');
+
+    const contentId = objects.length;
+    objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+
+    const pageId = objects.length;
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+    pageIds.push(pageId);
+  });
+
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Assemble the file and its cross-reference table
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefStart = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefStart}\n%%EOF\n`;
+
+  // Everything written above is plain ASCII, so one byte per character
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * PDF drawing operators for one plan shape
+ */
+function drawShape(shape: PlanShape): string {
+  switch (shape.kind) {
+    case 'polygon': {
+      const path = shape.points.map((point, i) => `${point.map(num).join(' ')} ${i === 0 ? 'm' : 'l'}`).join(' ') + ' h';
+      const fill = shape.fill && shape.fill !== 'none' ? `${color(shape.fill)} rg ` : '';
+      const stroke = shape.stroke ? `${color(shape.stroke)} RG ${num(shape.strokeWidth || 0.02)} w ` : '';
+      const operator = fill && stroke ? 'B' : fill ? 'f' : stroke ? 'S' : 'n';
+      return `${fill}${stroke}[] 0 d ${path} ${operator}`;
+    }
+    case 'line':
+      return `${color(shape.stroke)} RG ${num(shape.strokeWidth)} w ${shape.dashed ? '[0.1 0.08] 0 d' : '[] 0 d'} ` +
+        `${num(shape.from[0])} ${num(shape.from[1])} m ${num(shape.to[0])} ${num(shape.to[1])} l S`;
+    case 'arc':
+      return `${color(shape.stroke)} RG ${num(shape.strokeWidth)} w [] 0 d ${arcPath(shape.center, shape.radius, shape.startAngle, shape.endAngle)} S`;
+    case 'text': {
+      const angle = ((shape.rotate || 0) * Math.PI) / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const width = shape.text.length * shape.size * AVERAGE_CHAR_WIDTH;
+      const shift = shape.anchor === 'middle' ? width / 2 : shape.anchor === 'end' ? width : 0;
+      const x = shape.at[0] - shift * cos;
+      const y = shape.at[1] - shift * sin;
+      const s = shape.size;
+      // Text matrix keeps glyphs upright inside the flipped page coordinates
+      return `BT /${shape.bold ? 'F2' : 'F1'} 1 Tf ${color(shape.fill || '#1F2937')} rg ` +
+        `${num(cos * s)} ${num(sin * s)} ${num(sin * s)} ${num(-cos * s)} ${num(x)} ${num(y)} Tm (${pdfText(shape.text)}) Tj ET`;
+    }
+  }
+}
+
+/**
+ * Approximate a circular arc with cubic Bézier curves of at most 90° each
+ */
+function arcPath(center: PlanPoint, radius: number, startAngle: number, endAngle: number): string {
+  const segments = Math.max(1, Math.ceil(Math.abs(endAngle - startAngle) / (Math.PI / 2)));
+  const step = (endAngle - startAngle) / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const start = arcPoint(center, radius, startAngle);
+  const parts = [`${num(start[0])} ${num(start[1])} m`];
+
+  for (let i = 0; i < segments; i++) {
+    const a0 = startAngle + step * i;
+    const a1 = a0 + step;
+    const p0 = arcPoint(center, radius, a0);
+    const p3 = arcPoint(center, radius, a1);
+    const p1 = [p0[0] - k * radius * Math.sin(a0), p0[1] + k * radius * Math.cos(a0)];
+    const p2 = [p3[0] + k * radius * Math.sin(a1), p3[1] - k * radius * Math.cos(a1)];
+    parts.push(`${[...p1, ...p2, ...p3].map(num).join(' ')} c`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Escape a string for a PDF literal, mapping Latin-1 characters to WinAnsi octal codes
+ */
+function pdfText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code >= 32 && code < 127) {
+      result += char;
+    } else if (code >= 160 && code <= 255) {
+      result += `\\${code.toString(8)}`;
+    } else {
+      result += '?';
+    }
+  }
+  return result;
+}
+
+function color(hex: string): string {
+  const value = hex.replace('#', '');
+  const channels = [0, 2, 4].map(i => parseInt(value.slice(i, i + 2), 16) / 255);
+  return channels.map(num).join(' ');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
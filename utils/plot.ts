@@ -0,0 +1,337 @@
+/**
+ * Plot
+ * Outlines of rectangular and irregular plots, the setbacks the house must
+ * keep from their edges, and the buildable envelope left between them.
+ * Plot coordinates follow the house: x runs east, z runs from the street
+ * (z = 0) to the rear.
+ */
+
+import { HouseFormData, PlotShape, PlotPoint, PlotEdgeKind, Setbacks, SitePlan } from '@/types/house';
+import { parsePlotSize, formatLength, MAX_PLOT_SIDE } from '@/utils/units';
+
+export const PLOT_SHAPES: { value: PlotShape; label: string }[] = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'l-shaped', label: 'L-shaped' },
+  { value: 'trapezoid', label: 'Trapezoid (narrower at the rear)' },
+  { value: 'corner', label: 'Corner plot (street on the east side too)' }
+];
+
+// Typical bylaw setbacks in meters; villages leave more open ground around houses
+export const DEFAULT_SETBACKS: Record<HouseFormData['locationType'], Setbacks> = {
+  city: { front: 3, rear: 1.5, side: 1 },
+  village: { front: 4.5, rear: 3, side: 2 }
+};
+
+export const MAX_SETBACK = 50;
+
+// Smallest buildable rectangle the layout engine can fit a house into, in meters
+export const MIN_HOUSE_SIDE = 4;
+
+const MAX_BOUNDARY_POINTS = 50;
+
+// The envelope is searched on a grid of about this many cells along the longer side
+const ENVELOPE_GRID_CELLS = 240;
+
+interface Rect {
+  x: number;
+  z: number;
+  width: number;
+  length: number;
+}
+
+/**
+ * Work out the plot outline, its setbacks and the buildable envelope for a
+ * house request. The envelope is the rectangle clear of the setbacks with
+ * the most usable area, where sides beyond `limit` are not counted.
+ * Throws an error explaining the problem if the plot cannot be built on.
+ */
+export function planSite(
+  formData: HouseFormData,
+  limit: { width: number; length: number } = { width: Infinity, length: Infinity }
+): SitePlan {
+  const setbacks = resolveSetbacks(formData.locationType, formData.setbacks);
+  const { boundary, edges } = formData.plotBoundary
+    ? customOutline(formData.plotBoundary)
+    : shapeOutline(parsePlotSize(formData.plotSize), formData.plotShape || 'rectangle');
+
+  const envelope = findEnvelope(boundary, edges, setbacks, limit);
+  if (!envelope) {
+    throw new Error(
+      `The setbacks leave no room to build: at least ${MIN_HOUSE_SIDE} m × ${MIN_HOUSE_SIDE} m clear of them is needed`
+    );
+  }
+
+  return { boundary, edges, setbacks, envelope };
+}
+
+/**
+ * Check the plot size, outline and setbacks of a request, returning the
+ * problem or null if they are fine
+ */
+export function validateSite(formData: HouseFormData): string | null {
+  try {
+    planSite(formData);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid plot';
+  }
+}
+
+/**
+ * Setbacks for a location type with any given ones taking precedence
+ */
+export function resolveSetbacks(locationType: HouseFormData['locationType'], setbacks: Partial<Setbacks> = {}): Setbacks {
+  const resolved = { ...(DEFAULT_SETBACKS[locationType] || DEFAULT_SETBACKS.city) };
+
+  (Object.keys(resolved) as PlotEdgeKind[]).forEach(kind => {
+    const value = setbacks[kind];
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < 0 || value > MAX_SETBACK) {
+      throw new Error(`The ${kind} setback must be between 0 and ${MAX_SETBACK} m`);
+    }
+    resolved[kind] = value;
+  });
+
+  return resolved;
+}
+
+/**
+ * Move a site plan so that the house, standing at `origin` in plot
+ * coordinates, has its south-west corner at (0, 0) like its rooms do
+ */
+export function moveSite(site: SitePlan, origin: PlotPoint): SitePlan {
+  return {
+    ...site,
+    boundary: site.boundary.map(point => ({ x: point.x - origin.x, z: point.z - origin.z })),
+    envelope: { ...site.envelope, x: site.envelope.x - origin.x, z: site.envelope.z - origin.z }
+  };
+}
+
+/**
+ * Smallest rectangle around the plot and the house, for sizing the ground
+ * around them. Designs without a plot outline just get the house.
+ */
+export function siteBounds(layout: { width: number; length: number; plot?: SitePlan }): { minX: number; maxX: number; minZ: number; maxZ: number } {
+  const points = (layout.plot ? layout.plot.boundary : []).concat([{ x: 0, z: 0 }, { x: layout.width, z: layout.length }]);
+  return {
+    minX: Math.min(...points.map(point => point.x)),
+    maxX: Math.max(...points.map(point => point.x)),
+    minZ: Math.min(...points.map(point => point.z)),
+    maxZ: Math.max(...points.map(point => point.z))
+  };
+}
+
+/**
+ * Area enclosed by a plot boundary, in square meters
+ */
+export function plotArea(boundary: PlotPoint[]): number {
+  return Math.abs(signedArea(boundary));
+}
+
+/**
+ * Straight runs of a plot boundary, each with its middle, its length and
+ * the turn about the vertical axis that lines a box up with it
+ */
+export function boundarySegments(boundary: PlotPoint[]): { center: PlotPoint; length: number; angle: number }[] {
+  return boundary.map((start, index) => {
+    const end = boundary[(index + 1) % boundary.length];
+    return {
+      center: { x: (start.x + end.x) / 2, z: (start.z + end.z) / 2 },
+      length: Math.hypot(end.x - start.x, end.z - start.z),
+      angle: Math.atan2(start.z - end.z, end.x - start.x)
+    };
+  });
+}
+
+// Outline of a preset shape drawn within the plot's width and length
+function shapeOutline(size: { width: number; length: number }, shape: PlotShape): { boundary: PlotPoint[]; edges: PlotEdgeKind[] } {
+  const { width: w, length: l } = size;
+  let boundary: PlotPoint[];
+
+  switch (shape) {
+    case 'rectangle':
+      boundary = [{ x: 0, z: 0 }, { x: w, z: 0 }, { x: w, z: l }, { x: 0, z: l }];
+      break;
+    case 'l-shaped':
+      // The rear of the east side belongs to a neighbour
+      boundary = [{ x: 0, z: 0 }, { x: w, z: 0 }, { x: w, z: l * 0.55 }, { x: w * 0.6, z: l * 0.55 }, { x: w * 0.6, z: l }, { x: 0, z: l }];
+      break;
+    case 'trapezoid':
+      boundary = [{ x: 0, z: 0 }, { x: w, z: 0 }, { x: w * 0.85, z: l }, { x: w * 0.15, z: l }];
+      break;
+    case 'corner': {
+      // Splayed where the two streets meet at the front east corner
+      const splay = Math.min(w, l) * 0.2;
+      boundary = [{ x: 0, z: 0 }, { x: w - splay, z: 0 }, { x: w, z: splay }, { x: w, z: l }, { x: 0, z: l }];
+      const edges = classifyEdges(boundary);
+      edges[2] = 'front';
+      return { boundary, edges };
+    }
+    default:
+      throw new Error(`Unknown plot shape "${shape}"`);
+  }
+
+  return { boundary, edges: classifyEdges(boundary) };
+}
+
+// A plot outline given corner by corner, moved so its corner nearest the street and west is at the origin
+function customOutline(points: unknown): { boundary: PlotPoint[]; edges: PlotEdgeKind[] } {
+  if (!Array.isArray(points) || points.length < 3 || points.length > MAX_BOUNDARY_POINTS) {
+    throw new Error(`A plot outline needs between 3 and ${MAX_BOUNDARY_POINTS} corners`);
+  }
+  if (!points.every(point => point && typeof point.x === 'number' && typeof point.z === 'number' && isFinite(point.x) && isFinite(point.z))) {
+    throw new Error('Plot outline corners must have numeric x and z coordinates in meters');
+  }
+
+  const minX = Math.min(...points.map(point => point.x));
+  const minZ = Math.min(...points.map(point => point.z));
+  let boundary: PlotPoint[] = points.map(point => ({ x: point.x - minX, z: point.z - minZ }));
+
+  if (Math.max(...boundary.map(point => Math.max(point.x, point.z))) > MAX_PLOT_SIDE) {
+    throw new Error(`Plot outlines must fit within ${formatLength(MAX_PLOT_SIDE, 'm', 0)} on each side`);
+  }
+  if (Math.abs(signedArea(boundary)) < 1e-6 || crossesItself(boundary)) {
+    throw new Error('The plot outline must be a simple shape whose edges do not cross');
+  }
+
+  // Keep the corners anticlockwise when viewed with x to the right and z up
+  if (signedArea(boundary) < 0) {
+    boundary = boundary.slice().reverse();
+  }
+  return { boundary, edges: classifyEdges(boundary) };
+}
+
+// Edges facing the street (south) are fronts, edges facing away are rears and the rest are sides
+function classifyEdges(boundary: PlotPoint[]): PlotEdgeKind[] {
+  return boundary.map((start, index) => {
+    const end = boundary[(index + 1) % boundary.length];
+    // Outward normal of an anticlockwise outline
+    const normalX = end.z - start.z;
+    const normalZ = start.x - end.x;
+    if (normalZ <= -Math.abs(normalX)) {
+      return 'front';
+    }
+    return normalZ >= Math.abs(normalX) ? 'rear' : 'side';
+  });
+}
+
+// Largest usable rectangle whose corners and edges all keep their setbacks, or null if none is big enough
+function findEnvelope(
+  boundary: PlotPoint[],
+  edges: PlotEdgeKind[],
+  setbacks: Setbacks,
+  limit: { width: number; length: number }
+): Rect | null {
+  const maxX = Math.max(...boundary.map(point => point.x));
+  const maxZ = Math.max(...boundary.map(point => point.z));
+  const step = Math.max(0.05, Math.max(maxX, maxZ) / ENVELOPE_GRID_CELLS);
+  const columns = Math.ceil(maxX / step);
+  const rows = Math.ceil(maxZ / step);
+
+  // Which grid points are inside the plot and far enough from every edge
+  const clear: boolean[][] = [];
+  for (let row = 0; row <= rows; row++) {
+    clear.push([]);
+    for (let column = 0; column <= columns; column++) {
+      const point = { x: column * step, z: row * step };
+      const distances = boundary.map((start, index) => distanceToSegment(point, start, boundary[(index + 1) % boundary.length]));
+      // Points on the boundary count as inside, so plots without setbacks can be built on right up to it
+      const inside = contains(boundary, point) || distances.some(distance => distance < 1e-9);
+      clear[row].push(inside && distances.every((distance, index) => distance >= setbacks[edges[index]] - 1e-9));
+    }
+  }
+
+  // Largest rectangle of clear cells, row by row as a histogram of clear runs towards the street
+  const heights: number[] = new Array(columns).fill(0);
+  let best: { rect: Rect; usable: number; area: number } | null = null;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const cellClear = clear[row][column] && clear[row][column + 1] && clear[row + 1][column] && clear[row + 1][column + 1];
+      heights[column] = cellClear ? heights[column] + 1 : 0;
+    }
+
+    const stack: number[] = [];
+    for (let column = 0; column <= columns; column++) {
+      const height = column < columns ? heights[column] : 0;
+      while (stack.length > 0 && heights[stack[stack.length - 1]] >= height) {
+        const tallest = heights[stack.pop()!];
+        const left = stack.length > 0 ? stack[stack.length - 1] + 1 : 0;
+        const rect = { x: left * step, z: (row + 1 - tallest) * step, width: (column - left) * step, length: tallest * step };
+        if (rect.width < MIN_HOUSE_SIDE || rect.length < MIN_HOUSE_SIDE) {
+          continue;
+        }
+
+        const usable = Math.min(rect.width, limit.width) * Math.min(rect.length, limit.length);
+        const area = rect.width * rect.length;
+        if (!best || usable > best.usable + 1e-9 || (Math.abs(usable - best.usable) <= 1e-9 && area > best.area)) {
+          best = { rect, usable, area };
+        }
+      }
+      stack.push(column);
+    }
+  }
+
+  return best ? best.rect : null;
+}
+
+function signedArea(boundary: PlotPoint[]): number {
+  return boundary.reduce((sum, point, index) => {
+    const next = boundary[(index + 1) % boundary.length];
+    return sum + point.x * next.z - next.x * point.z;
+  }, 0) / 2;
+}
+
+// Whether any two edges that are not neighbours touch
+function crossesItself(boundary: PlotPoint[]): boolean {
+  const count = boundary.length;
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      if (j === i + 1 || (i === 0 && j === count - 1)) {
+        continue;
+      }
+      if (segmentsTouch(boundary[i], boundary[(i + 1) % count], boundary[j], boundary[(j + 1) % count])) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function segmentsTouch(a: PlotPoint, b: PlotPoint, c: PlotPoint, d: PlotPoint): boolean {
+  const side = (p: PlotPoint, q: PlotPoint, r: PlotPoint) => (q.x - p.x) * (r.z - p.z) - (q.z - p.z) * (r.x - p.x);
+  const d1 = side(c, d, a);
+  const d2 = side(c, d, b);
+  const d3 = side(a, b, c);
+  const d4 = side(a, b, d);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  // Collinear overlaps count as touching
+  const within = (p: PlotPoint, q: PlotPoint, r: PlotPoint) =>
+    Math.min(p.x, q.x) <= r.x && r.x <= Math.max(p.x, q.x) && Math.min(p.z, q.z) <= r.z && r.z <= Math.max(p.z, q.z);
+  return (d1 === 0 && within(c, d, a)) || (d2 === 0 && within(c, d, b)) || (d3 === 0 && within(a, b, c)) || (d4 === 0 && within(a, b, d));
+}
+
+// Even-odd test; points exactly on the boundary may land either way
+function contains(boundary: PlotPoint[], point: PlotPoint): boolean {
+  let inside = false;
+  for (let i = 0, j = boundary.length - 1; i < boundary.length; j = i++) {
+    const a = boundary[i];
+    const b = boundary[j];
+    if ((a.z > point.z) !== (b.z > point.z) && point.x < ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function distanceToSegment(point: PlotPoint, start: PlotPoint, end: PlotPoint): number {
+  const dx = end.x - start.x;
+  const dz = end.z - start.z;
+  const lengthSquared = dx * dx + dz * dz;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.z - start.z) * dz) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.z - (start.z + t * dz));
+}
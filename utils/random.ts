@@ -0,0 +1,49 @@
+/**
+ * Random Utilities
+ * Seeded pseudo-random numbers, so anything generated from a seed can be
+ * reproduced exactly by generating it again with the same seed
+ */
+
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Random number generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fresh seed for when the caller does not ask for a particular one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+/**
+ * Whether a value can be used as a seed: an integer from 0 to MAX_SEED
+ */
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
+
+/**
+ * Shuffled copy of a list (Fisher-Yates)
+ */
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const swap = result[i];
+    result[i] = result[j];
+    result[j] = swap;
+  }
+  return result;
+}
@@ -0,0 +1,116 @@
+/**
+ * Share Links
+ * Builds and reads links that reopen a design: either a saved design's id
+ * (?view=<id>) or the whole design compressed into the URL hash
+ * (#design=<data>), which needs no server storage at all. Compression uses
+ * the browser's built-in CompressionStream.
+ */
+
+import { DesignInput } from '@/types/house';
+import { validateDesignInput } from '@/utils/designValidation';
+
+const VIEW_PARAM = 'view';
+const HASH_KEY = 'design';
+const FORMAT_VERSION = 1;
+
+export type SharedLink =
+  | { kind: 'stored'; id: string }
+  | { kind: 'embedded'; design: DesignInput };
+
+/**
+ * Link to a saved design by its id
+ */
+export function buildStoredShareUrl(base: string, id: string): string {
+  return `${base}?${VIEW_PARAM}=${encodeURIComponent(id)}`;
+}
+
+/**
+ * Link carrying the whole design, compressed into the URL hash
+ */
+export async function buildEmbeddedShareUrl(base: string, design: DesignInput): Promise<string> {
+  return `${base}#${HASH_KEY}=${await encodeSharedDesign(design)}`;
+}
+
+/**
+ * Read a share link from the page location, or null if it is not one
+ */
+export async function parseShareLocation(location: Pick<Location, 'search' | 'hash'>): Promise<SharedLink | null> {
+  const id = new URLSearchParams(location.search).get(VIEW_PARAM);
+  if (id) {
+    return { kind: 'stored', id };
+  }
+
+  const prefix = `#${HASH_KEY}=`;
+  if (location.hash.startsWith(prefix)) {
+    return { kind: 'embedded', design: await decodeSharedDesign(location.hash.slice(prefix.length)) };
+  }
+
+  return null;
+}
+
+/**
+ * Compress a design into a URL-safe string. Coordinates are rounded to
+ * millimetres first, which keeps links short without visible change.
+ */
+export async function encodeSharedDesign(design: DesignInput): Promise<string> {
+  const json = JSON.stringify({ v: FORMAT_VERSION, ...design }, (_key, value) =>
+    typeof value === 'number' && !Number.isInteger(value) ? Math.round(value * 1000) / 1000 : value);
+  return toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Restore a design from encodeSharedDesign's output, checked like a design
+ * sent to the design routes
+ */
+export async function decodeSharedDesign(encoded: string): Promise<DesignInput> {
+  let data;
+  try {
+    const bytes = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('This share link is damaged or incomplete');
+  }
+
+  if (!data || data.v !== FORMAT_VERSION) {
+    throw new Error('This share link is not a supported design');
+  }
+
+  const design = {
+    name: data.name,
+    formData: data.formData,
+    layout: data.layout,
+    tourWaypoints: data.tourWaypoints || []
+  };
+  const problem = validateDesignInput(design, true);
+  if (problem) {
+    throw new Error(`This share link holds a design that cannot be opened: ${problem}`);
+  }
+
+  return design;
+}
+
+/**
+ * Pipe bytes through a compression or decompression stream
+ */
+async function transform(bytes: BlobPart, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  // Build the binary string in chunks; spreading a large array into fromCharCode overflows the stack
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): ArrayBuffer {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
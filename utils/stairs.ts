@@ -0,0 +1,44 @@
+/**
+ * Stairs
+ * Geometry of the dog-leg staircase drawn in a staircase room, shared by
+ * the 3D viewer and the building code checks so both see the same steps
+ */
+
+const TARGET_RISER = 0.18; // Steps are added until none rises more than this, in meters
+const MAX_LANDING_DEPTH = 1;
+
+export interface StairGeometry {
+  stepsPerFlight: number;
+  riser: number; // Height of each step
+  tread: number; // Depth of each step
+  flightWidth: number;
+  landingDepth: number;
+}
+
+/**
+ * Steps of a staircase climbing `height` in two flights side by side, with
+ * a half landing across the back of the room
+ */
+export function getStairGeometry(dimensions: { width: number; length: number; height: number }): StairGeometry {
+  const { width, length, height } = dimensions;
+  const stepsPerFlight = Math.ceil(height / 2 / TARGET_RISER);
+  const landingDepth = Math.min(MAX_LANDING_DEPTH, length / 3);
+
+  return {
+    stepsPerFlight,
+    riser: height / 2 / stepsPerFlight,
+    tread: (length - landingDepth) / stepsPerFlight,
+    flightWidth: width / 2,
+    landingDepth
+  };
+}
+
+/**
+ * Shortest staircase room climbing `height` whose steps are at least
+ * `minTread` deep and whose landing is at least `minLandingDepth` deep
+ */
+export function getMinStairLength(height: number, minTread: number, minLandingDepth: number): number {
+  const run = Math.ceil(height / 2 / TARGET_RISER) * minTread;
+  // The landing takes a third of the room, up to its full depth
+  return Math.max(Math.min(run + MAX_LANDING_DEPTH, run * 1.5), minLandingDepth * 3);
+}
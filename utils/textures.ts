@@ -0,0 +1,386 @@
+/**
+ * Procedural Textures
+ * Tileable albedo, normal and roughness maps drawn offline on a canvas:
+ * brick courses, tiles with grout lines, wood planks, roof tiles, carpet,
+ * grass and a plain weathered finish for everything else. Every pattern has
+ * a real size in meters, and surfaces get UVs in meters from their position
+ * in the house, so a brick is the same size on every wall.
+ */
+
+import * as THREE from 'three';
+import { createRandom } from '@/utils/random';
+
+export type TexturePattern = 'brick' | 'tile' | 'large-tile' | 'planks' | 'roof-tiles' | 'carpet' | 'grass' | 'plain';
+
+export interface TextureMaps {
+  map: THREE.Texture;
+  normalMap: THREE.Texture;
+  roughnessMap: THREE.Texture;
+  size: [number, number]; // Meters one repeat of the pattern covers, across and up
+}
+
+// What a pattern draws into, one value per pixel
+interface PatternField {
+  height: Float32Array; // Relief, 0 in the joints up to 1
+  tone: Float32Array; // Multiplies the surface color
+  joint: Float32Array; // How much of the joint color shows, 0 to 1
+  rough: Float32Array; // Multiplies the material's roughness, 0 to 1
+}
+
+interface PatternSpec {
+  size: [number, number];
+  jointColor: string;
+  bumpiness: number; // Steepness of the normals drawn from the relief
+  draw: (field: PatternField, random: () => number) => void;
+}
+
+const RESOLUTION = 256; // Pixels along each side of a pattern
+const JOINT = 0.01; // Mortar and grout width in meters
+
+const PATTERNS: Record<TexturePattern, PatternSpec> = {
+  // Two bricks across and four courses up, each course offset by half a brick
+  brick: {
+    size: [0.45, 0.3],
+    jointColor: '#B8B2A7',
+    bumpiness: 3,
+    draw: (field, random) => drawBond(field, random, 2, 4, JOINT / 0.45, JOINT / 0.3, 0.5, 0.18)
+  },
+  // Two by two 30 cm tiles
+  tile: {
+    size: [0.6, 0.6],
+    jointColor: '#D9D9D9',
+    bumpiness: 2,
+    draw: (field, random) => drawBond(field, random, 2, 2, 0.004 / 0.6, 0.004 / 0.6, 0, 0.06)
+  },
+  // Two by two 60 cm slabs, more varied than ceramic
+  'large-tile': {
+    size: [1.2, 1.2],
+    jointColor: '#8F8A82',
+    bumpiness: 2,
+    draw: (field, random) => drawBond(field, random, 2, 2, 0.006 / 1.2, 0.006 / 1.2, 0, 0.2)
+  },
+  // Four 15 cm boards running across, each with one butt joint somewhere along it
+  planks: {
+    size: [1.2, 0.6],
+    jointColor: '#3B2A1A',
+    bumpiness: 1.5,
+    draw: drawPlanks
+  },
+  // Staggered rounded tiles, each row lapping over the one below
+  'roof-tiles': {
+    size: [0.4, 0.5],
+    jointColor: '#2B1B12',
+    bumpiness: 4,
+    draw: drawRoofTiles
+  },
+  carpet: {
+    size: [0.25, 0.25],
+    jointColor: '#000000',
+    bumpiness: 1,
+    draw: (field, random) => drawNoise(field, random, [[64, 0.7], [16, 0.3]], 0.12)
+  },
+  grass: {
+    size: [1, 1],
+    jointColor: '#000000',
+    bumpiness: 2,
+    draw: (field, random) => drawNoise(field, random, [[128, 0.5], [32, 0.3], [4, 0.2]], 0.35)
+  },
+  plain: {
+    size: [2, 2],
+    jointColor: '#000000',
+    bumpiness: 0.6,
+    draw: (field, random) => drawNoise(field, random, [[32, 0.4], [8, 0.4], [2, 0.2]], 0.08)
+  }
+};
+
+const cache: Record<string, TextureMaps> = {};
+
+/**
+ * Maps for a pattern in a color, drawn once and shared after that. Needs a
+ * browser, as the maps are drawn on a canvas.
+ */
+export function getTextureMaps(pattern: TexturePattern, color: string, seed: number = 1): TextureMaps {
+  const key = `${pattern}:${color}:${seed}`;
+  if (!cache[key]) {
+    cache[key] = drawMaps(PATTERNS[pattern], color, seed);
+  }
+  return cache[key];
+}
+
+/**
+ * Box geometry whose UVs are in meters of house coordinates, given the
+ * box's size and the position of its centre in the house
+ */
+export function createWorldBoxGeometry(size: [number, number, number], centre: [number, number, number]): THREE.BoxGeometry {
+  const geometry = new THREE.BoxGeometry(...size);
+  applyWorldUVs(geometry, centre);
+  return geometry;
+}
+
+/**
+ * Geometry of flat convex polygons, each wound counter-clockwise seen from
+ * the side it faces. UVs are in meters across each polygon's own plane: u
+ * runs level and v up the slope, so courses of tiles follow the eaves.
+ */
+export function createSurfaceGeometry(polygons: { x: number; y: number; z: number }[][]): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const normals: number[] = [];
+  const uvs: number[] = [];
+  const up = new THREE.Vector3(0, 1, 0);
+
+  polygons.forEach(polygon => {
+    const points = polygon.map(p => new THREE.Vector3(p.x, p.y, p.z));
+    const normal = new THREE.Vector3();
+    points.forEach((p, i) => {
+      const q = points[(i + 1) % points.length];
+      normal.x += (p.y - q.y) * (p.z + q.z);
+      normal.y += (p.z - q.z) * (p.x + q.x);
+      normal.z += (p.x - q.x) * (p.y + q.y);
+    });
+    normal.normalize();
+    const uAxis = Math.abs(normal.y) > 0.999 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3().crossVectors(up, normal).normalize();
+    const vAxis = Math.abs(normal.y) > 0.999 ? new THREE.Vector3(0, 0, 1) : new THREE.Vector3().crossVectors(normal, uAxis);
+
+    for (let i = 1; i < points.length - 1; i++) {
+      [points[0], points[i], points[i + 1]].forEach(p => {
+        positions.push(p.x, p.y, p.z);
+        normals.push(normal.x, normal.y, normal.z);
+        uvs.push(p.dot(uAxis), p.dot(vAxis));
+      });
+    }
+  });
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+  return geometry;
+}
+
+/**
+ * Set a geometry's UVs to its position in meters, offset by where it sits
+ * in the house. Faces pointing up or down take x and z, faces pointing
+ * along x take z and height, and the rest take x and height.
+ */
+export function applyWorldUVs(geometry: THREE.BufferGeometry, offset: [number, number, number] = [0, 0, 0]): void {
+  const position = geometry.getAttribute('position');
+  const normal = geometry.getAttribute('normal');
+  const uvs = new Float32Array(position.count * 2);
+
+  for (let i = 0; i < position.count; i++) {
+    const x = position.getX(i) + offset[0];
+    const y = position.getY(i) + offset[1];
+    const z = position.getZ(i) + offset[2];
+    const nx = Math.abs(normal.getX(i));
+    const ny = Math.abs(normal.getY(i));
+    const nz = Math.abs(normal.getZ(i));
+    const [u, v] = ny >= nx && ny >= nz ? [x, z] : nx >= nz ? [z, y] : [x, y];
+    uvs[i * 2] = u;
+    uvs[i * 2 + 1] = v;
+  }
+
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+}
+
+function drawMaps(spec: PatternSpec, color: string, seed: number): TextureMaps {
+  const count = RESOLUTION * RESOLUTION;
+  const field: PatternField = {
+    height: new Float32Array(count).fill(1),
+    tone: new Float32Array(count).fill(1),
+    joint: new Float32Array(count),
+    rough: new Float32Array(count).fill(1)
+  };
+  spec.draw(field, createRandom(seed));
+
+  const base = toRGB(color);
+  const joint = toRGB(spec.jointColor);
+  const albedo = new Uint8ClampedArray(count * 4);
+  const normals = new Uint8ClampedArray(count * 4);
+  const roughness = new Uint8ClampedArray(count * 4);
+  const at = (x: number, y: number) => field.height[((y + RESOLUTION) % RESOLUTION) * RESOLUTION + (x + RESOLUTION) % RESOLUTION];
+
+  for (let y = 0; y < RESOLUTION; y++) {
+    for (let x = 0; x < RESOLUTION; x++) {
+      const i = y * RESOLUTION + x;
+      const mix = field.joint[i];
+      const tone = field.tone[i];
+      albedo[i * 4] = 255 * ((1 - mix) * Math.min(1, base.r * tone) + mix * joint.r);
+      albedo[i * 4 + 1] = 255 * ((1 - mix) * Math.min(1, base.g * tone) + mix * joint.g);
+      albedo[i * 4 + 2] = 255 * ((1 - mix) * Math.min(1, base.b * tone) + mix * joint.b);
+
+      // Slopes of the relief, wrapping round the edges so the normals tile;
+      // canvas rows run down while v runs up, hence the sign of dv
+      const du = (at(x + 1, y) - at(x - 1, y)) * spec.bumpiness;
+      const dv = (at(x, y - 1) - at(x, y + 1)) * spec.bumpiness;
+      const length = Math.sqrt(du * du + dv * dv + 1);
+      normals[i * 4] = 255 * (0.5 - du / length / 2);
+      normals[i * 4 + 1] = 255 * (0.5 - dv / length / 2);
+      normals[i * 4 + 2] = 255 * (0.5 + 1 / length / 2);
+
+      // Roughness is read from the green channel
+      roughness[i * 4] = roughness[i * 4 + 1] = roughness[i * 4 + 2] = 255 * field.rough[i];
+      albedo[i * 4 + 3] = normals[i * 4 + 3] = roughness[i * 4 + 3] = 255;
+    }
+  }
+
+  const map = toTexture(albedo, spec.size);
+  map.colorSpace = THREE.SRGBColorSpace;
+  return { map, normalMap: toTexture(normals, spec.size), roughnessMap: toTexture(roughness, spec.size), size: spec.size };
+}
+
+// Color as the 0 to 1 channels written to the canvas, which holds sRGB like the hex string
+function toRGB(color: string): { r: number; g: number; b: number } {
+  const hex = parseInt(color.replace('#', ''), 16);
+  return { r: (hex >> 16 & 255) / 255, g: (hex >> 8 & 255) / 255, b: (hex & 255) / 255 };
+}
+
+// Repeating texture covering `size` meters, for UVs given in meters
+function toTexture(pixels: Uint8ClampedArray, size: [number, number]): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = RESOLUTION;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(RESOLUTION, RESOLUTION);
+  image.data.set(pixels);
+  ctx.putImageData(image, 0, 0);
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.set(1 / size[0], 1 / size[1]);
+  texture.anisotropy = 4;
+  return texture;
+}
+
+/**
+ * Rectangular units in running bond: `across` units per row and `rows` rows,
+ * each row shifted by `stagger` of a unit. Joint widths are fractions of
+ * the pattern's width and height. Each unit gets its own shade.
+ */
+function drawBond(field: PatternField, random: () => number, across: number, rows: number, jointX: number, jointY: number, stagger: number, variation: number): void {
+  const shades: number[] = [];
+  for (let n = 0; n < across * rows; n++) {
+    shades.push(1 - variation / 2 + random() * variation);
+  }
+  const grain = tileableNoise(random, 32);
+
+  forEachPixel((u, v, i) => {
+    const row = Math.floor(v * rows);
+    const shifted = u * across + (row % 2) * stagger;
+    const column = Math.floor(shifted) % across;
+    const inU = shifted - Math.floor(shifted);
+    const inV = v * rows - row;
+    // Inside the unit when further than half a joint from each of its edges
+    const unit = Math.min(inU, 1 - inU) / across > jointX / 2 && Math.min(inV, 1 - inV) / rows > jointY / 2;
+
+    field.joint[i] = unit ? 0 : 1;
+    field.height[i] = unit ? 0.9 + grain[i] * 0.1 : 0;
+    field.tone[i] = shades[row * across + column] * (0.95 + grain[i] * 0.1);
+    field.rough[i] = unit ? 0.85 + grain[i] * 0.15 : 1;
+  });
+}
+
+function drawPlanks(field: PatternField, random: () => number): void {
+  const boards = 4;
+  const joints: number[] = [];
+  const shades: number[] = [];
+  for (let n = 0; n < boards; n++) {
+    joints.push(random());
+    shades.push(0.85 + random() * 0.25);
+  }
+  const grain = tileableNoise(random, 8, 64);
+  const gap = 0.003 / 0.6;
+
+  forEachPixel((u, v, i) => {
+    const board = Math.floor(v * boards);
+    const inV = v * boards - board;
+    const along = (u - joints[board] + 1) % 1;
+    const seam = Math.min(inV, 1 - inV) / boards < gap || Math.min(along, 1 - along) < 0.003 / 1.2;
+    // Grain runs along the board, stretched out by the noise's wider cells across
+    const streak = 0.9 + 0.2 * Math.sin((v * boards * 6 + grain[i] * 3) * Math.PI);
+
+    field.joint[i] = seam ? 0.8 : 0;
+    field.height[i] = seam ? 0 : 0.95 + grain[i] * 0.05;
+    field.tone[i] = shades[board] * streak;
+    field.rough[i] = 0.8 + grain[i] * 0.2;
+  });
+}
+
+function drawRoofTiles(field: PatternField, random: () => number): void {
+  const rows = 2;
+  const across = 2;
+  const shades: number[] = [];
+  for (let n = 0; n < rows * across; n++) {
+    shades.push(0.85 + random() * 0.25);
+  }
+  const grain = tileableNoise(random, 32);
+
+  forEachPixel((u, v, i) => {
+    const row = Math.floor(v * rows);
+    const inV = v * rows - row;
+    const shifted = u * across + (row % 2) * 0.5;
+    const inU = shifted - Math.floor(shifted);
+    const column = Math.floor(shifted) % across;
+    // Each tile rises from its lower edge to where the row above laps over
+    // it, and curves across like a clay pantile
+    const lap = inV;
+    const curve = Math.sin(inU * Math.PI);
+    const gap = inU < 0.03 || inU > 0.97;
+
+    field.joint[i] = gap ? 1 : lap < 0.08 ? 0.4 * (1 - lap / 0.08) : 0;
+    field.height[i] = gap ? 0 : 0.3 + 0.4 * lap + 0.3 * curve;
+    field.tone[i] = shades[row * across + column] * (0.85 + 0.15 * curve) * (0.95 + grain[i] * 0.1);
+    field.rough[i] = 0.85 + grain[i] * 0.15;
+  });
+}
+
+// Layers of smooth noise, each given as [cells across, weight]
+function drawNoise(field: PatternField, random: () => number, layers: Array<[number, number]>, variation: number): void {
+  const noise = new Float32Array(RESOLUTION * RESOLUTION);
+  layers.forEach(([cells, weight]) => {
+    const layer = tileableNoise(random, cells);
+    for (let i = 0; i < noise.length; i++) {
+      noise[i] += layer[i] * weight;
+    }
+  });
+
+  forEachPixel((u, v, i) => {
+    field.height[i] = noise[i];
+    field.tone[i] = 1 - variation / 2 + noise[i] * variation;
+    field.rough[i] = 0.85 + noise[i] * 0.15;
+  });
+}
+
+/**
+ * Smooth value noise from 0 to 1 that wraps at the edges, from a grid of
+ * `cellsU` by `cellsV` random values
+ */
+function tileableNoise(random: () => number, cellsU: number, cellsV: number = cellsU): Float32Array {
+  const lattice: number[] = [];
+  for (let n = 0; n < cellsU * cellsV; n++) {
+    lattice.push(random());
+  }
+  const value = (cu: number, cv: number) => lattice[(cv % cellsV) * cellsU + (cu % cellsU)];
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+  const noise = new Float32Array(RESOLUTION * RESOLUTION);
+
+  forEachPixel((u, v, i) => {
+    const fu = u * cellsU;
+    const fv = v * cellsV;
+    const cu = Math.floor(fu);
+    const cv = Math.floor(fv);
+    const tu = smooth(fu - cu);
+    const tv = smooth(fv - cv);
+    const top = value(cu, cv) * (1 - tu) + value(cu + 1, cv) * tu;
+    const bottom = value(cu, cv + 1) * (1 - tu) + value(cu + 1, cv + 1) * tu;
+    noise[i] = top * (1 - tv) + bottom * tv;
+  });
+  return noise;
+}
+
+// Visit every pixel with its position across and up the pattern, from 0 to 1
+function forEachPixel(visit: (u: number, v: number, index: number) => void): void {
+  for (let y = 0; y < RESOLUTION; y++) {
+    for (let x = 0; x < RESOLUTION; x++) {
+      visit((x + 0.5) / RESOLUTION, 1 - (y + 0.5) / RESOLUTION, y * RESOLUTION + x);
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Units
+ * Reads plot sizes given as side lengths in meters, feet or yards, or as an
+ * area (square meters, square feet, square yards, acres, or the regional
+ * marla and kanal), and formats lengths and areas for display in meters or feet
+ */
+
+import { LengthUnit } from '@/types/house';
+
+export const FEET_PER_METER = 3.28084;
+
+// Plot sides outside this range (in meters) are rejected rather than guessed at
+export const MIN_PLOT_SIDE = 5;
+export const MAX_PLOT_SIDE = 1000;
+
+// Plots given only by area are assumed to be 1.5 times as deep as they are wide, like the default 20x30
+const AREA_PLOT_ASPECT = 1.5;
+
+const SQUARE_METERS_PER_SQUARE_FOOT = 0.09290304;
+
+interface Unit {
+  pattern: string; // Regular expression source matching the unit's spellings
+  meters: number; // Meters per unit for lengths, square meters per unit for areas
+  imperial: boolean;
+}
+
+const LENGTH_UNITS: Unit[] = [
+  { pattern: 'm|meters?|metres?', meters: 1, imperial: false },
+  { pattern: "ft|feet|foot|'|′", meters: 0.3048, imperial: true },
+  { pattern: 'yd|yards?', meters: 0.9144, imperial: true }
+];
+
+// A marla is taken as 225 sq ft, the standard in Punjab; a kanal is 20 marla
+const AREA_UNITS: Unit[] = [
+  { pattern: 'sq\\.?\\s*m|sqm|square\\s+met(?:er|re)s?|m2|m²', meters: 1, imperial: false },
+  { pattern: 'sq\\.?\\s*ft|sqft|square\\s+f(?:ee|oo)t|ft2|ft²', meters: SQUARE_METERS_PER_SQUARE_FOOT, imperial: true },
+  { pattern: 'sq\\.?\\s*yds?|square\\s+yards?|gaz', meters: 0.83612736, imperial: true },
+  { pattern: 'marlas?', meters: 225 * SQUARE_METERS_PER_SQUARE_FOOT, imperial: true },
+  { pattern: 'kanals?', meters: 4500 * SQUARE_METERS_PER_SQUARE_FOOT, imperial: true },
+  { pattern: 'acres?', meters: 4046.8564224, imperial: true }
+];
+
+const NUMBER = '(\\d+(?:\\.\\d+)?|\\.\\d+)';
+const EXAMPLES = 'e.g. 20x30, 30x60 ft, 10m x 15m, 2400 sq ft or 5 marla';
+
+export interface PlotSize {
+  width: number; // Meters
+  length: number;
+  displayUnit: LengthUnit; // Feet if the plot was given in feet or any other imperial or regional unit
+}
+
+/**
+ * Read a plot size. Plain numbers are meters; "W x L" gives both sides,
+ * a single length gives a square plot and an area gives a 2:3 plot.
+ * Throws an error explaining the problem if the size cannot be used.
+ */
+export function parsePlotSize(input: string): PlotSize {
+  const text = input.trim().toLowerCase().replace(/[×*]/g, 'x').replace(/\s+by\s+/g, ' x ').replace(/\s+/g, ' ');
+  if (!text) {
+    throw new Error('Plot size is required');
+  }
+
+  const plot = readSides(text) || readArea(text) || readSquare(text);
+  if (!plot) {
+    throw new Error(`Could not understand the plot size "${input.trim()}" (${EXAMPLES})`);
+  }
+
+  if (!(plot.width > 0 && plot.length > 0)) {
+    throw new Error('Plot dimensions must be greater than zero');
+  }
+
+  if (Math.min(plot.width, plot.length) < MIN_PLOT_SIDE || Math.max(plot.width, plot.length) > MAX_PLOT_SIDE) {
+    throw new Error(
+      `Plot sides must be between ${formatLength(MIN_PLOT_SIDE, plot.displayUnit, 0)} and ${formatLength(MAX_PLOT_SIDE, plot.displayUnit, 0)}`
+    );
+  }
+
+  return plot;
+}
+
+/**
+ * Check a plot size, returning the problem or null if it is fine
+ */
+export function validatePlotSize(input: string): string | null {
+  try {
+    parsePlotSize(input);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid plot size';
+  }
+}
+
+/**
+ * Unit to show dimensions in for a plot size, meters if it cannot be read
+ */
+export function preferredUnit(plotSize: string): LengthUnit {
+  try {
+    return parsePlotSize(plotSize).displayUnit;
+  } catch {
+    return 'm';
+  }
+}
+
+/**
+ * Length in meters as text in the given unit, e.g. "12.5 m" or "41.0 ft"
+ */
+export function formatLength(meters: number, unit: LengthUnit, digits: number = 1): string {
+  return unit === 'ft' ? `${(meters * FEET_PER_METER).toFixed(digits)} ft` : `${meters.toFixed(digits)} m`;
+}
+
+/**
+ * Area in square meters as text in the given unit, e.g. "120 m²" or "1292 sq ft"
+ */
+export function formatArea(squareMeters: number, unit: LengthUnit): string {
+  return unit === 'ft' ? `${(squareMeters / SQUARE_METERS_PER_SQUARE_FOOT).toFixed(0)} sq ft` : `${squareMeters.toFixed(0)} m²`;
+}
+
+// "W x L", each side with an optional unit; a unit on only one side applies to both
+function readSides(text: string): PlotSize | null {
+  const lengthUnit = `(${LENGTH_UNITS.map(unit => unit.pattern).join('|')})?`;
+  const match = new RegExp(`^${NUMBER} ?${lengthUnit} ?x ?${NUMBER} ?${lengthUnit}$`).exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const widthUnit = findUnit(LENGTH_UNITS, match[2] || match[4]);
+  const depthUnit = findUnit(LENGTH_UNITS, match[4] || match[2]);
+  return {
+    width: parseFloat(match[1]) * widthUnit.meters,
+    length: parseFloat(match[3]) * depthUnit.meters,
+    displayUnit: widthUnit.imperial || depthUnit.imperial ? 'ft' : 'm'
+  };
+}
+
+// An area with a unit, laid out as a plot of the assumed proportions
+function readArea(text: string): PlotSize | null {
+  const match = new RegExp(`^${NUMBER} ?(${AREA_UNITS.map(unit => unit.pattern).join('|')})$`).exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const unit = findUnit(AREA_UNITS, match[2]);
+  const area = parseFloat(match[1]) * unit.meters;
+  const width = Math.sqrt(area / AREA_PLOT_ASPECT);
+  return { width, length: width * AREA_PLOT_ASPECT, displayUnit: unit.imperial ? 'ft' : 'm' };
+}
+
+// A single side length of a square plot
+function readSquare(text: string): PlotSize | null {
+  const match = new RegExp(`^${NUMBER} ?(${LENGTH_UNITS.map(unit => unit.pattern).join('|')})?$`).exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const unit = findUnit(LENGTH_UNITS, match[2]);
+  const side = parseFloat(match[1]) * unit.meters;
+  return { width: side, length: side, displayUnit: unit.imperial ? 'ft' : 'm' };
+}
+
+// Unit whose spellings include the text; meters when no unit was written
+function findUnit(units: Unit[], text: string | undefined): Unit {
+  if (!text) {
+    return units[0];
+  }
+  return units.find(unit => new RegExp(`^(?:${unit.pattern})$`).test(text)) || units[0];
+}
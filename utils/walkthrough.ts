@@ -0,0 +1,226 @@
+/**
+ * Walkthrough
+ * Collision for walking round one floor of the house in first person. The
+ * floor's walls, stairs and furniture become a single mesh indexed by a BVH,
+ * and the walker is an upright capsule from knee to head height that slides
+ * along whatever it runs into. Doors leave gaps in the walls, so the walker
+ * can pass through them, while window sills stay in the way.
+ */
+
+import * as THREE from 'three';
+import { MeshBVH } from 'three-mesh-bvh';
+import { HouseLayout, Room } from '@/types/house';
+import { getWallOpenings, getWallPieces } from '@/utils/openings';
+import { getStairGeometry } from '@/utils/stairs';
+import { siteBounds } from '@/utils/plot';
+
+export const EYE_HEIGHT = 1.6;
+export const WALK_SPEED = 1.4; // Meters per second
+export const RUN_SPEED = 3;
+
+const RADIUS = 0.25;
+const KNEE_HEIGHT = 0.3; // Anything lower, such as the first stair, is stepped over
+const HEAD_HEIGHT = 1.8;
+const MAX_STEP = RADIUS / 2; // Longest move checked at once, so the walker cannot pass through a wall
+const PUSH_PASSES = 3;
+const SEARCH_STEP = 0.4; // Spacing of the spots tried when looking for somewhere free to stand
+
+/**
+ * Height of a floor above the ground
+ */
+export function floorElevation(layout: HouseLayout, floor: number): number {
+  const room = layout.rooms.find(r => r.floor === floor);
+  return room ? room.position.y : floor * layout.height / layout.floors;
+}
+
+/**
+ * Collision mesh of one floor: its wall pieces, the staircase drawn on the
+ * ground floor, and its furniture
+ */
+export function buildCollider(layout: HouseLayout, floor: number): MeshBVH {
+  const boxes: THREE.BoxGeometry[] = [];
+  const addBox = (size: [number, number, number], centre: [number, number, number], rotation = 0) => {
+    const box = new THREE.BoxGeometry(...size);
+    box.rotateY(rotation);
+    box.translate(...centre);
+    boxes.push(box);
+  };
+  const elevation = floorElevation(layout, floor);
+
+  layout.walls.filter(wall => wall.floor === floor).forEach(wall => {
+    const alongX = Math.abs(wall.end.z - wall.start.z) < 1e-6;
+    getWallPieces(wall, getWallOpenings(wall, layout)).forEach(piece => {
+      const mid = (piece.from + piece.to) / 2;
+      const y = elevation + (piece.bottom + piece.top) / 2;
+      const size = piece.to - piece.from;
+      const height = piece.top - piece.bottom;
+      if (alongX) {
+        addBox([size, height, wall.thickness], [wall.start.x + mid, y, wall.start.z]);
+      } else {
+        addBox([wall.thickness, height, size], [wall.start.x, y, wall.start.z + mid]);
+      }
+    });
+  });
+
+  layout.rooms.filter(room => room.floor === floor).forEach(room => {
+    const { x, y, z } = room.position;
+    if (room.type === 'staircase' && room.floor === 0) {
+      addStairs(room, addBox);
+    }
+    room.furniture.forEach(item => {
+      const { width, length, height } = item.dimensions;
+      addBox([width, height, length], [x + item.position.x, y + item.position.y + height / 2, z + item.position.z], item.rotation);
+    });
+  });
+
+  // A floor with nothing on it still needs a mesh to index
+  if (!boxes.length) {
+    addBox([0.01, 0.01, 0.01], [0, elevation - 1, 0]);
+  }
+
+  const positions: number[] = [];
+  boxes.forEach(box => {
+    const flat = box.toNonIndexed();
+    positions.push(...Array.from(flat.getAttribute('position').array as Float32Array));
+    flat.dispose();
+    box.dispose();
+  });
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return new MeshBVH(geometry);
+}
+
+/**
+ * Move a walker standing at (x, z) on a floor by a step, sliding along
+ * anything in the way and staying on the site
+ */
+export function moveWalker(
+  collider: MeshBVH,
+  layout: HouseLayout,
+  elevation: number,
+  from: { x: number; z: number },
+  step: { x: number; z: number }
+): { x: number; z: number } {
+  const bounds = siteBounds(layout);
+  const parts = Math.max(1, Math.ceil(Math.hypot(step.x, step.z) / MAX_STEP));
+  let position = { x: from.x, z: from.z };
+
+  for (let i = 0; i < parts; i++) {
+    position = pushOut(collider, elevation, { x: position.x + step.x / parts, z: position.z + step.z / parts });
+    position.x = Math.min(bounds.maxX, Math.max(bounds.minX, position.x));
+    position.z = Math.min(bounds.maxZ, Math.max(bounds.minZ, position.z));
+  }
+
+  return position;
+}
+
+/**
+ * Whether the walker fits at (x, z) without touching anything
+ */
+export function isClear(collider: MeshBVH, elevation: number, spot: { x: number; z: number }): boolean {
+  const segment = capsule(elevation, spot);
+  const box = new THREE.Box3().setFromPoints([segment.start, segment.end]).expandByScalar(RADIUS);
+  return !collider.shapecast({
+    intersectsBounds: bounds => bounds.intersectsBox(box),
+    intersectsTriangle: triangle => triangle.closestPointToSegment(segment) < RADIUS
+  });
+}
+
+/**
+ * Somewhere free to stand on a floor: the preferred spot when it is inside
+ * a room and clear, otherwise the free spot nearest the middle of the room
+ * the walker is best started in, which is the hall the front door opens
+ * into, then the staircase, then the largest room
+ */
+export function findSpot(layout: HouseLayout, floor: number, collider: MeshBVH, preferred?: { x: number; z: number }): { x: number; z: number } {
+  const elevation = floorElevation(layout, floor);
+  const rooms = layout.rooms.filter(room => room.floor === floor);
+  const inside = (room: Room, spot: { x: number; z: number }) =>
+    spot.x > room.position.x && spot.x < room.position.x + room.dimensions.width &&
+    spot.z > room.position.z && spot.z < room.position.z + room.dimensions.length;
+
+  if (preferred && rooms.some(room => inside(room, preferred)) && isClear(collider, elevation, preferred)) {
+    return preferred;
+  }
+
+  const entrance = layout.openings.find(opening => opening.type === 'door' && !opening.connectsTo && opening.wall === 'south' &&
+    rooms.some(room => room.id === opening.roomId && room.type !== 'garage'));
+  const rank = (room: Room) => (entrance && room.id === entrance.roomId ? 2 : room.type === 'staircase' ? 1 : 0);
+  const ordered = rooms.slice().sort((a, b) =>
+    rank(b) - rank(a) || b.dimensions.width * b.dimensions.length - a.dimensions.width * a.dimensions.length);
+
+  for (const room of ordered) {
+    const centre = { x: room.position.x + room.dimensions.width / 2, z: room.position.z + room.dimensions.length / 2 };
+    const spots: { x: number; z: number }[] = [];
+    for (let x = room.position.x + RADIUS; x < room.position.x + room.dimensions.width - RADIUS; x += SEARCH_STEP) {
+      for (let z = room.position.z + RADIUS; z < room.position.z + room.dimensions.length - RADIUS; z += SEARCH_STEP) {
+        spots.push({ x, z });
+      }
+    }
+    const free = spots
+      .sort((a, b) => Math.hypot(a.x - centre.x, a.z - centre.z) - Math.hypot(b.x - centre.x, b.z - centre.z))
+      .find(spot => isClear(collider, elevation, spot));
+    if (free) {
+      return free;
+    }
+  }
+
+  return preferred || { x: layout.width / 2, z: -1 };
+}
+
+/**
+ * Push the walker out of anything it overlaps, across the ground only
+ */
+function pushOut(collider: MeshBVH, elevation: number, spot: { x: number; z: number }): { x: number; z: number } {
+  const segment = capsule(elevation, spot);
+  const onTriangle = new THREE.Vector3();
+  const onSegment = new THREE.Vector3();
+  const push = new THREE.Vector3();
+
+  for (let pass = 0; pass < PUSH_PASSES; pass++) {
+    let moved = false;
+    const box = new THREE.Box3().setFromPoints([segment.start, segment.end]).expandByScalar(RADIUS);
+    collider.shapecast({
+      intersectsBounds: bounds => bounds.intersectsBox(box),
+      intersectsTriangle: triangle => {
+        const distance = triangle.closestPointToSegment(segment, onTriangle, onSegment);
+        push.subVectors(onSegment, onTriangle).setY(0);
+        // A face the capsule passes straight through, such as a table top, is left to the faces round its sides
+        if (distance >= RADIUS || push.lengthSq() < 1e-12) {
+          return;
+        }
+        push.normalize().multiplyScalar(RADIUS - distance);
+        segment.start.add(push);
+        segment.end.add(push);
+        moved = true;
+      }
+    });
+    if (!moved) {
+      break;
+    }
+  }
+
+  return { x: segment.start.x, z: segment.start.z };
+}
+
+function capsule(elevation: number, spot: { x: number; z: number }): THREE.Line3 {
+  return new THREE.Line3(
+    new THREE.Vector3(spot.x, elevation + KNEE_HEIGHT + RADIUS, spot.z),
+    new THREE.Vector3(spot.x, elevation + HEAD_HEIGHT - RADIUS, spot.z)
+  );
+}
+
+/**
+ * Steps and landing of a staircase, matching the viewer's StaircaseSteps
+ */
+function addStairs(room: Room, addBox: (size: [number, number, number], centre: [number, number, number]) => void): void {
+  const { width, length, height } = room.dimensions;
+  const { x, y, z } = room.position;
+  const { stepsPerFlight, riser, tread, flightWidth, landingDepth } = getStairGeometry({ width, length, height });
+
+  for (let i = 0; i < stepsPerFlight; i++) {
+    addBox([flightWidth, riser * (i + 1), tread], [x + flightWidth / 2, y + riser * (i + 1) / 2, z + tread * (i + 0.5)]);
+    addBox([flightWidth, riser, tread], [x + flightWidth * 1.5, y + height / 2 + riser * (i + 0.5), z + length - landingDepth - tread * (i + 0.5)]);
+  }
+  addBox([width, 0.1, landingDepth], [x + width / 2, y + height / 2 - 0.05, z + length - landingDepth / 2]);
+}
@@ -0,0 +1,106 @@
+/**
+ * Zip Writer
+ * Bundles files into an uncompressed (stored) zip archive. Enough for
+ * already-compressed content such as PNG images, with no dependencies.
+ */
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+const UTF8_NAMES = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Pack files, keyed by path inside the archive, into a zip
+ */
+export function encodeZip(files: Record<string, Uint8Array>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const entries = Object.keys(files).map(path => ({ name: encoder.encode(path), data: files[path], crc: crc32(files[path]), offset: 0 }));
+  const { time, date } = dosDateTime(new Date());
+
+  const localSize = entries.reduce((total, entry) => total + 30 + entry.name.byteLength + entry.data.byteLength, 0);
+  const centralSize = entries.reduce((total, entry) => total + 46 + entry.name.byteLength, 0);
+  const buffer = new ArrayBuffer(localSize + centralSize + 22);
+  const output = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  // Local file headers, each followed by the file contents
+  entries.forEach(entry => {
+    entry.offset = offset;
+    view.setUint32(offset, LOCAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // Version needed to extract
+    view.setUint16(offset + 6, UTF8_NAMES, true);
+    view.setUint16(offset + 8, 0, true); // Stored, no compression
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.byteLength, true);
+    view.setUint32(offset + 22, entry.data.byteLength, true);
+    view.setUint16(offset + 26, entry.name.byteLength, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(entry.name, offset + 30);
+    output.set(entry.data, offset + 30 + entry.name.byteLength);
+    offset += 30 + entry.name.byteLength + entry.data.byteLength;
+  });
+
+  // Central directory
+  const directoryStart = offset;
+  entries.forEach(entry => {
+    view.setUint32(offset, CENTRAL_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, UTF8_NAMES, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.byteLength, true);
+    view.setUint32(offset + 24, entry.data.byteLength, true);
+    view.setUint16(offset + 28, entry.name.byteLength, true);
+    view.setUint32(offset + 42, entry.offset, true); // Comment, disk and attribute fields stay zero
+    output.set(entry.name, offset + 46);
+    offset += 46 + entry.name.byteLength;
+  });
+
+  view.setUint32(offset, END_OF_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - directoryStart, true);
+  view.setUint32(offset + 16, directoryStart, true);
+
+  return buffer;
+}
+
+/**
+ * CRC-32 checksum as used by zip
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.byteLength; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS time and date fields used for zip timestamps
+ */
+function dosDateTime(now: Date): { time: number; date: number } {
+  return {
+    time: (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2),
+    date: ((Math.max(now.getFullYear(), 1980) - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  };
+}